@@ -32,10 +32,18 @@ import {
   Download,
   ChevronDown,
   ExternalLink,
-  Loader2
+  Loader2,
+  Cpu,
+  Users,
+  MapPin,
+  Clapperboard,
+  AlertTriangle,
+  Table2,
+  History,
+  ListChecks,
+  ClipboardPaste
 } from 'lucide-react';
 import {
-  questions,
   preloadedKnowledgeBase,
   STAGE_WIDTH,
   STAGE_HEIGHT,
@@ -53,11 +61,21 @@ import {
   TIMING,
   NUMERIC,
   MIDJOURNEY,
+  IMAGE_GENERATION,
   REGEX
 } from './constants';
-import { originalQuestions, getPhaseForQuestion, phaseMetadata } from './constants-original';
 import { ProgressBoxes } from './components/ProgressBoxes';
 import { StoryIdeationModal } from './components/StoryIdeationModal';
+import { AISettingsModal } from './components/AISettingsModal';
+import { CharacterBibleModal } from './components/CharacterBibleModal';
+import { LocationRegistryModal } from './components/LocationRegistryModal';
+import { DialogueCoverageModal } from './components/DialogueCoverageModal';
+import { ShotMatrixModal } from './components/ShotMatrixModal';
+import { PromptVersionsModal } from './components/PromptVersionsModal';
+import { ModelAdaptersModal } from './components/ModelAdaptersModal';
+import { ShotContinuityControls } from './components/ShotContinuityControls';
+import { QuestionSetsModal } from './components/QuestionSetsModal';
+import { AIQueueIndicator } from './components/AIQueueIndicator';
 import { PromptsExport } from './components/PromptsExport';
 import { appLogger } from './lib/logger';
 import { StoryContext } from './services/storyIdeationService';
@@ -74,6 +92,7 @@ import {
     Stage,
     CameraEasing,
     CompositionCharacter,
+    CharacterProfile,
     StoryboardShot,
     AnyTimelineItem,
     ShotItem,
@@ -82,6 +101,8 @@ import {
     BrollItem,
     TransitionItem,
     TextItem,
+    ModelAdapterProfile,
+    QuestionSet,
 } from './types';
 import { VisualProgressTracker } from './components/VisualProgressTracker';
 import { StoryIdeation } from './components/StoryIdeation';
@@ -92,7 +113,7 @@ import {
     enhanceShotPrompt,
     generateStoryFromIdea,
     getRandomInspiration,
-    generateStoryboard,
+    estimateStoryboardShotCount,
     generateVideoPrompt,
     getTimelineSuggestion,
     analyzeSequenceStyle,
@@ -102,9 +123,35 @@ import {
     makeExplainerPromptCinematic,
     getKnowledgeBasedSuggestions,
 } from './services/geminiService';
+import { storyboardChunkService, mergeChunkShots, spliceChunkShots, estimateStoryboardUsage, ChunkedStoryboard, StoryboardChunk, ScriptFormat, DEFAULT_MAX_CHUNK_CHARS } from './services/storyboardChunkService';
+import { looksLikeFountain } from './utils/fountain';
+import { importFinalDraft } from './utils/finalDraft';
+import { segmentScriptBeats, planBeatShots, summarizeBeats, describeBeat, ScriptBeat } from './services/scriptBeatService';
+import { planDialogueCoverage, crossesActionLine, isTwoPersonDialogue, CoverageShot } from './services/dialogueCoverageService';
+import { lintPrompt, PromptLintFix } from './services/promptLintService';
+import { formatForAdapter } from './services/modelAdapterService';
+import { CAMERA_BODIES, CameraSetup, DEFAULT_CAMERA_MOVEMENT, LENS_SETS, cameraFromAnswers, computeOptics, describeOptics, fieldOfViewCone, getLensSet, resetCameraMovement } from './services/cameraLensService';
+import { builderSeedRule, continuityAdapterData, resolveShotContinuity, startContinuity } from './services/shotContinuityService';
+import { useModelAdapters } from './hooks/use-model-adapters';
+import { useQuestionSets } from './hooks/use-question-sets';
+import { answerField, questionPhases } from './services/questionSetService';
+import { importImagePrompt, importedAnswers } from './services/promptImportService';
+import { startPromptHistory, recordPromptVersion, checkoutPromptVersion, ensurePromptHistory } from './services/promptVersionService';
+import { extractPdfText, formatPdfText, looksLikeScreenplayLayout, pdfScreenplayToFountain } from './utils/pdfText';
+import { ImportedScreenplay } from './utils/screenplay';
+import { describeShotSpec, getValueForShot, shotCountOf } from './utils/shotMatrix';
+import { tokenBudgetingSystem } from './services/tokenBudgetService';
+import { aiProviderService } from './services/aiProviderService';
+import { isAbortError, throwIfAborted } from './services/aiSchedulerService';
+import { useAbortableTasks } from './hooks/use-abortable-tasks';
 import { huggingFaceService } from './services/huggingFaceService';
 import { genreIntelligenceService } from './services/genreIntelligenceService';
 import { moduleCollaborationService } from './services/moduleCollaborationService';
+import { DEFAULT_PROJECT_ID, projectService } from './services/projectService';
+import { applyCharacterDescriptors, castComposition, characterBibleService, extractCharactersFromIdeation, extractCharactersFromScript, linkedCharacterIds } from './services/characterBibleService';
+import { useCharacterBible } from './hooks/use-character-bible';
+import { locationRegistryService, applyLocationDescriptor, resolveSceneLocations } from './services/locationRegistryService';
+import { useLocationRegistry } from './hooks/use-location-registry';
 import { 
     loadUserProgress, 
     saveUserProgress, 
@@ -115,84 +162,6 @@ import {
 /* AI MODEL PROMPT FORMATTING */
 // #############################################################################################
 
-// AI Model configurations for prompt formatting
-export interface AIModel {
-  id: string;
-  name: string;
-  description: string;
-  promptPrefix?: string;
-  promptSuffix?: string;
-  aspectRatio?: string;
-  styleModifiers?: string[];
-  website?: string;
-}
-
-const AI_MODELS: AIModel[] = [
-  {
-    id: 'midjourney',
-    name: 'Midjourney',
-    description: 'High-quality artistic image generation',
-    promptPrefix: '/imagine prompt:',
-    website: 'https://midjourney.com'
-  },
-  {
-    id: 'dalle',
-    name: 'DALL-E',
-    description: 'OpenAI\'s advanced image generation',
-    promptPrefix: '',
-    website: 'https://openai.com/dall-e'
-  },
-  {
-    id: 'stable-diffusion',
-    name: 'Stable Diffusion',
-    description: 'Open-source image generation',
-    promptPrefix: '',
-    website: 'https://stability.ai'
-  },
-  {
-    id: 'leonardo-ai',
-    name: 'Leonardo AI',
-    description: 'Professional AI image generation',
-    promptPrefix: '',
-    website: 'https://leonardo.ai'
-  },
-  {
-    id: 'firefly',
-    name: 'Adobe Firefly',
-    description: 'Commercial-safe image generation',
-    promptPrefix: '',
-    website: 'https://firefly.adobe.com'
-  },
-  {
-    id: 'ideogram',
-    name: 'Ideogram',
-    description: 'Text-aware image generation',
-    promptPrefix: '',
-    website: 'https://ideogram.ai'
-  },
-  {
-    id: 'flux',
-    name: 'Flux',
-    description: 'High-quality text-to-image',
-    promptPrefix: '',
-    website: 'https://fal.ai/models/fal-ai/flux'
-  },
-  {
-    id: 'runway',
-    name: 'Runway ML',
-    description: 'Creative AI for image and video',
-    promptPrefix: '',
-    website: 'https://runwayml.com'
-  },
-  {
-    id: 'bluewillow',
-    name: 'BlueWillow',
-    description: 'Free AI image generation',
-    promptPrefix: '/imagine prompt:',
-    website: 'https://bluewillow.ai'
-  }
-];
-
 // Error Boundary Component for better error handling
 class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasError: boolean, error?: Error}> {
   constructor(props: {children: React.ReactNode}) {
@@ -268,58 +237,11 @@ const validateFile = (file: File, maxSize: number, allowedTypes: string[]) => {
     return null;
 };
 
-// Format prompt for different AI models
-const formatPromptForModel = (shot: StoryboardShot, model: AIModel): string => {
-  const basePrompt = `${shot.shotDetails.shotType} ${shot.shotDetails.cameraAngle}. ${shot.shotDetails.description}. ${shot.shotDetails.lightingMood} lighting. ${shot.shotDetails.cameraMovement} camera movement.`;
-  
-  let formattedPrompt = '';
-  
-  switch (model.id) {
-    case 'midjourney':
-    case 'bluewillow':
-      // Midjourney-specific formatting
-      const midjourneyPrompt = `${basePrompt} --ar ${MIDJOURNEY.DEFAULT_ASPECT_RATIO} ${MIDJOURNEY.STYLE_FLAG} ${MIDJOURNEY.VERSION_FLAG}`;
-      formattedPrompt = model.promptPrefix ? `${model.promptPrefix} ${midjourneyPrompt}` : midjourneyPrompt;
-      break;
-    
-    case 'stable-diffusion':
-      // Stable Diffusion specific formatting
-      formattedPrompt = `${basePrompt}, high quality, cinematic lighting, professional photography, 8k resolution`;
-      break;
-    
-    case 'dalle':
-    case 'firefly':
-      // DALL-E and Firefly prefer concise, clear prompts
-      formattedPrompt = basePrompt;
-      break;
-    
-    case 'leonardo-ai':
-      // Leonardo AI specific formatting
-      formattedPrompt = `${basePrompt}, masterpiece, high detail, professional quality`;
-      break;
-    
-    case 'ideogram':
-      // Ideogram specific formatting for text-aware generation
-      formattedPrompt = `${basePrompt}, sharp focus, detailed, cinematic`;
-      break;
-    
-    case 'flux':
-      // Flux specific formatting
-      formattedPrompt = `${basePrompt}, ultra detailed, photorealistic, 4k`;
-      break;
-    
-    case 'runway':
-      // Runway ML formatting for creative generation
-      formattedPrompt = `${basePrompt}, artistic interpretation, creative composition`;
-      break;
-    
-    default:
-      formattedPrompt = basePrompt;
-  }
-  
-  // Remove any URLs from the final prompt
-  return formattedPrompt.replace(/https?:\/\/[^\s]+/g, '').trim();
-};
+// The storyboard shot as a prompt, with its location and character descriptors
+const storyboardShotPrompt = (shot: StoryboardShot): string => characterBibleService.applyToPrompt(applyLocationDescriptor(
+  `${shot.shotDetails.shotType} ${shot.shotDetails.cameraAngle}. ${shot.shotDetails.description}. ${shot.shotDetails.lightingMood} lighting. ${shot.shotDetails.cameraMovement} camera movement.`,
+  locationRegistryService.findForHeading(shot.sceneHeading)
+));
 
 // #############################################################################################
 // HELPER FUNCTIONS & DEFAULTS
@@ -357,10 +279,20 @@ const getCameraLinePosition = (height: string, angle: string): { x1: number; y1:
     return { x1, y1: heightPos.y1, x2, y2: heightPos.y2 };
 };
 
+const defaultPromptData: PromptData = {
+    scriptText: '', sceneCore: '', emotion: '', numberOfShots: '3', cameraType: 'Arri Alexa 65', shotTypes: '', focalLength: '35mm cinematic', depthOfField: 'f/2.8 cinematic shallow', framing: 'rule of thirds', mainCharacterBlocking: '', secondaryCharacterBlocking: '', antagonistBlocking: '', lightingStyle: 'chiaroscuro contrast', lightingDetails: '', atmosphere: '', filmStock: 'Kodak Vision3 500T 5219', filmEmulation: '', colorGrading: 'teal-orange tension', colorPalette: '', storyBeat: '', visualToneKeywords: '', continuityMode: 'tight continuity', seedLinking: 'use previous seeds', resolution: '4K render', outputType: 'cinematic frame', visualCompositionGuide: '', visualCameraSetup: '', visualLightingSetup: '', visualLightingMood: '', visualColorPalette: '', visualColorHarmony: '', visualCameraMovement: '', visualFocusMotion: ''
+};
+// Answers saved before projects had ids: a titled project keeps the scope its title gave it,
+// an untitled one stays on the current project
+const withProjectId = (data: PromptData, currentProjectId?: string): PromptData =>
+    data.projectId ? data : { ...data, projectId: formatValue(data.projectTitle) ? projectService.toProjectId(data.projectTitle) : currentProjectId };
+
+// Builder questions that can name the camera body or lens
+const CAMERA_ANSWER_FIELDS = ['cameraType', 'cameraChoice', 'focalLength'];
+
 const defaultComposition: CompositionData = { characters: [{ id: 'char-1', name: 'Subject A', x: 400, y: 225 }, { id: 'char-2', name: 'Subject B', x: 280, y: 260 }], cameraAngle: 'true-eye, honest', cameraHeight: 'eye-level witness' };
 const defaultLighting: LightingData = { keyLightIntensity: 80, keyLightColor: '#FFD8A8', fillLightIntensity: 40, fillLightColor: '#89CFF0', backLightIntensity: 60, backLightColor: '#FACC15', ambientIntensity: 20, colorTemperature: 4500, mood: lightingMoodOptions[0] };
 const defaultColorGrading: ColorGradingData = { colorGrade: 'Dreamer Grade', saturation: 10, contrast: 5, highlights: 5, shadows: -5, colorPalette: ['#0F172A', '#1E293B', '#475569', '#F97316', '#FBBF24', '#FDE68A', '#38BDF8', '#A855F7'], colorHarmony: colorHarmonyOptions[0] };
-const defaultCameraMovement: CameraMovementData = { movementType: movementTypes[0], startPos: { x: 100, y: 300 }, endPos: { x: 700, y: 150 }, duration: 5, easing: 'ease-in-out', focalLength: 35 };
 
 // #############################################################################################
 // COMPONENT: VISUAL EDITORS
@@ -372,9 +304,12 @@ interface CompositionEditorProps {
     onRemoveCharacter: (characterId: string) => void;
     onDrag: (characterId: string, event: React.MouseEvent<SVGCircleElement, MouseEvent>) => void;
     onNameChange: (characterId: string, name: string) => void;
+    onLinkCharacter: (characterId: string, profile: CharacterProfile | null) => void;
     onCameraAngleChange: (angle: string) => void;
     onCameraHeightChange: (height: string) => void;
     onPositionChange: (characterId: string, x: number, y: number) => void;
+    /** The shot's camera body and lens, for the field-of-view cone */
+    cameraSetup: CameraSetup;
 }
   
 interface LightingEditorProps {
@@ -389,8 +324,10 @@ interface ColorGradingEditorProps {
   
 interface CameraMovementEditorProps {
     camera: CameraMovementData;
-    onChange: (field: keyof CameraMovementData, value: number | string | { x: number; y: number }) => void;
+    onChange: (field: keyof CameraMovementData, value: number | string | { x: number; y: number } | undefined) => void;
     onPathChange: (key: 'startPos' | 'endPos', coord: 'x' | 'y', value: number) => void;
+    /** Put the whole camera back to the defaults in one update */
+    onReset: () => void;
 }
 
 const CompositionEditor = React.memo<CompositionEditorProps>(({ 
@@ -399,10 +336,14 @@ const CompositionEditor = React.memo<CompositionEditorProps>(({
     onRemoveCharacter, 
     onDrag, 
     onNameChange, 
+    onLinkCharacter,
     onCameraAngleChange, 
     onCameraHeightChange, 
-    onPositionChange 
+    onPositionChange,
+    cameraSetup
 }) => {
+    const profiles = useCharacterBible();
+
     // Memoize expensive callbacks to prevent unnecessary re-renders
     const handleAddCharacter = useCallback(() => {
         onAddCharacter();
@@ -466,12 +407,25 @@ const CompositionEditor = React.memo<CompositionEditorProps>(({
         );
     }, [onPositionChange]);
 
+    // Coverage shots carry the 180-degree line between their two speakers
+    const lineEnds = composition.actionLine?.characterIds.map(id => composition.characters.find(character => character.id === id));
+    const actionLine = lineEnds?.[0] && lineEnds[1] ? { from: lineEnds[0], to: lineEnds[1] } : null;
+    const crossesLine = crossesActionLine(composition);
+    const sightLine = composition.camera
+        ? { from: composition.camera, to: composition.camera.target }
+        : (() => { const linePos = getCameraLinePosition(composition.cameraHeight, composition.cameraAngle); return { from: { x: linePos.x1, y: linePos.y1 }, to: { x: linePos.x2, y: linePos.y2 } }; })();
+    const horizontalFov = computeOptics(cameraSetup).horizontalFov;
+    const fovCone = fieldOfViewCone(sightLine.from, sightLine.to, horizontalFov, Math.hypot(STAGE_WIDTH, STAGE_HEIGHT));
+
     return (
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <div>
               <h3 className="text-lg font-semibold text-amber-400">Composition Grid</h3>
               <p className="text-sm text-gray-400">Arrange characters and camera posture.</p>
+              {crossesLine && (
+                <p className="flex items-center gap-1.5 text-xs text-red-300 mt-1"><AlertTriangle className="w-3.5 h-3.5" />The camera is on the wrong side of the 180-degree line for this exchange.</p>
+              )}
             </div>
             <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={handleAddCharacter} className="px-3 py-2 text-sm rounded-lg bg-amber-500/20 text-amber-400 border border-amber-500/40 hover:bg-amber-500/30">
               Add Character
@@ -489,7 +443,22 @@ const CompositionEditor = React.memo<CompositionEditorProps>(({
                     <line x1={(STAGE_WIDTH / 3) * 2} y1={0} x2={(STAGE_WIDTH / 3) * 2} y2={STAGE_HEIGHT} stroke="#1f2937" strokeWidth="1" strokeDasharray="4 4" />
                     <line x1={0} y1={STAGE_HEIGHT / 3} x2={STAGE_WIDTH} y2={STAGE_HEIGHT / 3} stroke="#1f2937" strokeWidth="1" strokeDasharray="4 4" />
                     <line x1={0} y1={(STAGE_HEIGHT / 3) * 2} x2={STAGE_WIDTH} y2={(STAGE_HEIGHT / 3) * 2} stroke="#1f2937" strokeWidth="1" strokeDasharray="4 4" />
-                    {(() => { const linePos = getCameraLinePosition(composition.cameraHeight, composition.cameraAngle); return <line x1={linePos.x1} y1={linePos.y1} x2={linePos.x2} y2={linePos.y2} stroke="#3b82f6" strokeWidth="2" strokeDasharray="8 6" />; })()}
+                    <polygon points={fovCone.map(point => `${point.x},${point.y}`).join(' ')} fill={crossesLine ? '#ef4444' : '#3b82f6'} fillOpacity={0.08} stroke={crossesLine ? '#ef4444' : '#3b82f6'} strokeOpacity={0.35} strokeWidth="1">
+                        <title>{`${horizontalFov.toFixed(1)}° horizontal field of view`}</title>
+                    </polygon>
+                    {composition.camera ? (
+                        <g>
+                            <line x1={composition.camera.x} y1={composition.camera.y} x2={composition.camera.target.x} y2={composition.camera.target.y} stroke={crossesLine ? '#ef4444' : '#3b82f6'} strokeWidth="2" strokeDasharray="8 6" />
+                            <circle cx={composition.camera.x} cy={composition.camera.y} r={10} fill={crossesLine ? '#ef4444' : '#3b82f6'} />
+                        </g>
+                    ) : (() => { const linePos = getCameraLinePosition(composition.cameraHeight, composition.cameraAngle); return <line x1={linePos.x1} y1={linePos.y1} x2={linePos.x2} y2={linePos.y2} stroke="#3b82f6" strokeWidth="2" strokeDasharray="8 6" />; })()}
+                    {actionLine && (
+                        <line
+                            x1={actionLine.from.x - (actionLine.to.x - actionLine.from.x) * 4} y1={actionLine.from.y - (actionLine.to.y - actionLine.from.y) * 4}
+                            x2={actionLine.to.x + (actionLine.to.x - actionLine.from.x) * 4} y2={actionLine.to.y + (actionLine.to.y - actionLine.from.y) * 4}
+                            stroke="#ef4444" strokeWidth="1.5" strokeDasharray="10 8" opacity={0.6}
+                        />
+                    )}
                     {(composition?.characters || []).map((character: CompositionCharacter) => (
                     <g key={character.id}>
                         <circle cx={character.x} cy={character.y} r={16} fill="#f59e0b" className="cursor-grab" onMouseDown={(event) => handleCharacterDrag(character.id, event)} />
@@ -506,6 +475,12 @@ const CompositionEditor = React.memo<CompositionEditorProps>(({
                     <input value={character.name} onChange={(event) => handleNameChange(character.id, event.target.value)} className="w-full text-sm bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500" placeholder="Character name" />
                     <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => handleRemoveCharacter(character.id)} className="ml-2 p-2 rounded bg-gray-800 hover:bg-gray-700"><Trash2 className="w-4 h-4 text-red-400" /></motion.button>
                     </div>
+                    {profiles.length > 0 && (
+                    <select value={character.characterId || ''} onChange={(event) => onLinkCharacter(character.id, profiles.find(profile => profile.id === event.target.value) || null)} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-xs text-white focus:outline-none focus:border-amber-500">
+                        <option value="">Not linked to the character bible</option>
+                        {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                    </select>
+                    )}
                     <div className="grid grid-cols-2 gap-2 text-xs text-gray-400"><span>X: {Math.round(character.x)}</span><span>Y: {Math.round(character.y)}</span></div>
                 </div>
                 ))}
@@ -648,7 +623,9 @@ const ColorGradingEditor = React.memo<ColorGradingEditorProps>(({ color, onChang
 });
 ColorGradingEditor.displayName = 'ColorGradingEditor';
 
-const CameraMovementEditor = React.memo<CameraMovementEditorProps>(({ camera, onChange, onPathChange }) => {
+const CameraMovementEditor = React.memo<CameraMovementEditorProps>(({ camera, onChange, onPathChange, onReset }) => {
+    const optics = computeOptics(camera);
+    const lensSet = getLensSet(camera.lensSetId);
     const updateMovement = (field: keyof CameraMovementData, value: number | string) => {
         if (field === 'duration' && typeof value === 'number') {
             // Validate duration: 1-30 seconds
@@ -670,13 +647,26 @@ const CameraMovementEditor = React.memo<CameraMovementEditorProps>(({ camera, on
       <div className="space-y-4">
         <div className="flex items-center justify-between">
           <div><h3 className="text-lg font-semibold text-amber-400">Camera Motion Lab</h3><p className="text-sm text-gray-400">Define movement, path, easing, and focal rhythm.</p></div>
-          <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => { onChange('movementType', movementTypes[0]); onChange('duration', 5); onChange('easing', 'ease-in-out'); onChange('focalLength', 35); onPathChange('startPos', 'x', 100); onPathChange('startPos', 'y', 300); onPathChange('endPos', 'x', 700); onPathChange('endPos', 'y', 150); }} className="px-3 py-2 text-sm rounded-lg bg-gray-800 hover:bg-gray-700">Reset Motion</motion.button>
+          <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={onReset} className="px-3 py-2 text-sm rounded-lg bg-gray-800 hover:bg-gray-700">Reset Motion</motion.button>
         </div>
         <div className="grid md:grid-cols-2 gap-4">
           <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Movement Type</label><select value={camera.movementType} onChange={(event) => updateMovement('movementType', event.target.value)} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500">{movementTypes.map(option => <option key={option} value={option}>{option}</option>)}</select></div>
           <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Duration (seconds)</label><input type="number" value={camera.duration} onChange={(event) => updateMovement('duration', Number(event.target.value))} min={1} max={30} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500" /></div>
           <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Easing</label><select value={camera.easing} onChange={(event) => updateMovement('easing', event.target.value as CameraEasing)} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500">{easingOptions.map(option => <option key={option} value={option}>{option}</option>)}</select></div>
-          <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Focal Length (mm)</label><input type="number" value={camera.focalLength} onChange={(event) => updateMovement('focalLength', Number(event.target.value))} min={10} max={200} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500" /></div>
+          <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Focal Length (mm)</label><input type="number" list="lens-set-focal-lengths" value={camera.focalLength} onChange={(event) => updateMovement('focalLength', Number(event.target.value))} min={10} max={200} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500" /><datalist id="lens-set-focal-lengths">{(lensSet?.focalLengths || []).map(focal => <option key={focal} value={focal} />)}</datalist></div>
+          <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Camera Body</label><select value={camera.cameraBodyId || ''} onChange={(event) => onChange('cameraBodyId', event.target.value || undefined)} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500"><option value="">Unspecified (full frame)</option>{CAMERA_BODIES.map(body => <option key={body.id} value={body.id}>{body.name} · {body.format}</option>)}</select></div>
+          <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-3"><label className="text-xs text-gray-400 uppercase">Lens Set</label><select value={camera.lensSetId || ''} onChange={(event) => onChange('lensSetId', event.target.value || undefined)} className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white focus:outline-none focus:border-amber-500"><option value="">Any lens</option>{LENS_SETS.map(lens => <option key={lens.id} value={lens.id}>{lens.name}</option>)}</select></div>
+        </div>
+        <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-semibold text-amber-400 uppercase">Optics</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div><p className="text-xs text-gray-500">Field of view</p><p className="text-white">{optics.horizontalFov.toFixed(1)}° × {optics.verticalFov.toFixed(1)}°</p></div>
+            <div><p className="text-xs text-gray-500">Crop factor</p><p className="text-white">{optics.cropFactor.toFixed(2)}x</p></div>
+            <div><p className="text-xs text-gray-500">Full-frame equivalent (diagonal)</p><p className="text-white">{Math.round(optics.equivalentFocalLength)}mm{optics.desqueezedFocalLength !== undefined && <span className="text-xs text-gray-400"> · {Math.round(optics.desqueezedFocalLength)}mm desqueezed</span>}</p></div>
+            <div><p className="text-xs text-gray-500">Perspective</p><p className="text-white capitalize">{optics.perspective}</p></div>
+          </div>
+          {optics.vignettes && <p className="flex items-center gap-1.5 text-xs text-red-300"><AlertTriangle className="w-3.5 h-3.5" />{lensSet?.name} cover a {lensSet?.imageCircle}mm image circle, smaller than this sensor; the corners will vignette.</p>}
+          {lensSet && !lensSet.focalLengths.includes(camera.focalLength) && <p className="text-xs text-gray-500">{lensSet.name} come in {lensSet.focalLengths.join(', ')}mm.</p>}
         </div>
         <div className="bg-gray-900 border border-gray-800 rounded-lg p-4 space-y-4">
           <h4 className="text-sm font-semibold text-amber-400 uppercase">Path Coordinates</h4>
@@ -703,9 +693,12 @@ interface LandingPageProps {
     onStartStoryboard: (script: string) => void;
     onGenerateStory: (idea: string) => void;
     isGenerating: boolean;
+    /** Break a pasted image prompt into builder answers */
+    onImportPrompt: (prompt: string) => void;
+    isImporting: boolean;
 }
   
-const LandingPage: React.FC<LandingPageProps> = ({ onStartBuilder, onStartStoryboard, onGenerateStory, isGenerating }) => {
+const LandingPage: React.FC<LandingPageProps> = ({ onStartBuilder, onStartStoryboard, onGenerateStory, isGenerating, onImportPrompt, isImporting }) => {
     const [landingIdea, setLandingIdea] = useState('');
     const [showHeart, setShowHeart] = useState(false);
   
@@ -769,6 +762,15 @@ const LandingPage: React.FC<LandingPageProps> = ({ onStartBuilder, onStartStoryb
                 <><Lightbulb className="w-6 h-6" /><span className="text-lg">Let AI Dream (Expand Idea)</span></> 
               )}
             </motion.button>
+            <button
+              onClick={() => onImportPrompt(landingIdea)}
+              disabled={!landingIdea.trim() || isImporting}
+              className="text-sm text-gray-400 hover:text-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2 mx-auto"
+              title="Pull camera, lens, aperture, lighting, film stock and grade out of a Midjourney or Stable Diffusion prompt"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ClipboardPaste className="w-4 h-4" />}
+              <span>{isImporting ? 'Reading prompt...' : 'Pasted an existing image prompt? Open it in the builder'}</span>
+            </button>
           </motion.div>
           
           {/* Made by Himanshu with love */}
@@ -806,6 +808,8 @@ interface BuilderPageProps {
     handleRandomAnswer: (id: keyof PromptData, question: string) => void;
     isGeneratingRandom: boolean;
     generatePrompt: () => void;
+    isGeneratingSequence: boolean;
+    cancelGeneratePrompt: () => void;
     savedConfigurations: SavedConfiguration[];
     knowledgeDocs: KnowledgeDocument[];
     saveConfiguration: (name: string) => void;
@@ -817,13 +821,15 @@ interface BuilderPageProps {
     currentQuestionIndex: number;
     setCurrentQuestionIndex: React.Dispatch<React.SetStateAction<number>>;
     onBackToHome: () => void;
+    /** The questions the active project's builder asks */
+    questionSet: QuestionSet;
 }
   
 const BuilderPage: React.FC<BuilderPageProps> = ({ 
-    promptData, handleAnswer, handleRandomAnswer, isGeneratingRandom, generatePrompt, 
+    promptData, handleAnswer, handleRandomAnswer, isGeneratingRandom, generatePrompt, isGeneratingSequence, cancelGeneratePrompt,
     savedConfigurations, knowledgeDocs, saveConfiguration, loadConfiguration, 
     deleteConfiguration, deleteKnowledgeDoc, handleFileUpload, isProcessingDoc,
-    currentQuestionIndex, setCurrentQuestionIndex, onBackToHome
+    currentQuestionIndex, setCurrentQuestionIndex, onBackToHome, questionSet
 }) => {
     const [bestInsight, setBestInsight] = useState<CinematographyInsight | null>(null);
     const [isLoadingAI, setIsLoadingAI] = useState(false);
@@ -848,24 +854,34 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
     const [showLoadModal, setShowLoadModal] = useState(false);
     const [saveName, setSaveName] = useState('');
     const [showKnowledgePanel, setShowKnowledgePanel] = useState(false);
+    const [showAISettings, setShowAISettings] = useState(false);
+    const [showCharacterBible, setShowCharacterBible] = useState(false);
+    const [showLocations, setShowLocations] = useState(false);
+    const [showShotMatrix, setShowShotMatrix] = useState(false);
+    const [showQuestionSets, setShowQuestionSets] = useState(false);
+    const tasks = useAbortableTasks<'insight'>();
     
-    // Use original 27-28 question system
-    const activeQuestions = originalQuestions;
-    const currentQuestion = activeQuestions?.[currentQuestionIndex];
+    // The project's question set; switching sets can leave the index past its last question
+    const activeQuestions = questionSet.questions;
+    const currentQuestion = activeQuestions[Math.min(currentQuestionIndex, activeQuestions.length - 1)];
+    const answerKey = answerField(currentQuestion);
+    const phases = questionPhases(questionSet);
     const progress = activeQuestions && activeQuestions.length > 0 ? ((currentQuestionIndex + 1) / activeQuestions.length) * 100 : 0;
+    const scriptBeats = useMemo(() => summarizeBeats(segmentScriptBeats(formatValue(promptData.scriptText))), [promptData.scriptText]);
     
-    // Calculate current phase and completed phases for 8-box progress
-    const currentPhase = getPhaseForQuestion(currentQuestionIndex);
-    const completedPhases = Array.from(
-      { length: currentPhase - 1 }, 
-      (_, i) => i + 1
-    );
+    // Calculate current phase and completed phases for the progress boxes
+    const currentPhase = currentQuestion.phase;
+    const completedPhases = phases.filter(({ phase }) => phase < currentPhase).map(({ phase }) => phase);
+
+    useEffect(() => {
+        if (currentQuestionIndex >= activeQuestions.length) setCurrentQuestionIndex(0);
+    }, [activeQuestions, currentQuestionIndex, setCurrentQuestionIndex]);
     
     // Story Ideation state
     const [showStoryIdeation, setShowStoryIdeation] = useState(false);
   
     const toggleMultipleSelection = (option: string) => {
-        const key = currentQuestion.id as keyof PromptData;
+        const key = answerKey;
         const currentValue = promptData[key];
 
         if (typeof currentValue === 'boolean' || !currentQuestion.options) {
@@ -919,16 +935,13 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
     }, []);
 
     const fetchAISuggestions = async () => {
+        // Results are applied together at the end, so a cancelled request leaves the current insight in place
+        const signal = tasks.start('insight');
         setIsLoadingAI(true);
-        setBestInsight(null);
-        setKnowledgeInsights([]);
-        setNarrativeAnalysis(null);
-        setGenreProfile(null);
-        setGenreSuggestions([]);
 
         const previousAnswers = (activeQuestions || [])
-            .filter(q => q.id !== currentQuestion.id && promptData[q.id as keyof PromptData])
-            .map(q => `${q.question}: ${formatValue(promptData[q.id as keyof PromptData])}`)
+            .filter(q => answerField(q) !== answerKey && promptData[answerField(q)])
+            .map(q => `${q.question}: ${formatValue(promptData[answerField(q)])}`)
             .join('\n');
         
         const knowledgeContext = `KNOWLEDGE BASE:\n` + (knowledgeDocs || []).filter(doc => doc).map(doc => `[${doc?.name ?? 'Unknown'}]: Themes: ${doc?.extractedKnowledge?.themes?.join(', ') || 'N/A'}. Techniques: ${doc?.extractedKnowledge?.techniques?.join(', ') || 'N/A'}`).join('\n');
@@ -940,42 +953,58 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
             const { bestSuggestion, relevantKnowledge } = await getKnowledgeBasedSuggestions(
                 fullContext,
                 currentQuestion.question,
-                knowledgeDocs
+                knowledgeDocs,
+                { signal }
             );
             
             // Get genre intelligence analysis
+            let genre: typeof genreProfile = null;
+            let contextualGenreSuggestions: string[] = [];
             try {
-                const genre = await genreIntelligenceService.detectGenre(
+                genre = await genreIntelligenceService.detectGenre(
                     promptData.scriptText || '',
                     promptData
                 );
-                setGenreProfile(genre);
                 
                 // Get genre-specific suggestions for current question
-                const contextualGenreSuggestions = await genreIntelligenceService.getContextualQuestionHelp(
+                contextualGenreSuggestions = await genreIntelligenceService.getContextualQuestionHelp(
                     currentQuestion.question,
                     genre
                 );
-                setGenreSuggestions(contextualGenreSuggestions);
             } catch (genreError) {
                 appLogger.warn('Genre intelligence failed:', genreError);
             }
-            
-            setBestInsight(bestSuggestion ?? null);
-            setKnowledgeInsights(relevantKnowledge);
 
             // Also get local narrative analysis if HuggingFace is ready
-            if (huggingFaceReady) {
-                const analysis = await huggingFaceService.analyzeNarrative(fullContext);
-                setNarrativeAnalysis(analysis);
-            }
-        } catch (error) {
-            appLogger.error('Enhanced suggestions failed, falling back to basic AI suggestions:', error);
-            const { bestSuggestion } = await getAISuggestions(fullContext, currentQuestion.question, knowledgeDocs);
+            const analysis = huggingFaceReady ? await huggingFaceService.analyzeNarrative(fullContext) : null;
+
+            throwIfAborted(signal);
+            setGenreProfile(genre);
+            setGenreSuggestions(contextualGenreSuggestions);
             setBestInsight(bestSuggestion ?? null);
+            setKnowledgeInsights(relevantKnowledge);
+            setNarrativeAnalysis(analysis);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                appLogger.error('Enhanced suggestions failed, falling back to basic AI suggestions:', error);
+                try {
+                    const { bestSuggestion } = await getAISuggestions(fullContext, currentQuestion.question, knowledgeDocs, { signal });
+                    setBestInsight(bestSuggestion ?? null);
+                    setKnowledgeInsights([]);
+                    setNarrativeAnalysis(null);
+                    setGenreProfile(null);
+                    setGenreSuggestions([]);
+                } catch (fallbackError) {
+                    if (!isAbortError(fallbackError)) {
+                        appLogger.error('Basic AI suggestions failed:', fallbackError);
+                        toast.error('Unable to get AI suggestions. Please try again.');
+                    }
+                }
+            }
+        } finally {
+            tasks.finish('insight', signal);
+            setIsLoadingAI(false);
         }
-
-        setIsLoadingAI(false);
     };
 
     const applyBestInsight = useCallback(() => {
@@ -985,7 +1014,7 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
 
         try {
             handleAnswer(
-                currentQuestion.id as keyof PromptData,
+                answerKey,
                 bestInsight.text as PromptData[keyof PromptData]
             );
             toast.success('Insight applied to the answer.');
@@ -993,7 +1022,7 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
             appLogger.error('Failed to apply insight:', error);
             toast.error('Unable to apply the insight.');
         }
-    }, [bestInsight, currentQuestion, handleAnswer]);
+    }, [bestInsight, currentQuestion, answerKey, handleAnswer]);
 
     const copyBestInsight = useCallback(async () => {
         if (!bestInsight) {
@@ -1029,11 +1058,17 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
                     <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowSaveModal(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors"><Save className="w-5 h-5" /></motion.button>
                     <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowLoadModal(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors"><Upload className="w-5 h-5" /></motion.button>
                     <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowKnowledgePanel(!showKnowledgePanel)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors"><BookOpen className="w-5 h-5" /></motion.button>
+                    <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowAISettings(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors" title="AI Settings"><Cpu className="w-5 h-5" /></motion.button>
+                    <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowCharacterBible(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors" title="Character Bible"><Users className="w-5 h-5" /></motion.button>
+                    <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowLocations(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors" title="Locations"><MapPin className="w-5 h-5" /></motion.button>
+                    <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowShotMatrix(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors" title="Shot Matrix"><Table2 className="w-5 h-5" /></motion.button>
+                    <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowQuestionSets(true)} className="p-3 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors" title={`Question set: ${questionSet.name}`}><ListChecks className="w-5 h-5" /></motion.button>
                 </div>
             </div>
             
             {/* 8-Box Progress Indicator */}
             <ProgressBoxes 
+              phases={phases}
               currentPhase={currentPhase}
               completedPhases={completedPhases}
             />
@@ -1044,6 +1079,12 @@ const BuilderPage: React.FC<BuilderPageProps> = ({
             </div>
           </motion.div>
   
+          <AISettingsModal isOpen={showAISettings} onClose={() => setShowAISettings(false)} />
+          <CharacterBibleModal isOpen={showCharacterBible} onClose={() => setShowCharacterBible(false)} script={formatValue(promptData.scriptText)} />
+          <LocationRegistryModal isOpen={showLocations} onClose={() => setShowLocations(false)} script={formatValue(promptData.scriptText)} />
+          <ShotMatrixModal isOpen={showShotMatrix} onClose={() => setShowShotMatrix(false)} promptData={promptData} questions={activeQuestions} onChange={handleAnswer} />
+          <QuestionSetsModal isOpen={showQuestionSets} onClose={() => setShowQuestionSets(false)} />
+
           {/* Story Ideation Modal */}
           <StoryIdeationModal
             isOpen={showStoryIdeation}
@@ -1055,6 +1096,9 @@ CHARACTERS: ${ideation.characters.map(c => `${c.name} (${c.role}): ${c.motivatio
 PLOT: ${ideation.plotPoints.map(p => p.title).join(', ')}
 SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
               `.trim();
+              characterBibleService.merge(ideation.characters
+                .filter(c => c.name.trim())
+                .map(c => ({ name: c.name.trim(), age: '', appearance: c.traits.trim(), wardrobe: '', props: [], source: 'ideation' as const })));
               
               // Add to script text if available
               if (promptData.scriptText) {
@@ -1077,20 +1121,20 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                   <>
                     <div className="flex items-center justify-between p-4 bg-gray-900/50 border border-gray-800 rounded-xl">
                       <label className="flex items-center space-x-3 text-base text-gray-300 cursor-pointer">
-                        <input type="checkbox" checked={multipleMode} onChange={(e) => { const newMode = e.target.checked; setMultipleMode(newMode); if (!newMode) { const currentValue = promptData[currentQuestion.id as keyof PromptData]; if (Array.isArray(currentValue) && currentValue.length > 0) { handleAnswer(currentQuestion.id as keyof PromptData, currentValue[0]); } } }} className="w-5 h-5 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0" />
+                        <input type="checkbox" checked={multipleMode} onChange={(e) => { const newMode = e.target.checked; setMultipleMode(newMode); if (!newMode) { const currentValue = promptData[answerKey]; if (Array.isArray(currentValue) && currentValue.length > 0) { handleAnswer(answerKey, currentValue[0]); } } }} className="w-5 h-5 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0" />
                         <span>Enable multiple selection</span>
                       </label>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       {(currentQuestion?.options || []).map((option) => { 
-                        const currentValue = promptData[currentQuestion.id as keyof PromptData]; 
+                        const currentValue = promptData[answerKey]; 
                         const isSelected = multipleMode ? Array.isArray(currentValue) && currentValue.includes(option) : formatValue(currentValue) === option; 
                         return (
                           <motion.button 
                             key={option} 
                             whileHover={{ scale: 1.02 }} 
                             whileTap={{ scale: 0.98 }} 
-                            onClick={() => multipleMode ? toggleMultipleSelection(option) : handleAnswer(currentQuestion.id as keyof PromptData, option)} 
+                            onClick={() => multipleMode ? toggleMultipleSelection(option) : handleAnswer(answerKey, option)} 
                             className={`p-5 rounded-xl border-2 transition-all text-left ${ isSelected ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-900 border-gray-800 hover:border-gray-700 text-white hover:bg-gray-800' }`}
                           >
                             <span className="text-base font-medium">{option}</span>
@@ -1102,7 +1146,7 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                 ) : currentQuestion.type === 'multiselect' ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {(currentQuestion?.options || []).map((option) => { 
-                      const currentValue = promptData[currentQuestion.id as keyof PromptData]; 
+                      const currentValue = promptData[answerKey]; 
                       const isSelected = Array.isArray(currentValue) && currentValue.includes(option);
                       return (
                         <motion.button 
@@ -1120,8 +1164,8 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                 ) : currentQuestion.type === 'textarea' ? (
                   <div className="space-y-3">
                     <textarea 
-                      value={formatValue(promptData[currentQuestion.id as keyof PromptData])} 
-                      onChange={(e) => handleAnswer(currentQuestion.id as keyof PromptData, e.target.value)} 
+                      value={formatValue(promptData[answerKey])} 
+                      onChange={(e) => handleAnswer(answerKey, e.target.value)} 
                       placeholder={currentQuestion.placeholder} 
                       className="w-full h-40 p-5 bg-gray-900 border border-gray-800 rounded-xl text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none resize-none text-lg leading-relaxed" 
                       rows={5}
@@ -1131,8 +1175,8 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                   <div className="space-y-3">
                     <input 
                       type="number" 
-                      value={formatValue(promptData[currentQuestion.id as keyof PromptData])} 
-                      onChange={(e) => handleAnswer(currentQuestion.id as keyof PromptData, e.target.value)} 
+                      value={formatValue(promptData[answerKey])} 
+                      onChange={(e) => handleAnswer(answerKey, e.target.value)} 
                       placeholder={currentQuestion.placeholder} 
                       className="w-full p-5 bg-gray-900 border border-gray-800 rounded-xl text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none text-lg" 
                       min="1"
@@ -1143,20 +1187,34 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                   <div className="space-y-3">
                     <input 
                       type="text" 
-                      value={formatValue(promptData[currentQuestion.id as keyof PromptData])} 
-                      onChange={(e) => handleAnswer(currentQuestion.id as keyof PromptData, e.target.value)} 
+                      value={formatValue(promptData[answerKey])} 
+                      onChange={(e) => handleAnswer(answerKey, e.target.value)} 
                       placeholder={currentQuestion.placeholder} 
                       className="w-full p-5 bg-gray-900 border border-gray-800 rounded-xl text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none text-lg" 
                     />
                   </div>
                 )}
+                {answerKey === 'scriptText' && scriptBeats.beats > 0 && (
+                  <div className="flex items-center justify-between p-4 bg-gray-900/50 border border-gray-800 rounded-xl text-sm text-gray-300">
+                    <span>
+                      {scriptBeats.beats} beat{scriptBeats.beats === 1 ? '' : 's'} · about {scriptBeats.estimatedSeconds >= 60 ? `${Math.floor(scriptBeats.estimatedSeconds / 60)}m ${scriptBeats.estimatedSeconds % 60}s` : `${scriptBeats.estimatedSeconds}s`} on screen · {scriptBeats.suggestedShots} shots suggested
+                    </span>
+                    <button
+                      onClick={() => handleAnswer('numberOfShots', String(scriptBeats.suggestedShots))}
+                      disabled={formatValue(promptData.numberOfShots) === String(scriptBeats.suggestedShots)}
+                      className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-700 text-amber-400 hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                    >
+                      Use {scriptBeats.suggestedShots} shots
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <motion.button 
                   whileHover={{ scale: 1.02 }} 
                   whileTap={{ scale: 0.98 }} 
-                  onClick={() => handleRandomAnswer(currentQuestion.id as keyof PromptData, currentQuestion.question)} 
+                  onClick={() => handleRandomAnswer(answerKey, currentQuestion.question)} 
                   disabled={isGeneratingRandom} 
                   className="py-4 px-6 bg-gray-800 hover:bg-gray-700 text-white rounded-xl transition-colors flex items-center justify-center space-x-3 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
@@ -1166,8 +1224,8 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                 <motion.button 
                   whileHover={{ scale: 1.02 }} 
                   whileTap={{ scale: 0.98 }} 
-                  onClick={fetchAISuggestions} 
-                  disabled={isLoadingAI} 
+                  onClick={isLoadingAI ? () => tasks.cancel('insight') : fetchAISuggestions} 
+                  title={isLoadingAI ? 'Cancel' : undefined}
                   className={`py-4 px-6 rounded-xl transition-all flex items-center justify-center space-x-3 disabled:opacity-50 disabled:cursor-not-allowed ${
                     huggingFaceReady 
                       ? 'bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700' 
@@ -1175,7 +1233,7 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                   }`}
                 >
                   {isLoadingAI ? ( 
-                    <><div className="w-5 h-5 animate-spin rounded-full border-2 border-gray-300 border-t-white" /><span className="text-base">Dreamer is analyzing...</span></> 
+                    <><div className="w-5 h-5 animate-spin rounded-full border-2 border-gray-300 border-t-white" /><span className="text-base">Dreamer is analyzing...</span><X className="w-4 h-4 opacity-70" /></> 
                   ) : ( 
                     <><Lightbulb className="w-5 h-5" /><span className="text-base">{huggingFaceReady ? 'Enhanced Insight' : 'Dreamer Insight'}</span></> 
                   )}
@@ -1306,15 +1364,25 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
                 <span>Previous</span>
               </motion.button>
             )}
-            {currentQuestionIndex === questions.length - 1 ? (
+            {currentQuestionIndex === activeQuestions.length - 1 ? (
               <motion.button 
                 whileHover={{ scale: 1.02 }} 
                 whileTap={{ scale: 0.98 }} 
-                onClick={generatePrompt} 
+                onClick={isGeneratingSequence ? cancelGeneratePrompt : generatePrompt} 
                 className="px-8 py-4 bg-gradient-to-r from-amber-500 to-orange-600 text-white rounded-xl hover:from-amber-600 hover:to-orange-700 transition-all flex items-center space-x-3 text-base font-semibold shadow-lg"
               >
-                <Sparkles className="w-5 h-5" />
-                <span>Generate Sequence</span>
+                {isGeneratingSequence ? (
+                  <>
+                    <div className="w-5 h-5 animate-spin rounded-full border-2 border-white/30 border-t-white" />
+                    <span>Generating... Cancel</span>
+                    <X className="w-5 h-5" />
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="w-5 h-5" />
+                    <span>Generate Sequence</span>
+                  </>
+                )}
               </motion.button>
             ) : (
               <motion.button 
@@ -1367,7 +1435,7 @@ SCENES: ${ideation.scenes.map(s => s.location).join(', ')}
         {showKnowledgePanel && (
             <motion.div initial={{ opacity: 0, x: 300 }} animate={{ opacity: 1, x: 0 }} exit={{ opacity: 0, x: 300 }} className="fixed right-0 top-0 h-full w-80 bg-gray-900 border-l border-gray-800 p-6 overflow-y-auto z-40">
             <div className="flex items-center justify-between mb-6"><h3 className="text-lg font-semibold">Knowledge Base</h3><motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => setShowKnowledgePanel(false)} className="p-2 hover:bg-gray-800 rounded-lg transition-colors"><X className="w-5 h-5" /></motion.button></div>
-            <div className="mb-6"><label className="block text-sm font-medium mb-2">Upload Documents</label><input type="file" multiple accept=".txt,.md,.json,.pdf" onChange={handleFileUpload} disabled={isProcessingDoc} className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:text-sm file:font-medium disabled:opacity-50" />{isProcessingDoc && <div className="mt-2 text-center text-amber-400 text-sm">Processing...</div>}</div>
+            <div className="mb-6"><label className="block text-sm font-medium mb-2">Upload Documents</label><input type="file" multiple accept=".txt,.md,.json,.pdf,.fdx" onChange={handleFileUpload} disabled={isProcessingDoc} className="w-full p-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:text-sm file:font-medium disabled:opacity-50" />{isProcessingDoc && <div className="mt-2 text-center text-amber-400 text-sm">Processing...</div>}</div>
             <div className="space-y-4">{(knowledgeDocs || []).filter(doc => doc).map((doc) => <div key={doc?.id ?? Math.random()} className="p-3 bg-gray-800 rounded-lg"><div className="flex items-center justify-between mb-2"><h4 className="font-medium text-sm flex-1 truncate pr-2">{doc.name}</h4><div className="flex items-center space-x-2">{doc.id.startsWith('preloaded-') ? <span className="text-xs bg-green-900 text-green-300 px-2 py-0.5 rounded-full">Preloaded</span> : <motion.button whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} onClick={() => deleteKnowledgeDoc(doc.id)} className="p-1 hover:bg-gray-700 rounded transition-colors"><Trash2 className="w-3 h-3 text-red-400" /></motion.button>}</div></div><p className="text-xs text-gray-400">Themes: {doc?.extractedKnowledge?.themes?.slice(0, 3).join(', ') || 'None'}</p></div>)}</div>
             </motion.div>
         )}
@@ -1384,6 +1452,7 @@ interface StoryboardProgressUpdate {
     status: 'preparing' | 'processing' | 'completed' | 'error';
     statusText: string;
     partialShots: StoryboardShot[];
+    expectedShots?: number;
     errorMessage?: string;
     debug?: {
         averageChunkMs?: number;
@@ -1406,38 +1475,51 @@ const funLoadingTexts = [
     'Enhancing emotional subtext...',
 ];
 
+const describeChunkScenes = (chunk?: StoryboardChunk): string => {
+    if (!chunk || chunk.scenes.length === 0) return 'Chunk';
+    const first = chunk.scenes[0].number;
+    const last = chunk.scenes[chunk.scenes.length - 1].number;
+    return first === last ? `Scene ${first}` : `Scenes ${first}-${last}`;
+};
+
 const StoryboardPage: React.FC<{
     setStage: (stage: Stage) => void;
     setGeneratedPrompts: React.Dispatch<React.SetStateAction<ShotPrompt[]>>;
     scriptText: string;
+    importedScreenplay?: ImportedScreenplay | null;
+    /** The project's aspect ratio, used when copying shots for image tools */
+    aspectRatio: string;
     setTimelineItems: React.Dispatch<React.SetStateAction<AnyTimelineItem[]>>;
     setCompositions: React.Dispatch<React.SetStateAction<Record<string, CompositionData>>>;
     setLightingData: React.Dispatch<React.SetStateAction<Record<string, LightingData>>>;
     setColorGradingData: React.Dispatch<React.SetStateAction<Record<string, ColorGradingData>>>;
     setCameraMovement: React.Dispatch<React.SetStateAction<Record<string, CameraMovementData>>>;
-}> = ({ setStage, setTimelineItems, scriptText, setCompositions, setLightingData, setColorGradingData, setCameraMovement }) => {
+}> = ({ setStage, setTimelineItems, scriptText, importedScreenplay, aspectRatio, setCompositions, setLightingData, setColorGradingData, setCameraMovement }) => {
     const [script, setScript] = useState(scriptText);
+    const [scriptFormat, setScriptFormat] = useState<ScriptFormat>(() => looksLikeFountain(scriptText) ? 'fountain' : 'plain');
+    const [screenplay, setScreenplay] = useState<ImportedScreenplay | null>(importedScreenplay || null);
+    // Final Draft scene numbers and revision marks only survive while the imported text is untouched
+    const scriptSource = screenplay && script === screenplay.text ? screenplay.document : script;
+    const [scriptLineUnit, setScriptLineUnit] = useState<'Line' | 'Paragraph'>('Line');
+    const scriptFileInputRef = useRef<HTMLInputElement>(null);
     const [customInstructions, setCustomInstructions] = useState('');
     const [storyboard, setStoryboard] = useState<StoryboardShot[]>([]);
     const [storyboardStyle, setStoryboardStyle] = useState<'cinematic' | 'explainer'>('cinematic');
+    const [bypassCache, setBypassCache] = useState(false);
+    const [chunkedStoryboard, setChunkedStoryboard] = useState<ChunkedStoryboard | null>(null);
+    const [retryingChunkId, setRetryingChunkId] = useState<string | null>(null);
     const [progress, setProgress] = useState<StoryboardProgressUpdate | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [isConverting, setIsConverting] = useState(false);
     const [enhancingShotIndex, setEnhancingShotIndex] = useState<number | null>(null);
     const [copiedShotIndex, setCopiedShotIndex] = useState<number | null>(null);
     const [showStoryIdeation, setShowStoryIdeation] = useState(false);
+    const [showCharacterBible, setShowCharacterBible] = useState(false);
+    const [showLocations, setShowLocations] = useState(false);
     const [openModelMenu, setOpenModelMenu] = useState<number | null>(null);
-    const progressIntervalRef = useRef<number | null>(null);
-    
-    useEffect(() => {
-        // Cleanup interval on component unmount
-        return () => {
-            if (progressIntervalRef.current) {
-                clearInterval(progressIntervalRef.current);
-            }
-        };
-    }, []);
-
+    const [showModelAdapters, setShowModelAdapters] = useState(false);
+    const modelAdapters = useModelAdapters();
+    const tasks = useAbortableTasks<'storyboard' | 'retryChunk' | 'timeline'>();
     // Close AI model dropdown when clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -1455,107 +1537,135 @@ const StoryboardPage: React.FC<{
 
     const handleGenerateStoryboard = async () => {
         if (!script.trim() || isLoading) return;
-        setIsLoading(true);
-        setStoryboard([]);
-        setProgress(null);
 
-        const estimatedDurationMs = 25000; // 25 seconds estimate
-        let elapsedTimeMs = 0;
-        const intervalTimeMs = 250;
+        // A full-script storyboard is the most expensive call we make; check the budget caps first
+        const providerSettings = aiProviderService.getSettings();
+        const budget = tokenBudgetingSystem.checkBudget({
+            provider: providerSettings.kind,
+            model: aiProviderService.resolveModel('fast', providerSettings),
+            ...estimateStoryboardUsage(scriptSource, storyboardStyle, DEFAULT_MAX_CHUNK_CHARS, scriptFormat)
+        });
+        if (budget.level === 'block') {
+            toast.error(budget.message);
+            return;
+        }
+        if (budget.level === 'warn' && !window.confirm(`${budget.message}\n\nGenerate the storyboard anyway?`)) {
+            return;
+        }
 
-        // Start the simulated progress interval
-        progressIntervalRef.current = window.setInterval(() => {
-            elapsedTimeMs += intervalTimeMs;
-            const progressRatio = Math.min(0.95, elapsedTimeMs / estimatedDurationMs); // Cap at 95% until done
+        // The current storyboard stays until the first new shot arrives, and comes back if the run is cancelled
+        const previous = { storyboard, chunkedStoryboard, progress };
+        const signal = tasks.start('storyboard');
+        setIsLoading(true);
 
+        // Progress follows the shots that have actually streamed in, against a script-based estimate
+        const expectedShots = estimateStoryboardShotCount(script, storyboardStyle);
+        const startedAt = Date.now();
+        setProgress({
+            completedChunks: 0,
+            totalChunks: 0,
+            expectedShots,
+            estimatedMsRemaining: 0,
+            progressRatio: 0,
+            status: 'preparing',
+            statusText: funLoadingTexts[Math.floor(Math.random() * funLoadingTexts.length)],
+            partialShots: [],
+        });
+
+        const handleUpdate = (update: ChunkedStoryboard) => {
+            if (signal.aborted) return;
+            const shots = mergeChunkShots(update);
+            const finishedChunks = update.chunks.filter(chunk => chunk.status === 'completed' || chunk.status === 'failed').length;
+            const msPerShot = shots.length > 0 ? (Date.now() - startedAt) / shots.length : 0;
+            if (shots.length > 0) {
+                setChunkedStoryboard(update);
+                setStoryboard(shots);
+            }
             setProgress({
-                completedChunks: Math.floor(progressRatio * 10),
-                totalChunks: 10,
-                estimatedMsRemaining: Math.max(0, estimatedDurationMs - elapsedTimeMs),
-                progressRatio: progressRatio,
-                status: 'processing',
-                statusText: funLoadingTexts[Math.floor(Math.random() * funLoadingTexts.length)],
-                partialShots: [],
+                completedChunks: finishedChunks,
+                totalChunks: update.chunks.length,
+                expectedShots: Math.max(expectedShots, shots.length),
+                estimatedMsRemaining: Math.round(msPerShot * Math.max(0, expectedShots - shots.length)),
+                progressRatio: Math.min(0.95, shots.length / expectedShots), // Cap at 95% until done
+                status: shots.length > 0 ? 'processing' : 'preparing',
+                statusText: update.chunks.length > 1
+                    ? `Storyboarding scene chunk ${Math.min(finishedChunks + 1, update.chunks.length)} of ${update.chunks.length}`
+                    : shots.length > 0 ? `Received shot ${shots.length} of ~${Math.max(expectedShots, shots.length)}` : funLoadingTexts[Math.floor(Math.random() * funLoadingTexts.length)],
+                partialShots: shots,
             });
-        }, intervalTimeMs);
+        };
 
         try {
+            setScriptLineUnit(typeof scriptSource === 'string' ? 'Line' : 'Paragraph');
+            const result = await storyboardChunkService.generate(scriptSource, storyboardStyle, customInstructions.trim(), { bypassCache, signal, format: scriptFormat, onUpdate: handleUpdate });
+            const shots = mergeChunkShots(result);
+            const failedCount = result.chunks.filter(chunk => chunk.status === 'failed').length;
 
-            
-            let result;
-            try {
-                result = await generateStoryboard(script, storyboardStyle, customInstructions.trim());
-            } catch (aiError) {
-
-                
-                // Create sample data as fallback
-                result = [
-                    {
-                        screenplayLine: "INT. COFFEE SHOP - DAY",
-                        shotDetails: {
-                            shotType: "Wide Shot",
-                            cameraAngle: "Eye-level honest",
-                            cameraMovement: "Static",
-                            description: "A bustling coffee shop with customers ordering their morning coffee",
-                            lightingMood: "Warm morning light"
-                        }
-                    },
-                    {
-                        screenplayLine: "CUSTOMER approaches the counter",
-                        shotDetails: {
-                            shotType: "Medium Shot",
-                            cameraAngle: "Low angle respect",
-                            cameraMovement: "Slow dolly in",
-                            description: "A young customer approaches the counter with determination",
-                            lightingMood: "Golden hour warmth"
-                        }
-                    },
-                    {
-                        screenplayLine: "BARISTA takes the order",
-                        shotDetails: {
-                            shotType: "Close-up",
-                            cameraAngle: "True-eye honest",
-                            cameraMovement: "Static",
-                            description: "The barista smiles as she takes the customer's order",
-                            lightingMood: "Soft natural lighting"
-                        }
-                    }
-                ];
-            }
-            
-
-
-            if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-            
-            if (!result || result.length === 0) {
-                throw new Error('No storyboard data was generated. Please try with a different script.');
+            if (shots.length === 0) {
+                throw new Error(result.chunks.find(chunk => chunk.error)?.error || 'No storyboard data was generated. Please try with a different script.');
             }
             
+            setChunkedStoryboard(result);
+            setStoryboard(shots);
             setProgress({
-                completedChunks: 10,
-                totalChunks: 10,
+                completedChunks: result.chunks.length,
+                totalChunks: result.chunks.length,
+                expectedShots: shots.length,
                 estimatedMsRemaining: 0,
                 progressRatio: 1,
                 status: 'completed',
-                statusText: 'Storyboard ready!',
-                partialShots: result,
+                statusText: failedCount > 0 ? `Storyboard ready, ${failedCount} scene chunk${failedCount === 1 ? '' : 's'} failed` : 'Storyboard ready!',
+                partialShots: shots,
             });
-            setStoryboard(result);
-            
-
+            if (failedCount > 0) {
+                toast.warning(`${failedCount} scene chunk${failedCount === 1 ? '' : 's'} failed. Retry them from the progress panel.`);
+            }
         } catch (error) {
-            if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
+            if (isAbortError(error)) {
+                setStoryboard(previous.storyboard);
+                setChunkedStoryboard(previous.chunkedStoryboard);
+                setProgress(previous.progress);
+                toast.info('Storyboard generation cancelled.');
+                return;
+            }
             appLogger.error('Storyboard generation error:', error);
             const message = error instanceof Error ? error.message : 'Storyboard generation failed.';
             setProgress(prev => ({
-                ...(prev || { completedChunks: 0, totalChunks: 10, estimatedMsRemaining: 0, progressRatio: 0, partialShots:[] }),
+                ...(prev || { completedChunks: 0, totalChunks: 0, progressRatio: 0, partialShots: [] }),
+                estimatedMsRemaining: 0,
                 status: 'error',
                 statusText: message,
                 errorMessage: message,
             }));
         } finally {
+            tasks.finish('storyboard', signal);
             setIsLoading(false);
-            if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
+        }
+    };
+
+    const handleRetryChunk = async (chunkId: string) => {
+        if (!chunkedStoryboard || retryingChunkId || isLoading) return;
+        setRetryingChunkId(chunkId);
+        const signal = tasks.start('retryChunk');
+        try {
+            const updated = await storyboardChunkService.retryChunk(chunkedStoryboard, chunkId, { bypassCache, signal });
+            const chunk = updated.chunks.find(candidate => candidate.id === chunkId);
+            // Splice into the current list so shots edited since generation are kept
+            setStoryboard(prev => spliceChunkShots(prev, chunkedStoryboard, chunkId, chunk?.shots || []));
+            setChunkedStoryboard(updated);
+            if (chunk?.status === 'failed') {
+                toast.error(`${describeChunkScenes(chunk)} failed again: ${chunk.error}`);
+            } else {
+                toast.success(`${describeChunkScenes(chunk)} regenerated with ${chunk?.shots.length || 0} shots.`);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                appLogger.error('Failed to retry storyboard chunk:', error);
+                toast.error('Unable to regenerate those scenes. Please try again.');
+            }
+        } finally {
+            tasks.finish('retryChunk', signal);
+            setRetryingChunkId(null);
         }
     };
 
@@ -1585,14 +1695,20 @@ const StoryboardPage: React.FC<{
     const convertToTimeline = async () => {
         if (!storyboard || storyboard.length === 0 || isConverting) return;
         setIsConverting(true);
+        const signal = tasks.start('timeline');
 
         try {
+            const shots = (storyboard || []).filter(shot => shot);
+            // Resolved now for the item stubs, stored only once the visuals are in
+            const locations = locationRegistryService.resolve(resolveSceneLocations(shots.map(shot => shot.sceneHeading)));
             // Create item stubs first to get stable IDs.
-            const items: ShotItem[] = (storyboard || []).filter(shot => shot).map((shot, index) => {
+            const items: ShotItem[] = shots.map((shot, index) => {
                 const prompt = `Cinematic shot ${index + 1}: ${shot.shotDetails.shotType}. Scene: ${shot.screenplayLine}. Description: ${shot.shotDetails.description}. Camera Angle: ${shot.shotDetails.cameraAngle}. Camera Movement: ${shot.shotDetails.cameraMovement}. Lighting: ${shot.shotDetails.lightingMood}.`;
                 return {
                     id: crypto.randomUUID(),
                     type: 'shot',
+                    locationId: locations[index]?.id,
+                    continuity: startContinuity('scene'),
                     data: {
                         shotNumber: index + 1,
                         prompt: prompt,
@@ -1604,21 +1720,37 @@ const StoryboardPage: React.FC<{
             });
 
             // Fire all visual generation requests in parallel for performance.
-            const visualPromises = (storyboard || []).filter(shot => shot).map(shot => initializeVisualsFromStoryboardShot(shot));
+            const visualPromises = shots.map(shot => initializeVisualsFromStoryboardShot(shot, { priority: 'batch', signal }));
             const allVisuals = await Promise.all(visualPromises);
+            characterBibleService.merge(extractCharactersFromScript(script));
+            locationRegistryService.add(locations);
 
             const newCompositions: Record<string, CompositionData> = {};
             const newLighting: Record<string, LightingData> = {};
             const newColor: Record<string, ColorGradingData> = {};
             const newCamera: Record<string, CameraMovementData> = {};
 
-            // Map the resolved visual data to the corresponding item IDs.
-            items.forEach((item, index) => {
+            // The first shot at a location sets its look when it doesn't have one yet
+            const looks = new Map<string, { lighting: LightingData; color: ColorGradingData }>();
+            locations.forEach(location => {
+                if (location?.lighting && location.color) looks.set(location.id, { lighting: location.lighting, color: location.color });
+            });
+
+            // Map the resolved visual data to the corresponding item IDs, casting bible characters onto the stage markers.
+            const castItems: ShotItem[] = items.map((item, index) => {
                 const visuals = allVisuals[index];
-                newCompositions[item.id] = visuals.composition;
-                newLighting[item.id] = visuals.lighting;
-                newColor[item.id] = visuals.color;
+                const location = locations[index];
+                if (location && !looks.has(location.id)) {
+                    looks.set(location.id, { lighting: visuals.lighting, color: visuals.color });
+                    locationRegistryService.setLook(location.id, visuals.lighting, visuals.color);
+                }
+                const look = location ? looks.get(location.id) : undefined;
+                newCompositions[item.id] = characterBibleService.castComposition(visuals.composition, `${shots[index].screenplayLine} ${shots[index].shotDetails.description}`);
+                newLighting[item.id] = look ? clone(look.lighting) : visuals.lighting;
+                newColor[item.id] = look ? clone(look.color) : visuals.color;
                 newCamera[item.id] = visuals.camera;
+                const prompt = characterBibleService.applyToPrompt(applyLocationDescriptor(item.data.prompt, location), linkedCharacterIds(newCompositions[item.id]));
+                return { ...item, data: { ...item.data, ...startPromptHistory(prompt, 'storyboard') } };
             });
 
             setCompositions(prev => ({ ...prev, ...newCompositions }));
@@ -1626,12 +1758,17 @@ const StoryboardPage: React.FC<{
             setColorGradingData(prev => ({ ...prev, ...newColor }));
             setCameraMovement(prev => ({ ...prev, ...newCamera }));
 
-            setTimelineItems(items);
+            setTimelineItems(castItems);
             setStage('final');
         } catch (error) {
+            if (isAbortError(error)) {
+                toast.info('Timeline population cancelled.');
+                return;
+            }
             appLogger.error('Failed to populate timeline from storyboard:', error);
             toast.error('Unable to populate the timeline. Please try again.');
         } finally {
+            tasks.finish('timeline', signal);
             setIsConverting(false);
             setOpenModelMenu(null);
         }
@@ -1639,6 +1776,51 @@ const StoryboardPage: React.FC<{
 
     const estimatedSeconds = progress ? Math.max(0, Math.round(progress.estimatedMsRemaining / 1000)) : 0;
 
+    const handleScriptPaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        if (scriptFormat === 'fountain' || script.trim()) return;
+        if (looksLikeFountain(event.clipboardData.getData('text'))) {
+            setScriptFormat('fountain');
+            toast.info('This looks like a Fountain screenplay, so it will be storyboarded scene by scene.');
+        }
+    };
+
+    const handleImportScript = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            if (/\.fdx$/i.test(file.name)) {
+                const imported = importFinalDraft(file.name, await file.text());
+                setScreenplay(imported);
+                setScript(imported.text);
+                setScriptFormat('fountain');
+                toast.success(`Imported ${file.name} with ${imported.document.scenes.length} scenes.`);
+                return;
+            }
+            setScreenplay(null);
+            if (/\.pdf$/i.test(file.name)) {
+                const pdf = await extractPdfText(await file.arrayBuffer());
+                const isScreenplay = looksLikeScreenplayLayout(pdf);
+                const pdfText = isScreenplay ? pdfScreenplayToFountain(pdf) : formatPdfText(pdf);
+                if (!pdfText.trim()) {
+                    toast.error(`${file.name} has no selectable text. Scanned PDFs need OCR first.`);
+                    return;
+                }
+                setScript(pdfText);
+                setScriptFormat(isScreenplay ? 'fountain' : 'plain');
+                toast.success(`Imported ${pdf.pages.length} pages from ${file.name}${isScreenplay ? ' as a screenplay' : ''}.`);
+                return;
+            }
+            const text = await file.text();
+            const isFountain = /\.(fountain|spmd)$/i.test(file.name) || looksLikeFountain(text);
+            setScript(text);
+            setScriptFormat(isFountain ? 'fountain' : 'plain');
+            toast.success(`Imported ${file.name}${isFountain ? ' as a Fountain screenplay' : ''}.`);
+        } catch (error) {
+            toast.error(error instanceof Error && /Final Draft/.test(error.message) ? error.message : `Could not read ${file.name}.`);
+        }
+    };
+
     const handleStoryIdeationComplete = (context: Partial<StoryContext>, generatedScript: string) => {
         // Add the generated script to the existing script content
         const enhancedScript = script.trim() 
@@ -1647,6 +1829,7 @@ const StoryboardPage: React.FC<{
         
         setScript(enhancedScript);
         setShowStoryIdeation(false);
+        characterBibleService.merge(extractCharactersFromIdeation(context));
         
         // Show a brief notification that story context was added
         setTimeout(() => {
@@ -1679,14 +1862,59 @@ const StoryboardPage: React.FC<{
                         </div>
                     </div>
 
+                    <div className="flex items-center justify-between mb-2">
+                        <div className="bg-gray-800 border border-gray-700 rounded-lg p-1 flex space-x-1">
+                            {([['plain', 'Plain text'], ['fountain', 'Fountain']] as [ScriptFormat, string][]).map(([format, label]) => (
+                                <button
+                                    key={format}
+                                    onClick={() => setScriptFormat(format)}
+                                    className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${scriptFormat === format ? 'bg-amber-500 text-black' : 'text-gray-300 hover:bg-gray-700'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setShowCharacterBible(true)}
+                                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 transition-colors flex items-center gap-2"
+                            >
+                                <Users className="w-3.5 h-3.5" />
+                                Characters
+                            </button>
+                            <button
+                                onClick={() => setShowLocations(true)}
+                                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 transition-colors flex items-center gap-2"
+                            >
+                                <MapPin className="w-3.5 h-3.5" />
+                                Locations
+                            </button>
+                            <button
+                                onClick={() => scriptFileInputRef.current?.click()}
+                                className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 transition-colors flex items-center gap-2"
+                            >
+                                <Upload className="w-3.5 h-3.5" />
+                                Import script
+                            </button>
+                        </div>
+                        <input ref={scriptFileInputRef} type="file" accept=".fountain,.spmd,.fdx,.pdf,.txt" onChange={handleImportScript} className="hidden" />
+                    </div>
                     <textarea 
                         value={script} 
                         onChange={e => setScript(e.target.value)} 
-                        placeholder="Paste your script here..." 
+                        onPaste={handleScriptPaste}
+                        placeholder={scriptFormat === 'fountain' ? 'Paste your Fountain screenplay here...' : 'Paste your script here...'} 
                         className={`w-full h-48 p-4 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none resize-none mb-4 transition-colors ${
                             script.trim() ? 'border-gray-800 focus:border-amber-500' : 'border-gray-700 focus:border-red-500'
                         }`} 
                     />
+                    {screenplay && (
+                        <p className={`text-xs mb-4 ${scriptSource === script ? 'text-amber-400' : 'text-gray-400'}`}>
+                            {scriptSource === script
+                                ? `Edited since importing ${screenplay.fileName}: scenes are renumbered and revision marks are dropped.`
+                                : `Storyboarding ${screenplay.fileName} with its scene numbers and revision marks.`}
+                        </p>
+                    )}
                     {!script.trim() && (
                         <p className="text-xs text-amber-400 mb-4 text-center">
                             ⚠️ Please enter your script above to enable storyboard generation
@@ -1735,6 +1963,17 @@ const StoryboardPage: React.FC<{
                                         }
                                     </span>
                                 </motion.button>
+                                {isLoading && (
+                                    <motion.button
+                                        onClick={() => tasks.cancel('storyboard')}
+                                        whileHover={{ scale: 1.02 }}
+                                        whileTap={{ scale: 0.98 }}
+                                        className="w-full sm:w-auto px-6 py-3 text-sm font-medium rounded-lg border border-red-500/40 text-red-300 hover:bg-red-500/10 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <X className="w-4 h-4" />
+                                        <span>Cancel</span>
+                                    </motion.button>
+                                )}
                                 <motion.button
                                     onClick={() => setStage('landing')}
                                     whileHover={{ scale: 1.02 }}
@@ -1783,6 +2022,10 @@ const StoryboardPage: React.FC<{
                         <p className="text-xs text-gray-500 mt-1">
                             These instructions will influence the visual style, composition, lighting, and overall approach of your storyboard shots.
                         </p>
+                        <label className="mt-3 flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+                            <input type="checkbox" checked={bypassCache} onChange={e => setBypassCache(e.target.checked)} className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0" />
+                            <span>Bypass cache (regenerate even if this script was storyboarded before)</span>
+                        </label>
                     </div>
                     
                     {progress && (
@@ -1795,9 +2038,36 @@ const StoryboardPage: React.FC<{
                                 <motion.div className="bg-gradient-to-r from-amber-500 to-orange-600 h-2" initial={{ width: 0 }} animate={{ width: `${Math.min(100, Math.round((progress.progressRatio || 0) * 100))}%` }} transition={{ duration: 0.3 }} />
                             </div>
                             <div className="flex items-center justify-between text-xs text-gray-500">
-                                <span>Shots: {progress.status === 'completed' ? (storyboard?.length || 0) : 0}</span>
+                                <span>Shots: {storyboard?.length || 0}{progress.status === 'processing' && progress.expectedShots ? ` of ~${progress.expectedShots}` : ''}</span>
+                                {progress.totalChunks > 1 && <span>Scene chunks: {progress.completedChunks}/{progress.totalChunks}</span>}
                                 <span>Status: {progress.status}</span>
                             </div>
+                            {chunkedStoryboard && chunkedStoryboard.chunks.some(chunk => chunk.status === 'failed') && (
+                                <div className="space-y-2">
+                                    {chunkedStoryboard.chunks.filter(chunk => chunk.status === 'failed').map(chunk => (
+                                        <div key={chunk.id} className="flex items-center justify-between gap-3 text-xs bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">
+                                            <span className="text-red-300 truncate">{describeChunkScenes(chunk)}: {chunk.error}</span>
+                                            <button
+                                                onClick={() => handleRetryChunk(chunk.id)}
+                                                disabled={isLoading || retryingChunkId !== null}
+                                                className="flex-shrink-0 px-3 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-gray-200 flex items-center gap-1"
+                                            >
+                                                <RefreshCcw className={`w-3 h-3 ${retryingChunkId === chunk.id ? 'animate-spin' : ''}`} />
+                                                {retryingChunkId === chunk.id ? 'Retrying...' : 'Retry'}
+                                            </button>
+                                            {retryingChunkId === chunk.id && (
+                                                <button
+                                                    onClick={() => tasks.cancel('retryChunk')}
+                                                    className="flex-shrink-0 px-2 py-1 text-gray-400 hover:text-red-300"
+                                                    title="Cancel retry"
+                                                >
+                                                    <X className="w-3 h-3" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             {progress.status === 'error' && (
                                 <div className="text-xs text-red-400 space-y-1">
                                     {progress.errorMessage && <p>Error: {progress.errorMessage}</p>}
@@ -1806,7 +2076,7 @@ const StoryboardPage: React.FC<{
                         </motion.div>
                     )}
 
-                    {storyboard && storyboard.length > 0 && progress?.status === 'completed' && (
+                    {storyboard && storyboard.length > 0 && (
                         <div className="mt-10 space-y-6">
                             <motion.div
                                 initial={{ opacity: 0, y: 10 }}
@@ -1814,17 +2084,17 @@ const StoryboardPage: React.FC<{
                                 className="bg-gray-900/70 border border-gray-800/70 rounded-2xl p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4 shadow-xl shadow-black/20"
                             >
                                 <div>
-                                    <p className="text-xs uppercase tracking-widest text-amber-400">Storyboard Ready</p>
+                                    <p className="text-xs uppercase tracking-widest text-amber-400">{isLoading ? 'Streaming Shots' : 'Storyboard Ready'}</p>
                                     <h2 className="text-2xl font-semibold text-white mt-2">Generated Storyboard</h2>
                                     <p className="text-sm text-gray-400 mt-1">
-                                        {storyboard.length} cinematic shots crafted with {storyboardStyle === 'explainer' ? 'explainer-friendly clarity' : 'cinematic mood'}.
+                                        {storyboard.length} cinematic shots{isLoading ? ' so far,' : ''} crafted with {storyboardStyle === 'explainer' ? 'explainer-friendly clarity' : 'cinematic mood'}.
                                     </p>
                                 </div>
                                 <motion.button
                                     whileHover={{ scale: 1.02 }}
                                     whileTap={{ scale: 0.98 }}
                                     onClick={convertToTimeline}
-                                    disabled={!storyboard || storyboard.length === 0 || isConverting}
+                                    disabled={!storyboard || storyboard.length === 0 || isConverting || isLoading}
                                     className="w-full md:w-auto px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-600 text-black font-semibold rounded-xl disabled:opacity-50 flex items-center justify-center space-x-2 shadow-lg shadow-amber-500/30"
                                 >
                                     {isConverting ? (
@@ -1846,6 +2116,13 @@ const StoryboardPage: React.FC<{
                                     <div className="absolute inset-0 z-10 rounded-2xl bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center space-y-3 text-amber-300">
                                         <div className="w-8 h-8 animate-spin rounded-full border-3 border-amber-400/40 border-t-amber-300" />
                                         <p className="text-sm">Building your visual timeline...</p>
+                                        <button
+                                            onClick={() => tasks.cancel('timeline')}
+                                            className="px-4 py-2 text-sm rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-800 flex items-center gap-2"
+                                        >
+                                            <X className="w-4 h-4" />
+                                            <span>Cancel</span>
+                                        </button>
                                     </div>
                                 )}
                                 <div className={`grid gap-4 md:grid-cols-2 xl:grid-cols-3 max-h-[55vh] overflow-y-auto pr-1 ${isConverting ? 'pointer-events-none blur-[1px]' : ''}`}>
@@ -1873,179 +2150,12 @@ const StoryboardPage: React.FC<{
                                             >
                                                 <div className="flex items-start justify-between gap-4">
                                                     <div>
-                                                        <span className="text-xs uppercase tracking-wider text-amber-400">Shot {index + 1}</span>
-                                                        <h3 className="text-lg font-semibold text-white mt-1">{safeShot.shotDetails.shotType}</h3>
-                                                    </div>
-                                                    <div className="text-right space-y-1">
-                                                        <p className="text-[10px] uppercase tracking-widest text-gray-500">Camera Angle</p>
-                                                        <p className="text-sm text-gray-200">{safeShot.shotDetails.cameraAngle}</p>
-                                                        <p className="text-[10px] uppercase tracking-widest text-gray-500">Movement</p>
-                                                        <p className="text-sm text-gray-200">{safeShot.shotDetails.cameraMovement}</p>
-                                                    </div>
-                                                </div>
-                                                <p className="mt-3 text-sm text-amber-200/90 font-mono leading-relaxed">{safeShot.screenplayLine}</p>
-                                                <p className="mt-3 text-sm text-gray-300 leading-relaxed">{safeShot.shotDetails.description}</p>
-
-                                                <div className="mt-4 grid grid-cols-2 gap-3 text-xs text-gray-300">
-                                                    <div className="p-3 rounded-xl bg-gray-900/60 border border-gray-800/70">
-                                                        <p className="text-[10px] uppercase tracking-widest text-gray-500">Lighting Mood</p>
-                                                        <p className="text-sm text-white mt-1">{safeShot.shotDetails.lightingMood}</p>
-                                                    </div>
-                                                    <div className="p-3 rounded-xl bg-gray-900/60 border border-gray-800/70">
-                                                        <p className="text-[10px] uppercase tracking-widest text-gray-500">Scene Energy</p>
-                                                        <p className="text-sm text-white mt-1">{safeShot.shotDetails.cameraMovement}</p>
-                                                    </div>
-                                                </div>
-
-                                                <div className="mt-4 flex flex-wrap items-center gap-2">
-                                                    <motion.button
-                                                        whileHover={{ scale: 1.02 }}
-                                                        whileTap={{ scale: 0.98 }}
-                                                        onClick={async () => {
-                                                            try {
-                                                                await navigator.clipboard.writeText(promptText);
-                                                                setCopiedShotIndex(index);
-                                                                toast.success('Shot prompt copied!');
-                                                                setTimeout(() => setCopiedShotIndex(null), 2000);
-                                                            } catch (error) {
-                                                                toast.error('Failed to copy prompt.');
-                                                            }
-                                                        }}
-                                                        className={`px-3 py-1.5 text-xs rounded-lg border flex items-center space-x-1 transition-colors ${copiedShotIndex === index ? 'bg-emerald-500/20 border-emerald-500/60 text-emerald-300' : 'bg-amber-500/10 border-amber-500/30 text-amber-200 hover:bg-amber-500/20'}`}
-                                                    >
-                                                        {copiedShotIndex === index ? (
-                                                            <>
-                                                                <Check className="w-3 h-3" />
-                                                                <span>Copied!</span>
-                                                            </>
-                                                        ) : (
-                                                            <>
-                                                                <ClipboardCopy className="w-3 h-3" />
-                                                                <span>Copy Prompt</span>
-                                                            </>
+                                                        <span className="text-xs uppercase tracking-wider text-amber-400">Shot {index + 1}{shot?.sceneNumber ? ` · Scene ${shot.sceneLabel || shot.sceneNumber}` : ''}{shot?.scriptLines ? ` · ${shot.scriptLines.end > shot.scriptLines.start ? `${scriptLineUnit}s ${shot.scriptLines.start}-${shot.scriptLines.end}` : `${scriptLineUnit} ${shot.scriptLines.start}`}` : ''}{shot?.scriptPage ? ` · p. ${shot.scriptPage}` : ''}</span>
+                                                        {shot?.scriptRevision && (
+                                                            <span className="ml-2 text-[10px] uppercase tracking-wider text-sky-300" title="Final Draft revision">
+                                                                {[shot.scriptRevision.mark, shot.scriptRevision.name || `Revision ${shot.scriptRevision.id}`].filter(Boolean).join(' ')}
+                                                            </span>
                                                         )}
-                                                    </motion.button>
-
-                                                    <div className="relative" data-model-menu>
-                                                        <motion.button
-                                                            whileHover={{ scale: 1.02 }}
-                                                            whileTap={{ scale: 0.98 }}
-                                                            onClick={() => setOpenModelMenu(prev => (prev === index ? null : index))}
-                                                            className="px-3 py-1.5 text-xs rounded-lg bg-blue-500/15 border border-blue-500/40 text-blue-200 hover:bg-blue-500/25 flex items-center space-x-1"
-                                                        >
-                                                            <ExternalLink className="w-3 h-3" />
-                                                            <span>AI Formats</span>
-                                                            <ChevronDown className={`w-3 h-3 transition-transform ${openModelMenu === index ? 'rotate-180' : ''}`} />
-                                                        </motion.button>
-                                                        <AnimatePresence>
-                                                            {openModelMenu === index && (
-                                                                <motion.div
-                                                                    initial={{ opacity: 0, y: 6 }}
-                                                                    animate={{ opacity: 1, y: 0 }}
-                                                                    exit={{ opacity: 0, y: 6 }}
-                                                                    transition={{ duration: 0.18 }}
-                                                                    className="absolute right-0 top-full mt-2 w-64 bg-gray-900 border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden"
-                                                                    data-model-menu
-                                                                >
-                                                                    <div className="px-4 py-3 border-b border-gray-800/80">
-                                                                        <p className="text-xs font-medium text-gray-300">Copy prompt formatted for AI image tools</p>
-                                                                    </div>
-                                                                    <div className="max-h-64 overflow-y-auto divide-y divide-gray-800/60">
-                                                                        {(AI_MODELS || []).filter(model => model).map(model => (
-                                                                            <button
-                                                                                key={model.id}
-                                                                                onClick={async () => {
-                                                                                    try {
-                                                                                        const formattedPrompt = formatPromptForModel(safeShot, model);
-                                                                                        await navigator.clipboard.writeText(formattedPrompt);
-                                                                                        toast.success(`Copied prompt for ${model.name}!`);
-                                                                                        setOpenModelMenu(null);
-                                                                                    } catch (error) {
-                                                                                        toast.error('Failed to copy prompt. Please try again.');
-                                                                                    }
-                                                                                }}
-                                                                                className="w-full px-4 py-3 text-left text-sm text-gray-300 hover:bg-gray-800/80 transition-colors flex items-start justify-between gap-3"
-                                                                            >
-                                                                                <div className="space-y-1">
-                                                                                    <p className="font-medium text-white">{model.name}</p>
-                                                                                    <p className="text-xs text-gray-400">{model.description}</p>
-                                                                                    {model.website && <p className="text-[11px] text-blue-400">{model.website}</p>}
-                                                                                </div>
-                                                                                <Copy className="w-4 h-4 text-gray-500" />
-                                                                            </button>
-                                                                        ))}
-                                                                    </div>
-                                                                </motion.div>
-                                                            )}
-                                                        </AnimatePresence>
-                                                    </div>
-
-                                                    {storyboardStyle === 'explainer' && (
-                                                        <motion.button
-                                                            whileHover={{ scale: 1.02 }}
-                                                            whileTap={{ scale: 0.98 }}
-                                                            onClick={() => handleMakeCinematic(safeShot, index)}
-                                                            disabled={enhancingShotIndex === index}
-                                                            className="px-3 py-1.5 text-xs rounded-lg bg-indigo-500/15 border border-indigo-500/40 text-indigo-200 hover:bg-indigo-500/25 flex items-center space-x-2 disabled:opacity-50"
-                                                        >
-                                                            {enhancingShotIndex === index ? (
-                                                                <>
-                                                                    <div className="w-3 h-3 animate-spin rounded-full border-2 border-indigo-200 border-t-indigo-400" />
-                                                                    <span>Enhancing...</span>
-                                                                </>
-                                                            ) : (
-                                                                <>
-                                                                    <Film className="w-3 h-3" />
-                                                                    <span>Make Cinematic</span>
-                                                                </>
-                                                            )}
-                                                        </motion.button>
-                                                    )}
-                                                </div>
-                                            </motion.div>
-                                        );
-                                    })}
-                                </div>
-                            </div>
-                        </div>
-                    )}
-
-                                </motion.button>
-                            </motion.div>
-
-                            <div className="relative">
-                                {isConverting && (
-                                    <div className="absolute inset-0 z-10 rounded-2xl bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center space-y-3 text-amber-300">
-                                        <div className="w-8 h-8 animate-spin rounded-full border-3 border-amber-400/40 border-t-amber-300" />
-                                        <p className="text-sm">Building your visual timeline...</p>
-                                    </div>
-                                )}
-                                <div className={`grid gap-4 md:grid-cols-2 xl:grid-cols-3 max-h-[55vh] overflow-y-auto pr-1 ${isConverting ? 'pointer-events-none blur-[1px]' : ''}`}>
-                                    {(storyboard || []).map((shot, index) => {
-                                        const safeShot = {
-                                            screenplayLine: shot?.screenplayLine || 'No screenplay line provided',
-                                            shotDetails: {
-                                                shotType: shot?.shotDetails?.shotType || 'Unknown Shot Type',
-                                                cameraAngle: shot?.shotDetails?.cameraAngle || 'Standard Angle',
-                                                cameraMovement: shot?.shotDetails?.cameraMovement || 'Static',
-                                                description: shot?.shotDetails?.description || 'No description available',
-                                                lightingMood: shot?.shotDetails?.lightingMood || 'Normal Lighting'
-                                            }
-                                        };
-
-                                        const promptText = `${safeShot.shotDetails.shotType} ${safeShot.shotDetails.cameraAngle}. ${safeShot.shotDetails.description}. ${safeShot.shotDetails.lightingMood} lighting. ${safeShot.shotDetails.cameraMovement} camera movement.`;
-
-                                        return (
-                                            <motion.div
-                                                key={index}
-                                                initial={{ opacity: 0, y: 10 }}
-                                                animate={{ opacity: 1, y: 0 }}
-                                                transition={{ delay: index * 0.03 }}
-                                                className="relative overflow-hidden rounded-2xl border border-gray-800/60 bg-gradient-to-br from-gray-900/80 via-gray-900/60 to-gray-900/30 p-5 shadow-lg shadow-black/20"
-                                            >
-                                                <div className="flex items-start justify-between gap-4">
-                                                    <div>
-                                                        <span className="text-xs uppercase tracking-wider text-amber-400">Shot {index + 1}</span>
                                                         <h3 className="text-lg font-semibold text-white mt-1">{safeShot.shotDetails.shotType}</h3>
                                                     </div>
                                                     <div className="text-right space-y-1">
@@ -2123,12 +2233,12 @@ const StoryboardPage: React.FC<{
                                                                         <p className="text-xs font-medium text-gray-300">Copy prompt formatted for AI image tools</p>
                                                                     </div>
                                                                     <div className="max-h-64 overflow-y-auto divide-y divide-gray-800/60">
-                                                                        {(AI_MODELS || []).filter(model => model).map(model => (
+                                                                        {modelAdapters.map(model => (
                                                                             <button
                                                                                 key={model.id}
                                                                                 onClick={async () => {
                                                                                     try {
-                                                                                        const formattedPrompt = formatPromptForModel(safeShot, model);
+                                                                                        const formattedPrompt = formatForAdapter(model, storyboardShotPrompt(safeShot), { aspectRatio });
                                                                                         await navigator.clipboard.writeText(formattedPrompt);
                                                                                         toast.success(`Copied prompt for ${model.name}!`);
                                                                                         setOpenModelMenu(null);
@@ -2147,6 +2257,12 @@ const StoryboardPage: React.FC<{
                                                                             </button>
                                                                         ))}
                                                                     </div>
+                                                                    <button
+                                                                        onClick={() => { setOpenModelMenu(null); setShowModelAdapters(true); }}
+                                                                        className="w-full px-4 py-2 text-left text-xs text-amber-400 border-t border-gray-800/80 hover:bg-gray-800/80 transition-colors"
+                                                                    >
+                                                                        Manage formats…
+                                                                    </button>
                                                                 </motion.div>
                                                             )}
                                                         </AnimatePresence>
@@ -2181,12 +2297,14 @@ const StoryboardPage: React.FC<{
                             </div>
                         </div>
                     )}
-                                                </motion.button>
 
                 </motion.div>
             </div>
 
             {/* Story Ideation Modal */}
+            <CharacterBibleModal isOpen={showCharacterBible} onClose={() => setShowCharacterBible(false)} script={script} />
+            <LocationRegistryModal isOpen={showLocations} onClose={() => setShowLocations(false)} script={script} />
+            <ModelAdaptersModal isOpen={showModelAdapters} onClose={() => setShowModelAdapters(false)} />
             {showStoryIdeation && (
                 <StoryIdeation
                     onComplete={handleStoryIdeationComplete}
@@ -2236,6 +2354,7 @@ interface SelectedItemPanelProps {
     item: AnyTimelineItem;
     updateItem: (updatedItem: AnyTimelineItem) => void;
     onEnhance: (item: ShotItem) => void;
+    onCancelEnhance: (item: ShotItem) => void;
     onRevert: (item: ShotItem) => void;
     onGenerateVideoPrompt: (item: ShotItem) => void;
     generatedContent: {
@@ -2255,13 +2374,15 @@ interface SelectedItemPanelProps {
     setAspectRatios: React.Dispatch<React.SetStateAction<Record<string, string>>>;
     styles: Record<string, 'cinematic' | 'explainer'>;
     setStyles: React.Dispatch<React.SetStateAction<Record<string, 'cinematic' | 'explainer'>>>;
+    /** The whole timeline, for seeds inherited within a scene */
+    timelineItems: AnyTimelineItem[];
 }
 
 
 const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
-    item, updateItem, onEnhance, onRevert, onGenerateVideoPrompt, generatedContent,
+    item, updateItem, onEnhance, onCancelEnhance, onRevert, onGenerateVideoPrompt, generatedContent,
     compositions, lightingData, colorGradingData, cameraMovement, updateVisuals, updatePromptFromVisuals,
-    aspectRatios, setAspectRatios, styles, setStyles,
+    aspectRatios, setAspectRatios, styles, setStyles, timelineItems,
 }) => {
     const [activeVisualTab, setActiveVisualTab] = useState<'composition' | 'lighting' | 'color' | 'camera'>('composition');
     const [imageView, setImageView] = useState<'photoreal' | 'stylized'>('photoreal');
@@ -2270,6 +2391,15 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
     const [showCopyMenu, setShowCopyMenu] = useState(false);
     const [copiedPromptType, setCopiedPromptType] = useState<'current' | 'original' | null>(null);
     const [videoPromptCopied, setVideoPromptCopied] = useState(false);
+    const [lintModelId, setLintModelId] = useState('midjourney');
+    const [showVersions, setShowVersions] = useState(false);
+    const [showModelAdapters, setShowModelAdapters] = useState(false);
+    const locations = useLocationRegistry();
+    const modelAdapters = useModelAdapters();
+    const characters = useCharacterBible();
+    const aspectRatio = aspectRatios[item.id] || MIDJOURNEY.DEFAULT_ASPECT_RATIO;
+    // What models with seed and reference flags get besides the prompt
+    const shotParameters = { aspectRatio, ...continuityAdapterData(resolveShotContinuity(timelineItems, item.id, characters)) };
 
     const handleUpdatePromptFromVisuals = async () => {
         setIsUpdatingPrompt(true);
@@ -2280,8 +2410,8 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
         }
     };
 
-    const handleCopyPromptForModel = async (model: AIModel, shotItem: ShotItem) => {
-        const formattedPrompt = formatPromptForModel(shotItem.data as any, model);
+    const handleCopyPromptForModel = async (model: ModelAdapterProfile, shotItem: ShotItem) => {
+        const formattedPrompt = formatForAdapter(model, shotItem.data.prompt, shotParameters);
         try {
             await navigator.clipboard.writeText(formattedPrompt);
             setCopiedModel(model.id);
@@ -2359,6 +2489,8 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
     const shotItem = item as ShotItem;
     const shotData = shotItem.data;
     const isModified = shotData.prompt !== shotData.originalPrompt;
+    const isEnhancing = generatedContent.pendingAction === 'enhancing';
+    const isGenerationBusy = generatedContent.status === 'loading';
 
     // Visual Editor Handlers
     const onCompositionChange = (field: keyof CompositionData, value: any) => updateVisuals(item.id, 'compositions', { ...visualData.composition, [field]: value });
@@ -2369,6 +2501,7 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
         const current = visualData.camera[key];
         updateVisuals(item.id, 'cameraMovement', { ...visualData.camera, [key]: { ...current, [coord]: value } });
     };
+    const onCameraReset = () => updateVisuals(item.id, 'cameraMovement', resetCameraMovement());
 
     const handleCopyShotPrompt = async (type: 'current' | 'original') => {
         const text = type === 'current' ? shotData.prompt : shotData.originalPrompt;
@@ -2452,28 +2585,91 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
         composition: compositions[item.id] || defaultComposition,
         lighting: lightingData[item.id] || defaultLighting,
         color: colorGradingData[item.id] || defaultColorGrading,
-        camera: cameraMovement[item.id] || defaultCameraMovement,
+        camera: cameraMovement[item.id] || DEFAULT_CAMERA_MOVEMENT,
+    };
+
+    const location = locations.find(candidate => candidate.id === shotItem.locationId);
+
+    // Moving a shot to a location takes on its environment description and default look
+    const handleLocationChange = (locationId: string) => {
+        const next = locations.find(candidate => candidate.id === locationId);
+        updateItem({ ...shotItem, locationId: next?.id, data: { ...shotData, prompt: applyLocationDescriptor(shotData.prompt, next) } });
+        if (next?.lighting) updateVisuals(item.id, 'lightingData', clone(next.lighting));
+        if (next?.color) updateVisuals(item.id, 'colorGradingData', clone(next.color));
+    };
+
+    const handleSaveLocationLook = () => {
+        if (!location) return;
+        locationRegistryService.setLook(location.id, visualData.lighting, visualData.color);
+        toast.success(`Saved this shot's lighting and color as the look for ${location.name}.`);
+    };
+
+    const lintModel = modelAdapters.find(model => model.id === lintModelId) || modelAdapters[0];
+    const lintFindings = lintPrompt(shotData.prompt, {
+        settings: [visualData.camera.movementType],
+        shot: shotData,
+        model: lintModel && { name: lintModel.name, limit: lintModel.promptLimit, format: prompt => formatForAdapter(lintModel, prompt, shotParameters) }
+    });
+    const applyLintFix = (fix: PromptLintFix) => updateItem({ ...shotItem, data: { ...shotData, prompt: fix.apply(shotData.prompt) } });
+
+    const openVersions = () => {
+        if (!shotData.versions?.length) updateItem({ ...shotItem, data: ensurePromptHistory(shotData) });
+        setShowVersions(true);
     };
 
     return (
         <div className="flex-grow flex flex-col p-4 md:p-6 lg:p-8 bg-gray-950/70 border border-gray-800 rounded-lg space-y-6 md:space-y-8 overflow-y-auto">
+            <PromptVersionsModal
+                isOpen={showVersions}
+                onClose={() => setShowVersions(false)}
+                shot={shotData}
+                onCheckout={(versionId) => updateItem({ ...shotItem, data: checkoutPromptVersion(shotData, versionId) })}
+            />
+            <ModelAdaptersModal isOpen={showModelAdapters} onClose={() => setShowModelAdapters(false)} />
             {/* Header */}
             <div className="flex flex-col sm:flex-row items-start justify-between gap-4">
                 <div className="flex-grow">
                     <span className="text-xs uppercase tracking-wider text-amber-500">Shot {shotData.shotNumber}</span>
                     <h2 className="text-xl md:text-2xl lg:text-3xl font-semibold text-amber-400 mt-1">{shotData.role}</h2>
                     <p className="text-sm md:text-base text-gray-400 mt-2 leading-relaxed">{shotData.description}</p>
+                    <div className="flex flex-wrap items-center gap-2 mt-3">
+                        <MapPin className="w-4 h-4 text-gray-500" />
+                        <select
+                            value={shotItem.locationId || ''}
+                            onChange={(event) => handleLocationChange(event.target.value)}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-amber-500"
+                        >
+                            <option value="">No location</option>
+                            {locations.map(candidate => (
+                                <option key={candidate.id} value={candidate.id}>{[candidate.setting, candidate.name, candidate.timeOfDay].filter(Boolean).join(' · ')}</option>
+                            ))}
+                        </select>
+                        {location && (
+                            <button onClick={handleSaveLocationLook} className="px-2 py-1 text-xs rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800" title="Shots moved to this location start from this lighting and color">
+                                Save look to location
+                            </button>
+                        )}
+                        <select
+                            value={aspectRatio}
+                            onChange={(event) => setAspectRatios(prev => ({ ...prev, [item.id]: event.target.value }))}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-amber-500"
+                            title="Frame shape passed to models that take an aspect ratio"
+                        >
+                            {IMAGE_GENERATION.ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                        </select>
+                    </div>
                 </div>
                 <div className="flex items-center space-x-3">
+                   <motion.button title="Prompt Versions" whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }} onClick={openVersions} className="p-2.5 md:p-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"><History className="w-4 h-4 md:w-5 md:h-5 text-amber-400"/></motion.button>
                    {isModified && (
                         <motion.button title="Revert to Original Prompt" whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }} onClick={() => onRevert(shotItem)} className="p-2.5 md:p-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"><RefreshCcw className="w-4 h-4 md:w-5 md:h-5 text-amber-400"/></motion.button>
                    )}
                    <motion.button
-                        title="Enhance with AI"
+                        title={isEnhancing ? 'Cancel enhancement' : 'Enhance with AI'}
                         whileHover={{ scale: 1.1 }}
                         whileTap={{ scale: 0.9 }}
-                        onClick={() => onEnhance(shotItem)}
-                        disabled={isEnhancing || isGenerationBusy}
+                        onClick={() => isEnhancing ? onCancelEnhance(shotItem) : onEnhance(shotItem)}
+                        disabled={!isEnhancing && isGenerationBusy}
                         className="p-2.5 md:p-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
                     >
                         {isEnhancing ? (
@@ -2485,6 +2681,8 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
                 </div>
             </div>
 
+            <ShotContinuityControls item={shotItem} timelineItems={timelineItems} onChange={(continuity) => updateItem({ ...shotItem, continuity })} />
+
             {/* Prompt & Generated Content */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 md:gap-8">
                 {/* Prompt Text Area */}
@@ -2539,7 +2737,7 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
                                                 <p className="text-xs text-gray-400 px-2 py-1">Copy prompt formatted for:</p>
                                             </div>
                                             <div className="p-2 space-y-1">
-                                                {(AI_MODELS || []).filter(model => model).map(model => (
+                                                {modelAdapters.map(model => (
                                                     <button
                                                         key={model.id}
                                                         onClick={() => {
@@ -2562,6 +2760,12 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
                                                     </button>
                                                 ))}
                                             </div>
+                                            <button
+                                                onClick={() => { setShowCopyMenu(false); setShowModelAdapters(true); }}
+                                                className="w-full px-4 py-2 text-left text-xs text-amber-400 border-t border-gray-800 hover:bg-gray-800 transition-colors"
+                                            >
+                                                Manage formats…
+                                            </button>
                                         </motion.div>
                                     )}
                                 </AnimatePresence>
@@ -2574,6 +2778,33 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
                         className="w-full flex-grow min-h-[200px] md:min-h-[250px] bg-gray-900 border border-gray-700 rounded-lg p-4 md:p-5 text-sm md:text-base text-gray-200 resize-none focus:border-amber-500 focus:outline-none focus:ring-2 focus:ring-amber-500/20 transition-all leading-relaxed"
                         placeholder="Enter your cinematic prompt here..."
                     />
+                    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-3 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className={`flex items-center gap-2 text-xs font-medium ${lintFindings.length > 0 ? 'text-amber-300' : 'text-emerald-300'}`}>
+                                {lintFindings.length > 0 ? <AlertTriangle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                                {lintFindings.length > 0 ? `${lintFindings.length} issue${lintFindings.length === 1 ? '' : 's'} in this prompt` : 'No issues found'}
+                            </span>
+                            <select
+                                value={lintModel?.id}
+                                onChange={(event) => setLintModelId(event.target.value)}
+                                className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-amber-500"
+                                title="Check length and formatting for this model"
+                            >
+                                {modelAdapters.map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+                            </select>
+                        </div>
+                        {lintFindings.map((finding, index) => (
+                            <div key={`${finding.kind}-${index}`} className="flex flex-wrap items-center gap-2 text-xs">
+                                <span className={`px-1.5 py-0.5 rounded uppercase tracking-wider text-[10px] ${finding.severity === 'error' ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300'}`}>{finding.kind}</span>
+                                <span className="flex-1 text-gray-300">{finding.message}</span>
+                                {finding.fixes.map(fix => (
+                                    <button key={fix.label} onClick={() => applyLintFix(fix)} className="px-2 py-1 rounded border border-gray-700 text-amber-300 hover:bg-gray-800">
+                                        {fix.label}
+                                    </button>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
                     <button
                         onClick={() => onGenerateVideoPrompt(shotItem)}
                         className="w-full py-3 md:py-3.5 text-sm md:text-base bg-purple-500/20 text-purple-300 rounded-lg hover:bg-purple-500/30 flex items-center justify-center space-x-2 transition-colors font-medium"
@@ -2672,13 +2903,15 @@ const SelectedItemPanel: React.FC<SelectedItemPanelProps> = ({
                             onRemoveCharacter={(id) => onCompositionChange('characters', (visualData?.composition?.characters || []).filter(c => c && c.id !== id))}
                             onDrag={() => {}} // Drag is handled internally by the component now
                             onPositionChange={(id, x, y) => onCompositionChange('characters', (visualData?.composition?.characters || []).filter(c => c).map(c => c.id === id ? {...c, x, y} : c))}
-                            onNameChange={(id, name) => onCompositionChange('characters', (visualData?.composition?.characters || []).filter(c => c).map(c => c.id === id ? {...c, name} : c))}
+                            onNameChange={(id, name) => onCompositionChange('characters', (visualData?.composition?.characters || []).filter(c => c).map(c => c.id === id ? {...c, name, characterId: undefined} : c))}
+                            onLinkCharacter={(id, profile) => onCompositionChange('characters', (visualData?.composition?.characters || []).filter(c => c).map(c => c.id === id ? {...c, name: profile ? profile.name : c.name, characterId: profile?.id} : c))}
                             onCameraAngleChange={(angle) => onCompositionChange('cameraAngle', angle)}
                             onCameraHeightChange={(height) => onCompositionChange('cameraHeight', height)}
+                            cameraSetup={visualData.camera}
                         />}
                         {activeVisualTab === 'lighting' && <LightingEditor lighting={visualData.lighting} onChange={onLightingChange} />}
                         {activeVisualTab === 'color' && <ColorGradingEditor color={visualData.color} onChange={onColorChange} />}
-                        {activeVisualTab === 'camera' && <CameraMovementEditor camera={visualData.camera} onChange={onCameraChange} onPathChange={onCameraPathChange}/>}
+                        {activeVisualTab === 'camera' && <CameraMovementEditor camera={visualData.camera} onChange={onCameraChange} onPathChange={onCameraPathChange} onReset={onCameraReset}/>}
                     </motion.div>
                 </AnimatePresence>
             </div>
@@ -2715,6 +2948,21 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
     const [videoPromptInstructions, setVideoPromptInstructions] = useState("");
     const [videoPromptCopied, setVideoPromptCopied] = useState(false);
     const [isGeneratingVideoPrompt, setIsGeneratingVideoPrompt] = useState(false);
+    const [locationFilter, setLocationFilter] = useState('');
+    const [showCoverage, setShowCoverage] = useState(false);
+    const tasks = useAbortableTasks<'style' | 'suggestion' | `enhance:${string}`>();
+    const locations = useLocationRegistry();
+    const timelineLocations = locations.filter(location => timelineItems.some(item => item.type === 'shot' && item.locationId === location.id));
+    // Plan from the script when there is one, otherwise from what the shots themselves say
+    const coverageBeats = useMemo(() => {
+        const script = formatValue(props.promptData.scriptText)
+            || timelineItems.filter((item): item is ShotItem => item.type === 'shot').map(item => item.data.description).join('\n\n');
+        return segmentScriptBeats(script).filter(isTwoPersonDialogue);
+    }, [props.promptData.scriptText, timelineItems]);
+    // Only shots play at a location, so filtering hides everything else
+    const visibleTimelineItems = locationFilter
+        ? timelineItems.filter(item => item.type === 'shot' && item.locationId === locationFilter)
+        : timelineItems;
     
     // Auto-scroll functionality for timeline items
     const timelineContainerRef = useRef<HTMLDivElement>(null);
@@ -2865,16 +3113,15 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
             const newShotNumber = (timelineItems || []).filter(i => i.type === 'shot').length + 1;
             const newShot: ShotPrompt = {
                 shotNumber: newShotNumber,
-                prompt: `New Shot ${newShotNumber}`,
-                originalPrompt: `New Shot ${newShotNumber}`,
+                ...startPromptHistory(`New Shot ${newShotNumber}`, 'original'),
                 description: 'A new scene',
                 role: 'medium shot'
             };
-            newItem = { id: newItemId, type: 'shot', data: newShot };
+            newItem = { id: newItemId, type: 'shot', data: newShot, continuity: startContinuity() };
             updateVisuals(newItemId, 'compositions', clone(defaultComposition));
             updateVisuals(newItemId, 'lightingData', clone(defaultLighting));
             updateVisuals(newItemId, 'colorGradingData', clone(defaultColorGrading));
-            updateVisuals(newItemId, 'cameraMovement', clone(defaultCameraMovement));
+            updateVisuals(newItemId, 'cameraMovement', resetCameraMovement());
         } else if (type === 'b-roll') {
             const context = (timelineItems || []).filter(i => i && i.type === 'shot').map(i => (i as ShotItem)?.data?.prompt ?? '').join('\n');
             const brollPrompt = await generateBrollPrompt(context, sequenceStyle);
@@ -2903,19 +3150,29 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
     };
     
     const handleAnalyzeStyle = async () => {
+        const signal = tasks.start('style');
         setIsAnalyzingStyle(true);
         const prompts = (timelineItems || []).filter(i => i && i.type === 'shot').map(i => (i as ShotItem)?.data?.prompt ?? '');
-        if (prompts.length > 0) {
-            const style = await analyzeSequenceStyle(prompts);
-            setSequenceStyle(style);
+        try {
+            if (prompts.length > 0) {
+                const style = await analyzeSequenceStyle(prompts, { signal });
+                setSequenceStyle(style);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                appLogger.error('Failed to analyze sequence style:', error);
+                toast.error('Unable to analyze the sequence style. Please try again.');
+            }
+        } finally {
+            tasks.finish('style', signal);
+            setIsAnalyzingStyle(false);
         }
-        setIsAnalyzingStyle(false);
     };
     
     const handleGetSuggestion = async () => {
         if (!activeItem || activeItem.type !== 'shot') return;
+        const signal = tasks.start('suggestion');
         setIsLoadingSuggestion(true);
-        setAiSuggestion(null);
 
         const currentIndex = timelineItems.findIndex(i => i.id === activeItem.id);
         const prevItem = timelineItems[currentIndex - 1];
@@ -2928,13 +3185,29 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
         if (nextItem?.type === 'shot') {
             context = `${context}\n\nNEXT SHOT (${(nextItem as ShotItem).data.shotNumber}): ${(nextItem as ShotItem).data.prompt}`;
         }
-        const suggestion = await getTimelineSuggestion(context);
-        setAiSuggestion(suggestion);
-        setIsLoadingSuggestion(false);
+        try {
+            const suggestion = await getTimelineSuggestion(context, { signal });
+            setAiSuggestion(suggestion);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                appLogger.error('Failed to get timeline suggestion:', error);
+                toast.error('Unable to get a suggestion for this shot. Please try again.');
+            }
+        } finally {
+            tasks.finish('suggestion', signal);
+            setIsLoadingSuggestion(false);
+        }
     }
     
     const updateItemState = (updatedItem: AnyTimelineItem) => {
-        setTimelineItems(prev => (prev || []).map(item => (item.id === updatedItem.id ? updatedItem : item)));
+        setTimelineItems(prev => (prev || []).map(item => {
+            if (item.id !== updatedItem.id) return item;
+            // Prompt edits from the panel become manual versions; switching versions doesn't
+            if (item.type === 'shot' && updatedItem.type === 'shot' && updatedItem.data.prompt !== item.data.prompt && updatedItem.data.versionId === item.data.versionId) {
+                return { ...updatedItem, data: recordPromptVersion({ ...updatedItem.data, prompt: item.data.prompt }, updatedItem.data.prompt, 'manual') };
+            }
+            return updatedItem;
+        }));
     };
 
     const updateShotData = (id: string, updates: Partial<ShotPrompt>) => {
@@ -2948,10 +3221,12 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
 
     const handleEnhance = async (item: ShotItem) => {
         const id = item.id;
+        const signal = tasks.start(`enhance:${id}`);
+        setGeneratedContent(prev => ({ ...prev, [id]: { ...(prev[id] || { status: 'idle' }), pendingAction: 'enhancing' } }));
         try {
             const context = (timelineItems || []).filter(i => i).map(i => i.type === 'shot' ? `Shot ${(i as ShotItem)?.data?.shotNumber ?? '?'}: ${(i as ShotItem)?.data?.description ?? ''}` : '').join('\n');
-            const enhanced = await enhanceShotPrompt(item.data.prompt, context);
-            updateShotData(id, { prompt: enhanced });
+            const enhanced = await enhanceShotPrompt(item.data.prompt, context, { signal });
+            setTimelineItems(prev => (prev || []).map(i => i.id === id && i.type === 'shot' ? { ...i, data: recordPromptVersion(i.data, enhanced, 'enhance') } : i));
             setGeneratedContent(prev => ({
                 ...prev,
                 [id]: {
@@ -2961,12 +3236,17 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                 }
             }));
         } catch (e) {
-            handleAIServiceError(e, 'Prompt Enhancement');
+            if (!isAbortError(e)) handleAIServiceError(e, 'Prompt Enhancement');
+        } finally {
+            tasks.finish(`enhance:${id}`, signal);
+            setGeneratedContent(prev => prev[id] ? { ...prev, [id]: { ...prev[id], pendingAction: undefined } } : prev);
         }
     };
 
+    // Back to the first version; later versions stay in the history
     const handleRevert = (item: ShotItem) => {
-        updateShotData(item.id, { prompt: item.data.originalPrompt });
+        const shot = ensurePromptHistory(item.data);
+        updateShotData(item.id, checkoutPromptVersion(shot, shot.versions![0].id));
     };
 
     const handleGenerateVideoPrompt = async () => {
@@ -3008,6 +3288,46 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
         setVideoPromptCopied(false);
     };
 
+    // Coverage replaces the shots already covering the beat, or goes after the selected item
+    const handleAcceptCoverage = (beat: ScriptBeat, coverage: CoverageShot[]) => {
+        const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+        const beatText = normalize(beat.text);
+        const covered = timelineItems.filter((item): item is ShotItem => {
+            if (item.type !== 'shot') return false;
+            const description = normalize(item.data.description);
+            return !!description && (beatText.includes(description) || description === normalize(describeBeat(beat)));
+        });
+        const anchor = covered[0] || timelineItems.find(item => item.id === activeTimelineItemId);
+        const locationId = anchor?.type === 'shot' ? anchor.locationId : undefined;
+        const location = locationRegistryService.get(locationId);
+
+        const newShots: ShotItem[] = coverage.map(shot => {
+            const id = crypto.randomUUID();
+            const composition = characterBibleService.castComposition(shot.composition, shot.description);
+            const prompt = characterBibleService.applyToPrompt(
+                locationRegistryService.applyToPrompt(`Cinematic shot: ${shot.role}. Scene: ${shot.description}.`, locationId),
+                linkedCharacterIds(composition)
+            );
+            updateVisuals(id, 'compositions', composition);
+            updateVisuals(id, 'cameraMovement', shot.camera);
+            updateVisuals(id, 'lightingData', clone(location?.lighting || (anchor && lightingData[anchor.id]) || defaultLighting));
+            updateVisuals(id, 'colorGradingData', clone(location?.color || (anchor && colorGradingData[anchor.id]) || defaultColorGrading));
+            return { id, type: 'shot', locationId, continuity: startContinuity('scene'), data: { shotNumber: 0, ...startPromptHistory(prompt, 'coverage'), description: shot.description, role: shot.role } };
+        });
+
+        const coveredIds = new Set(covered.map(item => item.id));
+        const insertAt = anchor ? timelineItems.findIndex(item => item.id === anchor.id) + (covered.length > 0 ? 0 : 1) : timelineItems.length;
+        const before = timelineItems.filter((item, index) => index < insertAt && !coveredIds.has(item.id));
+        const after = timelineItems.filter((item, index) => index >= insertAt && !coveredIds.has(item.id));
+        handleSetTimelineItems([...before, ...newShots, ...after]);
+        covered.forEach(item => handleDeleteItem(item.id));
+        setActiveTimelineItemId(newShots[0].id);
+        setShowCoverage(false);
+        toast.success(covered.length > 0
+            ? `Replaced ${covered.length} shot${covered.length === 1 ? '' : 's'} with ${newShots.length} coverage shots.`
+            : `Added ${newShots.length} coverage shots.`);
+    };
+
     const handleDeleteItem = (id: string) => {
         if (activeTimelineItemId === id) {
             setActiveTimelineItemId(null);
@@ -3030,12 +3350,11 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                         <motion.button 
                           whileHover={{scale: 1.05}} 
                           whileTap={{scale: 0.95}} 
-                          onClick={handleAnalyzeStyle} 
-                          disabled={isAnalyzingStyle} 
+                          onClick={isAnalyzingStyle ? () => tasks.cancel('style') : handleAnalyzeStyle} 
                           className="px-4 py-2.5 md:py-3 text-sm rounded-xl bg-gray-800 hover:bg-gray-700 flex items-center space-x-2 md:space-x-3 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                         >
                             {isAnalyzingStyle ? (
-                              <><div className="w-4 h-4 md:w-5 md:h-5 animate-spin rounded-full border-2 border-gray-400 border-t-white"/><span>Analyzing...</span></>
+                              <><div className="w-4 h-4 md:w-5 md:h-5 animate-spin rounded-full border-2 border-gray-400 border-t-white"/><span>Analyzing... Cancel</span><X className="w-4 h-4"/></>
                             ) : (
                               <><Palette className="w-4 h-4 md:w-5 md:h-5"/><span>Analyze Style</span></>
                             )}
@@ -3071,6 +3390,7 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                                 item={activeItem}
                                 updateItem={updateItemState}
                                 onEnhance={handleEnhance}
+                                onCancelEnhance={(item) => tasks.cancel(`enhance:${item.id}`)}
                                 onRevert={handleRevert}
                                 onGenerateVideoPrompt={(item) => { setVideoPromptInstructions(''); setShowVideoPromptModal(item); }}
                                 generatedContent={generatedContent[activeItem.id] || { status: 'idle' }}
@@ -3084,6 +3404,7 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                                 setAspectRatios={setAspectRatios}
                                 styles={styles}
                                 setStyles={setStyles}
+                                timelineItems={timelineItems}
                            />
                         ) : (
                             <div className="flex-grow flex items-center justify-center text-gray-500 bg-gray-950/70 border border-gray-800 rounded-xl">
@@ -3097,12 +3418,11 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
                             <h3 className="text-lg md:text-xl font-semibold text-amber-400">Sequence Timeline</h3>
                             <motion.button 
-                              onClick={handleGetSuggestion} 
-                              disabled={isLoadingSuggestion} 
+                              onClick={isLoadingSuggestion ? () => tasks.cancel('suggestion') : handleGetSuggestion} 
                               className="text-sm text-purple-300 hover:text-purple-200 flex items-center space-x-2 px-3 py-2 bg-purple-900/20 hover:bg-purple-900/30 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {isLoadingSuggestion ? (
-                                  <><div className="w-4 h-4 animate-spin rounded-full border-2 border-gray-400 border-t-purple-400"/><span className="hidden sm:inline">Getting suggestion...</span></>
+                                  <><div className="w-4 h-4 animate-spin rounded-full border-2 border-gray-400 border-t-purple-400"/><span className="hidden sm:inline">Getting suggestion...</span><X className="w-4 h-4"/><span>Cancel</span></>
                                 ) : (
                                   <><WandSparkles className="w-4 h-4"/><span>Dreamer Assist</span></>
                                 )}
@@ -3117,12 +3437,28 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                            <p className="text-sm text-purple-200 leading-relaxed">{aiSuggestion}</p>
                          </motion.div>
                        )}
+                       {timelineLocations.length > 0 && (
+                         <div className="flex items-center gap-2">
+                           <MapPin className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                           <select
+                             value={locationFilter}
+                             onChange={(event) => setLocationFilter(event.target.value)}
+                             className="flex-grow bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-amber-500"
+                           >
+                             <option value="">All locations</option>
+                             {timelineLocations.map(location => (
+                               <option key={location.id} value={location.id}>{[location.setting, location.name, location.timeOfDay].filter(Boolean).join(' · ')}</option>
+                             ))}
+                           </select>
+                         </div>
+                       )}
                        <div className="flex-grow overflow-y-auto pr-2" ref={timelineContainerRef} style={{maxHeight: '60vh', overflowY: 'auto', scrollbarWidth: 'thin', scrollbarColor: '#374151 #1f2937'}}>
-                         <Reorder.Group axis="y" values={timelineItems} onReorder={handleSetTimelineItems} className="space-y-3 md:space-y-4">
-                            {(timelineItems || []).map(item => (
+                         <Reorder.Group axis="y" values={visibleTimelineItems} onReorder={handleSetTimelineItems} className="space-y-3 md:space-y-4">
+                            {(visibleTimelineItems || []).map(item => (
                                 <Reorder.Item 
                                   key={item.id} 
                                   value={item} 
+                                  dragListener={!locationFilter}
                                   className={`bg-gray-800 rounded-xl border-2 shadow-lg cursor-grab active:cursor-grabbing transition-all duration-200 ${
                                     activeTimelineItemId === item.id ? 'border-amber-500 shadow-amber-500/20 shadow-lg' : 'border-gray-800 hover:border-gray-700 hover:bg-gray-750'
                                   }`}
@@ -3137,6 +3473,12 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                                                     <span className="text-amber-400 font-bold text-xs md:text-sm">{(item as ShotItem).data.shotNumber}</span>
                                                   </div>
                                                   <p className="font-bold text-sm md:text-base text-white truncate">Shot {(item as ShotItem).data.shotNumber}: {(item as ShotItem).data.role}</p>
+                                                  {locations.filter(location => location.id === (item as ShotItem).locationId).map(location => (
+                                                    <span key={location.id} className="text-[10px] px-2 py-0.5 rounded-full bg-gray-700 text-gray-300 truncate flex-shrink-0">{location.name}</span>
+                                                  ))}
+                                                  {compositions[item.id] && crossesActionLine(compositions[item.id]) && (
+                                                    <span title="The camera crosses the 180-degree line" className="flex-shrink-0"><AlertTriangle className="w-4 h-4 text-red-400" /></span>
+                                                  )}
                                                 </>
                                               )}
                                               {item.type === 'b-roll' && (
@@ -3221,6 +3563,21 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                                        <p className="text-sm text-gray-400">Add a new cinematic shot</p>
                                      </div>
                                    </motion.button>
+                                   {coverageBeats.length > 0 && (
+                                   <motion.button 
+                                     whileHover={{ x: 4, backgroundColor: "rgb(55 65 81)" }}
+                                     onClick={() => { setAddItemMenuOpen(false); setShowCoverage(true); }} 
+                                     className="w-full text-left p-4 hover:bg-gray-700 rounded-lg flex items-center space-x-3 transition-all"
+                                   >
+                                     <div className="w-8 h-8 bg-amber-500/20 rounded-lg flex items-center justify-center">
+                                       <Clapperboard className="w-5 h-5 text-amber-400" />
+                                     </div>
+                                     <div>
+                                       <p className="font-medium text-white">Dialogue Coverage</p>
+                                       <p className="text-sm text-gray-400">Plan master, over-the-shoulders and singles for an exchange</p>
+                                     </div>
+                                   </motion.button>
+                                   )}
                                    <motion.button 
                                      whileHover={{ x: 4, backgroundColor: "rgb(55 65 81)" }}
                                      onClick={() => handleAddItem('b-roll')} 
@@ -3267,6 +3624,13 @@ const VisualSequenceEditor: React.FC<VisualSequenceEditorProps> = (props) => {
                     </div>
                 </div>
             </div>
+            <DialogueCoverageModal
+                isOpen={showCoverage}
+                onClose={() => setShowCoverage(false)}
+                beats={coverageBeats}
+                blocking={(activeTimelineItemId && compositions[activeTimelineItemId]) || defaultComposition}
+                onAccept={handleAcceptCoverage}
+            />
              {showVideoPromptModal && (
                 <motion.div
                     initial={{ opacity: 0 }}
@@ -3325,16 +3689,18 @@ export default function App() {
     // STATE MANAGEMENT
     // #############################################################################################
     const [stage, setStage] = useState<Stage>('landing');
-    const [promptData, setPromptData] = useState<PromptData>({
-        scriptText: '', sceneCore: '', emotion: '', numberOfShots: '3', cameraType: 'Arri Alexa 65', shotTypes: '', focalLength: '35mm cinematic', depthOfField: 'f/2.8 cinematic shallow', framing: 'rule of thirds', mainCharacterBlocking: '', secondaryCharacterBlocking: '', antagonistBlocking: '', lightingStyle: 'chiaroscuro contrast', lightingDetails: '', atmosphere: '', filmStock: 'Kodak Vision3 500T 5219', filmEmulation: '', colorGrading: 'teal-orange tension', colorPalette: '', storyBeat: '', visualToneKeywords: '', continuityMode: 'tight continuity', seedLinking: 'use previous seeds', resolution: '4K render', outputType: 'cinematic frame', visualCompositionGuide: '', visualCameraSetup: '', visualLightingSetup: '', visualLightingMood: '', visualColorPalette: '', visualColorHarmony: '', visualCameraMovement: '', visualFocusMotion: ''
-    });
+    const [promptData, setPromptData] = useState<PromptData>(() => ({ ...defaultPromptData, projectId: projectService.getActiveProjectId() }));
     const [generatedPrompts, setGeneratedPrompts] = useState<ShotPrompt[]>([]);
     const [timelineItems, setTimelineItems] = useState<AnyTimelineItem[]>([]);
     const [savedConfigurations, setSavedConfigurations] = useState<SavedConfiguration[]>([]);
     const [knowledgeDocs, setKnowledgeDocs] = useState<KnowledgeDocument[]>([]);
     const [isProcessingDoc, setIsProcessingDoc] = useState(false);
+    const [importedScreenplay, setImportedScreenplay] = useState<ImportedScreenplay | null>(null);
     const [isGeneratingStory, setIsGeneratingStory] = useState(false);
+    const [isImportingPrompt, setIsImportingPrompt] = useState(false);
     const [isGeneratingRandom, setIsGeneratingRandom] = useState(false);
+    const [isGeneratingSequence, setIsGeneratingSequence] = useState(false);
+    const aiTasks = useAbortableTasks<'sequence'>();
 
     // Visual State - keyed by TIMELINE ITEM ID for robustness
     const [visualPresets, setVisualPresets] = useState<VisualPreset[]>([]);
@@ -3344,6 +3710,8 @@ export default function App() {
     const [cameraMovement, setCameraMovement] = useState<Record<string, CameraMovementData>>({});
     
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+    const [showKeySettings, setShowKeySettings] = useState(false);
+    const { active: questionSet } = useQuestionSets();
     const [isLoadingProgress, setIsLoadingProgress] = useState(true);
 
 
@@ -3361,7 +3729,7 @@ export default function App() {
                 const progress = await loadUserProgress();
                 if (progress) {
                     setCurrentQuestionIndex(progress.currentQuestionIndex);
-                    setPromptData(progress.promptData);
+                    setPromptData(prev => withProjectId(progress.promptData, prev.projectId));
                     setSavedConfigurations(Array.isArray(progress.savedConfigurations) ? progress.savedConfigurations : []);
                     setVisualPresets(Array.isArray(progress.visualPresets) ? progress.visualPresets : []);
                     
@@ -3520,6 +3888,26 @@ export default function App() {
         }
     };
 
+    // Scope per-project settings (AI provider, etc.) to the project's id, so renaming keeps them.
+    // An untitled project stays on the default scope until it is named.
+    const hasProjectTitle = formatValue(promptData.projectTitle) !== '';
+    useEffect(() => {
+        if (hasProjectTitle && (!promptData.projectId || promptData.projectId === DEFAULT_PROJECT_ID)) {
+            setPromptData(prev => ({ ...prev, projectId: projectService.createProjectId() }));
+            return;
+        }
+        projectService.setActiveProject(promptData.projectId);
+    }, [promptData.projectId, hasProjectTitle]);
+
+    // AI calls that go ahead past a soft budget cap say so; one toast for a whole batch
+    useEffect(() => tokenBudgetingSystem.onWarning(message => toast.warning(message, { id: 'ai-budget-warning' })), []);
+
+    // Without a Gemini key nothing can be generated, so ask for one up front and whenever a request needs it
+    useEffect(() => {
+        if (!aiProviderService.hasApiKey()) setShowKeySettings(true);
+        return aiProviderService.onMissingApiKey(() => setShowKeySettings(true));
+    }, []);
+
     // Auto-save to Supabase when critical data changes with proper state locking
     useEffect(() => {
         if (!isLoadingProgress && stage === 'builder') {
@@ -3609,8 +3997,8 @@ export default function App() {
     const handleRandomAnswer = async (id: keyof PromptData, question: string) => {
         setIsGeneratingRandom(true);
         try {
-            // First check if current question has randomOptions defined
-            const currentQuestion = activeQuestions?.[currentQuestionIndex];
+            // First check if the question being answered has randomOptions defined
+            const currentQuestion = questionSet.questions.find(candidate => answerField(candidate) === id);
             if (currentQuestion?.randomOptions && currentQuestion.randomOptions.length > 0) {
                 // Pick a random option from the question's predefined suggestions
                 const randomIndex = Math.floor(Math.random() * currentQuestion.randomOptions.length);
@@ -3631,95 +4019,112 @@ export default function App() {
         }
     };
     
-    const getValueForShot = (value: string | string[] | undefined, shotIndex: number): string => {
-        if (!value) return '';
-        if (Array.isArray(value)) {
-          const validValues = value.filter(v => v && v.trim());
-          if (validValues.length === 0) return '';
-          return validValues[shotIndex % validValues.length] || '';
-        }
-        return value;
-    };
-
-    const analyzeScript = (script: string, totalShots: number): string[] => {
-        if (!script || script.trim().length === 0) return [];
-        const segments = (script || '').split(/\n\n+/).map(segment => segment.trim()).filter(Boolean);
-        if (segments.length === 0) return [];
-        const scenesPerShot = Math.max(1, Math.ceil(segments.length / totalShots));
-        const shotScenes: string[] = [];
-        for (let i = 0; i < totalShots; i++) {
-          const startIndex = i * scenesPerShot;
-          const endIndex = Math.min(startIndex + scenesPerShot, segments.length);
-          shotScenes.push(segments.slice(startIndex, endIndex).join(' ') || segments[i] || '');
-        }
-        return shotScenes;
-    };
-
     const generatePrompt = async () => {
+        if (isGeneratingSequence) return;
+        const signal = aiTasks.start('sequence');
+        setIsGeneratingSequence(true);
         try {
-            const numberOfShots = parseInt(formatValue(promptData.numberOfShots)) || 3;
-            const shotTypeArray = ((formatValue(promptData.numberOfShots) || 'medium shot, close up, wide shot') as string).split(',').map(s => s.trim());
-            const shotScenes = promptData.scriptText ? analyzeScript(promptData.scriptText, numberOfShots) : [];
+            const numberOfShots = shotCountOf(promptData);
+            const shotTypeArray = ['medium shot', 'close up', 'wide shot'];
+            const beats = segmentScriptBeats(formatValue(promptData.scriptText));
+            const beatShots = promptData.scriptText ? planBeatShots(beats, numberOfShots) : [];
+            // Cast from the merged bible now; it is stored with the rest of the sequence
+            const cast = characterBibleService.resolveMerge(extractCharactersFromScript(formatValue(promptData.scriptText)));
+            // Each shot plays where its first beat's scene is set
+            const locations = locationRegistryService.resolve(resolveSceneLocations(
+                Array.from({ length: numberOfShots }, (_, i) => beats.find(beat => beat.number === beatShots[i]?.beatNumbers[0])?.sceneHeading)
+            ));
             
             const newShotItems: ShotItem[] = [];
+            const seedRule = builderSeedRule(formatValue(promptData.seedLinking), formatValue(promptData.continuityMode));
+            // The camera, lighting and film answers as they stand for each shot, overrides included
+            const shotSpecs: Record<string, string> = {};
+            const shotCameras: Record<string, CameraMovementData> = {};
             for (let i = 0; i < numberOfShots; i++) {
                 const newItemId = crypto.randomUUID();
                 const shotPrompt: ShotPrompt = {
                     shotNumber: i + 1,
                     prompt: `Placeholder for Shot ${i+1}`,
                     originalPrompt: `Placeholder for Shot ${i+1}`,
-                    description: shotScenes[i] || getValueForShot(promptData.sceneCore, i),
-                    role: shotTypeArray[i % shotTypeArray.length]
+                    description: beatShots[i]?.description || getValueForShot(promptData.sceneCore, i),
+                    role: getValueForShot(promptData.shotTypes, i) || shotTypeArray[i % shotTypeArray.length]
                 };
-                newShotItems.push({ id: newItemId, type: 'shot', data: shotPrompt });
+                newShotItems.push({ id: newItemId, type: 'shot', locationId: locations[i]?.id, continuity: startContinuity(seedRule), data: shotPrompt });
+                // The scene text names the camera more often than the answers, which may still hold their defaults
+                const cameraAnswers = questionSet.questions
+                    .map(answerField)
+                    .filter(field => CAMERA_ANSWER_FIELDS.includes(field) && promptData[field] !== defaultPromptData[field])
+                    .map(field => getValueForShot(promptData[field] as string | string[], i));
+                const namedCamera = cameraFromAnswers([getValueForShot(promptData.sceneCore, i), ...cameraAnswers]);
+                shotCameras[newItemId] = { ...resetCameraMovement(), ...namedCamera };
+                const lens = namedCamera.focalLength !== undefined ? ` Lens: ${describeOptics(shotCameras[newItemId])}` : '';
+                shotSpecs[newItemId] = `${describeShotSpec(promptData, i)}${lens}`.trim();
             }
             
             const updates: { comp: Record<string, CompositionData>, light: Record<string, LightingData>, color: Record<string, ColorGradingData>, move: Record<string, CameraMovementData> } = { comp: {}, light: {}, color: {}, move: {} };
-            newShotItems.forEach(item => {
-                updates.comp[item.id] = clone(defaultComposition);
-                updates.light[item.id] = clone(defaultLighting);
-                updates.color[item.id] = clone(defaultColorGrading);
-                updates.move[item.id] = clone(defaultCameraMovement);
+            newShotItems.forEach((item, index) => {
+                const location = locations[index];
+                updates.comp[item.id] = castComposition(clone(defaultComposition), item.data.description, cast.characters);
+                updates.light[item.id] = clone(location?.lighting || defaultLighting);
+                updates.color[item.id] = clone(location?.color || defaultColorGrading);
+                updates.move[item.id] = shotCameras[item.id];
             });
-            setCompositions(prev => ({ ...prev, ...updates.comp }));
-            setLightingData(prev => ({ ...prev, ...updates.light }));
-            setColorGradingData(prev => ({ ...prev, ...updates.color }));
-            setCameraMovement(prev => ({ ...prev, ...updates.move }));
+            // Nothing is committed until the descriptions are in, so cancelling leaves the current sequence alone
+            const commitVisuals = () => {
+                characterBibleService.commitMerge(cast);
+                locationRegistryService.add(locations);
+                setCompositions(prev => ({ ...prev, ...updates.comp }));
+                setLightingData(prev => ({ ...prev, ...updates.light }));
+                setColorGradingData(prev => ({ ...prev, ...updates.color }));
+                setCameraMovement(prev => ({ ...prev, ...updates.move }));
+            };
 
             try {
-                const finalItems = await Promise.all((newShotItems || []).map(async (item) => {
+                const finalItems = await Promise.all((newShotItems || []).map(async (item, index) => {
                     try {
+                        // Queued as batch work so interactive insight requests still get through
                         const smartDesc = await generateSmartVisualDescription({
                             composition: updates.comp[item.id],
                             lighting: updates.light[item.id],
                             color: updates.color[item.id],
                             camera: updates.move[item.id],
-                        });
-                        const prompt = `Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. ${smartDesc}`;
-                        return { ...item, data: { ...item.data, prompt, originalPrompt: prompt } };
+                        }, undefined, { priority: 'batch', signal });
+                        const prompt = applyCharacterDescriptors(applyLocationDescriptor(`Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. ${[shotSpecs[item.id], smartDesc].filter(Boolean).join(' ')}`, locations[index]), cast.characters, linkedCharacterIds(updates.comp[item.id]));
+                        return { ...item, data: { ...item.data, ...startPromptHistory(prompt, 'builder') } };
                     } catch (itemError) {
+                        if (isAbortError(itemError)) throw itemError;
                         appLogger.error(`Failed to generate smart description for shot ${item.data.shotNumber}:`, itemError);
                         // Provide fallback description
-                        const fallbackPrompt = `Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. A visually compelling scene with cinematic composition and lighting.`;
-                        return { ...item, data: { ...item.data, prompt: fallbackPrompt, originalPrompt: fallbackPrompt } };
+                        const fallbackPrompt = applyCharacterDescriptors(applyLocationDescriptor(`Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. ${shotSpecs[item.id] || 'A visually compelling scene with cinematic composition and lighting.'}`, locations[index]), cast.characters, linkedCharacterIds(updates.comp[item.id]));
+                        return { ...item, data: { ...item.data, ...startPromptHistory(fallbackPrompt, 'builder') } };
                     }
                 }));
 
+                commitVisuals();
                 setTimelineItems(finalItems);
                 setStage('final');
             } catch (promiseError) {
+                if (isAbortError(promiseError)) throw promiseError;
                 appLogger.error('Failed to generate visual descriptions:', promiseError);
                 // Still proceed with basic shot items
+                commitVisuals();
                 setTimelineItems(newShotItems);
                 setStage('final');
             }
         } catch (error) {
+            if (isAbortError(error)) {
+                toast.info('Sequence generation cancelled.');
+                return;
+            }
             handleError(error, { showUserMessage: true, context: 'Prompt Generation' });
+        } finally {
+            aiTasks.finish('sequence', signal);
+            setIsGeneratingSequence(false);
         }
     };
 
     const saveConfiguration = (name: string) => setSavedConfigurations(prev => [{ id: Date.now().toString(), name, data: promptData, savedAt: Date.now() }, ...prev]);
-    const loadConfiguration = (config: SavedConfiguration) => { setPromptData(config.data); setStage('builder'); };
+    const loadConfiguration = (config: SavedConfiguration) => { setPromptData(prev => withProjectId(config.data, prev.projectId)); setStage('builder'); };
     const deleteConfiguration = (id: string) => setSavedConfigurations(prev => prev.filter(c => c.id !== id));
     
     const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -3727,7 +4132,7 @@ export default function App() {
         
         // Comprehensive file validation
         const allowedTypes = ['text/plain', 'text/markdown', 'application/json', 'application/pdf'];
-        const allowedExtensions = ['.txt', '.md', '.json', '.pdf'];
+        const allowedExtensions = ['.txt', '.md', '.json', '.pdf', '.fdx'];
         const maxFileSize = 10 * 1024 * 1024; // 10MB in bytes
         const newDocs: KnowledgeDocument[] = [];
         const errors: string[] = [];
@@ -3751,6 +4156,21 @@ export default function App() {
                     }
                     continue;
                 }
+
+                // Final Draft files are screenplays, not reference material: they go to the storyboard
+                if (fileExtension === '.fdx') {
+                    try {
+                        const imported = importFinalDraft(file.name, await file.text());
+                        setImportedScreenplay(imported);
+                        setPromptData(prev => ({ ...prev, scriptText: imported.text }));
+                        toast.success(`${file.name} is ready to storyboard (${imported.document.scenes.length} scenes).`, {
+                            action: { label: 'Open storyboard', onClick: () => setStage('storyboard') }
+                        });
+                    } catch (importError) {
+                        errors.push(`File "${file.name}": ${importError instanceof Error ? importError.message : 'Failed to read file content'}`);
+                    }
+                    continue;
+                }
                 
                 // Validate MIME type
                 if (!allowedTypes.includes(file.type) && file.type !== '') {
@@ -3762,8 +4182,31 @@ export default function App() {
                 }
                 
                 try {
-                    // Read file content
-                    const content = await file.text();
+                    // Read file content; PDFs need their text layer extracted
+                    let content: string;
+                    if (fileExtension === '.pdf') {
+                        const pdf = await extractPdfText(await file.arrayBuffer());
+                        content = formatPdfText(pdf);
+                        if (!content.trim()) {
+                            errors.push(`File "${file.name}": No selectable text found (scanned PDFs need OCR first)`);
+                            continue;
+                        }
+                        if (looksLikeScreenplayLayout(pdf)) {
+                            const screenplayText = pdfScreenplayToFountain(pdf);
+                            toast.info(`${file.name} looks like a screenplay.`, {
+                                action: {
+                                    label: 'Storyboard it',
+                                    onClick: () => {
+                                        setImportedScreenplay(null);
+                                        setPromptData(prev => ({ ...prev, scriptText: screenplayText }));
+                                        setStage('storyboard');
+                                    }
+                                }
+                            });
+                        }
+                    } else {
+                        content = await file.text();
+                    }
                     
                     // Basic content sanitization
                     const sanitizedContent = content
@@ -3808,7 +4251,7 @@ export default function App() {
             composition: compositions[timelineItemId] || defaultComposition,
             lighting: lightingData[timelineItemId] || defaultLighting,
             color: colorGradingData[timelineItemId] || defaultColorGrading,
-            camera: cameraMovement[timelineItemId] || defaultCameraMovement,
+            camera: cameraMovement[timelineItemId] || DEFAULT_CAMERA_MOVEMENT,
         };
         setVisualPresets(prev => [newPreset, ...prev]);
     };
@@ -3911,6 +4354,25 @@ export default function App() {
             setIsGeneratingStory(false);
         }
     };
+    const onImportPrompt = async (prompt: string) => {
+        setIsImportingPrompt(true);
+        try {
+            const imported = await importImagePrompt(prompt);
+            const count = Object.keys(imported.fields).length + (imported.aspectRatio ? 1 : 0);
+            if (count === 0) {
+                toast.error('Nothing in that prompt matched a builder field.');
+                return;
+            }
+            setPromptData(prev => ({ ...prev, ...importedAnswers(imported, questionSet.questions) }));
+            setCurrentQuestionIndex(0);
+            setStage('builder');
+            toast.success(`Read ${count} ${count === 1 ? 'field' : 'fields'} from the prompt${imported.usedAI ? ', with AI help' : ''}.`);
+        } catch (error) {
+            handleError(error, { showUserMessage: true, context: 'Prompt Import' });
+        } finally {
+            setIsImportingPrompt(false);
+        }
+    };
     const onBackToHome = () => { setStage('landing'); };
     
     // Fix: Added a trailing comma to the generic type parameter <T> to resolve TSX parsing ambiguity.
@@ -3930,19 +4392,19 @@ export default function App() {
                 composition: compositions[timelineItemId] || defaultComposition,
                 lighting: lightingData[timelineItemId] || defaultLighting,
                 color: colorGradingData[timelineItemId] || defaultColorGrading,
-                camera: cameraMovement[timelineItemId] || defaultCameraMovement,
+                camera: cameraMovement[timelineItemId] || DEFAULT_CAMERA_MOVEMENT,
             };
 
             try {
                 const smartDesc = await generateSmartVisualDescription(visualData);
-                const newPrompt = `Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. ${smartDesc}`;
+                const newPrompt = characterBibleService.applyToPrompt(locationRegistryService.applyToPrompt(`Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. ${smartDesc}`, item.locationId), linkedCharacterIds(visualData.composition));
                 
-                setTimelineItems(prev => (prev || []).map(i => i.id === timelineItemId && i.type === 'shot' ? {...i, data: {...i.data, prompt: newPrompt }} : i));
+                setTimelineItems(prev => (prev || []).map(i => i.id === timelineItemId && i.type === 'shot' ? {...i, data: recordPromptVersion(i.data, newPrompt, 'visuals')} : i));
             } catch (aiError) {
                 appLogger.error('Failed to generate smart visual description:', aiError);
                 // Provide fallback prompt without AI enhancement
-                const fallbackPrompt = `Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. A visually compelling scene with cinematic composition and professional lighting.`;
-                setTimelineItems(prev => (prev || []).map(i => i.id === timelineItemId && i.type === 'shot' ? {...i, data: {...i.data, prompt: fallbackPrompt }} : i));
+                const fallbackPrompt = characterBibleService.applyToPrompt(locationRegistryService.applyToPrompt(`Cinematic shot ${item.data.shotNumber}: ${item.data.role}. Scene: ${item.data.description}. A visually compelling scene with cinematic composition and professional lighting.`, item.locationId), linkedCharacterIds(visualData.composition));
+                setTimelineItems(prev => (prev || []).map(i => i.id === timelineItemId && i.type === 'shot' ? {...i, data: recordPromptVersion(i.data, fallbackPrompt, 'visuals')} : i));
             }
         } catch (error) {
             appLogger.error('Failed to update prompt from visuals:', error);
@@ -3971,18 +4433,24 @@ export default function App() {
     if (stage === 'landing') {
         return <ErrorBoundary>
             <Toaster position="top-right" richColors closeButton />
-            <LandingPage onStartBuilder={onStartBuilder} onStartStoryboard={onStartStoryboard} onGenerateStory={onGenerateStory} isGenerating={isGeneratingStory} />
+            <AIQueueIndicator />
+            <AISettingsModal isOpen={showKeySettings} onClose={() => setShowKeySettings(false)} />
+            <LandingPage onStartBuilder={onStartBuilder} onStartStoryboard={onStartStoryboard} onGenerateStory={onGenerateStory} isGenerating={isGeneratingStory} onImportPrompt={onImportPrompt} isImporting={isImportingPrompt} />
         </ErrorBoundary>;
     }
     if (stage === 'builder') {
         return <ErrorBoundary>
             <Toaster position="top-right" richColors closeButton />
+            <AIQueueIndicator />
+            <AISettingsModal isOpen={showKeySettings} onClose={() => setShowKeySettings(false)} />
             <BuilderPage 
             promptData={promptData}
             handleAnswer={handleAnswer}
             handleRandomAnswer={handleRandomAnswer}
             isGeneratingRandom={isGeneratingRandom}
             generatePrompt={generatePrompt}
+            isGeneratingSequence={isGeneratingSequence}
+            cancelGeneratePrompt={() => aiTasks.cancel('sequence')}
             savedConfigurations={savedConfigurations}
             knowledgeDocs={knowledgeDocs}
             saveConfiguration={saveConfiguration}
@@ -3994,15 +4462,20 @@ export default function App() {
             currentQuestionIndex={currentQuestionIndex}
             setCurrentQuestionIndex={setCurrentQuestionIndex}
             onBackToHome={onBackToHome}
+            questionSet={questionSet}
         /></ErrorBoundary>;
     }
     if (stage === 'storyboard') {
         return <ErrorBoundary>
             <Toaster position="top-right" richColors closeButton />
+            <AIQueueIndicator />
+            <AISettingsModal isOpen={showKeySettings} onClose={() => setShowKeySettings(false)} />
             <StoryboardPage 
             setStage={setStage}
             setGeneratedPrompts={setGeneratedPrompts}
             scriptText={promptData.scriptText || ''}
+            importedScreenplay={importedScreenplay}
+            aspectRatio={formatValue(promptData.aspectRatio) || MIDJOURNEY.DEFAULT_ASPECT_RATIO}
             setTimelineItems={setTimelineItems}
             setCompositions={setCompositions}
             setLightingData={setLightingData}
@@ -4013,6 +4486,8 @@ export default function App() {
     if (stage === 'final') {
         return <ErrorBoundary>
             <Toaster position="top-right" richColors closeButton />
+            <AIQueueIndicator />
+            <AISettingsModal isOpen={showKeySettings} onClose={() => setShowKeySettings(false)} />
             <VisualSequenceEditor 
             timelineItems={timelineItems}
             setTimelineItems={setTimelineItems}
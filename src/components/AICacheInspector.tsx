@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trash2, RefreshCcw, Database } from 'lucide-react';
+import { toast } from 'sonner';
+import { aiCacheService, AICacheEntry, CACHE_TTL_OPTIONS } from '../services/aiCacheService';
+
+const formatAge = (timestamp: number): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+};
+
+const formatRemaining = (expiresAt: number): string => {
+  const ms = expiresAt - Date.now();
+  if (ms <= 0) return 'expired';
+  const hours = Math.round(ms / 3600000);
+  return hours < 48 ? `${hours}h left` : `${Math.round(hours / 24)}d left`;
+};
+
+export const AICacheInspector: React.FC = () => {
+  const [entries, setEntries] = useState<AICacheEntry[]>([]);
+  const [bypass, setBypass] = useState(aiCacheService.isBypassed());
+  const [ttlMs, setTtlMs] = useState(aiCacheService.getTtlMs());
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setEntries(await aiCacheService.list());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const toggleBypass = () => {
+    aiCacheService.setBypassed(!bypass);
+    setBypass(!bypass);
+  };
+
+  const changeTtl = (value: number) => {
+    aiCacheService.setTtlMs(value);
+    setTtlMs(value);
+  };
+
+  const deleteEntry = async (key: string) => {
+    await aiCacheService.delete(key);
+    await refresh();
+  };
+
+  const clearAll = async () => {
+    await aiCacheService.clear();
+    await refresh();
+    toast.success('AI response cache cleared.');
+  };
+
+  const purgeExpired = async () => {
+    const removed = await aiCacheService.purgeExpired();
+    await refresh();
+    toast.success(`Removed ${removed} expired entries.`);
+  };
+
+  const totalHits = entries.reduce((sum, entry) => sum + entry.hits, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex items-center justify-between p-4 bg-gray-800/60 border border-gray-700 rounded-lg cursor-pointer">
+          <div>
+            <div className="text-sm font-medium text-gray-200">Bypass cache</div>
+            <div className="text-xs text-gray-500">Always call the provider; fresh results still refresh the cache</div>
+          </div>
+          <input type="checkbox" checked={bypass} onChange={toggleBypass} className="w-5 h-5 rounded border-gray-600 bg-gray-800 text-amber-500 focus:ring-amber-500 focus:ring-offset-0" />
+        </label>
+        <div className="p-4 bg-gray-800/60 border border-gray-700 rounded-lg space-y-2">
+          <div className="text-sm font-medium text-gray-200">Keep responses for</div>
+          <select
+            value={ttlMs}
+            onChange={(e) => changeTtl(Number(e.target.value))}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+          >
+            {CACHE_TTL_OPTIONS.map(option => (
+              <option key={option.ms} value={option.ms}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <Database className="w-4 h-4 text-amber-500" />
+          {entries.length} cached responses, {totalHits} hits
+        </div>
+        <div className="flex gap-2">
+          <button onClick={refresh} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm flex items-center gap-2"><RefreshCcw className="w-4 h-4" />Refresh</button>
+          <button onClick={purgeExpired} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm">Purge expired</button>
+          <button onClick={clearAll} disabled={entries.length === 0} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-sm flex items-center gap-2"><Trash2 className="w-4 h-4" />Clear all</button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {entries.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">No cached responses yet.</p>
+        )}
+        {entries.map(entry => (
+          <div key={entry.key} className="bg-gray-800 border border-gray-700 rounded-lg p-3">
+            <div className="flex items-start justify-between gap-3">
+              <button onClick={() => setExpandedKey(expandedKey === entry.key ? null : entry.key)} className="flex-1 text-left min-w-0">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="px-2 py-0.5 bg-amber-500/20 text-amber-400 rounded-full">{entry.feature}</span>
+                  <span className="text-gray-500">{entry.provider} · {entry.model}</span>
+                </div>
+                <p className="text-sm text-gray-300 mt-1 truncate">{entry.promptPreview}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatAge(entry.createdAt)} · {formatRemaining(entry.expiresAt)} · {entry.hits} hits
+                </p>
+              </button>
+              <button onClick={() => deleteEntry(entry.key)} className="p-1 hover:bg-gray-700 rounded transition-colors" title="Delete entry">
+                <Trash2 className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+            {expandedKey === entry.key && (
+              <pre className="mt-3 p-3 bg-gray-900 rounded text-xs text-gray-400 whitespace-pre-wrap max-h-48 overflow-y-auto">{entry.text}</pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AICacheInspector;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loader2, AlertTriangle, Clock, ChevronDown, Trash2 } from 'lucide-react';
+import { aiScheduler, AIJob } from '../services/aiSchedulerService';
+
+const STATUS_STYLES: Record<AIJob['status'], string> = {
+  queued: 'text-gray-400',
+  running: 'text-amber-400',
+  waiting: 'text-orange-400',
+  completed: 'text-green-400',
+  failed: 'text-red-400'
+};
+
+const PRIORITY_LABELS: Record<AIJob['priority'], string> = {
+  interactive: 'interactive',
+  normal: 'normal',
+  batch: 'batch'
+};
+
+/**
+ * Floating panel listing AI requests that are queued, running, backing off, or failed
+ */
+export const AIQueueIndicator: React.FC = () => {
+  const [jobs, setJobs] = useState<AIJob[]>(aiScheduler.getJobs());
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => aiScheduler.subscribe(setJobs), []);
+
+  // Tick while something is backing off so the retry countdown stays current
+  const hasWaiting = jobs.some(job => job.status === 'waiting');
+  useEffect(() => {
+    if (!hasWaiting) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasWaiting]);
+
+  if (jobs.length === 0) return null;
+
+  const pending = jobs.filter(job => job.status !== 'failed');
+  const failed = jobs.filter(job => job.status === 'failed');
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 text-sm">
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="mb-2 max-h-80 overflow-y-auto bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-3 space-y-2"
+          >
+            {jobs.map(job => (
+              <div key={job.id} className="bg-gray-800 rounded-lg px-3 py-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-200 truncate">{job.feature}</span>
+                  <span className={`text-xs ${STATUS_STYLES[job.status]}`}>
+                    {job.status === 'waiting' && job.retryAt
+                      ? `retry in ${Math.max(0, Math.ceil((job.retryAt - now) / 1000))}s`
+                      : job.status}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mt-0.5">
+                  {job.model} · {PRIORITY_LABELS[job.priority]} · attempt {Math.max(1, job.attempts)}
+                </div>
+                {job.error && job.status !== 'running' && (
+                  <div className="text-xs text-red-300/80 mt-1 line-clamp-2">{job.error}</div>
+                )}
+              </div>
+            ))}
+            {failed.length > 0 && (
+              <button
+                onClick={() => aiScheduler.clearFailed()}
+                className="w-full px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs text-gray-300 flex items-center justify-center gap-2"
+              >
+                <Trash2 className="w-3 h-3" />
+                Clear failed
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="ml-auto flex items-center gap-2 px-4 py-2 bg-gray-900/95 border border-gray-700 rounded-full shadow-xl text-gray-200 hover:border-amber-500/60 transition-colors"
+      >
+        {pending.some(job => job.status === 'running')
+          ? <Loader2 className="w-4 h-4 animate-spin text-amber-400" />
+          : pending.length > 0 ? <Clock className="w-4 h-4 text-orange-400" /> : <AlertTriangle className="w-4 h-4 text-red-400" />}
+        <span>
+          {pending.length > 0 && `${pending.length} AI request${pending.length === 1 ? '' : 's'}`}
+          {pending.length > 0 && failed.length > 0 && ' · '}
+          {failed.length > 0 && <span className="text-red-400">{failed.length} failed</span>}
+        </span>
+        <ChevronDown className={`w-4 h-4 text-gray-500 transition-transform ${expanded ? '' : 'rotate-180'}`} />
+      </button>
+    </div>
+  );
+};
+
+export default AIQueueIndicator;
@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Cpu, Save, RotateCcw, PlugZap, Loader2, Download, Upload, Trash2, Database, BarChart3, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  aiProviderService,
+  PROVIDER_PRESETS,
+  MODEL_TIERS,
+  AIProviderSettings,
+  ModelTier
+} from '../services/aiProviderService';
+import { DEFAULT_PROJECT_ID, projectService } from '../services/projectService';
+import { mockAIBackend, AIBackendMode } from '../services/mockAIBackend';
+import { AICacheInspector } from './AICacheInspector';
+import { AIUsagePanel } from './AIUsagePanel';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
+import { downloadJSON } from '../utils/exportUtils';
+
+type SettingsTab = 'provider' | 'templates' | 'cache' | 'usage';
+
+interface AISettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TIER_LABELS: Record<ModelTier, string> = {
+  fast: 'Fast (suggestions, storyboards)',
+  balanced: 'Balanced (visual descriptions)',
+  pro: 'Pro (knowledge, cinematic rewrites)',
+  lite: 'Lite (random inspiration)'
+};
+
+const BACKEND_MODES: { mode: AIBackendMode; label: string; hint: string }[] = [
+  { mode: 'live', label: 'Live', hint: 'Send requests to the provider' },
+  { mode: 'record', label: 'Record', hint: 'Send requests and save each response as a fixture' },
+  { mode: 'replay', label: 'Replay', hint: 'Answer from recorded fixtures only, no network' }
+];
+
+const presetKeyFor = (settings: AIProviderSettings): string => {
+  const match = Object.entries(PROVIDER_PRESETS).find(([, preset]) =>
+    preset.kind === settings.kind && preset.label === settings.label
+  );
+  return match ? match[0] : settings.kind;
+};
+
+export const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) => {
+  const [activeTab, setActiveTab] = useState<SettingsTab>('provider');
+  const [projectId, setProjectId] = useState(projectService.getActiveProjectId());
+  const [settings, setSettings] = useState<AIProviderSettings>(() => aiProviderService.getSettings());
+  const [isTesting, setIsTesting] = useState(false);
+  const [backendMode, setBackendMode] = useState<AIBackendMode>(mockAIBackend.getMode());
+  const [fixtureCount, setFixtureCount] = useState(mockAIBackend.getFixtureCount());
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const currentProject = projectService.getActiveProjectId();
+    setProjectId(currentProject);
+    setSettings(aiProviderService.getSettings(currentProject));
+    setBackendMode(mockAIBackend.getMode());
+    setFixtureCount(mockAIBackend.getFixtureCount());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selectPreset = (key: string) => {
+    const preset = PROVIDER_PRESETS[key];
+    if (!preset) return;
+    setSettings({ ...JSON.parse(JSON.stringify(preset)), apiKey: settings.kind === preset.kind ? settings.apiKey : '' });
+  };
+
+  const updateModel = (tier: ModelTier, model: string) => {
+    setSettings(prev => ({ ...prev, models: { ...prev.models, [tier]: model } }));
+  };
+
+  const handleSave = () => {
+    aiProviderService.saveSettings(settings, projectId);
+    toast.success(`AI provider saved for project "${projectId}".`);
+    onClose();
+  };
+
+  const handleReset = () => {
+    aiProviderService.resetSettings(projectId);
+    setSettings(aiProviderService.getSettings(projectId));
+    toast.success(projectId === DEFAULT_PROJECT_ID ? 'AI provider reset to Gemini defaults.' : 'AI provider reset to the default project\'s settings.');
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const ok = await aiProviderService.testConnection(settings);
+      if (ok) {
+        toast.success(`${settings.label} is reachable.`);
+      } else {
+        toast.error(`Could not reach ${settings.label}. Check the URL, key and model names.`);
+      }
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const changeBackendMode = (mode: AIBackendMode) => {
+    mockAIBackend.setMode(mode);
+    setBackendMode(mode);
+  };
+
+  const exportFixtures = () => {
+    downloadJSON(mockAIBackend.exportFixtures(), 'dreamer-ai-fixtures.json');
+  };
+
+  const importFixtures = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = mockAIBackend.loadFixtures(JSON.parse(await file.text()));
+      setFixtureCount(mockAIBackend.getFixtureCount());
+      toast.success(`Imported ${count} AI fixtures.`);
+    } catch (error) {
+      toast.error('That file is not a valid AI fixture file.');
+    }
+  };
+
+  const clearFixtures = () => {
+    mockAIBackend.clearFixtures();
+    setFixtureCount(0);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-hidden shadow-2xl"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <Cpu className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  AI Settings
+                </h2>
+                <p className="text-xs text-gray-500">Project: {projectId}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+
+          {/* Tabs */}
+          <div className="flex border-b border-gray-800">
+            {([
+              { id: 'provider', label: 'Provider', icon: Cpu },
+              { id: 'templates', label: 'Prompt Templates', icon: FileText },
+              { id: 'cache', label: 'Response Cache', icon: Database },
+              { id: 'usage', label: 'Usage & Budget', icon: BarChart3 }
+            ] as { id: SettingsTab; label: string; icon: React.ElementType }[]).map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setActiveTab(id)}
+                className={`
+                  flex-1 px-6 py-3 font-medium transition-colors flex items-center justify-center gap-2
+                  ${activeTab === id
+                    ? 'bg-gray-800 text-amber-400 border-b-2 border-amber-500'
+                    : 'text-gray-400 hover:text-white hover:bg-gray-800/50'
+                  }
+                `}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Content */}
+          <div className="p-6 overflow-y-auto space-y-6" style={{ maxHeight: 'calc(90vh - 220px)' }}>
+            {activeTab === 'templates' && <PromptTemplatesPanel />}
+            {activeTab === 'cache' && <AICacheInspector />}
+            {activeTab === 'usage' && <AIUsagePanel />}
+
+            {activeTab === 'provider' && (
+              <div className="space-y-6">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-300">Provider</label>
+                  <select
+                    value={presetKeyFor(settings)}
+                    onChange={(e) => selectPreset(e.target.value)}
+                    className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:border-amber-500 focus:outline-none"
+                  >
+                    {Object.entries(PROVIDER_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {settings.kind !== 'gemini' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-300">Base URL</label>
+                    <input
+                      type="text"
+                      value={settings.baseUrl || ''}
+                      onChange={(e) => setSettings(prev => ({ ...prev, baseUrl: e.target.value }))}
+                      placeholder={PROVIDER_PRESETS[presetKeyFor(settings)]?.baseUrl}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none"
+                    />
+                  </div>
+                )}
+
+                {settings.kind !== 'ollama' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-300">API Key</label>
+                    <input
+                      type="password"
+                      value={settings.apiKey || ''}
+                      onChange={(e) => setSettings(prev => ({ ...prev, apiKey: e.target.value }))}
+                      placeholder={settings.kind === 'gemini' ? 'Leave blank to use VITE_GEMINI_API_KEY' : 'Optional for local servers'}
+                      className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:border-amber-500 focus:outline-none"
+                    />
+                    {!aiProviderService.hasApiKey(settings) && (
+                      <p className="text-xs text-red-400">VITE_GEMINI_API_KEY is not set. Enter a key to use Gemini.</p>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-gray-300">Models</h3>
+                  {MODEL_TIERS.map(tier => (
+                    <div key={tier} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+                      <span className="text-sm text-gray-400">{TIER_LABELS[tier]}</span>
+                      <input
+                        type="text"
+                        value={settings.models[tier]}
+                        onChange={(e) => updateModel(tier, e.target.value)}
+                        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-gray-300">Backend Mode</h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    {BACKEND_MODES.map(({ mode, label, hint }) => (
+                      <button
+                        key={mode}
+                        onClick={() => changeBackendMode(mode)}
+                        title={hint}
+                        className={`px-3 py-2 rounded-lg border text-sm transition-colors ${backendMode === mode ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">{BACKEND_MODES.find(m => m.mode === backendMode)?.hint}. {fixtureCount} fixtures recorded.</p>
+                  <div className="flex gap-2">
+                    <button onClick={exportFixtures} disabled={fixtureCount === 0} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-sm flex items-center gap-2"><Download className="w-4 h-4" />Export</button>
+                    <button onClick={() => fixtureInputRef.current?.click()} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm flex items-center gap-2"><Upload className="w-4 h-4" />Import</button>
+                    <button onClick={clearFixtures} disabled={fixtureCount === 0} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-sm flex items-center gap-2"><Trash2 className="w-4 h-4" />Clear</button>
+                    <input ref={fixtureInputRef} type="file" accept=".json" onChange={importFixtures} className="hidden" />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          {activeTab === 'provider' && (
+            <div className="flex items-center justify-between p-6 border-t border-gray-800">
+              <div className="flex gap-3">
+                <button
+                  onClick={handleReset}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors flex items-center gap-2 text-sm"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Reset
+                </button>
+                <button
+                  onClick={handleTest}
+                  disabled={isTesting}
+                  className="px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg transition-colors flex items-center gap-2 text-sm"
+                >
+                  {isTesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+                  Test Connection
+                </button>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={onClose}
+                  className="px-6 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="px-6 py-2 bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 rounded-lg font-medium transition-colors flex items-center gap-2"
+                >
+                  <Save className="w-4 h-4" />
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default AISettingsModal;
@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, RefreshCcw, Trash2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { tokenBudgetingSystem, UsageSummary, UsageTotals, BudgetSettings } from '../services/tokenBudgetService';
+import { projectService } from '../services/projectService';
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const formatCost = (usd: number): string => (usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`);
+
+const averageLatency = (totals: UsageTotals): string =>
+  totals.calls > 0 ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '-';
+
+const parseLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const AIUsagePanel: React.FC = () => {
+  const projectId = projectService.getActiveProjectId();
+  const [summary, setSummary] = useState<UsageSummary>(() => tokenBudgetingSystem.summarize(projectId));
+  const [budget, setBudget] = useState<BudgetSettings>(() => tokenBudgetingSystem.getBudget(projectId));
+
+  const refresh = useCallback(() => {
+    setSummary(tokenBudgetingSystem.summarize(projectId));
+  }, [projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveBudget = () => {
+    tokenBudgetingSystem.saveBudget(budget, projectId);
+    toast.success('Budget caps saved.');
+  };
+
+  const clearUsage = () => {
+    tokenBudgetingSystem.clearUsage(projectId);
+    refresh();
+    toast.success('Usage history cleared for this project.');
+  };
+
+  const limitInput = (field: 'dailyTokenLimit' | 'dailyCostLimitUsd' | 'perCallTokenLimit', label: string, placeholder: string) => (
+    <div className="space-y-1">
+      <label className="text-xs text-gray-400">{label}</label>
+      <input
+        type="number"
+        min={0}
+        value={budget[field] ?? ''}
+        onChange={(e) => setBudget({ ...budget, [field]: parseLimit(e.target.value) })}
+        placeholder={placeholder}
+        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+      />
+    </div>
+  );
+
+  const stat = (label: string, totals: UsageTotals) => (
+    <div className="p-4 bg-gray-800/60 border border-gray-700 rounded-lg">
+      <div className="text-xs uppercase tracking-wider text-gray-500">{label}</div>
+      <div className="text-xl font-semibold text-white mt-1">{formatTokens(totals.promptTokens + totals.outputTokens)} tokens</div>
+      <div className="text-xs text-gray-400 mt-1">
+        {formatCost(totals.costUsd)} · {totals.calls} calls · {totals.failures} failed · avg {averageLatency(totals)}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <BarChart3 className="w-4 h-4 text-amber-500" />
+          Usage for project <span className="text-amber-400">{projectId}</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={refresh} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm flex items-center gap-2"><RefreshCcw className="w-4 h-4" />Refresh</button>
+          <button onClick={clearUsage} disabled={summary.totals.calls === 0} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-sm flex items-center gap-2"><Trash2 className="w-4 h-4" />Clear</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {stat('Today', summary.today)}
+        {stat('All time', summary.totals)}
+      </div>
+
+      <div className="p-4 bg-gray-800/60 border border-gray-700 rounded-lg space-y-4">
+        <div>
+          <div className="text-sm font-medium text-gray-200">Budget caps</div>
+          <div className="text-xs text-gray-500">Checked before every AI call and before full-script storyboards. Leave empty for no cap.</div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {limitInput('dailyTokenLimit', 'Daily tokens', 'e.g. 500000')}
+          {limitInput('dailyCostLimitUsd', 'Daily spend (USD)', 'e.g. 2.00')}
+          {limitInput('perCallTokenLimit', 'Tokens per call', 'e.g. 50000')}
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2">
+            {(['warn', 'block'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setBudget({ ...budget, mode })}
+                className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${budget.mode === mode ? 'bg-amber-500/20 border-amber-500 text-amber-400' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+              >
+                {mode === 'warn' ? 'Warn when over' : 'Block when over'}
+              </button>
+            ))}
+          </div>
+          <button onClick={saveBudget} className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-black font-medium rounded-lg text-sm flex items-center gap-2">
+            <Save className="w-4 h-4" />Save caps
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-200">By feature</div>
+        {summary.byFeature.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">No AI calls recorded for this project yet.</p>
+        )}
+        {summary.byFeature.map(row => (
+          <div key={row.feature} className="flex items-center justify-between gap-3 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+            <span className="px-2 py-0.5 bg-amber-500/20 text-amber-400 rounded-full text-xs">{row.feature}</span>
+            <span className="text-gray-400 text-xs">
+              {formatTokens(row.promptTokens)} in · {formatTokens(row.outputTokens)} out · {formatCost(row.costUsd)} · {row.calls} calls · avg {averageLatency(row)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {summary.daily.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-gray-200">Daily</div>
+          {summary.daily.slice(0, 14).map(day => (
+            <div key={day.date} className="flex items-center justify-between bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm">
+              <span className="text-gray-300">{day.date}</span>
+              <span className="text-gray-400 text-xs">
+                {formatTokens(day.promptTokens + day.outputTokens)} tokens · {formatCost(day.costUsd)} · {day.calls} calls
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIUsagePanel;
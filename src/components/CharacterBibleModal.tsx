@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Users, Plus, Trash2, ScanText } from 'lucide-react';
+import { toast } from 'sonner';
+import { CharacterProfile } from '../types';
+import { characterBibleService, describeCharacter, extractCharactersFromScript } from '../services/characterBibleService';
+import { projectService } from '../services/projectService';
+import { MAX_SEED, parseSeed } from '../services/shotContinuityService';
+import { useCharacterBible } from '../hooks/use-character-bible';
+
+interface CharacterBibleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Script to pull characters from, if there is one */
+  script?: string;
+}
+
+const TEXT_FIELDS: { field: 'age' | 'appearance' | 'wardrobe'; label: string; placeholder: string }[] = [
+  { field: 'age', label: 'Age', placeholder: 'e.g. late 20s' },
+  { field: 'appearance', label: 'Appearance', placeholder: 'e.g. wiry, close-cropped grey hair, scar over left eye' },
+  { field: 'wardrobe', label: 'Wardrobe', placeholder: 'e.g. paint-stained overalls' }
+];
+
+export const CharacterBibleModal: React.FC<CharacterBibleModalProps> = ({ isOpen, onClose, script }) => {
+  const characters = useCharacterBible();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const selected = characters.find(character => character.id === selectedId) || characters[0];
+
+  const update = (changes: Partial<CharacterProfile>) => {
+    if (!selected) return;
+    characterBibleService.save({ ...selected, ...changes });
+  };
+
+  const addCharacter = () => setSelectedId(characterBibleService.create().id);
+
+  const removeCharacter = (character: CharacterProfile) => {
+    if (!window.confirm(`Remove ${character.name} from the character bible?`)) return;
+    characterBibleService.remove(character.id);
+    setSelectedId(null);
+  };
+
+  const extractFromScript = () => {
+    const { added, updated } = characterBibleService.merge(extractCharactersFromScript(script || ''));
+    if (added === 0 && updated === 0) {
+      toast.info('No new character details found in the script.');
+      return;
+    }
+    toast.success(`Added ${added} character${added === 1 ? '' : 's'} and filled in ${updated} from the script.`);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <Users className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Character Bible
+                </h2>
+                <p className="text-xs text-gray-500">Project: {projectService.getActiveProjectId()}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              {characters.map(character => (
+                <button
+                  key={character.id}
+                  onClick={() => setSelectedId(character.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${character.id === selected?.id ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                >
+                  <div>{character.name}</div>
+                  <div className="text-xs text-gray-500 capitalize">{character.source}</div>
+                </button>
+              ))}
+              <button onClick={addCharacter} className="w-full px-3 py-2 rounded-lg border border-dashed border-gray-700 text-sm text-gray-400 hover:bg-gray-800 flex items-center gap-2">
+                <Plus className="w-4 h-4" />Add character
+              </button>
+              {script?.trim() && (
+                <button onClick={extractFromScript} className="w-full px-3 py-2 rounded-lg border border-gray-700 text-sm text-amber-400 hover:bg-gray-800 flex items-center gap-2">
+                  <ScanText className="w-4 h-4" />Extract from script
+                </button>
+              )}
+            </div>
+
+            <div className="md:col-span-2 space-y-3">
+              {selected ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={selected.name}
+                      onChange={(e) => update({ name: e.target.value })}
+                      className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                      placeholder="Name"
+                    />
+                    <button onClick={() => removeCharacter(selected)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Remove character">
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                  </div>
+                  {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                    <div key={field}>
+                      <label className="text-xs text-gray-400 uppercase">{label}</label>
+                      <input
+                        value={selected[field]}
+                        onChange={(e) => update({ [field]: e.target.value })}
+                        placeholder={placeholder}
+                        className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase">Signature props</label>
+                    <input
+                      value={selected.props.join(', ')}
+                      onChange={(e) => update({ props: e.target.value.split(',').map(prop => prop.trimStart()).filter((prop, index, all) => prop || index === all.length - 1) })}
+                      placeholder="Comma separated, e.g. a Super 8 camera, brass lighter"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="text-xs text-gray-400 uppercase">Locked seed</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_SEED}
+                        value={selected.lockedSeed ?? ''}
+                        onChange={(e) => update({ lockedSeed: parseSeed(e.target.value) })}
+                        placeholder="None"
+                        className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label className="text-xs text-gray-400 uppercase">Reference image</label>
+                      <input
+                        value={selected.referenceImage || ''}
+                        onChange={(e) => update({ referenceImage: e.target.value || undefined })}
+                        placeholder="Image URL for models that keep characters consistent"
+                        className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                  <div className="p-3 bg-gray-950 border border-gray-800 rounded-lg">
+                    <p className="text-[10px] uppercase tracking-widest text-gray-500 mb-1">Added to prompts as</p>
+                    <p className="text-xs text-gray-300 font-mono">{describeCharacter(selected)}</p>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-400 text-center py-8">
+                  No characters yet. Add one, or extract them from the script.
+                </p>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default CharacterBibleModal;
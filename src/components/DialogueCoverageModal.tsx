@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Clapperboard, AlertTriangle } from 'lucide-react';
+import { CompositionData } from '../types';
+import { STAGE_WIDTH, STAGE_HEIGHT } from '../constants';
+import { ScriptBeat } from '../services/scriptBeatService';
+import { CoverageShot, planDialogueCoverage } from '../services/dialogueCoverageService';
+
+interface DialogueCoverageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Two-person dialogue beats to choose from */
+  beats: ScriptBeat[];
+  /** Stage blocking the cameras are planned around */
+  blocking: CompositionData;
+  onAccept: (beat: ScriptBeat, shots: CoverageShot[]) => void;
+}
+
+export const DialogueCoverageModal: React.FC<DialogueCoverageModalProps> = ({ isOpen, onClose, beats, blocking, onAccept }) => {
+  const [beatNumber, setBeatNumber] = useState<number | null>(null);
+  const beat = beats.find(candidate => candidate.number === beatNumber) || beats[0];
+  const shots = useMemo(() => beat ? planDialogueCoverage(beat, blocking) : [], [beat, blocking]);
+
+  if (!isOpen) return null;
+
+  const [a, b] = shots[0]?.composition.characters || [];
+  const crossing = shots.filter(shot => shot.crossesLine).length;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <Clapperboard className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Dialogue Coverage
+                </h2>
+                <p className="text-xs text-gray-500">Master, over-the-shoulders, singles and an insert, all on one side of the line</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {beats.length === 0 ? (
+            <p className="p-6 text-sm text-gray-400 text-center">
+              No two-person exchanges found. Coverage is planned from dialogue beats in the script.
+            </p>
+          ) : (
+            <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                {beats.map(candidate => (
+                  <button
+                    key={candidate.number}
+                    onClick={() => setBeatNumber(candidate.number)}
+                    className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${candidate.number === beat?.number ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                  >
+                    <div className="text-xs text-gray-500">Beat {candidate.number}{candidate.sceneHeading ? ` · ${candidate.sceneHeading}` : ''}</div>
+                    <div className="line-clamp-2">{candidate.text}</div>
+                  </button>
+                ))}
+              </div>
+
+              <div className="md:col-span-2 space-y-3">
+                <div className="bg-gray-950 border border-gray-800 rounded-lg p-2">
+                  <svg viewBox={`0 0 ${STAGE_WIDTH} ${STAGE_HEIGHT}`} className="w-full">
+                    {a && b && (
+                      <line
+                        x1={a.x - (b.x - a.x) * 4} y1={a.y - (b.y - a.y) * 4}
+                        x2={b.x + (b.x - a.x) * 4} y2={b.y + (b.y - a.y) * 4}
+                        stroke="#ef4444" strokeWidth="2" strokeDasharray="10 8" opacity={0.6}
+                      />
+                    )}
+                    {shots.map((shot, index) => shot.composition.camera && (
+                      <g key={index}>
+                        <line x1={shot.composition.camera.x} y1={shot.composition.camera.y} x2={shot.composition.camera.target.x} y2={shot.composition.camera.target.y} stroke={shot.crossesLine ? '#ef4444' : '#3b82f6'} strokeWidth="1.5" opacity={0.5} />
+                        <circle cx={shot.composition.camera.x} cy={shot.composition.camera.y} r={14} fill={shot.crossesLine ? '#ef4444' : '#3b82f6'} />
+                        <text x={shot.composition.camera.x} y={shot.composition.camera.y + 5} textAnchor="middle" fill="#f8fafc" fontSize={14}>{index + 1}</text>
+                      </g>
+                    ))}
+                    {[a, b].filter(Boolean).map(marker => (
+                      <g key={marker.id}>
+                        <circle cx={marker.x} cy={marker.y} r={16} fill="#f59e0b" />
+                        <text x={marker.x} y={marker.y - 24} textAnchor="middle" fill="#f8fafc" fontSize={14}>{marker.name}</text>
+                      </g>
+                    ))}
+                  </svg>
+                </div>
+                {crossing > 0 && (
+                  <p className="flex items-center gap-2 text-xs text-red-300">
+                    <AlertTriangle className="w-4 h-4" />
+                    {crossing} camera{crossing === 1 ? '' : 's'} pushed over the line by the edge of the stage. Move the characters away from the edge to fix.
+                  </p>
+                )}
+                <ol className="space-y-2">
+                  {shots.map((shot, index) => (
+                    <li key={index} className={`p-3 rounded-lg border text-sm ${shot.crossesLine ? 'border-red-500/50 bg-red-900/10' : 'border-gray-800 bg-gray-800/40'}`}>
+                      <div className="flex items-center justify-between text-xs text-gray-400">
+                        <span className="uppercase tracking-wider text-amber-400">{index + 1}. {shot.role}</span>
+                        <span>{shot.camera.focalLength}mm · {shot.camera.duration}s{shot.crossesLine ? ' · crosses the line' : ''}</span>
+                      </div>
+                      <p className="mt-1 text-gray-300 line-clamp-2">{shot.description}</p>
+                    </li>
+                  ))}
+                </ol>
+                <button
+                  onClick={() => beat && onAccept(beat, shots)}
+                  disabled={shots.length === 0}
+                  className="w-full py-2.5 rounded-lg bg-amber-500 text-black font-medium hover:bg-amber-400 disabled:opacity-50"
+                >
+                  Use these {shots.length} shots
+                </button>
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default DialogueCoverageModal;
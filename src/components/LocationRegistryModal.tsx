@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, MapPin, Plus, Trash2, ScanText } from 'lucide-react';
+import { toast } from 'sonner';
+import { LocationProfile, LocationSetting } from '../types';
+import { locationRegistryService, describeLocation, extractLocationsFromScript } from '../services/locationRegistryService';
+import { projectService } from '../services/projectService';
+import { useLocationRegistry } from '../hooks/use-location-registry';
+
+interface LocationRegistryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Script whose scene headings can fill the registry */
+  script?: string;
+}
+
+const SETTINGS: LocationSetting[] = ['INT', 'EXT', 'INT/EXT'];
+
+const TEXT_FIELDS: { field: 'timeOfDay' | 'architecture' | 'styleNotes'; label: string; placeholder: string }[] = [
+  { field: 'timeOfDay', label: 'Time of day', placeholder: 'e.g. Night' },
+  { field: 'architecture', label: 'Architecture', placeholder: 'e.g. exposed brick, low ceiling, steel-framed windows' },
+  { field: 'styleNotes', label: 'Style notes', placeholder: 'e.g. cluttered, warm practicals, haze' }
+];
+
+export const LocationRegistryModal: React.FC<LocationRegistryModalProps> = ({ isOpen, onClose, script }) => {
+  const locations = useLocationRegistry();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const selected = locations.find(location => location.id === selectedId) || locations[0];
+
+  const update = (changes: Partial<LocationProfile>) => {
+    if (!selected) return;
+    locationRegistryService.save({ ...selected, ...changes });
+  };
+
+  const addLocation = () => setSelectedId(locationRegistryService.create().id);
+
+  const removeLocation = (location: LocationProfile) => {
+    if (!window.confirm(`Remove ${location.name} from the location registry?`)) return;
+    locationRegistryService.remove(location.id);
+    setSelectedId(null);
+  };
+
+  const extractFromScript = () => {
+    const before = locationRegistryService.list().length;
+    locationRegistryService.register(extractLocationsFromScript(script || ''));
+    const added = locationRegistryService.list().length - before;
+    if (added === 0) {
+      toast.info('No new locations found in the scene headings.');
+      return;
+    }
+    toast.success(`Added ${added} location${added === 1 ? '' : 's'} from the scene headings.`);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <MapPin className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Locations
+                </h2>
+                <p className="text-xs text-gray-500">Project: {projectService.getActiveProjectId()}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              {locations.map(location => (
+                <button
+                  key={location.id}
+                  onClick={() => setSelectedId(location.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${location.id === selected?.id ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                >
+                  <div>{location.name}</div>
+                  <div className="text-xs text-gray-500">{[location.setting, location.timeOfDay].filter(Boolean).join(' · ')}</div>
+                </button>
+              ))}
+              <button onClick={addLocation} className="w-full px-3 py-2 rounded-lg border border-dashed border-gray-700 text-sm text-gray-400 hover:bg-gray-800 flex items-center gap-2">
+                <Plus className="w-4 h-4" />Add location
+              </button>
+              {script?.trim() && (
+                <button onClick={extractFromScript} className="w-full px-3 py-2 rounded-lg border border-gray-700 text-sm text-amber-400 hover:bg-gray-800 flex items-center gap-2">
+                  <ScanText className="w-4 h-4" />Extract from scene headings
+                </button>
+              )}
+            </div>
+
+            <div className="md:col-span-2 space-y-3">
+              {selected ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={selected.setting}
+                      onChange={(e) => update({ setting: e.target.value as LocationSetting })}
+                      className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                    >
+                      {SETTINGS.map(setting => <option key={setting} value={setting}>{setting}</option>)}
+                    </select>
+                    <input
+                      value={selected.name}
+                      onChange={(e) => update({ name: e.target.value })}
+                      className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                      placeholder="Name"
+                    />
+                    <button onClick={() => removeLocation(selected)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Remove location">
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                  </div>
+                  {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                    <div key={field}>
+                      <label className="text-xs text-gray-400 uppercase">{label}</label>
+                      <input
+                        value={selected[field]}
+                        onChange={(e) => update({ [field]: e.target.value })}
+                        placeholder={placeholder}
+                        className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase">Reference palette</label>
+                    <input
+                      value={selected.palette.join(', ')}
+                      onChange={(e) => update({ palette: e.target.value.split(',').map(color => color.trimStart()).filter((color, index, all) => color || index === all.length - 1) })}
+                      placeholder="Comma separated, e.g. #1f3a4d, amber, bone white"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                    />
+                    <div className="flex gap-1 mt-2">
+                      {selected.palette.filter(color => color.trim()).map(color => (
+                        <span key={color} className="w-6 h-6 rounded border border-gray-700" style={{ backgroundColor: color.trim() }} title={color} />
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between p-3 bg-gray-800/60 border border-gray-700 rounded-lg text-xs text-gray-400">
+                    <span>{selected.lighting ? 'Shots here start from a saved lighting and color look.' : 'No default look yet. The first shot placed here sets it.'}</span>
+                    {selected.lighting && (
+                      <button onClick={() => update({ lighting: undefined, color: undefined })} className="text-amber-400 hover:text-amber-300">Clear</button>
+                    )}
+                  </div>
+                  <div className="p-3 bg-gray-950 border border-gray-800 rounded-lg">
+                    <p className="text-[10px] uppercase tracking-widest text-gray-500 mb-1">Added to prompts as</p>
+                    <p className="text-xs text-gray-300 font-mono">{describeLocation(selected)}</p>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-400 text-center py-8">
+                  No locations yet. Add one, or extract them from the scene headings.
+                </p>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default LocationRegistryModal;
@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, SlidersHorizontal, Plus, Copy, Trash2, RotateCcw, Upload, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { ModelAdapterProfile, PromptLengthLimit } from '../types';
+import { formatForAdapter, modelAdapterService } from '../services/modelAdapterService';
+import { useModelAdapters } from '../hooks/use-model-adapters';
+
+interface ModelAdaptersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TEXT_FIELDS: { field: 'prefix' | 'suffix' | 'negativeTemplate' | 'weightTemplate'; label: string; placeholder: string }[] = [
+  { field: 'prefix', label: 'Prefix', placeholder: 'e.g. /imagine prompt:' },
+  { field: 'suffix', label: 'Suffix', placeholder: 'e.g. , high quality, 8k resolution' },
+  { field: 'negativeTemplate', label: 'Negative prompt syntax', placeholder: 'e.g.  --no {terms}, empty if the model takes none' },
+  { field: 'weightTemplate', label: 'Weighting syntax', placeholder: 'e.g. ({term}:{weight}), empty to drop weights' }
+];
+
+const PREVIEW_PROMPT = 'A (neon sign:1.3) flickers over the rain-soaked street';
+const PREVIEW_SHOT = { aspectRatio: '2.39:1', seed: 1234, negative: ['text', 'watermark'] };
+
+const download = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ModelAdaptersModal: React.FC<ModelAdaptersModalProps> = ({ isOpen, onClose }) => {
+  const adapters = useModelAdapters();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const selected = adapters.find(adapter => adapter.id === selectedId) || adapters[0];
+  const customized = selected ? modelAdapterService.isCustomized(selected.id) : false;
+
+  const update = (changes: Partial<ModelAdapterProfile>) => {
+    if (!selected) return;
+    modelAdapterService.save({ ...selected, ...changes });
+  };
+
+  const updateLimit = (changes: Partial<PromptLengthLimit>) => {
+    const limit = { max: selected?.promptLimit?.max ?? 0, unit: selected?.promptLimit?.unit ?? 'characters', ...changes };
+    update({ promptLimit: limit.max > 0 ? limit : undefined });
+  };
+
+  const removeAdapter = (adapter: ModelAdapterProfile) => {
+    if (adapter.builtIn) {
+      modelAdapterService.remove(adapter.id);
+      toast.success(`${adapter.name} is back to its shipped settings.`);
+      return;
+    }
+    if (!window.confirm(`Delete the ${adapter.name} profile?`)) return;
+    modelAdapterService.remove(adapter.id);
+    setSelectedId(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = modelAdapterService.importJson(await file.text());
+      toast.success(`Imported ${imported.length} model profile${imported.length === 1 ? '' : 's'}.`);
+      if (imported[0]) setSelectedId(imported[0].id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import model profiles.');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <SlidersHorizontal className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Model Formats
+                </h2>
+                <p className="text-xs text-gray-500">How prompts are written for each image model</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              {adapters.map(adapter => (
+                <button
+                  key={adapter.id}
+                  onClick={() => setSelectedId(adapter.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${adapter.id === selected?.id ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                >
+                  <div>{adapter.name}</div>
+                  <div className="text-xs text-gray-500">{adapter.builtIn ? (modelAdapterService.isCustomized(adapter.id) ? 'Shipped · edited' : 'Shipped') : 'Custom'}</div>
+                </button>
+              ))}
+              <button onClick={() => setSelectedId(modelAdapterService.create().id)} className="w-full px-3 py-2 rounded-lg border border-dashed border-gray-700 text-sm text-gray-400 hover:bg-gray-800 flex items-center gap-2">
+                <Plus className="w-4 h-4" />Add model
+              </button>
+              <div className="flex gap-2">
+                <button onClick={() => fileInputRef.current?.click()} className="flex-1 px-3 py-2 rounded-lg border border-gray-700 text-sm text-amber-400 hover:bg-gray-800 flex items-center justify-center gap-2">
+                  <Upload className="w-4 h-4" />Import
+                </button>
+                <button onClick={() => download(modelAdapterService.exportJson(), 'dreamer-model-formats.json')} className="flex-1 px-3 py-2 rounded-lg border border-gray-700 text-sm text-amber-400 hover:bg-gray-800 flex items-center justify-center gap-2">
+                  <Download className="w-4 h-4" />Export all
+                </button>
+              </div>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </div>
+
+            {selected && (
+              <div className="md:col-span-2 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={selected.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:border-amber-500 focus:outline-none"
+                    placeholder="Name"
+                  />
+                  <button onClick={() => setSelectedId(modelAdapterService.create(selected).id)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Duplicate">
+                    <Copy className="w-4 h-4 text-gray-300" />
+                  </button>
+                  <button onClick={() => download(modelAdapterService.exportJson([selected.id]), `${selected.name.replace(/\s+/g, '-')}.json`)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Export">
+                    <Download className="w-4 h-4 text-gray-300" />
+                  </button>
+                  {(!selected.builtIn || customized) && (
+                    <button onClick={() => removeAdapter(selected)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title={selected.builtIn ? 'Reset to shipped settings' : 'Delete'}>
+                      {selected.builtIn ? <RotateCcw className="w-4 h-4 text-amber-400" /> : <Trash2 className="w-4 h-4 text-red-400" />}
+                    </button>
+                  )}
+                </div>
+                <input
+                  value={selected.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  placeholder="Description"
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                />
+                {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                  <div key={field}>
+                    <label className="text-xs text-gray-400 uppercase">{label}</label>
+                    <input
+                      value={selected[field]}
+                      onChange={(e) => update({ [field]: e.target.value })}
+                      placeholder={placeholder}
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:border-amber-500 focus:outline-none"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="text-xs text-gray-400 uppercase">Always avoid</label>
+                  <input
+                    value={selected.negativeTerms.join(', ')}
+                    onChange={(e) => update({ negativeTerms: e.target.value.split(',').map(term => term.trimStart()).filter((term, index, all) => term || index === all.length - 1) })}
+                    placeholder="Comma separated, e.g. text, watermark"
+                    className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 uppercase">Parameters, one per line</label>
+                  <textarea
+                    value={selected.parameters.join('\n')}
+                    onChange={(e) => update({ parameters: e.target.value.split('\n') })}
+                    rows={4}
+                    placeholder={'--ar {aspectRatio}\n--seed {seed}'}
+                    className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:border-amber-500 focus:outline-none"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{'{aspectRatio}'}, {'{seed}'}, {'{stylize}'}, {'{styleReference}'} and {'{characterReference}'} come from the shot; lines missing a value are left out.</p>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-400 uppercase">Settings lines, after the negative prompt</label>
+                  <textarea
+                    value={(selected.settingsLines || []).join('\n')}
+                    onChange={(e) => update({ settingsLines: e.target.value.split('\n') })}
+                    rows={2}
+                    placeholder="Seed: {seed}"
+                    className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:border-amber-500 focus:outline-none"
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase">Stylize</label>
+                    <input
+                      type="number"
+                      value={selected.stylize ?? ''}
+                      onChange={(e) => update({ stylize: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase">Max length</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={selected.promptLimit?.max ?? ''}
+                      onChange={(e) => updateLimit({ max: Number(e.target.value) || 0 })}
+                      placeholder="No limit"
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-400 uppercase">Measured in</label>
+                    <select
+                      value={selected.promptLimit?.unit ?? 'characters'}
+                      onChange={(e) => updateLimit({ unit: e.target.value as PromptLengthLimit['unit'] })}
+                      disabled={!selected.promptLimit}
+                      className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none disabled:opacity-50"
+                    >
+                      <option value="characters">Characters</option>
+                      <option value="tokens">Tokens</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-950 border border-gray-800 rounded-lg">
+                  <p className="text-[10px] uppercase tracking-widest text-gray-500 mb-1">Preview</p>
+                  <p className="text-xs text-gray-300 font-mono whitespace-pre-wrap">{formatForAdapter(selected, PREVIEW_PROMPT, PREVIEW_SHOT)}</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default ModelAdaptersModal;
@@ -1,15 +1,18 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Check } from 'lucide-react';
-import { phaseMetadata } from '../constants-original';
+import { QuestionPhase } from '../types';
 
 interface ProgressBoxesProps {
+  /** One box per phase of the active question set */
+  phases: QuestionPhase[];
   currentPhase: number;
   completedPhases: number[];
   onPhaseClick?: (phase: number) => void;
 }
 
 export const ProgressBoxes: React.FC<ProgressBoxesProps> = ({
+  phases,
   currentPhase,
   completedPhases,
   onPhaseClick
@@ -37,16 +40,16 @@ export const ProgressBoxes: React.FC<ProgressBoxesProps> = ({
     <div className="mb-8">
       {/* Progress boxes */}
       <div className="flex gap-2 mb-4">
-        {[1, 2, 3, 4, 5, 6, 7, 8].map((phase) => {
+        {phases.map((metadata, index) => {
+          const { phase } = metadata;
           const status = getBoxStatus(phase);
-          const metadata = phaseMetadata.find(p => p.phase === phase);
           
           return (
             <motion.div
               key={phase}
               initial={{ opacity: 0, y: -10 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: phase * 0.05 }}
+              transition={{ delay: (index + 1) * 0.05 }}
               className="flex-1 relative group"
             >
               <motion.div
@@ -99,25 +102,23 @@ export const ProgressBoxes: React.FC<ProgressBoxesProps> = ({
               </motion.div>
 
               {/* Tooltip on hover */}
-              {metadata && (
-                <div className="
-                  absolute top-full mt-2 left-1/2 -translate-x-1/2 
-                  opacity-0 group-hover:opacity-100 
-                  transition-opacity duration-200
-                  pointer-events-none z-10
-                ">
-                  <div className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 shadow-xl whitespace-nowrap">
-                    <div className="text-xs font-medium text-amber-400">
-                      Phase {phase}
-                    </div>
-                    <div className="text-xs text-gray-300">
-                      {metadata.name}
-                    </div>
+              <div className="
+                absolute top-full mt-2 left-1/2 -translate-x-1/2 
+                opacity-0 group-hover:opacity-100 
+                transition-opacity duration-200
+                pointer-events-none z-10
+              ">
+                <div className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 shadow-xl whitespace-nowrap">
+                  <div className="text-xs font-medium text-amber-400">
+                    Phase {index + 1}
+                  </div>
+                  <div className="text-xs text-gray-300">
+                    {metadata.name}
                   </div>
-                  {/* Tooltip arrow */}
-                  <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-gray-900 border-t border-l border-gray-700 rotate-45" />
                 </div>
-              )}
+                {/* Tooltip arrow */}
+                <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-gray-900 border-t border-l border-gray-700 rotate-45" />
+              </div>
             </motion.div>
           );
         })}
@@ -125,8 +126,7 @@ export const ProgressBoxes: React.FC<ProgressBoxesProps> = ({
 
       {/* Phase labels below boxes (optional, can be shown/hidden) */}
       <div className="flex gap-2 text-[0.65rem] text-gray-500">
-        {[1, 2, 3, 4, 5, 6, 7, 8].map((phase) => {
-          const metadata = phaseMetadata.find(p => p.phase === phase);
+        {phases.map(({ phase }, index) => {
           const status = getBoxStatus(phase);
           
           return (
@@ -138,7 +138,7 @@ export const ProgressBoxes: React.FC<ProgressBoxesProps> = ({
                 ${status === 'completed' ? 'text-amber-500/70' : ''}
               `}
             >
-              {phase}
+              {index + 1}
             </div>
           );
         })}
@@ -148,7 +148,7 @@ export const ProgressBoxes: React.FC<ProgressBoxesProps> = ({
       <div className="mt-4 text-center">
         <div className="text-sm text-gray-500">Current Phase</div>
         <div className="text-lg font-semibold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
-          {phaseMetadata.find(p => p.phase === currentPhase)?.name || 'Loading...'}
+          {phases.find(p => p.phase === currentPhase)?.name || 'Loading...'}
         </div>
       </div>
     </div>
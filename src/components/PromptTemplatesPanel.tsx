@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileText, Eye, Pencil, Save, RotateCcw, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  promptTemplateService,
+  PromptTemplateId,
+  ResolvedPromptTemplate
+} from '../services/promptTemplateService';
+import { projectService } from '../services/projectService';
+
+export const PromptTemplatesPanel: React.FC = () => {
+  const projectId = projectService.getActiveProjectId();
+  const [templates, setTemplates] = useState<ResolvedPromptTemplate[]>(() => promptTemplateService.list(projectId));
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(templates[0].id);
+  const [draft, setDraft] = useState(templates[0].template);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const selected = templates.find(template => template.id === selectedId)!;
+  const isDirty = draft !== selected.template;
+  const unknownVariables = useMemo(() => promptTemplateService.findUnknownVariables(selectedId, draft), [selectedId, draft]);
+  const missingVariables = useMemo(() => promptTemplateService.findMissingVariables(selectedId, draft), [selectedId, draft]);
+  const preview = useMemo(() => promptTemplateService.preview(selectedId, draft), [selectedId, draft]);
+
+  useEffect(() => {
+    setDraft(selected.template);
+  }, [selected]);
+
+  const refresh = () => setTemplates(promptTemplateService.list(projectId));
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this template?')) return;
+    setSelectedId(id);
+  };
+
+  const insertVariable = (name: string) => setDraft(prev => `${prev}{{${name}}}`);
+
+  const save = () => {
+    const missing = missingVariables.map(name => `{{${name}}}`).join(', ');
+    if (missing && !window.confirm(`This template leaves out ${missing}, so requests will go out without that content. Save anyway?`)) return;
+    promptTemplateService.saveOverride(selectedId, draft, projectId);
+    refresh();
+    toast.success(`"${selected.name}" saved for project "${projectId}".`);
+  };
+
+  const reset = () => {
+    promptTemplateService.resetOverride(selectedId, projectId);
+    refresh();
+    toast.success(`"${selected.name}" reset to the built-in template.`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <FileText className="w-4 h-4 text-amber-500" />
+        Templates for project <span className="text-amber-400">{projectId}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => selectTemplate(template.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${template.id === selectedId ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span>{template.name}</span>
+                {template.isOverridden && <span className="text-[10px] uppercase tracking-wider text-amber-400">Custom</span>}
+              </div>
+              <div className="text-xs text-gray-500">v{template.version}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="md:col-span-2 space-y-3">
+          <div>
+            <div className="text-sm font-medium text-gray-200">{selected.name}</div>
+            <div className="text-xs text-gray-500">{selected.description}</div>
+          </div>
+
+          {selected.isOutdated && (
+            <div className="flex items-start gap-2 p-3 bg-amber-500/10 border border-amber-500/40 rounded-lg text-xs text-amber-200">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              The built-in template has been updated to v{selected.version} since this override was saved. Reset to pick up the new default.
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {selected.variables.map(variable => (
+              <button
+                key={variable.name}
+                onClick={() => insertVariable(variable.name)}
+                disabled={showPreview}
+                title={variable.description}
+                className="px-2 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 border border-gray-700 rounded-full text-xs text-amber-400 font-mono"
+              >
+                {`{{${variable.name}}}`}
+              </button>
+            ))}
+          </div>
+
+          {showPreview ? (
+            <pre className="w-full h-72 overflow-auto bg-gray-950 border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-300 whitespace-pre-wrap">{preview}</pre>
+          ) : (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="w-full h-72 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:border-amber-500 focus:outline-none"
+            />
+          )}
+
+          {unknownVariables.length > 0 && (
+            <p className="text-xs text-red-400">
+              Unknown variables are sent as written: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+          {missingVariables.length > 0 && (
+            <p className="text-xs text-amber-400">
+              Missing variables the built-in template fills: {missingVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setShowPreview(prev => !prev)}
+              className="px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-sm flex items-center gap-2"
+            >
+              {showPreview ? <Pencil className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              {showPreview ? 'Edit' : 'Preview'}
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={reset}
+                disabled={!selected.isOverridden}
+                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded-lg text-sm flex items-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />Reset to default
+              </button>
+              <button
+                onClick={save}
+                disabled={!isDirty || !draft.trim()}
+                className="px-4 py-2 bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-black font-medium rounded-lg text-sm flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />Save template
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
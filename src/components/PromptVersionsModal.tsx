@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, History, GitBranch } from 'lucide-react';
+import { PromptVersion, PromptVersionSource, ShotPrompt } from '../types';
+import { diffPrompts, promptVersionTree } from '../services/promptVersionService';
+
+interface PromptVersionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shot: ShotPrompt;
+  /** Make a version current, so the next change branches from it */
+  onCheckout: (versionId: string) => void;
+}
+
+const SOURCE_LABELS: Record<PromptVersionSource, string> = {
+  original: 'Original',
+  builder: 'Builder',
+  storyboard: 'Storyboard conversion',
+  coverage: 'Dialogue coverage',
+  manual: 'Manual edit',
+  enhance: 'AI enhancement',
+  visuals: 'Visuals update'
+};
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+const describeVersion = (version: PromptVersion): string => `${SOURCE_LABELS[version.source]} · ${formatTime(version.timestamp)}`;
+
+export const PromptVersionsModal: React.FC<PromptVersionsModalProps> = ({ isOpen, onClose, shot, onCheckout }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const versions = shot.versions || [];
+  const tree = useMemo(() => promptVersionTree(shot.versions), [shot.versions]);
+
+  const selected = versions.find(version => version.id === selectedId) || versions.find(version => version.id === shot.versionId) || versions[versions.length - 1];
+  // Compared with its parent unless the user picks another version
+  const compared = versions.find(version => version.id === compareId) || versions.find(version => version.id === selected?.parentId);
+  const diff = useMemo(() => selected ? diffPrompts(compared?.prompt ?? '', selected.prompt) : [], [compared, selected]);
+
+  if (!isOpen) return null;
+
+  const selectVersion = (id: string) => {
+    setSelectedId(id);
+    setCompareId(null);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-5xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <History className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Prompt Versions
+                </h2>
+                <p className="text-xs text-gray-500">Shot {shot.shotNumber} · {versions.length} version{versions.length === 1 ? '' : 's'}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              {tree.map(({ version, depth }) => (
+                <button
+                  key={version.id}
+                  onClick={() => selectVersion(version.id)}
+                  style={{ marginLeft: depth * 12, width: `calc(100% - ${depth * 12}px)` }}
+                  className={`text-left px-3 py-2 rounded-lg border text-sm transition-colors ${version.id === selected?.id ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                >
+                  <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                    <span>{describeVersion(version)}</span>
+                    {version.id === shot.versionId && <span className="text-emerald-400">current</span>}
+                  </div>
+                  <div className="line-clamp-2">{version.prompt}</div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="md:col-span-2 space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                  <span>Compare with</span>
+                  <select
+                    value={compared?.id || ''}
+                    onChange={(e) => setCompareId(e.target.value || null)}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-amber-500"
+                  >
+                    <option value="">Nothing</option>
+                    {tree.filter(({ version }) => version.id !== selected.id).map(({ version, depth }) => (
+                      <option key={version.id} value={version.id}>{`${'  '.repeat(depth)}${describeVersion(version)}`}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="p-3 bg-gray-950 border border-gray-800 rounded-lg">
+                    <p className="text-[10px] uppercase tracking-widest text-gray-500 mb-2">{compared ? describeVersion(compared) : 'Nothing'}</p>
+                    <p className="text-sm text-gray-300 whitespace-pre-wrap leading-relaxed">
+                      {diff.filter(part => part.kind !== 'added').map((part, index) => (
+                        <span key={index} className={part.kind === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : ''}>{part.text}</span>
+                      ))}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-gray-950 border border-gray-800 rounded-lg">
+                    <p className="text-[10px] uppercase tracking-widest text-gray-500 mb-2">{describeVersion(selected)}</p>
+                    <p className="text-sm text-gray-300 whitespace-pre-wrap leading-relaxed">
+                      {diff.filter(part => part.kind !== 'removed').map((part, index) => (
+                        <span key={index} className={part.kind === 'added' ? 'bg-emerald-500/20 text-emerald-200' : ''}>{part.text}</span>
+                      ))}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onCheckout(selected.id)}
+                  disabled={selected.id === shot.versionId}
+                  className="w-full py-2.5 rounded-lg bg-amber-500 text-black font-medium hover:bg-amber-400 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <GitBranch className="w-4 h-4" />
+                  {selected.id === shot.versionId ? 'This is the current version' : 'Branch from this version'}
+                </button>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default PromptVersionsModal;
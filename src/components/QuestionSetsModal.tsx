@@ -0,0 +1,313 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ListChecks, Plus, Copy, Trash2, RotateCcw, Upload, Download, ChevronUp, ChevronDown, Check, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Question, QuestionSet, QuestionType } from '../types';
+import { ANSWER_FIELDS, DEFAULT_QUESTION_SETS, QUESTION_TYPES, answerField, questionSetService, uniqueQuestionId, unusedQuestions } from '../services/questionSetService';
+import { useQuestionSets } from '../hooks/use-question-sets';
+
+interface QuestionSetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-amber-500 focus:outline-none';
+
+const splitList = (value: string, separator: string): string[] =>
+  value.split(separator).map(item => item.trimStart()).filter((item, index, all) => item || index === all.length - 1);
+
+const download = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const QuestionSetsModal: React.FC<QuestionSetsModalProps> = ({ isOpen, onClose }) => {
+  const { sets, active } = useQuestionSets();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const selected = sets.find(set => set.id === (selectedId || active.id)) || sets[0];
+  const customized = questionSetService.isCustomized(selected.id);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setExpanded(null);
+  };
+
+  const update = (changes: Partial<QuestionSet>) => questionSetService.save({ ...selected, ...changes });
+
+  const updateQuestion = (index: number, changes: Partial<Question>) =>
+    update({ questions: selected.questions.map((question, i) => i === index ? { ...question, ...changes } : question) });
+
+  const moveQuestion = (index: number, offset: number) => {
+    const questions = [...selected.questions];
+    const [question] = questions.splice(index, 1);
+    questions.splice(index + offset, 0, question);
+    update({ questions });
+    setExpanded(index + offset);
+  };
+
+  const addQuestion = () => {
+    const last = selected.questions[selected.questions.length - 1];
+    const id = uniqueQuestionId(selected.questions);
+    update({ questions: [...selected.questions, { id, phase: last?.phase || 1, category: last?.category || '', question: 'New question', type: 'text' }] });
+    setExpanded(selected.questions.length);
+  };
+
+  const addPhase = () => {
+    const phase = Math.max(0, ...selected.phases.map(candidate => candidate.phase)) + 1;
+    update({ phases: [...selected.phases, { phase, name: `Phase ${phase}` }] });
+  };
+
+  const removeSet = (set: QuestionSet) => {
+    if (set.builtIn) {
+      questionSetService.remove(set.id);
+      toast.success(`${set.name} is back to its shipped questions.`);
+      return;
+    }
+    if (!window.confirm(`Delete the ${set.name} question set?`)) return;
+    questionSetService.remove(set.id);
+    select(active.id === set.id ? DEFAULT_QUESTION_SETS[0].id : active.id);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = questionSetService.importJson(await file.text());
+      toast.success(`Imported ${imported.length} question set${imported.length === 1 ? '' : 's'}.`);
+      const unused = imported.flatMap(set => unusedQuestions(set));
+      if (unused.length > 0) {
+        toast.warning(`${unused.length} imported question${unused.length === 1 ? '' : 's'} answer${unused.length === 1 ? 's' : ''} into a field no prompt reads. Map ${unused.length === 1 ? 'it' : 'them'} to a known field.`);
+      }
+      if (imported[0]) select(imported[0].id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import question sets.');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-5xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <ListChecks className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Question Sets
+                </h2>
+                <p className="text-xs text-gray-500">What the builder asks, and where each answer goes</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              {sets.map(set => (
+                <button
+                  key={set.id}
+                  onClick={() => select(set.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors ${set.id === selected.id ? 'bg-amber-500/20 border-amber-500 text-amber-100' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span>{set.name}</span>
+                    {set.id === active.id && <Check className="w-4 h-4 text-emerald-400" />}
+                  </div>
+                  <div className="text-xs text-gray-500">{set.questions.length} questions{set.id === active.id ? ' · this project' : ''}</div>
+                </button>
+              ))}
+              <button onClick={() => select(questionSetService.create().id)} className="w-full px-3 py-2 rounded-lg border border-dashed border-gray-700 text-sm text-gray-400 hover:bg-gray-800 flex items-center gap-2">
+                <Plus className="w-4 h-4" />New question set
+              </button>
+              <div className="flex gap-2">
+                <button onClick={() => fileInputRef.current?.click()} className="flex-1 px-3 py-2 rounded-lg border border-gray-700 text-sm text-amber-400 hover:bg-gray-800 flex items-center justify-center gap-2">
+                  <Upload className="w-4 h-4" />Import
+                </button>
+                <button onClick={() => download(questionSetService.exportJson(), 'dreamer-question-sets.json')} className="flex-1 px-3 py-2 rounded-lg border border-gray-700 text-sm text-amber-400 hover:bg-gray-800 flex items-center justify-center gap-2">
+                  <Download className="w-4 h-4" />Export all
+                </button>
+              </div>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </div>
+
+            <div className="md:col-span-2 space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  value={selected.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className={`flex-1 ${inputClass} text-base`}
+                  placeholder="Name"
+                />
+                {selected.id !== active.id && (
+                  <button onClick={() => questionSetService.setActive(selected.id)} className="px-3 py-2 rounded-lg bg-amber-500 hover:bg-amber-600 text-black text-sm font-medium whitespace-nowrap">
+                    Use for this project
+                  </button>
+                )}
+                <button onClick={() => select(questionSetService.create(selected).id)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Duplicate">
+                  <Copy className="w-4 h-4 text-gray-300" />
+                </button>
+                <button onClick={() => download(questionSetService.exportJson([selected.id]), `${selected.name.replace(/\s+/g, '-')}.json`)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Export">
+                  <Download className="w-4 h-4 text-gray-300" />
+                </button>
+                {(!selected.builtIn || customized) && (
+                  <button onClick={() => removeSet(selected)} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title={selected.builtIn ? 'Reset to shipped questions' : 'Delete'}>
+                    {selected.builtIn ? <RotateCcw className="w-4 h-4 text-amber-400" /> : <Trash2 className="w-4 h-4 text-red-400" />}
+                  </button>
+                )}
+              </div>
+              <input
+                value={selected.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="Description"
+                className={inputClass}
+              />
+
+              <div>
+                <label className="text-xs text-gray-400 uppercase">Phases</label>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {selected.phases.map((phase, index) => (
+                    <div key={phase.phase} className="flex items-center gap-1 bg-gray-800 border border-gray-700 rounded-lg pl-2">
+                      <span className="text-xs text-gray-500">{phase.phase}</span>
+                      <input
+                        value={phase.name}
+                        onChange={(e) => update({ phases: selected.phases.map((candidate, i) => i === index ? { ...candidate, name: e.target.value } : candidate) })}
+                        className="w-36 bg-transparent px-1 py-1.5 text-sm text-white focus:outline-none"
+                      />
+                      <button
+                        onClick={() => update({ phases: selected.phases.filter((_, i) => i !== index) })}
+                        className="p-1.5 text-gray-500 hover:text-red-400"
+                        title="Remove phase"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <button onClick={addPhase} className="px-2 py-1.5 rounded-lg border border-dashed border-gray-700 text-xs text-gray-400 hover:bg-gray-800 flex items-center gap-1">
+                    <Plus className="w-3 h-3" />Phase
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs text-gray-400 uppercase">Questions</label>
+                {selected.questions.map((question, index) => (
+                  <div key={`${question.id}-${index}`} className="bg-gray-950 border border-gray-800 rounded-lg">
+                    <div className="flex items-center gap-2 px-3 py-2">
+                      <button onClick={() => setExpanded(expanded === index ? null : index)} className="flex-1 text-left text-sm text-gray-200 truncate">
+                        <span className="text-gray-500 mr-2">{index + 1}.</span>{question.question}
+                        <span className="ml-2 text-xs text-gray-500">→ {answerField(question)}</span>
+                        {!ANSWER_FIELDS.includes(answerField(question)) && (
+                          <span className="ml-2 inline-flex items-center gap-1 text-xs text-amber-400" title="No prompt reads this field, so the answer is not used">
+                            <AlertTriangle className="w-3 h-3" />unused
+                          </span>
+                        )}
+                      </button>
+                      <button onClick={() => moveQuestion(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title="Move up">
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveQuestion(index, 1)} disabled={index === selected.questions.length - 1} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title="Move down">
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => { update({ questions: selected.questions.filter((_, i) => i !== index) }); setExpanded(null); }}
+                        disabled={selected.questions.length === 1}
+                        className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30"
+                        title="Remove question"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {expanded === index && (
+                      <div className="px-3 pb-3 space-y-2 border-t border-gray-800 pt-3">
+                        <input value={question.question} onChange={(e) => updateQuestion(index, { question: e.target.value })} placeholder="Question" className={inputClass} />
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                          <div>
+                            <label className="text-[10px] text-gray-500 uppercase">Type</label>
+                            <select value={question.type} onChange={(e) => updateQuestion(index, { type: e.target.value as QuestionType })} className={inputClass}>
+                              {QUESTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-gray-500 uppercase">Phase</label>
+                            <select value={question.phase} onChange={(e) => updateQuestion(index, { phase: Number(e.target.value) })} className={inputClass}>
+                              {Array.from(new Set([...selected.phases.map(phase => phase.phase), question.phase])).sort((a, b) => a - b).map(phase => (
+                                <option key={phase} value={phase}>{selected.phases.find(candidate => candidate.phase === phase)?.name || `Phase ${phase}`}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-gray-500 uppercase">Category</label>
+                            <input value={question.category} onChange={(e) => updateQuestion(index, { category: e.target.value })} className={inputClass} />
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-gray-500 uppercase">Answer goes to</label>
+                            <input
+                              value={question.field ?? ''}
+                              onChange={(e) => updateQuestion(index, { field: e.target.value || undefined })}
+                              placeholder={question.id}
+                              list="question-set-fields"
+                              className={inputClass}
+                            />
+                          </div>
+                        </div>
+                        <input value={question.placeholder || ''} onChange={(e) => updateQuestion(index, { placeholder: e.target.value || undefined })} placeholder="Placeholder text" className={inputClass} />
+                        {(question.type === 'select' || question.type === 'multiselect') && (
+                          <input
+                            value={(question.options || []).join(', ')}
+                            onChange={(e) => updateQuestion(index, { options: splitList(e.target.value, ',') })}
+                            placeholder="Options, comma separated"
+                            className={inputClass}
+                          />
+                        )}
+                        <textarea
+                          value={(question.randomOptions || []).join('\n')}
+                          onChange={(e) => updateQuestion(index, { randomOptions: e.target.value ? splitList(e.target.value, '\n') : undefined })}
+                          rows={3}
+                          placeholder="Random inspirations, one per line"
+                          className={inputClass}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <button onClick={addQuestion} className="w-full px-3 py-2 rounded-lg border border-dashed border-gray-700 text-sm text-gray-400 hover:bg-gray-800 flex items-center gap-2">
+                  <Plus className="w-4 h-4" />Add question
+                </button>
+                <datalist id="question-set-fields">
+                  {ANSWER_FIELDS.map(field => <option key={field} value={field} />)}
+                </datalist>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default QuestionSetsModal;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Dices, Fingerprint } from 'lucide-react';
+import { AnyTimelineItem, SeedRule, ShotContinuity, ShotItem } from '../types';
+import { characterBibleService } from '../services/characterBibleService';
+import { MAX_SEED, parseSeed, randomSeed, resolveShotContinuity } from '../services/shotContinuityService';
+import { useCharacterBible } from '../hooks/use-character-bible';
+
+interface ShotContinuityControlsProps {
+  item: ShotItem;
+  /** The whole timeline, for finding the shot's scene */
+  timelineItems: AnyTimelineItem[];
+  onChange: (continuity: ShotContinuity) => void;
+}
+
+const SEED_RULES: { value: SeedRule; label: string }[] = [
+  { value: 'own', label: 'Own seed' },
+  { value: 'scene', label: 'Previous shot in scene' },
+  { value: 'character', label: 'Locked to character' }
+];
+
+const splitReferences = (value: string): string[] =>
+  value.split(',').map(reference => reference.trimStart()).filter((reference, index, all) => reference || index === all.length - 1);
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-amber-500';
+
+export const ShotContinuityControls: React.FC<ShotContinuityControlsProps> = ({ item, timelineItems, onChange }) => {
+  const characters = useCharacterBible();
+  const continuity = item.continuity || {};
+  const rule = continuity.seedRule || 'own';
+  const resolved = resolveShotContinuity(timelineItems, item.id, characters);
+  const character = rule === 'character' ? characters.find(candidate => candidate.id === continuity.seedCharacterId) : undefined;
+
+  const update = (changes: Partial<ShotContinuity>) => onChange({ ...continuity, ...changes });
+
+  // A character's seed is edited on the character, so every shot locked to it follows
+  const setSeed = (seed: number | undefined) => {
+    if (character) characterBibleService.save({ ...character, lockedSeed: seed });
+    else update({ seed });
+  };
+  const inherited = resolved.seedSource === 'scene';
+  const seedValue = character ? character.lockedSeed : inherited ? resolved.seed : continuity.seed;
+
+  const seedNote = (() => {
+    if (resolved.seedSource === 'scene') return `Same seed as ${resolved.seedFrom}`;
+    if (resolved.seedSource === 'character') return `Every shot locked to ${resolved.seedFrom} uses this seed`;
+    if (rule === 'scene') return 'First shot in its scene, so it keeps its own seed';
+    if (rule === 'character') return character ? `Lock a seed for ${character.name}` : 'Pick a character';
+    return resolved.seed === undefined ? 'No seed; models pick one at random' : '';
+  })();
+
+  return (
+    <div className="bg-gray-900/60 border border-gray-800 rounded-lg p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Fingerprint className="w-4 h-4 text-gray-500" />
+        <select
+          value={rule}
+          onChange={(event) => update({ seedRule: event.target.value as SeedRule })}
+          className={inputClass}
+          title="Where this shot's seed comes from"
+        >
+          {SEED_RULES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        {rule === 'character' && (
+          <select
+            value={continuity.seedCharacterId || ''}
+            onChange={(event) => update({ seedCharacterId: event.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">Choose character</option>
+            {characters.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.name}</option>)}
+          </select>
+        )}
+        <input
+          type="number"
+          min={0}
+          max={MAX_SEED}
+          value={seedValue ?? ''}
+          readOnly={inherited}
+          onChange={(event) => setSeed(parseSeed(event.target.value))}
+          placeholder="Seed"
+          className={`${inputClass} w-32 read-only:opacity-60`}
+        />
+        {!inherited && (rule !== 'character' || character) && (
+          <button onClick={() => setSeed(randomSeed())} className="p-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800" title="Roll a new seed">
+            <Dices className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {seedNote && <span className="text-xs text-gray-500">{seedNote}</span>}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          value={(continuity.styleReferences || []).join(', ')}
+          onChange={(event) => update({ styleReferences: splitReferences(event.target.value) })}
+          placeholder={inherited && resolved.styleReferences.length > 0 ? `Style refs from ${resolved.seedFrom}: ${resolved.styleReferences.join(', ')}` : 'Style references, comma separated'}
+          className={inputClass}
+          title="Style reference codes or image URLs"
+        />
+        <input
+          value={continuity.characterReference || ''}
+          onChange={(event) => update({ characterReference: event.target.value || undefined })}
+          placeholder={resolved.characterReference ? `Character ref: ${resolved.characterReference}` : 'Character reference image URL'}
+          className={inputClass}
+          title="Image of the character the model should keep consistent"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ShotContinuityControls;
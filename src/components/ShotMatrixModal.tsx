@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Table2, ArrowDownToLine, TrendingUp, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { PromptData, Question } from '../types';
+import {
+  SHOT_MATRIX_FIELDS, ShotMatrixField, shotCountOf, resolveShotValues, hasShotOverrides,
+  setShotValue, fillDown, interpolateShots
+} from '../utils/shotMatrix';
+import { answerField } from '../services/questionSetService';
+
+interface ShotMatrixModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  promptData: PromptData;
+  /** Builder questions, whose options are offered in each column */
+  questions: Question[];
+  onChange: (field: ShotMatrixField, value: string | string[]) => void;
+}
+
+interface MatrixSelection {
+  field: ShotMatrixField;
+  anchor: number;
+  extent: number;
+}
+
+export const ShotMatrixModal: React.FC<ShotMatrixModalProps> = ({ isOpen, onClose, promptData, questions, onChange }) => {
+  const [selection, setSelection] = useState<MatrixSelection | null>(null);
+
+  if (!isOpen) return null;
+
+  const shots = shotCountOf(promptData);
+  const from = selection ? Math.min(selection.anchor, selection.extent) : 0;
+  const to = selection ? Math.max(selection.anchor, selection.extent) : 0;
+  const selectedLabel = selection && SHOT_MATRIX_FIELDS.find(column => column.field === selection.field)?.label;
+
+  // Shift-click extends the selection down the same column
+  const selectCell = (field: ShotMatrixField, shot: number, extend: boolean) => {
+    setSelection(prev => extend && prev?.field === field ? { ...prev, extent: shot } : { field, anchor: shot, extent: shot });
+  };
+
+  const handleFillDown = () => {
+    if (!selection) return;
+    onChange(selection.field, fillDown(promptData[selection.field], shots, from, from === to ? shots - 1 : to));
+  };
+
+  const handleInterpolate = () => {
+    if (!selection) return;
+    const interpolated = interpolateShots(promptData[selection.field], shots, from, to);
+    if (!interpolated) {
+      toast.error('Interpolation needs two ends that only differ in their numbers, e.g. 24mm and 85mm.');
+      return;
+    }
+    onChange(selection.field, interpolated);
+  };
+
+  const handleReset = () => {
+    if (!selection) return;
+    onChange(selection.field, resolveShotValues(promptData[selection.field], shots)[selection.anchor]);
+  };
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-gray-900 border border-gray-800 rounded-lg max-w-6xl w-full max-h-[90vh] overflow-hidden shadow-2xl flex flex-col"
+        >
+          <div className="flex items-center justify-between p-6 border-b border-gray-800">
+            <div className="flex items-center gap-3">
+              <Table2 className="w-6 h-6 text-amber-500" />
+              <div>
+                <h2 className="text-2xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+                  Shot Matrix
+                </h2>
+                <p className="text-xs text-gray-500">Override any answer per shot. Shift-click to select a range in a column.</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 px-6 py-3 border-b border-gray-800 text-sm">
+            <span className="flex-1 text-gray-400">
+              {selection ? `${selectedLabel}, shot ${from + 1}${to > from ? ` to ${to + 1}` : ''}` : 'Select a cell to fill down or interpolate from it.'}
+            </span>
+            <button onClick={handleFillDown} disabled={!selection} className="px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2" title="Copy the first selected shot's value down the selection, or to the last shot">
+              <ArrowDownToLine className="w-4 h-4" />Fill down
+            </button>
+            <button onClick={handleInterpolate} disabled={!selection || to - from < 2} className="px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2" title="Step the numbers evenly between the first and last selected shots">
+              <TrendingUp className="w-4 h-4" />Interpolate
+            </button>
+            <button onClick={handleReset} disabled={!selection || !hasShotOverrides(promptData[selection.field], shots)} className="px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50 flex items-center gap-2" title="Use the selected value for every shot">
+              <RotateCcw className="w-4 h-4" />Same for all shots
+            </button>
+          </div>
+
+          <div className="overflow-auto">
+            <table className="text-sm border-separate border-spacing-0">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 top-0 z-20 bg-gray-900 px-3 py-2 text-left text-xs text-gray-400 uppercase border-b border-gray-800">Shot</th>
+                  {SHOT_MATRIX_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="sticky top-0 z-10 bg-gray-900 px-2 py-2 text-left text-xs uppercase whitespace-nowrap border-b border-gray-800">
+                      <span className={hasShotOverrides(promptData[field], shots) ? 'text-amber-400' : 'text-gray-400'}>{label}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {Array.from({ length: shots }, (_, shot) => (
+                  <tr key={shot}>
+                    <td className="sticky left-0 z-10 bg-gray-900 px-3 py-1 text-gray-400 whitespace-nowrap border-b border-gray-800">Shot {shot + 1}</td>
+                    {SHOT_MATRIX_FIELDS.map(({ field }) => {
+                      const values = resolveShotValues(promptData[field], shots);
+                      const selected = selection?.field === field && shot >= from && shot <= to;
+                      // Cells where the value changes from the shot before stand out
+                      const changed = shot > 0 && values[shot] !== values[shot - 1];
+                      return (
+                        <td key={field} className="px-1 py-1 border-b border-gray-800">
+                          <input
+                            value={values[shot]}
+                            list={`shot-matrix-${field}`}
+                            onClick={(e) => selectCell(field, shot, e.shiftKey)}
+                            onChange={(e) => onChange(field, setShotValue(promptData[field], shots, shot, e.target.value))}
+                            className={`w-40 bg-gray-800 border rounded px-2 py-1 text-xs focus:outline-none ${selected ? 'border-amber-500' : 'border-gray-700'} ${changed ? 'text-amber-200' : 'text-white'}`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {SHOT_MATRIX_FIELDS.map(({ field }) => (
+              <datalist key={field} id={`shot-matrix-${field}`}>
+                {(questions.find(question => answerField(question) === field)?.options || []).map(option => <option key={option} value={option} />)}
+              </datalist>
+            ))}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default ShotMatrixModal;
@@ -1,112 +1,61 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { CheckCircle, Circle, Film, Camera, Lightbulb, Palette, Users, Volume2 } from 'lucide-react';
+import { PromptData, Question, QuestionPhase } from '../types';
+import { isAnswered } from '../services/questionSetService';
 
 interface ProgressTrackerProps {
   currentStep: number;
   totalSteps: number;
-  promptData: any;
-  questions: any[];
+  promptData: Partial<PromptData>;
+  questions: Question[];
+  /** Milestones to show, one per phase of the question set */
+  phases: QuestionPhase[];
 }
 
-const milestones = [
-  {
-    id: 'script',
-    step: 0,
-    title: 'Script & Core',
-    icon: Film,
-    description: 'Scene foundation',
-    color: 'bg-blue-500'
-  },
-  {
-    id: 'technical',
-    step: 2,
-    title: 'Technical Setup',
-    icon: Camera,
-    description: 'Camera & shots',
-    color: 'bg-purple-500'
-  },
-  {
-    id: 'framing',
-    step: 3,
-    title: 'Framing',
-    icon: Palette,
-    description: 'Visual psychology',
-    color: 'bg-green-500'
-  },
-  {
-    id: 'characters',
-    step: 4,
-    title: 'Characters',
-    icon: Users,
-    description: 'Character blocking',
-    color: 'bg-orange-500'
-  },
-  {
-    id: 'lighting',
-    step: 5,
-    title: 'Lighting',
-    icon: Lightbulb,
-    description: 'Atmosphere',
-    color: 'bg-yellow-500'
-  },
-  {
-    id: 'color',
-    step: 6,
-    title: 'Color & Film',
-    icon: Palette,
-    description: 'Visual style',
-    color: 'bg-pink-500'
-  },
-  {
-    id: 'voice',
-    step: 7,
-    title: 'Story Voice',
-    icon: Volume2,
-    description: 'Poetic narrative',
-    color: 'bg-indigo-500'
-  },
-  {
-    id: 'output',
-    step: 8,
-    title: 'Output',
-    icon: CheckCircle,
-    description: 'Final settings',
-    color: 'bg-emerald-500'
-  }
+const MILESTONE_STYLES = [
+  { icon: Film, color: 'bg-blue-500' },
+  { icon: Camera, color: 'bg-purple-500' },
+  { icon: Palette, color: 'bg-green-500' },
+  { icon: Users, color: 'bg-orange-500' },
+  { icon: Lightbulb, color: 'bg-yellow-500' },
+  { icon: Palette, color: 'bg-pink-500' },
+  { icon: Volume2, color: 'bg-indigo-500' },
+  { icon: CheckCircle, color: 'bg-emerald-500' }
 ];
 
 export const VisualProgressTracker: React.FC<ProgressTrackerProps> = ({
   currentStep,
   totalSteps,
   promptData,
-  questions
+  questions,
+  phases
 }) => {
+  const milestones = phases.map((phase, index) => {
+    const phaseQuestions = questions.filter(q => q.phase === phase.phase);
+    return {
+      id: String(phase.phase),
+      phase: phase.phase,
+      title: phase.name,
+      description: Array.from(new Set(phaseQuestions.map(q => q.category).filter(Boolean))).join(', '),
+      questions: phaseQuestions,
+      ...MILESTONE_STYLES[index % MILESTONE_STYLES.length]
+    };
+  });
+  const currentMilestone = milestones.find(m => m.phase === questions[currentStep]?.phase);
+
   // Calculate completion percentage for each milestone
-  const getMilestoneProgress = (milestone: any) => {
-    const questionsInRange = questions.filter(q => 
-      q.step >= milestone.step && q.step < (milestones[milestones.indexOf(milestone) + 1]?.step || totalSteps)
-    );
-    
-    if (questionsInRange.length === 0) return 0;
-    
-    const answeredInRange = questionsInRange.filter(q => {
-      const value = promptData[q.id as keyof typeof promptData];
-      return value && (Array.isArray(value) ? value.length > 0 : value.toString().trim().length > 0);
-    });
-    
-    return (answeredInRange.length / questionsInRange.length) * 100;
+  const getMilestoneProgress = (milestone: typeof milestones[number]) => {
+    if (milestone.questions.length === 0) return 0;
+    const answeredInRange = milestone.questions.filter(q => isAnswered(promptData, q));
+    return (answeredInRange.length / milestone.questions.length) * 100;
   };
 
   // Get overall completion percentage
   const getOverallProgress = () => {
-    const totalQuestions = questions.length;
-    const answeredQuestions = questions.filter(q => {
-      const value = promptData[q.id as keyof typeof promptData];
-      return value && (Array.isArray(value) ? value.length > 0 : value.toString().trim().length > 0);
-    }).length;
-    
-    return (answeredQuestions / totalQuestions) * 100;
+    if (questions.length === 0) return 0;
+    const answeredQuestions = questions.filter(q => isAnswered(promptData, q)).length;
+    return (answeredQuestions / questions.length) * 100;
   };
 
   const overallProgress = getOverallProgress();
@@ -140,8 +89,7 @@ export const VisualProgressTracker: React.FC<ProgressTrackerProps> = ({
         {milestones.map((milestone, index) => {
           const progress = getMilestoneProgress(milestone);
           const isCompleted = progress >= 100;
-          const isCurrent = currentStep >= milestone.step && currentStep < (milestones[index + 1]?.step || totalSteps);
-          const isPast = currentStep > milestone.step;
+          const isCurrent = milestone === currentMilestone;
           
           const IconComponent = milestone.icon;
           
@@ -216,7 +164,7 @@ export const VisualProgressTracker: React.FC<ProgressTrackerProps> = ({
         <div className="flex items-center justify-between">
           <div>
             <div className="text-sm font-medium text-white">
-              Current: {milestones.find(m => currentStep >= m.step && currentStep < (milestones[milestones.indexOf(m) + 1]?.step || totalSteps))?.title || 'Final Setup'}
+              Current: {currentMilestone?.title || 'Final Setup'}
             </div>
             <div className="text-xs text-gray-400">
               Step {currentStep + 1} of {totalSteps}
@@ -224,7 +172,7 @@ export const VisualProgressTracker: React.FC<ProgressTrackerProps> = ({
           </div>
           <div className="text-right">
             <div className="text-sm text-amber-400">
-              {milestones.find(m => currentStep >= m.step && currentStep < (milestones[milestones.indexOf(m) + 1]?.step || totalSteps))?.description || 'Final configuration'}
+              {currentMilestone?.description || 'Final configuration'}
             </div>
           </div>
         </div>
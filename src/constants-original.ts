@@ -1,16 +1,9 @@
 // Original Dreamer-V5 Questions (27-28 Questions)
 // Organized into 8 phases for 8-box progress indicator
 
-export interface Question {
-  id: string;
-  phase: number; // 1-8 for 8-box progress system
-  category: string;
-  question: string;
-  type: 'text' | 'textarea' | 'select' | 'multiselect' | 'number';
-  options?: string[];
-  placeholder?: string;
-  randomOptions?: string[];
-}
+import { Question } from './types';
+
+export type { Question };
 
 // PHASE 1: Script Foundation (4 questions)
 const phase1Questions: Question[] = [
@@ -92,6 +92,8 @@ export const IMAGE_GENERATION = {
   // Image quality settings
   DEFAULT_ASPECT_RATIO: '16:9',
   HIGH_QUALITY_ASPECT_RATIO: '16:9',
+  // Frame shapes offered per shot
+  ASPECT_RATIOS: ['16:9', '2.39:1', '1.85:1', '4:3', '1:1', '9:16'],
   
   // Rate limiting
   RATE_LIMIT_DELAY: 2000,
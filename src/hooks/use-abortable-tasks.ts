@@ -0,0 +1,39 @@
+import * as React from 'react';
+
+/**
+ * Named AbortControllers for a component's long-running AI operations.
+ * Starting a task cancels any previous run under the same name, and everything
+ * still running is cancelled when the component unmounts.
+ */
+export function useAbortableTasks<TTask extends string>() {
+  const controllers = React.useRef(new Map<TTask, AbortController>());
+
+  React.useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      active.forEach(controller => controller.abort());
+      active.clear();
+    };
+  }, []);
+
+  const start = React.useCallback((task: TTask): AbortSignal => {
+    controllers.current.get(task)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(task, controller);
+    return controller.signal;
+  }, []);
+
+  const cancel = React.useCallback((task: TTask) => {
+    controllers.current.get(task)?.abort();
+    controllers.current.delete(task);
+  }, []);
+
+  // Forget a finished run unless a newer one has replaced it
+  const finish = React.useCallback((task: TTask, signal: AbortSignal) => {
+    if (controllers.current.get(task)?.signal === signal) {
+      controllers.current.delete(task);
+    }
+  }, []);
+
+  return { start, cancel, finish };
+}
@@ -0,0 +1,24 @@
+import * as React from 'react';
+import { CharacterProfile } from '../types';
+import { characterBibleService } from '../services/characterBibleService';
+import { projectService } from '../services/projectService';
+
+/**
+ * The active project's character bible, kept current as characters are edited
+ * or the project changes.
+ */
+export function useCharacterBible(): CharacterProfile[] {
+  const [characters, setCharacters] = React.useState(() => characterBibleService.list());
+
+  React.useEffect(() => {
+    const refresh = () => setCharacters(characterBibleService.list());
+    const unsubscribeBible = characterBibleService.subscribe(refresh);
+    const unsubscribeProject = projectService.subscribe(refresh);
+    return () => {
+      unsubscribeBible();
+      unsubscribeProject();
+    };
+  }, []);
+
+  return characters;
+}
@@ -0,0 +1,23 @@
+import * as React from 'react';
+import { LocationProfile } from '../types';
+import { locationRegistryService } from '../services/locationRegistryService';
+import { projectService } from '../services/projectService';
+
+/**
+ * The active project's locations, kept current as they are edited or the project changes.
+ */
+export function useLocationRegistry(): LocationProfile[] {
+  const [locations, setLocations] = React.useState(() => locationRegistryService.list());
+
+  React.useEffect(() => {
+    const refresh = () => setLocations(locationRegistryService.list());
+    const unsubscribeRegistry = locationRegistryService.subscribe(refresh);
+    const unsubscribeProject = projectService.subscribe(refresh);
+    return () => {
+      unsubscribeRegistry();
+      unsubscribeProject();
+    };
+  }, []);
+
+  return locations;
+}
@@ -0,0 +1,14 @@
+import * as React from 'react';
+import { ModelAdapterProfile } from '../types';
+import { modelAdapterService } from '../services/modelAdapterService';
+
+/**
+ * The model adapter profiles, kept current as they are edited or imported.
+ */
+export function useModelAdapters(): ModelAdapterProfile[] {
+  const [adapters, setAdapters] = React.useState(() => modelAdapterService.list());
+
+  React.useEffect(() => modelAdapterService.subscribe(() => setAdapters(modelAdapterService.list())), []);
+
+  return adapters;
+}
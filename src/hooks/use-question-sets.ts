@@ -0,0 +1,32 @@
+import * as React from 'react';
+import { QuestionSet } from '../types';
+import { questionSetService } from '../services/questionSetService';
+import { projectService } from '../services/projectService';
+
+interface QuestionSetsState {
+  sets: QuestionSet[];
+  /** The set the active project's builder asks */
+  active: QuestionSet;
+}
+
+const read = (): QuestionSetsState => ({ sets: questionSetService.list(), active: questionSetService.getActive() });
+
+/**
+ * The builder's question sets and the active project's choice, kept current as sets are
+ * edited or the project changes.
+ */
+export function useQuestionSets(): QuestionSetsState {
+  const [state, setState] = React.useState(read);
+
+  React.useEffect(() => {
+    const refresh = () => setState(read());
+    const unsubscribeSets = questionSetService.subscribe(refresh);
+    const unsubscribeProject = projectService.subscribe(refresh);
+    return () => {
+      unsubscribeSets();
+      unsubscribeProject();
+    };
+  }, []);
+
+  return state;
+}
@@ -3,6 +3,10 @@ import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
 import { ErrorBoundary } from './components/ErrorBoundary.tsx';
+import { mockAIBackend } from './services/mockAIBackend';
+
+// Resume record/replay mode (and recorded fixtures) from the last session
+mockAIBackend.restore();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
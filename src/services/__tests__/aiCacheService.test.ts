@@ -0,0 +1,74 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { aiCacheService } from '../aiCacheService';
+import { aiProviderService } from '../aiProviderService';
+
+describe('aiCacheService', () => {
+  let calls = 0;
+
+  beforeEach(async () => {
+    calls = 0;
+    await aiCacheService.clear();
+    aiProviderService.setInterceptor(async (_request, { model, settings }) => {
+      calls += 1;
+      return { text: `response ${calls}`, model, provider: settings.kind };
+    });
+  });
+
+  afterEach(() => {
+    aiProviderService.setInterceptor(null);
+    vi.useRealTimers();
+  });
+
+  it('serves repeat requests from the cache', async () => {
+    const request = { tier: 'fast' as const, contents: 'Describe the shot' };
+
+    const first = await aiCacheService.generate('test', request);
+    const second = await aiCacheService.generate('test', request);
+
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ text: 'response 1', cached: true });
+    expect(calls).toBe(1);
+    expect((await aiCacheService.list())[0].hits).toBe(1);
+  });
+
+  it('keys on the response schema as well as the prompt', async () => {
+    await aiCacheService.generate('test', { tier: 'fast', contents: 'Same prompt' });
+    await aiCacheService.generate('test', { tier: 'fast', contents: 'Same prompt', config: { responseMimeType: 'application/json', responseSchema: { type: 'OBJECT' } } });
+
+    expect(calls).toBe(2);
+  });
+
+  it('keys on the endpoint and generation config', async () => {
+    const request = { tier: 'fast' as const, contents: 'Same prompt' };
+    const key = aiCacheService.buildKey(request).key;
+
+    expect(aiCacheService.buildKey({ ...request, config: { temperature: 0.2 } }).key).not.toBe(key);
+    expect(aiCacheService.buildKey({ ...request, config: { maxOutputTokens: 64 } }).key).not.toBe(key);
+
+    const settings = aiProviderService.getSettings();
+    const getSettings = vi.spyOn(aiProviderService, 'getSettings').mockReturnValue({ ...settings, baseUrl: 'http://localhost:9999/v1' });
+    expect(aiCacheService.buildKey(request).key).not.toBe(key);
+    getSettings.mockRestore();
+  });
+
+  it('refreshes the entry when bypassing the cache', async () => {
+    const request = { tier: 'fast' as const, contents: 'Regenerate me' };
+
+    await aiCacheService.generate('test', request);
+    const bypassed = await aiCacheService.generate('test', request, { bypassCache: true });
+    const cached = await aiCacheService.generate('test', request);
+
+    expect(bypassed).toMatchObject({ text: 'response 2', cached: false });
+    expect(cached).toMatchObject({ text: 'response 2', cached: true });
+  });
+
+  it('does not cache responses that fail validation or have expired', async () => {
+    vi.useFakeTimers();
+    await aiCacheService.generate('test', { tier: 'fast', contents: 'not json' }, { validate: () => false });
+    await aiCacheService.generate('test', { tier: 'fast', contents: 'short lived' }, { ttlMs: 1000 });
+    vi.advanceTimersByTime(2000);
+
+    expect(await aiCacheService.get(aiCacheService.buildKey({ tier: 'fast', contents: 'short lived' }).key)).toBeNull();
+    expect(await aiCacheService.list()).toHaveLength(0);
+  });
+});
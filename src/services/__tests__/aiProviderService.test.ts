@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { aiProviderService, MissingApiKeyError, PROVIDER_PRESETS } from '../aiProviderService';
+
+describe('aiProviderService', () => {
+  it('only asks for a key when the provider needs one', () => {
+    expect(aiProviderService.hasApiKey({ ...PROVIDER_PRESETS.gemini, apiKey: 'project-key' })).toBe(true);
+    expect(aiProviderService.hasApiKey(PROVIDER_PRESETS.ollama)).toBe(true);
+  });
+
+  // Recording fixtures runs with a real VITE_GEMINI_API_KEY
+  it.skipIf(aiProviderService.hasApiKey(PROVIDER_PRESETS.gemini))('refuses Gemini requests without a key and says so', async () => {
+    let notified = 0;
+    const unsubscribe = aiProviderService.onMissingApiKey(() => notified++);
+    try {
+      await expect(
+        aiProviderService.generateContent({ tier: 'fast', contents: 'Describe the shot.' }, { ...PROVIDER_PRESETS.gemini })
+      ).rejects.toBeInstanceOf(MissingApiKeyError);
+      expect(notified).toBe(1);
+    } finally {
+      unsubscribe();
+    }
+  });
+});
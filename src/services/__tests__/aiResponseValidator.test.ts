@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AIResponseValidationError,
+  SequenceStyleSchema,
+  StoryboardSchema,
+  parseAIResponse,
+  validateAIResponse
+} from '../aiResponseValidator';
+import { aiProviderService, AIGenerateRequest } from '../aiProviderService';
+import { aiScheduler } from '../aiSchedulerService';
+import { generateStoryboard } from '../geminiService';
+
+const shot = (screenplayLine: string, shotDetails: Record<string, unknown>) => ({ screenplayLine, shotDetails });
+
+const VALID_SHOT = shot('She runs.', { shotType: 'Wide Shot', cameraAngle: 'Low', description: 'Mara sprints', lightingMood: 'Cold', cameraMovement: 'Tracking' });
+
+describe('aiResponseValidator', () => {
+  let requests: AIGenerateRequest[];
+
+  const respondWith = (...texts: string[]) => {
+    requests = [];
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      requests.push(request);
+      return { text: texts[Math.min(requests.length - 1, texts.length - 1)], model, provider: settings.kind };
+    });
+  };
+
+  beforeEach(() => {
+    aiScheduler.configure({ maxAttempts: 1 });
+  });
+
+  afterEach(() => {
+    aiProviderService.setInterceptor(null);
+  });
+
+  it('reports the exact field that failed', () => {
+    const result = validateAIResponse(JSON.stringify([VALID_SHOT, shot('The door slams.', { shotType: 'Insert' })]), StoryboardSchema);
+
+    expect(result.success).toBe(false);
+    expect(result.path).toBe('[1].shotDetails.description');
+  });
+
+  it('accepts fenced JSON and a single shot object as a storyboard', () => {
+    const result = validateAIResponse(`Here you go:\n\`\`\`json\n${JSON.stringify(VALID_SHOT)}\n\`\`\``, StoryboardSchema);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+  });
+
+  it('makes one repair call for an invalid response and returns the repaired data', async () => {
+    respondWith(JSON.stringify({ visualDNA: 'Handheld realism', colorPalette: 'Cold blues', mood: 'Tense' }));
+
+    const style = await parseAIResponse('{"visualDNA":"Handheld realism","colorPalette":7}', SequenceStyleSchema, { feature: 'analyzeSequenceStyle' });
+
+    expect(style.colorPalette).toBe('Cold blues');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].feature).toBe('analyzeSequenceStyle.repair');
+    expect(requests[0].contents).toContain('colorPalette');
+  });
+
+  it('throws with the failing path when the repair is still invalid', async () => {
+    respondWith('{"visualDNA":"Handheld realism","colorPalette":"Cold blues"}');
+
+    const error = await parseAIResponse('{}', SequenceStyleSchema, { feature: 'analyzeSequenceStyle' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(AIResponseValidationError);
+    expect(error.path).toBe('mood');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('repairs malformed storyboard shots before they reach the timeline', async () => {
+    const malformed = JSON.stringify([VALID_SHOT, shot('The door slams.', { cameraAngle: 'High' })]);
+    const repaired = JSON.stringify([VALID_SHOT, shot('The door slams.', { shotType: 'Insert', description: 'The door slams shut' })]);
+    respondWith(malformed, repaired);
+    const streamed: string[] = [];
+
+    const shots = await generateStoryboard('INT. HALLWAY - NIGHT\nShe runs. The door slams.', 'cinematic', '', {
+      onShot: item => streamed.push(item.screenplayLine)
+    });
+
+    expect(requests.map(request => request.feature)).toEqual(['generateStoryboard', 'generateStoryboard.repair']);
+    expect(streamed).toEqual(['She runs.']);
+    expect(shots[1].shotDetails).toMatchObject({ shotType: 'Insert', cameraAngle: '', lightingMood: '' });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AIScheduler, getRetryAfterMs, isAbortError, isRetryableError } from '../aiSchedulerService';
+import { AIProviderError } from '../aiProviderService';
+
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>(res => { resolve = res; });
+  return { promise, resolve };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AIScheduler', () => {
+  it('limits concurrency per model and runs interactive jobs before batch ones', async () => {
+    const scheduler = new AIScheduler({ concurrency: 1 });
+    const first = deferred();
+    const order: string[] = [];
+
+    const blocking = scheduler.schedule(() => first.promise, { model: 'flash', feature: 'first' });
+    const batch = scheduler.schedule(async () => { order.push('batch'); return 'b'; }, { model: 'flash', priority: 'batch' });
+    const interactive = scheduler.schedule(async () => { order.push('interactive'); return 'i'; }, { model: 'flash', priority: 'interactive' });
+    const otherModel = scheduler.schedule(async () => { order.push('other'); return 'o'; }, { model: 'pro' });
+
+    await tick();
+    expect(order).toEqual(['other']);
+    expect(scheduler.getJobs().filter(job => job.status === 'queued')).toHaveLength(2);
+
+    first.resolve('done');
+    await Promise.all([blocking, batch, interactive, otherModel]);
+    expect(order).toEqual(['other', 'interactive', 'batch']);
+    expect(scheduler.getJobs()).toHaveLength(0);
+  });
+
+  it('backs off on rate limits, honouring Retry-After, then succeeds', async () => {
+    const scheduler = new AIScheduler({ baseDelayMs: 1 });
+    const seen: string[] = [];
+    scheduler.subscribe(jobs => jobs.forEach(job => seen.push(job.status)));
+    let calls = 0;
+
+    const result = await scheduler.schedule(async () => {
+      calls++;
+      if (calls === 1) throw new AIProviderError('Too many requests', 429, 5);
+      return 'ok';
+    }, { model: 'flash' });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(2);
+    expect(seen).toContain('waiting');
+  });
+
+  it('keeps failed jobs visible after the last attempt and fails fast on non-retryable errors', async () => {
+    const scheduler = new AIScheduler({ baseDelayMs: 1, maxAttempts: 2 });
+    let rateLimited = 0;
+    let badRequest = 0;
+
+    await expect(scheduler.schedule(async () => {
+      rateLimited++;
+      throw new Error('503 Service Unavailable');
+    }, { model: 'flash', feature: 'generateStoryboard' })).rejects.toThrow(/503/);
+    await expect(scheduler.schedule(async () => {
+      badRequest++;
+      throw new AIProviderError('Invalid API key', 401);
+    }, { model: 'flash', feature: 'extractKnowledge' })).rejects.toThrow(/API key/);
+
+    expect(rateLimited).toBe(2);
+    expect(badRequest).toBe(1);
+    expect(scheduler.getJobs().map(job => [job.feature, job.status])).toEqual([
+      ['generateStoryboard', 'failed'],
+      ['extractKnowledge', 'failed']
+    ]);
+
+    scheduler.clearFailed();
+    expect(scheduler.getJobs()).toHaveLength(0);
+  });
+
+  it('drops cancelled jobs whether queued, backing off or running', async () => {
+    const scheduler = new AIScheduler({ concurrency: 1, baseDelayMs: 50 });
+    const running = deferred();
+    const controller = new AbortController();
+    let queuedRan = false;
+
+    const first = scheduler.schedule(() => running.promise, { model: 'flash', signal: controller.signal });
+    const queued = scheduler.schedule(async () => { queuedRan = true; return 'late'; }, { model: 'flash', signal: controller.signal });
+    const backingOff = scheduler.schedule(async () => {
+      throw new AIProviderError('Too many requests', 429);
+    }, { model: 'pro', signal: controller.signal });
+    await tick();
+    expect(scheduler.getJobs().map(job => job.status).sort()).toEqual(['queued', 'running', 'waiting']);
+
+    const settled = Promise.allSettled([first, queued, backingOff]);
+    controller.abort();
+    running.resolve('ignored');
+
+    const results = await settled;
+    expect(results.every(result => result.status === 'rejected' && isAbortError(result.reason))).toBe(true);
+    expect(queuedRan).toBe(false);
+    expect(scheduler.getJobs()).toHaveLength(0);
+    await expect(scheduler.schedule(async () => 'never', { model: 'flash', signal: controller.signal })).rejects.toSatisfy(isAbortError);
+  });
+
+  it('lets go of a long-lived signal once each job settles', async () => {
+    const scheduler = new AIScheduler({ maxAttempts: 1 });
+    const controller = new AbortController();
+    const removed = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await scheduler.schedule(async () => 'done', { model: 'flash', signal: controller.signal });
+    await expect(scheduler.schedule(async () => { throw new Error('bad request'); }, { model: 'flash', signal: controller.signal })).rejects.toThrow('bad request');
+
+    expect(removed).toHaveBeenCalledTimes(2);
+    expect(removed.mock.calls.every(([type]) => type === 'abort')).toBe(true);
+  });
+
+  it('reads retry hints from provider errors', () => {
+    expect(getRetryAfterMs(new AIProviderError('slow down', 429, 2000))).toBe(2000);
+    expect(getRetryAfterMs(new Error('RESOURCE_EXHAUSTED {"retryDelay": "17s"}'))).toBe(17000);
+    expect(isRetryableError(new Error('429 RESOURCE_EXHAUSTED'))).toBe(true);
+    expect(isRetryableError(new AIProviderError('Bad request', 400))).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CAMERA_MOVEMENT, cameraFromAnswers, computeOptics, cropFactor, describeOptics, fieldOfView, fieldOfViewCone, getCameraBody, resetCameraMovement } from '../cameraLensService';
+
+describe('cameraLensService', () => {
+  it('computes field of view, crop factor and full-frame equivalent for the sensor', () => {
+    expect(fieldOfView(36, 50)).toBeCloseTo(39.6, 1);
+    expect(cropFactor(getCameraBody('red-komodo')!)).toBeCloseTo(1.42, 2);
+
+    const alexa65 = computeOptics({ focalLength: 35, cameraBodyId: 'arri-alexa-65' });
+    expect(alexa65.horizontalFov).toBeCloseTo(75.4, 1);
+    expect(alexa65.verticalFov).toBeCloseTo(40.1, 1);
+    expect(alexa65.cropFactor).toBeCloseTo(0.72, 2);
+    expect(alexa65.equivalentFocalLength).toBeCloseTo(35 * alexa65.cropFactor, 5);
+    expect(alexa65.desqueezedFocalLength).toBeUndefined();
+    expect(alexa65.perspective).toBe('wide');
+    expect(computeOptics({ focalLength: 35 }).perspective).toBe('normal');
+  });
+
+  it('widens anamorphic views and flags lenses that cannot cover the sensor', () => {
+    const anamorphic = computeOptics({ focalLength: 50, cameraBodyId: 'arri-alexa-35', lensSetId: 'panavision-c-series' });
+    expect(anamorphic.horizontalFov).toBeCloseTo(fieldOfView(27.99 * 2, 50), 5);
+    expect(anamorphic.vignettes).toBe(true);
+    expect(anamorphic.equivalentFocalLength).toBeCloseTo(50 * anamorphic.cropFactor, 5);
+    expect(anamorphic.desqueezedFocalLength).toBeCloseTo(anamorphic.equivalentFocalLength / 2, 5);
+    expect(computeOptics({ focalLength: 50, cameraBodyId: 'arri-alexa-mini-lf', lensSetId: 'arri-signature-prime' }).vignettes).toBe(false);
+  });
+
+  it('reads builder answers and words the prompt for the chosen sensor', () => {
+    const setup = { focalLength: 50, ...cameraFromAnswers(['A man edits reels in the rain, Arri Alexa 65, 35mm', 'Sony Venice 2', '85mm intimate portrait']) };
+    expect(setup).toEqual({ focalLength: 35, cameraBodyId: 'arri-alexa-65' });
+    expect(describeOptics(setup)).toBe('35mm lens on the ARRI Alexa 65 (65 mm large format), framing like a 25mm on full frame (by diagonal): wide view, 75° across by 40° high.');
+    expect(describeOptics({ ...setup, lensSetId: 'arri-signature-prime' })).toMatch(/corners fall off into vignette\.$/);
+    expect(cameraFromAnswers(['Other/Custom', 'Variable/Mixed'])).toEqual({});
+
+    const [, left, right] = fieldOfViewCone({ x: 0, y: 0 }, { x: 100, y: 0 }, 90, 100);
+    expect(left.x).toBeCloseTo(100);
+    expect(left.y).toBeCloseTo(-100);
+    expect(right.y).toBeCloseTo(100);
+  });
+
+  it('resets the whole camera, body and lens set included, without sharing the defaults', () => {
+    const reset = resetCameraMovement();
+    expect(reset).toEqual(DEFAULT_CAMERA_MOVEMENT);
+    expect(reset).not.toHaveProperty('cameraBodyId');
+    expect(reset).not.toHaveProperty('lensSetId');
+
+    reset.startPos.x = 0;
+    expect(DEFAULT_CAMERA_MOVEMENT.startPos.x).toBe(100);
+  });
+});
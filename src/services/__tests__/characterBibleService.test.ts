@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  characterBibleService,
+  extractCharactersFromScript,
+  extractCharactersFromIdeation,
+  applyCharacterDescriptors,
+  castComposition
+} from '../characterBibleService';
+import { CharacterProfile } from '../../types';
+
+const SCRIPT = `INT. EDITING ROOM - NIGHT
+
+MARA (28), wiry and restless, in paint-stained overalls, threads a reel of film.
+
+MARA
+I keep cutting it.
+
+JONAH (V.O.)
+Then stop.`;
+
+const mara: CharacterProfile = {
+  id: 'mara', name: 'Mara', age: '28', appearance: 'wiry', wardrobe: 'paint-stained overalls', props: ['a Super 8 camera'], source: 'script'
+};
+
+describe('characterBibleService', () => {
+  it('pulls characters and their introductions from a screenplay', () => {
+    expect(extractCharactersFromScript(SCRIPT)).toEqual([
+      { name: 'Mara', age: '28', appearance: 'wiry and restless', wardrobe: 'paint-stained overalls', props: [], source: 'script' },
+      { name: 'Jonah', age: '', appearance: '', wardrobe: '', props: [], source: 'script' }
+    ]);
+    expect(extractCharactersFromScript('The kitchen is dark.\n\nMARA: Who is there?').map(draft => draft.name)).toEqual(['Mara']);
+  });
+
+  it('reads the protagonist from the story ideation answers', () => {
+    expect(extractCharactersFromIdeation({ protagonist: 'Maya, 28, struggling filmmaker living in Brooklyn...' })).toEqual([
+      { name: 'Maya', age: '28', appearance: 'struggling filmmaker living in Brooklyn', wardrobe: '', props: [], source: 'ideation' }
+    ]);
+    expect(extractCharactersFromIdeation({ protagonist: 'a lonely lighthouse keeper' })).toEqual([]);
+  });
+
+  it('describes characters a prompt mentions and refreshes the descriptor on reapply', () => {
+    const prompt = applyCharacterDescriptors('Close-up. Mara studies the frame.', [mara]);
+    expect(prompt).toBe('Close-up. Mara studies the frame. Characters: Mara (28; wiry; wearing paint-stained overalls; carries a Super 8 camera).');
+
+    const updated = applyCharacterDescriptors(prompt, [{ ...mara, wardrobe: 'a rain-soaked coat' }]);
+    expect(updated).toBe('Close-up. Mara studies the frame. Characters: Mara (28; wiry; wearing a rain-soaked coat; carries a Super 8 camera).');
+    expect(applyCharacterDescriptors('Wide shot of the empty room.', [mara], ['mara'])).toContain('Characters: Mara (28;');
+  });
+
+  it('casts placeholder stage markers as the characters a shot mentions', () => {
+    const jonah: CharacterProfile = { ...mara, id: 'jonah', name: 'Jonah' };
+    const composition = {
+      cameraAngle: 'eye level',
+      cameraHeight: 'eye level',
+      characters: [{ id: 'char-1', name: 'Subject A', x: 400, y: 225 }, { id: 'char-2', name: 'Subject B', x: 280, y: 260 }]
+    };
+
+    const cast = castComposition(composition, 'Jonah watches Mara from the doorway.', [mara, jonah]);
+    expect(cast.characters.map(marker => [marker.name, marker.characterId, marker.x])).toEqual([['Jonah', 'jonah', 400], ['Mara', 'mara', 280]]);
+  });
+
+  it('fills in empty fields on merge without overwriting edits', () => {
+    const projectId = 'bible-test';
+    characterBibleService.save({ ...mara, age: '', wardrobe: 'a rain-soaked coat' }, projectId);
+
+    const result = characterBibleService.merge(extractCharactersFromScript(SCRIPT), projectId);
+
+    expect(result).toEqual({ added: 1, updated: 1 });
+    expect(characterBibleService.list(projectId).find(character => character.id === 'mara')).toMatchObject({ age: '28', wardrobe: 'a rain-soaked coat' });
+  });
+
+  it('stores a resolved merge only when it is committed, keeping its new ids', () => {
+    const projectId = 'bible-resolve-test';
+    const merge = characterBibleService.resolveMerge(extractCharactersFromScript(SCRIPT), projectId);
+    expect(characterBibleService.list(projectId)).toEqual([]);
+
+    characterBibleService.commitMerge(merge, projectId);
+    expect(characterBibleService.list(projectId).map(character => character.id)).toEqual(merge.characters.map(character => character.id));
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { planDialogueCoverage, crossesActionLine, sideOfLine } from '../dialogueCoverageService';
+import { segmentScriptBeats } from '../scriptBeatService';
+import { CompositionData } from '../../types';
+
+const SCRIPT = `INT. EDITING ROOM - NIGHT
+
+MARA
+I keep cutting it.
+
+JONAH
+Then stop.`;
+
+const blocking: CompositionData = {
+  cameraAngle: 'true-eye, honest',
+  cameraHeight: 'eye-level witness',
+  characters: [{ id: 'char-1', name: 'Subject A', x: 300, y: 200 }, { id: 'char-2', name: 'Subject B', x: 500, y: 200 }]
+};
+
+const dialogue = () => segmentScriptBeats(SCRIPT).find(beat => beat.kind === 'dialogue')!;
+
+describe('dialogueCoverageService', () => {
+  it('plans master, over-the-shoulders, singles and an insert for the two speakers', () => {
+    const shots = planDialogueCoverage(dialogue(), blocking);
+
+    expect(shots.map(shot => [shot.kind, shot.subject])).toEqual([
+      ['master', undefined],
+      ['over-the-shoulder', 'Mara'],
+      ['over-the-shoulder', 'Jonah'],
+      ['single', 'Mara'],
+      ['single', 'Jonah'],
+      ['insert', undefined]
+    ]);
+    expect(shots[0].composition.characters.map(marker => marker.name)).toEqual(['Mara', 'Jonah']);
+    expect(shots[1].description).toBe('Over Jonah\'s shoulder onto Mara. Mara: "I keep cutting it."');
+    expect(shots.map(shot => shot.camera.focalLength)).toEqual([24, 50, 50, 85, 85, 100]);
+  });
+
+  it('keeps every camera on the audience side of the action line', () => {
+    const shots = planDialogueCoverage(dialogue(), blocking);
+    const [a, b] = blocking.characters;
+
+    shots.forEach(shot => {
+      expect(sideOfLine(a, b, shot.composition.camera!)).toBe(1);
+      expect(shot.crossesLine).toBe(false);
+      expect(shot.camera.startPos).toEqual({ x: shot.composition.camera!.x, y: shot.composition.camera!.y });
+    });
+    // Over Jonah's shoulder means standing behind Jonah, looking back at Mara
+    expect(shots[1].composition.camera!.x).toBeGreaterThan(b.x);
+    expect(shots[1].composition.camera!.target).toEqual({ x: a.x, y: a.y });
+  });
+
+  it('flags a shot once its markers are moved across the camera', () => {
+    const [master] = planDialogueCoverage(dialogue(), blocking);
+    const swapped: CompositionData = {
+      ...master.composition,
+      characters: master.composition.characters.map(marker => ({ ...marker, y: 600 }))
+    };
+
+    expect(crossesActionLine(master.composition)).toBe(false);
+    expect(crossesActionLine(swapped)).toBe(true);
+  });
+
+  it('only plans coverage for two-person dialogue', () => {
+    const [action] = segmentScriptBeats('INT. ROOM - DAY\n\nMara paces.');
+    expect(planDialogueCoverage(action, blocking)).toEqual([]);
+  });
+});
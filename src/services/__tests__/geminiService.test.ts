@@ -0,0 +1,147 @@
+import { describe, expect, it, beforeEach, afterEach, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  generateStoryboard,
+  analyzeSequenceStyle,
+  initializeVisualsFromStoryboardShot,
+  getKnowledgeBasedSuggestions
+} from '../geminiService';
+import { mockAIBackend, hashAIRequest, AIFixtureFile } from '../mockAIBackend';
+import { aiProviderService } from '../aiProviderService';
+import { KnowledgeDocument } from '../../types';
+
+// Replays recorded Gemini responses. To re-record against the live API, run with
+// DREAMER_RECORD_AI=1 and a real VITE_GEMINI_API_KEY; the fixture file is rewritten afterwards.
+const FIXTURE_PATH = path.resolve(__dirname, 'fixtures/geminiService.fixtures.json');
+const RECORDING = !!process.env.DREAMER_RECORD_AI;
+const fixtures: AIFixtureFile = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+
+const SCRIPT = `INT. EDITING ROOM - NIGHT
+Rain streaks the window. MARA threads a reel of film, her face lit by the flicker of the projector.
+MARA
+I keep cutting it until it stops hurting.`;
+
+const PROMPTS = [
+  'Wide establishing shot of a cramped editing room at night, rain on the window, projector beam through haze, slow push in.',
+  'Medium close-up of Mara threading a reel, flickering tungsten key, deep shadows, static camera.'
+];
+
+const KNOWLEDGE_DOC: KnowledgeDocument = {
+  id: 'doc-1',
+  name: 'Low-Key Lighting Notes',
+  content: 'Notes on motivated light.',
+  uploadedAt: new Date('2026-01-01'),
+  extractedKnowledge: {
+    themes: ['character development'],
+    visualStyles: ['low-key lighting'],
+    characters: [],
+    techniques: ['rack focus reveals', 'motivated practical lighting']
+  }
+};
+
+describe('mock AI backend', () => {
+  afterEach(() => {
+    mockAIBackend.reset();
+  });
+
+  it('hashes requests independently of key order', () => {
+    const a = hashAIRequest({ tier: 'fast', contents: 'prompt', config: { responseMimeType: 'application/json', maxOutputTokens: 10 } });
+    const b = hashAIRequest({ config: { maxOutputTokens: 10, responseMimeType: 'application/json' }, contents: 'prompt', tier: 'fast' });
+    const c = hashAIRequest({ tier: 'pro', contents: 'prompt', config: { responseMimeType: 'application/json', maxOutputTokens: 10 } });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it('keeps the complete shots from a truncated storyboard response', async () => {
+    aiProviderService.setInterceptor(async (_request, { model, settings }) => ({
+      text: '[{"screenplayLine":"She runs.","shotDetails":{"shotType":"Wide Shot","description":"Mara sprints down the corridor"}},{"screenplayLine":"The door',
+      model,
+      provider: settings.kind
+    }));
+    const streamed: number[] = [];
+
+    const shots = await generateStoryboard('INT. CORRIDOR - NIGHT\nShe runs. The door slams.', 'cinematic', '', { onShot: (_shot, index) => streamed.push(index) });
+
+    expect(shots).toHaveLength(1);
+    expect(shots[0].screenplayLine).toBe('She runs.');
+    expect(streamed).toEqual([0]);
+  });
+
+  it('rejects requests that were never recorded', async () => {
+    mockAIBackend.replay(fixtures);
+    await expect(generateStoryboard('EXT. NOWHERE - DAY\nNothing was recorded here.')).rejects.toThrow(/No recorded AI fixture/);
+  });
+});
+
+describe('geminiService with replayed fixtures', () => {
+  beforeEach(() => {
+    if (RECORDING) {
+      mockAIBackend.setMode('record', { persist: false });
+    } else {
+      mockAIBackend.replay(fixtures);
+    }
+  });
+
+  afterAll(() => {
+    if (RECORDING) {
+      fs.writeFileSync(FIXTURE_PATH, `${JSON.stringify(mockAIBackend.exportFixtures(), null, 2)}\n`);
+    }
+    mockAIBackend.reset();
+  });
+
+  it('generateStoryboard returns ordered shots', async () => {
+    const shots = await generateStoryboard(SCRIPT);
+
+    expect(shots).toHaveLength(3);
+    expect(shots[0].screenplayLine).toBe('Rain streaks the window.');
+    shots.forEach(shot => {
+      expect(shot.shotDetails.shotType).toBeTruthy();
+      expect(shot.shotDetails.description).toBeTruthy();
+    });
+  });
+
+  it('generateStoryboard reports each shot as it streams in', async () => {
+    const streamed: Array<{ index: number; line: string }> = [];
+
+    const shots = await generateStoryboard(SCRIPT, 'cinematic', '', {
+      bypassCache: true,
+      onShot: (shot, index) => streamed.push({ index, line: shot.screenplayLine })
+    });
+
+    expect(streamed.map(s => s.index)).toEqual([0, 1, 2]);
+    expect(streamed.map(s => s.line)).toEqual(shots.map(shot => shot.screenplayLine));
+  });
+
+  it('analyzeSequenceStyle returns the visual DNA', async () => {
+    const style = await analyzeSequenceStyle(PROMPTS);
+
+    expect(style.visualDNA).toMatch(/low-key/i);
+    expect(style.colorPalette).toBeTruthy();
+    expect(style.mood).toBe('Melancholic and introspective');
+  });
+
+  it('initializeVisualsFromStoryboardShot fills in a default subject', async () => {
+    const [shot] = await generateStoryboard(SCRIPT);
+    const visuals = await initializeVisualsFromStoryboardShot(shot);
+
+    expect(visuals.composition.characters).toEqual([{ id: 'char-1', name: 'Subject A', x: 400, y: 225 }]);
+    expect(visuals.lighting.mood).toBe('moonlit echo');
+    expect(visuals.color.colorPalette).toHaveLength(8);
+    expect(visuals.camera.focalLength).toBe(35);
+  });
+
+  it('ranks knowledge-based insights ahead of AI suggestions for the builder', async () => {
+    const result = await getKnowledgeBasedSuggestions(
+      'PREVIOUS ANSWERS:\nScene: a character alone in a dark editing room, rain on the glass.',
+      'Describe your lighting mood and setup',
+      [KNOWLEDGE_DOC]
+    );
+
+    expect(result.bestSuggestion?.source).toBe('knowledge');
+    expect(result.bestSuggestion?.text).toContain('rack focus reveals');
+    expect(result.relevantKnowledge[0]).toContain('Low-Key Lighting Notes');
+    expect(result.rankedSuggestions.filter(s => s.source === 'ai')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  locationRegistryService,
+  parseSceneHeading,
+  resolveSceneLocations,
+  extractLocationsFromScript,
+  applyLocationDescriptor
+} from '../locationRegistryService';
+import { applyCharacterDescriptors } from '../characterBibleService';
+import { LocationProfile } from '../../types';
+
+const editingRoom: LocationProfile = {
+  id: 'editing-room',
+  name: 'Editing Room',
+  setting: 'INT',
+  timeOfDay: 'Night',
+  architecture: 'exposed brick',
+  styleNotes: 'warm practicals',
+  palette: ['amber', '#1f3a4d'],
+  source: 'script'
+};
+
+describe('locationRegistryService', () => {
+  it('reads setting, place and time of day from scene headings', () => {
+    expect(parseSceneHeading("INT. MARA'S FLAT - KITCHEN - NIGHT")).toMatchObject({ setting: 'INT', name: "Mara's Flat - Kitchen", timeOfDay: 'Night' });
+    expect(parseSceneHeading('I/E CAR - MAGIC HOUR')).toMatchObject({ setting: 'INT/EXT', name: 'Car', timeOfDay: 'Magic Hour' });
+    expect(parseSceneHeading('EXT. ROOFTOP')).toMatchObject({ setting: 'EXT', name: 'Rooftop', timeOfDay: '' });
+    expect(parseSceneHeading('The kitchen is dark.')).toBeNull();
+  });
+
+  it('carries the time of day into continuous scenes', () => {
+    expect(resolveSceneLocations(['EXT. PARK - DAWN', 'INT. CAFE - CONTINUOUS', undefined]).map(draft => draft && [draft.name, draft.timeOfDay]))
+      .toEqual([['Park', 'Dawn'], ['Cafe', 'Dawn'], null]);
+
+    const script = 'INT. KITCHEN - NIGHT\n\nShe waits.\n\nEXT. YARD - CONTINUOUS\n\nRain.\n\nINT. KITCHEN - NIGHT\n\nShe leaves.';
+    expect(extractLocationsFromScript(script).map(draft => draft.name)).toEqual(['Kitchen', 'Yard']);
+  });
+
+  it('keeps the environment description ahead of the character descriptors', () => {
+    const withCharacters = applyCharacterDescriptors('Close-up. Mara studies the frame.', [
+      { id: 'mara', name: 'Mara', age: '28', appearance: '', wardrobe: '', props: [], source: 'script' }
+    ]);
+    const prompt = applyLocationDescriptor(withCharacters, editingRoom);
+    expect(prompt).toBe('Close-up. Mara studies the frame. Location: Editing Room (interior, night; exposed brick; warm practicals; palette amber, #1f3a4d). Characters: Mara (28).');
+
+    expect(applyLocationDescriptor(prompt, { ...editingRoom, styleNotes: 'cold fluorescents' })).toContain('; cold fluorescents; palette');
+    expect(applyLocationDescriptor(prompt, null)).toBe(withCharacters);
+  });
+
+  it('reuses stored locations when registering scene headings', () => {
+    const projectId = 'location-test';
+    const [first, second, none] = locationRegistryService.register(resolveSceneLocations(['INT. KITCHEN - NIGHT', 'INT. KITCHEN - LATER', undefined]), projectId);
+
+    expect(second).toBe(first);
+    expect(none).toBeNull();
+    expect(locationRegistryService.list(projectId)).toHaveLength(1);
+    expect(locationRegistryService.findForHeading('INT. KITCHEN - CONTINUOUS', projectId)?.id).toBe(first?.id);
+
+    // Resolving alone leaves the registry as it was until the locations are added
+    const [kitchen, garden] = locationRegistryService.resolve(resolveSceneLocations(['INT. KITCHEN - NIGHT', 'EXT. GARDEN - DAY']), projectId);
+    expect(kitchen?.id).toBe(first?.id);
+    expect(locationRegistryService.list(projectId)).toHaveLength(1);
+    locationRegistryService.add([kitchen, garden], projectId);
+    expect(locationRegistryService.get(garden?.id, projectId)?.name).toBe('Garden');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MODEL_ADAPTERS, formatForAdapter, modelAdapterService, parseModelAdapters } from '../modelAdapterService';
+
+const adapter = (id: string) => DEFAULT_MODEL_ADAPTERS.find(candidate => candidate.id === id)!;
+
+describe('modelAdapterService', () => {
+  it('builds Midjourney parameters from the shot and leaves out the ones it lacks', () => {
+    expect(formatForAdapter(adapter('midjourney'), 'Rain on the window', { aspectRatio: '2.39:1', seed: 42 }))
+      .toBe('/imagine prompt: Rain on the window --ar 239:100 --seed 42 --style dramatic --v 6');
+    expect(formatForAdapter(adapter('midjourney'), 'Rain on the window', { aspectRatio: '9:16 Vertical / Mobile' }))
+      .toBe('/imagine prompt: Rain on the window --ar 9:16 --style dramatic --v 6');
+    expect(formatForAdapter(adapter('midjourney'), 'Rain on the window', { negative: ['text', 'watermark'], styleReference: 'https://example.com/ref.jpg' }))
+      .toBe('/imagine prompt: Rain on the window --sref https://example.com/ref.jpg --style dramatic --v 6 --no text, watermark');
+    expect(formatForAdapter(adapter('midjourney'), 'Rain on the window', { seed: 7, characterReference: 'https://example.com/mara.png' }))
+      .toBe('/imagine prompt: Rain on the window --seed 7 --cref https://example.com/mara.png --style dramatic --v 6');
+  });
+
+  it('rewrites weighted terms and negatives in each model\'s syntax', () => {
+    const prompt = 'A (neon sign:1.3) over the street';
+    expect(formatForAdapter(adapter('stable-diffusion'), prompt, { negative: ['blur'] }))
+      .toBe('A (neon sign:1.3) over the street, high quality, cinematic lighting, professional photography, 8k resolution\nNegative prompt: blur');
+    expect(formatForAdapter(adapter('stable-diffusion'), prompt, { negative: ['blur'], seed: 42 })).toMatch(/\nNegative prompt: blur\nSeed: 42$/);
+    expect(formatForAdapter(adapter('midjourney'), prompt)).toBe('/imagine prompt: A neon sign::1.3 over the street --style dramatic --v 6');
+    expect(formatForAdapter(adapter('dalle'), prompt, { negative: ['blur'] })).toBe('A neon sign over the street');
+  });
+
+  it('keeps edits to shipped profiles until they are reset', () => {
+    modelAdapterService.save({ ...adapter('flux'), suffix: ', film still' });
+    expect(modelAdapterService.get('flux')!.suffix).toBe(', film still');
+    expect(modelAdapterService.isCustomized('flux')).toBe(true);
+
+    modelAdapterService.remove('flux');
+    expect(modelAdapterService.get('flux')).toEqual(adapter('flux'));
+  });
+
+  it('round-trips profiles through JSON and rejects files without them', () => {
+    const custom = modelAdapterService.create(adapter('midjourney'));
+    const json = modelAdapterService.exportJson([custom.id]);
+    modelAdapterService.remove(custom.id);
+
+    const [imported] = modelAdapterService.importJson(json);
+    expect(imported).toEqual(custom);
+    expect(modelAdapterService.list().map(profile => profile.name)).toContain('Midjourney copy');
+    expect(() => parseModelAdapters('{"profiles": [{"prefix": "x"}]}')).toThrow('Profile 1 has no name.');
+    expect(() => parseModelAdapters('not json')).toThrow('The file is not valid JSON.');
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PROJECT_ID, projectService } from '../projectService';
+
+describe('projectService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the active project by id, whatever the title becomes', () => {
+    const projectId = projectService.createProjectId();
+    const changes: string[] = [];
+    const unsubscribe = projectService.subscribe(id => changes.push(id));
+
+    projectService.setActiveProject(projectId);
+    projectService.setActiveProject(projectId);
+    expect(projectService.getActiveProjectId()).toBe(projectId);
+    expect(changes).toEqual([projectId]);
+    expect(projectService.createProjectId()).not.toBe(projectId);
+
+    projectService.setActiveProject(undefined);
+    expect(projectService.getActiveProjectId()).toBe(DEFAULT_PROJECT_ID);
+    unsubscribe();
+  });
+
+  it('reads the active project back after a reload', async () => {
+    const stored = new Map([['dreamer_active_project', 'saved-project']]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value)
+    });
+    vi.resetModules();
+    const { projectService: reloaded } = await import('../projectService');
+
+    expect(reloaded.getActiveProjectId()).toBe('saved-project');
+    reloaded.setActiveProject('next-project');
+    expect(stored.get('dreamer_active_project')).toBe('next-project');
+  });
+
+  it('derives the id projects saved before ids were scoped under from their title', () => {
+    expect(projectService.toProjectId('The Last Reel: Part 2')).toBe('the-last-reel-part-2');
+    expect(projectService.toProjectId('')).toBe(DEFAULT_PROJECT_ID);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { importedAnswers, parseImagePrompt, snapToOption, stripModelSyntax } from '../promptImportService';
+import { questionSetService } from '../questionSetService';
+
+describe('promptImportService', () => {
+  it('strips Midjourney and Stable Diffusion syntax, keeping the aspect ratio', () => {
+    expect(stripModelSyntax('/imagine prompt: a lighthouse keeper::2 climbing stairs, (storm:1.3), <lora:filmic:0.7> --ar 2.39:1 --style raw --no text, logo'))
+      .toEqual({ text: 'a lighthouse keeper, climbing stairs, storm', aspectRatio: '2.39:1' });
+    expect(stripModelSyntax('portrait of a sailor, [[soft light]]\nNegative prompt: blurry, lowres\nSteps: 30, Sampler: Euler a, Seed: 1234').text)
+      .toBe('portrait of a sailor, soft light');
+    expect(stripModelSyntax('portrait of a sailor\nSeed: 42').text).toBe('portrait of a sailor');
+  });
+
+  it('maps camera, lens, aperture, light, stock and grade out of the prompt', () => {
+    const { fields } = parseImagePrompt(
+      'Close-up of a woman reading letters in an attic, shot on Arri Alexa 65, 35mm lens, f2.8, chiaroscuro lighting, Kodak Vision3 500T 5219, teal and orange grade, 8k, masterpiece --ar 16:9'
+    );
+    expect(fields).toEqual({
+      sceneCore: 'Close-up of a woman reading letters in an attic',
+      cameraType: 'Arri Alexa 65',
+      focalLength: '35mm lens',
+      depthOfField: 'f/2.8',
+      lightingStyle: 'chiaroscuro lighting',
+      filmStock: 'Kodak Vision3 500T 5219',
+      colorGrading: 'teal and orange'
+    });
+    expect(parseImagePrompt('a diner at night on 35mm film grain').fields).toEqual({ sceneCore: 'a diner at night on 35mm film grain', filmStock: '35mm film grain' });
+  });
+
+  it('fills the active wizard\'s questions, snapping to their options', () => {
+    const imported = parseImagePrompt('a rooftop chase, Arri Alexa 65, 85mm, f/1.4, Kodak Portra 400, golden hour --ar 2.39:1');
+    const answers = importedAnswers(imported, questionSetService.getActive('imported').questions) as Record<string, unknown>;
+
+    expect(answers.cameraChoice).toBe('Arri Alexa 65');
+    expect(answers.focalLength).toBe('85mm intimate portrait');
+    expect(answers.depthOfField).toBe('f/1.4 dreamy shallow');
+    expect(answers.filmStock).toBe('Kodak Portra (portrait beauty)');
+    expect(answers.aspectRatio).toBe('2.39:1 Anamorphic widescreen');
+    expect(answers.lightingStyle).toBe('golden hour');
+    expect(snapToOption('rim lighting', ['Soft / Diffused beauty', 'Silhouette / Rim lighting'])).toBe('Silhouette / Rim lighting');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { lintPrompt, estimateTokens } from '../promptLintService';
+
+describe('promptLintService', () => {
+  it('flags contradicting technical terms and removes the side the user drops', () => {
+    const prompt = 'Cinematic shot 1: wide shot. Camera: Arri Alexa 65, f/11 deep focus, rule of thirds. A dreamy shallow bokeh glow.';
+    const [finding] = lintPrompt(prompt);
+
+    expect(finding.kind).toBe('contradiction');
+    expect(finding.message).toBe('Conflicting depth of field: "f/11 deep focus" and "A dreamy shallow bokeh glow"');
+    expect(finding.fixes.map(fix => fix.label)).toEqual(['Keep shallow focus', 'Keep deep focus']);
+    expect(finding.fixes[0].apply(prompt)).toBe('Cinematic shot 1: wide shot. Camera: Arri Alexa 65, rule of thirds. A dreamy shallow bokeh glow.');
+    expect(finding.fixes[1].apply(prompt)).toBe('Cinematic shot 1: wide shot. Camera: Arri Alexa 65, f/11 deep focus, rule of thirds.');
+  });
+
+  it('checks the prompt against the shot settings, only offering fixes to the prompt', () => {
+    const [finding] = lintPrompt('The camera sweeps in an orbital pan around her.', { settings: ['static contemplation'] });
+
+    expect(finding.message).toBe('Conflicting camera movement: "static contemplation" and "The camera sweeps in an orbital pan around her"');
+    expect(finding.fixes.map(fix => fix.label)).toEqual(['Keep a static camera']);
+  });
+
+  it('flags repeated descriptors and leftover placeholders', () => {
+    const shot = { shotNumber: 2, role: 'close up', description: 'Mara threads the reel' };
+    const findings = lintPrompt('Placeholder for Shot 2, moody, film grain, moody', { shot });
+
+    expect(findings.map(finding => finding.kind)).toEqual(['placeholder', 'duplicate']);
+    expect(findings[0].fixes[0].apply('Placeholder for Shot 2')).toBe('Cinematic shot 2: close up. Scene: Mara threads the reel.');
+    expect(findings[1].fixes[0].apply('Placeholder for Shot 2, moody, film grain, moody')).toBe('Placeholder for Shot 2, moody, film grain');
+  });
+
+  it('measures the formatted prompt against the model limit and trims the body to fit', () => {
+    const model = {
+      name: 'Stable Diffusion',
+      limit: { max: 20, unit: 'tokens' as const },
+      format: (prompt: string) => `${prompt}, high quality, 8k resolution`
+    };
+    const prompt = 'Rain on the window, a woman at the desk, warm practicals, film grain, soft haze. Characters: Mara (30s).';
+    const [finding] = lintPrompt(prompt, { model });
+
+    expect(finding.kind).toBe('length');
+    const trimmed = finding.fixes[0].apply(prompt);
+    expect(estimateTokens(model.format(trimmed))).toBeLessThanOrEqual(20);
+    expect(trimmed).toBe('Rain on the window. Characters: Mara (30s).');
+    expect(lintPrompt(trimmed, { model })).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { promptTemplateService, renderTemplate, getTemplateVariables, DEFAULT_PROMPT_TEMPLATES } from '../promptTemplateService';
+import { aiProviderService, AIGenerateRequest } from '../aiProviderService';
+import { generateStoryboard } from '../geminiService';
+
+describe('promptTemplateService', () => {
+  afterEach(() => {
+    promptTemplateService.resetOverride('storyboard.cinematic', 'house-style');
+    promptTemplateService.resetOverride('storyboard.cinematic');
+    aiProviderService.setInterceptor(null);
+  });
+
+  it('fills known variables and leaves unknown ones visible', () => {
+    expect(renderTemplate('Shot: {{ shot }} / {{lens}}', { shot: 'Wide' })).toBe('Shot: Wide / {{lens}}');
+    expect(getTemplateVariables('{{a}} {{b}} {{a}}')).toEqual(['a', 'b']);
+    expect(promptTemplateService.findUnknownVariables('broll', '{{context}} {{lens}}')).toEqual(['lens']);
+    expect(promptTemplateService.findMissingVariables('broll', '{{context}} {{lens}}')).toEqual(['style']);
+    expect(promptTemplateService.findMissingVariables('broll', DEFAULT_PROMPT_TEMPLATES.broll.template)).toEqual([]);
+  });
+
+  it('scopes overrides to a project and resets to the built-in template', () => {
+    promptTemplateService.saveOverride('storyboard.cinematic', 'House style.\n\nSCRIPT:\n{{script}}', 'house-style');
+
+    expect(promptTemplateService.render('storyboard.cinematic', { script: 'INT. ROOM - DAY' }, 'house-style')).toBe('House style.\n\nSCRIPT:\nINT. ROOM - DAY');
+    expect(promptTemplateService.get('storyboard.cinematic', 'other-project').isOverridden).toBe(false);
+    expect(promptTemplateService.get('storyboard.cinematic', 'house-style')).toMatchObject({ isOverridden: true, isOutdated: false });
+
+    promptTemplateService.resetOverride('storyboard.cinematic', 'house-style');
+    expect(promptTemplateService.get('storyboard.cinematic', 'house-style').template).toBe(DEFAULT_PROMPT_TEMPLATES['storyboard.cinematic'].template);
+  });
+
+  it('sends the active project template when storyboarding', async () => {
+    const requests: AIGenerateRequest[] = [];
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      requests.push(request);
+      return { text: '[{"screenplayLine":"She runs.","shotDetails":{"shotType":"Wide Shot","description":"Mara sprints"}}]', model, provider: settings.kind };
+    });
+    promptTemplateService.saveOverride('storyboard.cinematic', 'Symmetrical frames only.{{customInstructions}}\n\n{{script}}');
+
+    await generateStoryboard('INT. STAIRWELL - NIGHT\nShe runs.', 'cinematic', '', { bypassCache: true });
+
+    expect(requests[0].contents).toBe('Symmetrical frames only.\n\nINT. STAIRWELL - NIGHT\nShe runs.');
+  });
+});
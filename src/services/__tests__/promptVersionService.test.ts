@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { checkoutPromptVersion, diffPrompts, promptVersionTree, recordPromptVersion, startPromptHistory } from '../promptVersionService';
+import { ShotPrompt } from '../../types';
+
+const shot = (): ShotPrompt => ({ shotNumber: 1, description: 'Mara at the desk', role: 'close up', ...startPromptHistory('Mara at the desk, night.', 'builder', 1000) });
+
+describe('promptVersionService', () => {
+  it('records each change as a child of the current version', () => {
+    const enhanced = recordPromptVersion(shot(), 'Mara hunched at the desk, night, rain on the glass.', 'enhance', 2000);
+    const edited = recordPromptVersion(enhanced, 'Mara hunched at the desk, night.', 'manual', 3000);
+
+    expect(edited.versions!.map(version => version.source)).toEqual(['builder', 'enhance', 'manual']);
+    expect(edited.versions![2].parentId).toBe(edited.versions![1].id);
+    expect(edited.versionId).toBe(edited.versions![2].id);
+    expect(edited.originalPrompt).toBe('Mara at the desk, night.');
+  });
+
+  it('amends one manual version while the user keeps typing', () => {
+    const typed = recordPromptVersion(recordPromptVersion(shot(), 'Mara at the desk, late', 'manual', 2000), 'Mara at the desk, late night.', 'manual', 4000);
+    const later = recordPromptVersion(typed, 'Mara at the desk, late night, alone.', 'manual', 4000 + 5 * 60 * 1000);
+
+    expect(typed.versions!.map(version => version.prompt)).toEqual(['Mara at the desk, night.', 'Mara at the desk, late night.']);
+    expect(later.versions).toHaveLength(3);
+  });
+
+  it('branches from an earlier version and lists the tree in order', () => {
+    const enhanced = recordPromptVersion(shot(), 'Enhanced take', 'enhance', 2000);
+    const root = enhanced.versions![0];
+    const restored = checkoutPromptVersion(enhanced, root.id);
+    const branched = recordPromptVersion(restored, 'Visuals take', 'visuals', 3000);
+
+    expect(restored.prompt).toBe(root.prompt);
+    expect(promptVersionTree(branched.versions).map(node => [node.version.source, node.depth])).toEqual([
+      ['builder', 0],
+      ['enhance', 1],
+      ['visuals', 1]
+    ]);
+  });
+
+  it('seeds history for shots made before versions existed', () => {
+    const legacy: ShotPrompt = { shotNumber: 1, prompt: 'Edited', originalPrompt: 'First', description: '', role: '' };
+    const recorded = recordPromptVersion(legacy, 'Enhanced', 'enhance', 5000);
+    expect(recorded.versions!.map(version => [version.source, version.prompt])).toEqual([['original', 'First'], ['manual', 'Edited'], ['enhance', 'Enhanced']]);
+  });
+
+  it('diffs two prompts word by word', () => {
+    expect(diffPrompts('warm light, night', 'cold light, night, rain')).toEqual([
+      { kind: 'removed', text: 'warm' },
+      { kind: 'added', text: 'cold' },
+      { kind: 'same', text: ' light, ' },
+      { kind: 'removed', text: 'night' },
+      { kind: 'added', text: 'night, rain' }
+    ]);
+  });
+});
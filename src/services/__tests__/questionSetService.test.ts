@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionSet } from '../../types';
+import { DEFAULT_QUESTION_SET_ID, answerField, isAnswered, parseQuestionSets, questionPhases, questionSetService, uniqueQuestionId, unusedQuestions } from '../questionSetService';
+
+const commercial: QuestionSet = {
+  id: 'commercial',
+  name: 'Commercial',
+  description: '',
+  phases: [{ phase: 1, name: 'Product' }, { phase: 2, name: 'Unused' }],
+  questions: [
+    { id: 'product', phase: 1, category: 'Product', question: 'What are we selling?', type: 'text', field: 'sceneCore' },
+    { id: 'look', phase: 3, category: 'Look', question: 'Lighting?', type: 'select', options: ['High key', 'Low key'], field: 'lightingStyle' }
+  ]
+};
+
+describe('questionSetService', () => {
+  it('maps answers to their PromptData field and derives phases from the questions', () => {
+    const [product, look] = commercial.questions;
+    expect(answerField(product)).toBe('sceneCore');
+    expect(answerField({ ...product, field: undefined })).toBe('product');
+    expect(isAnswered({ sceneCore: 'A watch' }, product)).toBe(true);
+    expect(isAnswered({ lightingStyle: [] }, look)).toBe(false);
+    expect(questionPhases(commercial)).toEqual([{ phase: 1, name: 'Product' }, { phase: 3, name: 'Phase 3' }]);
+  });
+
+  it('keeps each project\'s choice of set, falling back to the default when it goes', () => {
+    questionSetService.save(commercial);
+    questionSetService.setActive('commercial', 'ad-campaign');
+    expect(questionSetService.getActive('ad-campaign').name).toBe('Commercial');
+    expect(questionSetService.getActive('short-film').id).toBe(DEFAULT_QUESTION_SET_ID);
+
+    questionSetService.remove('commercial');
+    expect(questionSetService.getActive('ad-campaign').id).toBe(DEFAULT_QUESTION_SET_ID);
+  });
+
+  it('round-trips sets through JSON and rejects sets it cannot use', () => {
+    questionSetService.save(commercial);
+    const json = questionSetService.exportJson(['commercial']);
+    questionSetService.remove('commercial');
+
+    expect(questionSetService.importJson(json)).toEqual([{ ...commercial, builtIn: false }]);
+    expect(questionSetService.get('commercial')?.questions).toHaveLength(2);
+    expect(() => parseQuestionSets('{"sets": [{"name": "Empty", "questions": []}]}')).toThrow('"Empty" has no questions.');
+    expect(() => parseQuestionSets('[{"name": "Ad", "questions": [{"type": "text"}]}]')).toThrow('Question 1 in "Ad" has no text.');
+  });
+
+  it('gives added and imported questions their own ids and flags answers no prompt reads', () => {
+    const questions = [
+      { id: 'question-1', phase: 1, category: '', question: 'First', type: 'text' as const, field: 'sceneCore' },
+      { id: 'question-3', phase: 1, category: '', question: 'Third', type: 'text' as const }
+    ];
+    expect(uniqueQuestionId(questions)).toBe('question-4');
+    expect(uniqueQuestionId([questions[0], { ...questions[1], id: 'question-2' }])).toBe('question-3');
+    expect(unusedQuestions({ questions }).map(question => question.id)).toEqual(['question-3']);
+
+    const [imported] = parseQuestionSets('[{"name": "Ad", "questions": [{"id": "look", "question": "Look?"}, {"id": "look", "question": "Light?", "field": "lightingStyle"}]}]');
+    expect(imported.questions.map(question => question.id)).toEqual(['look', 'look-2']);
+    expect(unusedQuestions(imported).map(question => question.question)).toEqual(['Look?']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { segmentScriptBeats, planBeatShots, summarizeBeats } from '../scriptBeatService';
+
+const SCRIPT = `INT. EDITING ROOM - NIGHT
+
+Rain streaks the window. Mara threads a reel of film.
+
+MARA
+(quietly)
+I keep cutting it.
+
+JONAH
+Then stop.
+
+She looks away.
+
+MARA
+I can't.
+
+Suddenly the projector bursts into flames.
+
+EXT. ROOFTOP - DAWN
+
+Mara watches the sun come up.`;
+
+describe('scriptBeatService', () => {
+  it('splits beats at scene changes, exchanges and emotional turns', () => {
+    const beats = segmentScriptBeats(SCRIPT);
+
+    expect(beats.map(beat => [beat.kind, beat.sceneNumber, beat.opensScene, beat.emotionalTurn])).toEqual([
+      ['action', 1, true, undefined],
+      ['dialogue', 1, false, undefined],
+      ['action', 1, false, 'suddenly'],
+      ['action', 2, true, undefined]
+    ]);
+    expect(beats[1].characters).toEqual(['MARA', 'JONAH']);
+    expect(beats[1].text).toBe('MARA: (quietly) I keep cutting it. JONAH: Then stop. She looks away. MARA: I can\'t.');
+    expect(beats[1].lines).toEqual({ start: 5, end: 15 });
+  });
+
+  it('reads SPEAKER: lines in plain scripts as dialogue', () => {
+    const beats = segmentScriptBeats('The kitchen is dark.\n\nMARA: Who is there?\n\nJONAH: Only me.');
+
+    expect(beats.map(beat => [beat.kind, beat.characters])).toEqual([['action', []], ['dialogue', ['MARA', 'JONAH']]]);
+  });
+
+  it('estimates screen time at a page a minute and suggests shots per beat', () => {
+    const longAction = Array.from({ length: 20 }, (_, i) => `Beat ${i}: the chase tears through the market, stalls toppling, fruit everywhere.`).join('\n\n');
+    const beats = segmentScriptBeats(`EXT. MARKET - DAY\n\n${longAction}`);
+    const summary = summarizeBeats(beats);
+
+    // 20 two-line paragraphs plus their blank lines is about 60 formatted lines, a little over a page
+    expect(summary.estimatedSeconds).toBeGreaterThanOrEqual(60);
+    expect(summary.estimatedSeconds).toBeLessThanOrEqual(70);
+    expect(beats.length).toBeGreaterThan(1);
+    // Long bursts split once they pass 30 seconds, so no beat runs more than a paragraph over
+    beats.forEach(beat => expect(beat.estimatedSeconds).toBeLessThanOrEqual(35));
+    // A shot every four seconds of action plus an establishing shot, capped at eight
+    expect(beats[0].suggestedShots).toBe(Math.min(8, Math.ceil(beats[0].estimatedSeconds / 4) + 1));
+  });
+
+  it('spreads shots over beats and merges neighbouring beats when there are too few', () => {
+    const beats = segmentScriptBeats(SCRIPT);
+
+    const many = planBeatShots(beats, 10);
+    expect(many).toHaveLength(10);
+    expect(new Set(many.map(shot => shot.beatNumbers[0]))).toEqual(new Set([1, 2, 3, 4]));
+    expect(many[0].description.startsWith('INT. EDITING ROOM - NIGHT. Rain streaks')).toBe(true);
+
+    const few = planBeatShots(beats, 2);
+    expect(few.map(shot => shot.beatNumbers).flat()).toEqual([1, 2, 3, 4]);
+    expect(few).toHaveLength(2);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AnyTimelineItem, CharacterProfile, ShotContinuity, ShotItem } from '../../types';
+import { builderSeedRule, continuityAdapterData, resolveShotContinuity } from '../shotContinuityService';
+
+const shot = (id: string, shotNumber: number, continuity: ShotContinuity, locationId = 'diner'): ShotItem => ({
+  id,
+  type: 'shot',
+  locationId,
+  continuity,
+  data: { shotNumber, prompt: '', originalPrompt: '', description: '', role: '' }
+});
+
+const mara: CharacterProfile = {
+  id: 'mara', name: 'Mara', age: '', appearance: '', wardrobe: '', props: [], source: 'manual',
+  lockedSeed: 77, referenceImage: 'https://example.com/mara.png'
+};
+
+describe('shotContinuityService', () => {
+  it('inherits the seed down a scene and stops at a new location or transition', () => {
+    const items: AnyTimelineItem[] = [
+      shot('a', 1, { seed: 10, styleReferences: ['1234'] }),
+      { id: 'b', type: 'b-roll', prompt: 'Neon sign' },
+      shot('c', 2, { seed: 20, seedRule: 'scene' }),
+      shot('d', 3, { seed: 30, seedRule: 'scene', styleReferences: ['5678'] }),
+      { id: 'e', type: 'transition', note: 'Cut to' },
+      shot('f', 4, { seed: 40, seedRule: 'scene' }),
+      shot('g', 5, { seed: 50, seedRule: 'scene' }, 'street')
+    ];
+
+    expect(resolveShotContinuity(items, 'c', [])).toEqual({ seed: 10, seedSource: 'scene', seedFrom: 'Shot 1', styleReferences: ['1234'], characterReference: undefined });
+    expect(resolveShotContinuity(items, 'd', [])).toMatchObject({ seed: 10, seedFrom: 'Shot 2', styleReferences: ['5678'] });
+    expect(resolveShotContinuity(items, 'f', [])).toMatchObject({ seed: 40, seedSource: 'own' });
+    expect(resolveShotContinuity(items, 'g', [])).toMatchObject({ seed: 50, seedSource: 'own' });
+  });
+
+  it('uses a character\'s locked seed and reference image, keeping the shot\'s own reference first', () => {
+    const items = [
+      shot('a', 1, { seed: 10, seedRule: 'character', seedCharacterId: 'mara' }),
+      shot('b', 2, { seedRule: 'character', seedCharacterId: 'mara', characterReference: 'https://example.com/close.png' }),
+      shot('c', 3, { seed: 30, seedRule: 'character', seedCharacterId: 'gone' })
+    ];
+
+    expect(resolveShotContinuity(items, 'a', [mara])).toMatchObject({ seed: 77, seedSource: 'character', seedFrom: 'Mara', characterReference: 'https://example.com/mara.png' });
+    expect(resolveShotContinuity(items, 'b', [mara])).toMatchObject({ seed: 77, characterReference: 'https://example.com/close.png' });
+    expect(resolveShotContinuity(items, 'c', [mara])).toMatchObject({ seed: 30, seedSource: 'own' });
+  });
+
+  it('hands the resolved parameters to model adapters and reads the builder answers', () => {
+    expect(continuityAdapterData({ seed: 5, seedSource: 'own', styleReferences: ['1234', 'https://example.com/a.png'] }))
+      .toEqual({ seed: 5, styleReference: '1234 https://example.com/a.png', characterReference: undefined });
+    expect(continuityAdapterData({ seedSource: 'none', styleReferences: [] })).toEqual({ seed: undefined, styleReference: undefined, characterReference: undefined });
+    expect(builderSeedRule('use previous seeds', '')).toBe('scene');
+    expect(builderSeedRule('fresh seeds', 'loose continuity')).toBe('own');
+  });
+});
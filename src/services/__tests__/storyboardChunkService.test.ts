@@ -0,0 +1,189 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import {
+  splitScriptIntoScenes,
+  buildStoryboardChunks,
+  storyboardChunkService,
+  mergeChunkShots,
+  spliceChunkShots
+} from '../storyboardChunkService';
+import { aiProviderService } from '../aiProviderService';
+import { aiScheduler, isAbortError } from '../aiSchedulerService';
+import { aiCacheService } from '../aiCacheService';
+import { parseFinalDraft } from '../../utils/finalDraft';
+
+const SCRIPT = `FADE IN:
+
+INT. EDITING ROOM - NIGHT
+Mara threads a reel of film.
+
+EXT. ROOFTOP - DAWN
+Mara watches the sun come up.
+
+INT. EDITING ROOM - DAY
+The projector clicks off.`;
+
+// Answer each chunk with one shot per action line in its SCRIPT section
+const shotsForPrompt = (prompt: string) => {
+  const script = prompt.slice(prompt.lastIndexOf('SCRIPT:') + 'SCRIPT:'.length);
+  return script
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !/^(INT|EXT)\.|FADE IN/.test(line))
+    .map(line => ({
+      screenplayLine: line,
+      shotDetails: { shotType: 'Medium Shot', cameraAngle: 'Eye level', description: line, lightingMood: 'Soft', cameraMovement: 'Static' }
+    }));
+};
+
+describe('storyboardChunkService', () => {
+  let failOn: string | null = null;
+  let prompts: string[] = [];
+
+  beforeEach(async () => {
+    failOn = null;
+    prompts = [];
+    await aiCacheService.clear();
+    // Simulated outages should fail straight away rather than wait out the backoff
+    aiScheduler.configure({ maxAttempts: 1 });
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      const prompt = request.contents as string;
+      prompts.push(prompt);
+      if (failOn && prompt.slice(prompt.lastIndexOf('SCRIPT:')).includes(failOn)) {
+        throw new Error('Service unavailable (503)');
+      }
+      return { text: JSON.stringify(shotsForPrompt(prompt)), model, provider: settings.kind };
+    });
+  });
+
+  afterEach(() => {
+    aiProviderService.setInterceptor(null);
+  });
+
+  it('splits on scene headings and keeps the preamble with the first scene', () => {
+    const scenes = splitScriptIntoScenes(SCRIPT);
+
+    expect(scenes.map(scene => scene.number)).toEqual([1, 2, 3]);
+    expect(scenes[1].heading).toBe('EXT. ROOFTOP - DAWN');
+    expect(scenes[0].text.startsWith('FADE IN:')).toBe(true);
+    expect(splitScriptIntoScenes('Just a paragraph of narration.')).toEqual([
+      { number: 1, heading: '', text: 'Just a paragraph of narration.' }
+    ]);
+  });
+
+  it('groups scenes under the size limit with neighbouring text as continuity', () => {
+    const chunks = buildStoryboardChunks(SCRIPT, 90);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flatMap(chunk => chunk.scenes.map(scene => scene.number))).toEqual([1, 2, 3]);
+    expect(chunks[0].continuity.previous).toBeUndefined();
+    expect(chunks[1].continuity.previous).toContain(chunks[0].text.slice(-20));
+    expect(chunks[0].continuity.next).toBe(chunks[1].text.slice(0, 300));
+  });
+
+  it('splits a single oversized scene into several chunks with the same scene number', () => {
+    const longScene = `INT. HALLWAY - NIGHT\n${Array.from({ length: 6 }, (_, i) => `Beat ${i} of a long walk down the hall.`).join('\n\n')}`;
+    const chunks = buildStoryboardChunks(longScene, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => chunk.scenes.forEach(scene => expect(scene.number).toBe(1)));
+  });
+
+  it('merges chunk results in script order with scene numbers', async () => {
+    const storyboard = await storyboardChunkService.generate(SCRIPT, 'cinematic', '', { maxChunkChars: 90, concurrency: 3 });
+    const shots = mergeChunkShots(storyboard);
+
+    expect(shots.map(shot => shot.screenplayLine)).toEqual([
+      'Mara threads a reel of film.',
+      'Mara watches the sun come up.',
+      'The projector clicks off.'
+    ]);
+    expect(shots.map(shot => shot.sceneNumber)).toEqual([1, 2, 3]);
+    expect(shots[1].sceneHeading).toBe('EXT. ROOFTOP - DAWN');
+    expect(prompts.some(prompt => prompt.includes('CONTINUITY CONTEXT'))).toBe(true);
+  });
+
+  it('retries only the failed chunk and keeps edits to the other shots', async () => {
+    failOn = 'ROOFTOP';
+    const storyboard = await storyboardChunkService.generate(SCRIPT, 'cinematic', '', { maxChunkChars: 90, concurrency: 1 });
+    const failed = storyboard.chunks.find(chunk => chunk.status === 'failed')!;
+    expect(failed.error).toMatch(/503/);
+
+    const edited = mergeChunkShots(storyboard).map(shot => ({ ...shot, shotDetails: { ...shot.shotDetails, shotType: 'Edited' } }));
+    failOn = null;
+    prompts = [];
+    const retried = await storyboardChunkService.retryChunk(storyboard, failed.id);
+    const shots = spliceChunkShots(edited, storyboard, failed.id, retried.chunks.find(chunk => chunk.id === failed.id)!.shots);
+
+    expect(prompts).toHaveLength(1);
+    expect(retried.chunks.every(chunk => chunk.status === 'completed')).toBe(true);
+    expect(shots.map(shot => shot.sceneNumber)).toEqual([1, 2, 3]);
+    expect(shots.filter(shot => shot.shotDetails.shotType === 'Edited')).toHaveLength(2);
+  });
+
+  it('maps shots of a Fountain screenplay back to their elements and source lines', async () => {
+    const fountain = `INT. EDITING ROOM - NIGHT\n\nMara threads a reel of film.\n\nMARA\n(quietly)\nI keep cutting it.\n\nEXT. ROOFTOP - DAWN\n\nThe sun comes up.`;
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      const prompt = request.contents as string;
+      prompts.push(prompt);
+      // Quote action and dialogue, echoing the tag on the dialogue shot
+      const shots = prompt.split('\n')
+        .filter(line => /^\[(ACTION|DIALOGUE) /.test(line))
+        .map(line => ({
+          screenplayLine: line.startsWith('[DIALOGUE') ? line : line.replace(/^\[[^\]]+\]\s*/, ''),
+          shotDetails: { shotType: 'Medium Shot', cameraAngle: 'Eye level', description: line, lightingMood: 'Soft', cameraMovement: 'Static' }
+        }));
+      return { text: JSON.stringify(shots), model, provider: settings.kind };
+    });
+
+    const storyboard = await storyboardChunkService.generate(fountain, 'cinematic', '', { format: 'fountain' });
+    const shots = mergeChunkShots(storyboard);
+
+    expect(prompts[0]).toContain('[PARENTHETICAL L6] MARA: (quietly)');
+    expect(shots.map(shot => [shot.screenplayLine, shot.scriptElement, shot.scriptLines, shot.sceneNumber])).toEqual([
+      ['Mara threads a reel of film.', 'action', { start: 3, end: 3 }, 1],
+      ['MARA: I keep cutting it.', 'dialogue', { start: 7, end: 7 }, 1],
+      ['The sun comes up.', 'action', { start: 11, end: 11 }, 2]
+    ]);
+  });
+
+  it('carries Final Draft scene numbers and revision marks onto the shots', async () => {
+    const fdx = `<FinalDraft DocumentType="Script"><Content>
+      <Paragraph Type="Scene Heading" Number="12B"><Text>INT. VAULT - NIGHT</Text></Paragraph>
+      <Paragraph Type="Action"><Text RevisionID="3">The lock gives.</Text></Paragraph>
+    </Content><Revisions><Revision ID="3" Mark="**" Name="Pink Revision"/></Revisions></FinalDraft>`;
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      const shots = [{ screenplayLine: 'The lock gives.', shotDetails: { shotType: 'Close-Up', description: 'The dial spins' } }];
+      return { text: JSON.stringify(shots), model, provider: settings.kind };
+    });
+
+    const [shot] = mergeChunkShots(await storyboardChunkService.generate(parseFinalDraft(fdx), 'cinematic', ''));
+
+    expect(shot).toMatchObject({
+      sceneNumber: 1,
+      sceneLabel: '12B',
+      scriptElement: 'action',
+      scriptLines: { start: 2, end: 2 },
+      scriptRevision: { id: '3', mark: '**', name: 'Pink Revision' }
+    });
+  });
+
+  it('stops on cancel and leaves unfinished chunks pending', async () => {
+    const controller = new AbortController();
+    const updates: string[][] = [];
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      const prompt = request.contents as string;
+      if (prompt.slice(prompt.lastIndexOf('SCRIPT:')).includes('ROOFTOP')) controller.abort();
+      return { text: JSON.stringify(shotsForPrompt(prompt)), model, provider: settings.kind };
+    });
+
+    const run = storyboardChunkService.generate(SCRIPT, 'cinematic', '', {
+      maxChunkChars: 90,
+      concurrency: 1,
+      signal: controller.signal,
+      onUpdate: update => updates.push(update.chunks.map(chunk => chunk.status))
+    });
+
+    await expect(run).rejects.toSatisfy(isAbortError);
+    expect(updates[updates.length - 1]).toEqual(['completed', 'pending', 'pending']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { tokenBudgetingSystem, BudgetExceededError, DEFAULT_BUDGET, estimateCost } from '../tokenBudgetService';
+import { aiProviderService } from '../aiProviderService';
+import { aiScheduler } from '../aiSchedulerService';
+
+describe('tokenBudgetingSystem', () => {
+  beforeEach(() => {
+    tokenBudgetingSystem.clearUsage();
+    tokenBudgetingSystem.saveBudget(DEFAULT_BUDGET);
+    aiScheduler.configure({ maxAttempts: 1 });
+    aiProviderService.setInterceptor(async (request, { model, settings }) => {
+      if (request.contents === 'fail') throw new Error('Service unavailable (503)');
+      return { text: 'ok', model, provider: settings.kind, usage: { promptTokens: 1200, outputTokens: 300 } };
+    });
+  });
+
+  afterEach(() => {
+    aiProviderService.setInterceptor(null);
+  });
+
+  it('records provider-reported tokens, latency and cost per feature', async () => {
+    await aiProviderService.generateContent({ tier: 'pro', contents: 'Analyze this', feature: 'extractKnowledge' });
+    await aiProviderService.generateContent({ tier: 'pro', contents: 'Analyze that', feature: 'extractKnowledge' });
+    await expect(aiProviderService.generateContent({ tier: 'fast', contents: 'fail', feature: 'generateStoryboard' })).rejects.toThrow(/503/);
+
+    const summary = tokenBudgetingSystem.summarize();
+    const knowledge = summary.byFeature.find(row => row.feature === 'extractKnowledge')!;
+
+    expect(knowledge).toMatchObject({ calls: 2, failures: 0, promptTokens: 2400, outputTokens: 600 });
+    expect(knowledge.costUsd).toBeCloseTo(2 * estimateCost('gemini', 'gemini-2.5-pro', 1200, 300));
+    expect(summary.byFeature.find(row => row.feature === 'generateStoryboard')).toMatchObject({ calls: 1, failures: 1 });
+    expect(summary.daily).toHaveLength(1);
+    expect(summary.today.calls).toBe(3);
+    expect(tokenBudgetingSystem.getUsage().every(record => !record.estimated || !record.success)).toBe(true);
+  });
+
+  it('estimates tokens when the provider reports no usage', async () => {
+    aiProviderService.setInterceptor(async (_request, { model, settings }) => ({ text: 'x'.repeat(400), model, provider: settings.kind }));
+
+    await aiProviderService.generateContent({ tier: 'fast', contents: 'y'.repeat(800) });
+
+    expect(tokenBudgetingSystem.getUsage()[0]).toMatchObject({ feature: 'other', promptTokens: 200, outputTokens: 100, estimated: true });
+  });
+
+  it('warns or blocks once a daily cap would be exceeded', async () => {
+    await aiProviderService.generateContent({ tier: 'fast', contents: 'warm up' });
+    const planned = { provider: 'gemini', model: 'gemini-2.5-flash', promptTokens: 5000, outputTokens: 4000 };
+
+    tokenBudgetingSystem.saveBudget({ ...DEFAULT_BUDGET, dailyTokenLimit: 10000, mode: 'warn' });
+    expect(tokenBudgetingSystem.checkBudget(planned).level).toBe('warn');
+
+    tokenBudgetingSystem.saveBudget({ ...DEFAULT_BUDGET, dailyTokenLimit: 10000, mode: 'block' });
+    const check = tokenBudgetingSystem.checkBudget(planned);
+    expect(check.level).toBe('block');
+    expect(check.message).toMatch(/10,000|10000/);
+
+    const warnings: string[] = [];
+    const unsubscribe = tokenBudgetingSystem.onWarning(message => warnings.push(message));
+    try {
+      tokenBudgetingSystem.saveBudget({ ...DEFAULT_BUDGET, perCallTokenLimit: 100, mode: 'warn' });
+      await aiProviderService.generateContent({ tier: 'fast', contents: 'over the soft cap' });
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatch(/^Budget exceeded/);
+    } finally {
+      unsubscribe();
+    }
+
+    tokenBudgetingSystem.saveBudget({ ...DEFAULT_BUDGET, perCallTokenLimit: 100, mode: 'block' });
+    await expect(aiProviderService.generateContent({ tier: 'fast', contents: 'too big', config: { maxOutputTokens: 4096 } }))
+      .rejects.toBeInstanceOf(BudgetExceededError);
+  });
+});
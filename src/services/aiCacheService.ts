@@ -0,0 +1,266 @@
+/**
+ * AI Cache Service
+ * IndexedDB-backed response cache for AI calls, keyed by provider + endpoint + model + prompt + schema + generation config
+ */
+
+import { geminiLogger } from '../lib/logger';
+import { aiProviderService, AIGenerateRequest, AIGenerateResponse, AIStreamHandler } from './aiProviderService';
+import { hashValue } from '../utils/hash';
+
+export interface AICacheEntry {
+  key: string;
+  feature: string;
+  provider: string;
+  model: string;
+  promptPreview: string;
+  text: string;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+  lastHitAt?: number;
+}
+
+export interface AICacheOptions {
+  /** Skip the cache lookup for this call (the fresh result is still stored) */
+  bypassCache?: boolean;
+  /** Override the default time-to-live */
+  ttlMs?: number;
+  /** Only cache responses that pass this check (e.g. parseable JSON) */
+  validate?: (text: string) => boolean;
+  /** Stream the response; a cache hit is delivered as one delta */
+  onDelta?: AIStreamHandler;
+}
+
+export type CachedAIResponse = AIGenerateResponse & { cached: boolean };
+
+export const CACHE_TTL_OPTIONS = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 }
+];
+
+const DB_NAME = 'dreamer-ai-cache';
+const STORE_NAME = 'responses';
+const DB_VERSION = 1;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const previewOf = (request: AIGenerateRequest): string => {
+  const text = typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.parts.map(part => ('text' in part ? part.text : '[image]')).join(' ');
+  return text.replace(/\s+/g, ' ').trim().slice(0, 160);
+};
+
+class AICacheService {
+  private readonly SETTINGS_KEY = 'dreamer_ai_cache_settings';
+  private readonly DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Used when IndexedDB is unavailable (tests, private browsing)
+  private memoryStore = new Map<string, AICacheEntry>();
+
+  /**
+   * Build the cache key for a request against the active provider, endpoint and model
+   */
+  buildKey(request: AIGenerateRequest): { key: string; provider: string; model: string } {
+    const settings = aiProviderService.getSettings();
+    const model = aiProviderService.resolveModel(request.tier, settings);
+    const key = hashValue({
+      provider: settings.kind,
+      baseUrl: settings.baseUrl,
+      model,
+      contents: request.contents,
+      responseMimeType: request.config?.responseMimeType,
+      responseSchema: request.config?.responseSchema,
+      temperature: request.config?.temperature,
+      maxOutputTokens: request.config?.maxOutputTokens
+    });
+    return { key, provider: settings.kind, model };
+  }
+
+  /**
+   * Return a cached response or call the provider and cache the result
+   */
+  async generate(feature: string, request: AIGenerateRequest, options: AICacheOptions = {}): Promise<CachedAIResponse> {
+    const { key, provider, model } = this.buildKey(request);
+    const bypass = options.bypassCache || this.isBypassed();
+
+    if (!bypass) {
+      const entry = await this.get(key);
+      if (entry) {
+        geminiLogger.debug(`AI cache hit for ${feature} (${key})`);
+        await this.put({ ...entry, hits: entry.hits + 1, lastHitAt: Date.now() });
+        options.onDelta?.(entry.text);
+        return { text: entry.text, model: entry.model, provider: entry.provider as AIGenerateResponse['provider'], cached: true };
+      }
+    }
+
+    const meteredRequest = { ...request, feature: request.feature || feature };
+    const response = options.onDelta
+      ? await aiProviderService.generateContentStream(meteredRequest, options.onDelta)
+      : await aiProviderService.generateContent(meteredRequest);
+    const isValid = options.validate ? options.validate(response.text) : response.text.trim().length > 0;
+    if (isValid) {
+      const now = Date.now();
+      await this.put({
+        key,
+        feature,
+        provider,
+        model,
+        promptPreview: previewOf(request),
+        text: response.text,
+        createdAt: now,
+        expiresAt: now + (options.ttlMs ?? this.getTtlMs()),
+        hits: 0
+      });
+    }
+    return { ...response, cached: false };
+  }
+
+  /**
+   * Get an unexpired entry
+   */
+  async get(key: string): Promise<AICacheEntry | null> {
+    const entry = await this.read(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * List all entries, newest first (used by the cache inspector)
+   */
+  async list(): Promise<AICacheEntry[]> {
+    const db = await this.openDb();
+    const entries = db
+      ? await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<AICacheEntry[]>)
+      : Array.from(this.memoryStore.values());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.openDb();
+    if (!db) {
+      this.memoryStore.delete(key);
+      return;
+    }
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDb();
+    if (!db) {
+      this.memoryStore.clear();
+      return;
+    }
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  }
+
+  /**
+   * Remove expired entries and return how many were dropped
+   */
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    const expired = (await this.list()).filter(entry => entry.expiresAt <= now);
+    await Promise.all(expired.map(entry => this.delete(entry.key)));
+    return expired.length;
+  }
+
+  isBypassed(): boolean {
+    return this.loadSettings().bypass;
+  }
+
+  setBypassed(bypass: boolean): void {
+    this.saveSettings({ ...this.loadSettings(), bypass });
+  }
+
+  getTtlMs(): number {
+    return this.loadSettings().ttlMs;
+  }
+
+  setTtlMs(ttlMs: number): void {
+    this.saveSettings({ ...this.loadSettings(), ttlMs });
+  }
+
+  private async read(key: string): Promise<AICacheEntry | null> {
+    const db = await this.openDb();
+    if (!db) return this.memoryStore.get(key) ?? null;
+    const entry = await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key));
+    return (entry as AICacheEntry) ?? null;
+  }
+
+  private async put(entry: AICacheEntry): Promise<void> {
+    const db = await this.openDb();
+    if (!db) {
+      this.memoryStore.set(entry.key, entry);
+      return;
+    }
+    try {
+      await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      geminiLogger.warn('Failed to write AI cache entry:', error);
+    }
+  }
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          geminiLogger.warn('IndexedDB unavailable, using in-memory AI cache:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        resolve(null);
+      }
+    });
+    return this.dbPromise;
+  }
+
+  private loadSettings(): { bypass: boolean; ttlMs: number } {
+    try {
+      const data = localStorage.getItem(this.SETTINGS_KEY);
+      if (data) {
+        const parsed = JSON.parse(data);
+        return {
+          bypass: !!parsed.bypass,
+          ttlMs: typeof parsed.ttlMs === 'number' && parsed.ttlMs > 0 ? parsed.ttlMs : this.DEFAULT_TTL_MS
+        };
+      }
+    } catch (error) {
+      // Fall through to defaults
+    }
+    return { bypass: false, ttlMs: this.DEFAULT_TTL_MS };
+  }
+
+  private saveSettings(settings: { bypass: boolean; ttlMs: number }): void {
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      // Ignore storage errors
+    }
+  }
+}
+
+export const aiCacheService = new AICacheService();
@@ -0,0 +1,706 @@
+/**
+ * AI Provider Service
+ * Pluggable LLM backends (Gemini, OpenAI-compatible endpoints, Ollama) selected per project
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { geminiLogger } from '../lib/logger';
+import { DEFAULT_PROJECT_ID, projectService } from './projectService';
+import { tokenBudgetingSystem, estimateTextTokens, BudgetExceededError } from './tokenBudgetService';
+import { aiScheduler, AIJobPriority, isAbortError } from './aiSchedulerService';
+
+export type AIProviderKind = 'gemini' | 'openai' | 'ollama';
+
+/**
+ * Logical model tiers used by the services instead of hard-coded model ids.
+ * Each provider maps a tier to one of its own models.
+ */
+export type ModelTier = 'fast' | 'balanced' | 'pro' | 'lite';
+
+export const MODEL_TIERS: ModelTier[] = ['fast', 'balanced', 'pro', 'lite'];
+
+export type AIContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export type AIContents = string | { parts: AIContentPart[] };
+
+export interface AIGenerationConfig {
+  responseMimeType?: string;
+  responseSchema?: any;
+  maxOutputTokens?: number;
+  temperature?: number;
+}
+
+export interface AIGenerateRequest {
+  tier: ModelTier;
+  contents: AIContents;
+  config?: AIGenerationConfig;
+  /** Name of the calling feature, used for usage accounting (not part of the prompt) */
+  feature?: string;
+  /** Scheduling priority; interactive calls jump ahead of batch work */
+  priority?: AIJobPriority;
+  /** Cancels the request, whether it is still queued or already in flight */
+  signal?: AbortSignal;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface AIGenerateResponse {
+  text: string;
+  model: string;
+  provider: AIProviderKind;
+  /** Token counts reported by the provider, when available */
+  usage?: AIUsage;
+}
+
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+  label: string;
+  baseUrl?: string;
+  apiKey?: string;
+  models: Record<ModelTier, string>;
+}
+
+/**
+ * Middleware around provider calls. `next` performs the real request.
+ */
+export type AIRequestInterceptor = (
+  request: AIGenerateRequest,
+  context: { model: string; settings: AIProviderSettings },
+  next: () => Promise<AIGenerateResponse>
+) => Promise<AIGenerateResponse>;
+
+/**
+ * HTTP failure from a provider, carrying the status and any Retry-After delay for the scheduler
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+/**
+ * Raised before a Gemini request when neither the project nor the environment provides a key
+ */
+export class MissingApiKeyError extends Error {
+  constructor(message: string = 'No Gemini API key is set. Add one in AI Settings or set VITE_GEMINI_API_KEY.') {
+    super(message);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export type MissingApiKeyListener = () => void;
+
+/**
+ * Receives response text as it streams in
+ */
+export type AIStreamHandler = (delta: string) => void;
+
+export interface AIProvider {
+  readonly kind: AIProviderKind;
+  generateContent(model: string, request: AIGenerateRequest): Promise<AIGenerateResponse>;
+  generateContentStream(model: string, request: AIGenerateRequest, onDelta: AIStreamHandler): Promise<AIGenerateResponse>;
+}
+
+// Vite-provided Gemini API key, used when a project does not set its own
+const envGeminiApiKey: string = import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.VITE_GOOGLE_API_KEY || '';
+
+export const PROVIDER_PRESETS: Record<string, AIProviderSettings> = {
+  gemini: {
+    kind: 'gemini',
+    label: 'Google Gemini',
+    models: {
+      fast: 'gemini-2.0-flash-exp',
+      balanced: 'gemini-2.5-flash',
+      pro: 'gemini-2.5-pro',
+      lite: 'gemini-flash-lite-latest'
+    }
+  },
+  openai: {
+    kind: 'openai',
+    label: 'OpenAI-compatible',
+    baseUrl: 'https://api.openai.com/v1',
+    models: {
+      fast: 'gpt-4o-mini',
+      balanced: 'gpt-4o-mini',
+      pro: 'gpt-4o',
+      lite: 'gpt-4o-mini'
+    }
+  },
+  ollama: {
+    kind: 'ollama',
+    label: 'Ollama (local)',
+    baseUrl: 'http://localhost:11434',
+    models: {
+      fast: 'llama3.1',
+      balanced: 'llama3.1',
+      pro: 'llama3.1',
+      lite: 'llama3.2'
+    }
+  },
+  llamacpp: {
+    // llama.cpp's server speaks the OpenAI chat completions protocol
+    kind: 'openai',
+    label: 'llama.cpp server (local)',
+    baseUrl: 'http://localhost:8080/v1',
+    models: {
+      fast: 'local',
+      balanced: 'local',
+      pro: 'local',
+      lite: 'local'
+    }
+  }
+};
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const isJsonRequest = (config?: AIGenerationConfig): boolean =>
+  config?.responseMimeType === 'application/json' || !!config?.responseSchema;
+
+/**
+ * Convert a @google/genai response schema (Type.OBJECT etc.) into plain JSON Schema
+ */
+export const toJsonSchema = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return schema;
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+
+  const result: any = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, any>).map(([name, prop]) => [name, toJsonSchema(prop)])
+      );
+    } else if (key === 'items') {
+      result.items = toJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+const contentsToParts = (contents: AIContents): AIContentPart[] =>
+  typeof contents === 'string' ? [{ text: contents }] : contents.parts;
+
+const contentsToText = (contents: AIContents): string =>
+  contentsToParts(contents)
+    .filter((part): part is { text: string } => 'text' in part)
+    .map(part => part.text)
+    .join('\n\n');
+
+const jsonInstruction = (config?: AIGenerationConfig): string => {
+  const schema = config?.responseSchema
+    ? `\nThe JSON must match this JSON Schema:\n${JSON.stringify(toJsonSchema(config.responseSchema))}`
+    : '';
+  return `Respond only with valid JSON. Do not wrap it in markdown.${schema}`;
+};
+
+const toOpenAIUsage = (usage: any): AIUsage | undefined =>
+  usage && typeof usage.prompt_tokens === 'number'
+    ? { promptTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+
+const toOllamaUsage = (data: any): AIUsage | undefined =>
+  data?.done && typeof data.prompt_eval_count === 'number'
+    ? { promptTokens: data.prompt_eval_count, outputTokens: data.eval_count ?? 0 }
+    : undefined;
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Read a fetch body line by line (SSE and NDJSON streams)
+ */
+const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) {
+    (await response.text()).split('\n').forEach(onLine);
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    lines.forEach(onLine);
+  }
+  if (pending.trim()) onLine(pending);
+};
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const readErrorBody = async (response: Response): Promise<string> => {
+  try {
+    return (await response.text()).slice(0, 500);
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Google Gemini via @google/genai
+ */
+class GeminiProvider implements AIProvider {
+  readonly kind = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContent(model: string, request: AIGenerateRequest): Promise<AIGenerateResponse> {
+    const response = await this.client.models.generateContent({
+      model,
+      contents: request.contents as any,
+      config: this.toConfig(request),
+    });
+    return { text: response.text ?? '', model, provider: this.kind, usage: this.toUsage(response.usageMetadata) };
+  }
+
+  async generateContentStream(model: string, request: AIGenerateRequest, onDelta: AIStreamHandler): Promise<AIGenerateResponse> {
+    const stream = await this.client.models.generateContentStream({
+      model,
+      contents: request.contents as any,
+      config: this.toConfig(request),
+    });
+    let text = '';
+    let usage: AIUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.text ?? '';
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      // Usage arrives with the final chunk
+      usage = this.toUsage(chunk.usageMetadata) ?? usage;
+    }
+    return { text, model, provider: this.kind, usage };
+  }
+
+  private toConfig(request: AIGenerateRequest): Record<string, any> | undefined {
+    if (!request.config && !request.signal) return undefined;
+    return { ...request.config, ...(request.signal ? { abortSignal: request.signal } : {}) };
+  }
+
+  private toUsage(metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }): AIUsage | undefined {
+    if (!metadata || metadata.promptTokenCount === undefined) return undefined;
+    return { promptTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 };
+  }
+}
+
+/**
+ * Any endpoint implementing the OpenAI chat completions API (OpenAI, OpenRouter, llama.cpp, vLLM, LM Studio)
+ */
+class OpenAICompatibleProvider implements AIProvider {
+  readonly kind = 'openai' as const;
+
+  constructor(private baseUrl: string, private apiKey?: string) {}
+
+  async generateContent(model: string, request: AIGenerateRequest): Promise<AIGenerateResponse> {
+    const response = await this.post(model, request, false);
+    const data = await response.json();
+    return { text: data?.choices?.[0]?.message?.content ?? '', model, provider: this.kind, usage: toOpenAIUsage(data?.usage) };
+  }
+
+  async generateContentStream(model: string, request: AIGenerateRequest, onDelta: AIStreamHandler): Promise<AIGenerateResponse> {
+    const response = await this.post(model, request, true);
+    let text = '';
+    let usage: AIUsage | undefined;
+    await readLines(response, line => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      try {
+        const event = JSON.parse(payload);
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        usage = toOpenAIUsage(event?.usage) ?? usage;
+      } catch (error) {
+        // Ignore keep-alive and partial events
+      }
+    });
+    return { text, model, provider: this.kind, usage };
+  }
+
+  private async post(model: string, request: AIGenerateRequest, stream: boolean): Promise<Response> {
+    const wantsJson = isJsonRequest(request.config);
+    const content = contentsToParts(request.contents).map(part =>
+      'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+    );
+
+    const messages: any[] = [];
+    if (wantsJson) {
+      messages.push({ role: 'system', content: jsonInstruction(request.config) });
+    }
+    messages.push({ role: 'user', content });
+
+    const response = await fetch(`${trimTrailingSlash(this.baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        ...(request.config?.maxOutputTokens ? { max_tokens: request.config.maxOutputTokens } : {}),
+        ...(request.config?.temperature !== undefined ? { temperature: request.config.temperature } : {}),
+        ...(wantsJson ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `OpenAI-compatible request failed (${response.status}): ${await readErrorBody(response)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * Ollama's native chat API
+ */
+class OllamaProvider implements AIProvider {
+  readonly kind = 'ollama' as const;
+
+  constructor(private baseUrl: string) {}
+
+  async generateContent(model: string, request: AIGenerateRequest): Promise<AIGenerateResponse> {
+    const response = await this.post(model, request, false);
+    const data = await response.json();
+    return { text: data?.message?.content ?? '', model, provider: this.kind, usage: toOllamaUsage(data) };
+  }
+
+  async generateContentStream(model: string, request: AIGenerateRequest, onDelta: AIStreamHandler): Promise<AIGenerateResponse> {
+    const response = await this.post(model, request, true);
+    let text = '';
+    let usage: AIUsage | undefined;
+    await readLines(response, line => {
+      if (!line.trim()) return;
+      try {
+        const event = JSON.parse(line);
+        const delta = event?.message?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        // Token counts come with the final `done` line
+        usage = toOllamaUsage(event) ?? usage;
+      } catch (error) {
+        // Ignore partial lines
+      }
+    });
+    return { text, model, provider: this.kind, usage };
+  }
+
+  private async post(model: string, request: AIGenerateRequest, stream: boolean): Promise<Response> {
+    const parts = contentsToParts(request.contents);
+    const images = parts
+      .filter((part): part is { inlineData: { mimeType: string; data: string } } => 'inlineData' in part)
+      .map(part => part.inlineData.data);
+
+    const format = request.config?.responseSchema
+      ? toJsonSchema(request.config.responseSchema)
+      : isJsonRequest(request.config) ? 'json' : undefined;
+
+    const options = {
+      ...(request.config?.maxOutputTokens ? { num_predict: request.config.maxOutputTokens } : {}),
+      ...(request.config?.temperature !== undefined ? { temperature: request.config.temperature } : {}),
+    };
+
+    const response = await fetch(`${trimTrailingSlash(this.baseUrl)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [{ role: 'user', content: contentsToText(request.contents), ...(images.length > 0 ? { images } : {}) }],
+        ...(format ? { format } : {}),
+        ...(Object.keys(options).length > 0 ? { options } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new AIProviderError(
+        `Ollama request failed (${response.status}): ${await readErrorBody(response)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  }
+}
+
+const createProvider = (settings: AIProviderSettings): AIProvider => {
+  switch (settings.kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.baseUrl || PROVIDER_PRESETS.openai.baseUrl!, settings.apiKey);
+    case 'ollama':
+      return new OllamaProvider(settings.baseUrl || PROVIDER_PRESETS.ollama.baseUrl!);
+    case 'gemini':
+    default:
+      return new GeminiProvider(settings.apiKey || envGeminiApiKey);
+  }
+};
+
+class AIProviderService {
+  private readonly STORAGE_KEY = 'dreamer_ai_provider_settings';
+  private providers = new Map<string, AIProvider>();
+  private interceptor: AIRequestInterceptor | null = null;
+  private missingKeyListeners = new Set<MissingApiKeyListener>();
+  // Output tokens assumed for budget checks when a request sets no maxOutputTokens
+  private readonly DEFAULT_OUTPUT_ESTIMATE = 1024;
+
+  /**
+   * Get provider settings for a project, falling back to the default project's and then to
+   * Gemini, so a newly named project keeps the provider chosen before it had a name
+   */
+  getSettings(projectId: string = projectService.getActiveProjectId()): AIProviderSettings {
+    const all = this.loadAll();
+    const stored = all[projectId] || all[DEFAULT_PROJECT_ID];
+    if (!stored) return clone(PROVIDER_PRESETS.gemini);
+
+    const preset = PROVIDER_PRESETS[stored.kind] || PROVIDER_PRESETS.gemini;
+    return { ...clone(preset), ...stored, models: { ...preset.models, ...stored.models } };
+  }
+
+  /**
+   * Save provider settings for a project
+   */
+  saveSettings(settings: AIProviderSettings, projectId: string = projectService.getActiveProjectId()): void {
+    const all = this.loadAll();
+    all[projectId] = clone(settings);
+    this.saveAll(all);
+  }
+
+  /**
+   * Reset a project back to the default provider
+   */
+  resetSettings(projectId: string = projectService.getActiveProjectId()): void {
+    const all = this.loadAll();
+    delete all[projectId];
+    this.saveAll(all);
+  }
+
+  /**
+   * Whether requests with these settings have the key their provider needs
+   */
+  hasApiKey(settings: AIProviderSettings = this.getSettings()): boolean {
+    return settings.kind !== 'gemini' || Boolean(settings.apiKey || envGeminiApiKey);
+  }
+
+  /**
+   * Subscribe to requests that could not be sent for lack of an API key
+   */
+  onMissingApiKey(listener: MissingApiKeyListener): () => void {
+    this.missingKeyListeners.add(listener);
+    return () => {
+      this.missingKeyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolve the concrete model id for a tier in the active project
+   */
+  resolveModel(tier: ModelTier, settings: AIProviderSettings = this.getSettings()): string {
+    return settings.models[tier] || PROVIDER_PRESETS.gemini.models[tier];
+  }
+
+  /**
+   * Generate content with the active project's provider
+   */
+  async generateContent(request: AIGenerateRequest, settings: AIProviderSettings = this.getSettings()): Promise<AIGenerateResponse> {
+    const model = this.resolveModel(request.tier, settings);
+    const next = () => {
+      geminiLogger.debug(`AI request via ${settings.kind} (${model})`);
+      return this.getProvider(settings).generateContent(model, request);
+    };
+    return aiScheduler.schedule(
+      () => this.metered(request, model, settings, () =>
+        this.interceptor ? this.interceptor(request, { model, settings }, next) : next()
+      ),
+      { feature: request.feature, model, priority: request.priority, signal: request.signal }
+    );
+  }
+
+  /**
+   * Generate content and report text as it arrives. Interceptors that answer without
+   * calling `next` (e.g. fixture replay) deliver their whole response as a single delta.
+   */
+  async generateContentStream(
+    request: AIGenerateRequest,
+    onDelta: AIStreamHandler,
+    settings: AIProviderSettings = this.getSettings()
+  ): Promise<AIGenerateResponse> {
+    const model = this.resolveModel(request.tier, settings);
+    let streamed = false;
+    let delivered = false;
+    const forward: AIStreamHandler = delta => {
+      delivered = true;
+      onDelta(delta);
+    };
+    const next = () => {
+      streamed = true;
+      geminiLogger.debug(`AI streaming request via ${settings.kind} (${model})`);
+      return this.getProvider(settings).generateContentStream(model, request, forward);
+    };
+    return aiScheduler.schedule(
+      () => this.metered(request, model, settings, async () => {
+        streamed = false;
+        if (!this.interceptor) return next();
+
+        const response = await this.interceptor(request, { model, settings }, next);
+        if (!streamed && response.text) {
+          forward(response.text);
+        }
+        return response;
+      }),
+      // Once text has reached the caller a retry would duplicate it
+      { feature: request.feature, model, priority: request.priority, signal: request.signal, canRetry: () => !delivered }
+    );
+  }
+
+  /**
+   * Install (or clear) middleware that wraps every provider call
+   */
+  setInterceptor(interceptor: AIRequestInterceptor | null): void {
+    this.interceptor = interceptor;
+  }
+
+  /**
+   * Send a tiny request to verify the provider is reachable
+   */
+  async testConnection(settings: AIProviderSettings): Promise<boolean> {
+    try {
+      const response = await this.generateContent(
+        { tier: 'lite', contents: 'Reply with the single word: ready', config: { maxOutputTokens: 16 }, feature: 'testConnection' },
+        settings
+      );
+      return response.text.trim().length > 0;
+    } catch (error) {
+      geminiLogger.warn('AI provider connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Enforce the project's budget caps, then record tokens and latency for the call.
+   * Falls back to text-length estimates when the provider reports no usage.
+   */
+  private async metered(
+    request: AIGenerateRequest,
+    model: string,
+    settings: AIProviderSettings,
+    run: () => Promise<AIGenerateResponse>
+  ): Promise<AIGenerateResponse> {
+    const promptTokens = estimateTextTokens(contentsToText(request.contents));
+    const budget = tokenBudgetingSystem.checkBudget({
+      provider: settings.kind,
+      model,
+      promptTokens,
+      outputTokens: request.config?.maxOutputTokens ?? this.DEFAULT_OUTPUT_ESTIMATE
+    });
+    if (budget.level === 'block') {
+      throw new BudgetExceededError(budget.message || 'AI budget exceeded');
+    }
+    if (budget.level === 'warn' && budget.message) {
+      tokenBudgetingSystem.reportWarning(budget.message);
+    }
+
+    const feature = request.feature || 'other';
+    const startedAt = Date.now();
+    try {
+      const response = await run();
+      tokenBudgetingSystem.recordUsage({
+        feature,
+        provider: settings.kind,
+        model: response.model || model,
+        promptTokens: response.usage?.promptTokens ?? promptTokens,
+        outputTokens: response.usage?.outputTokens ?? estimateTextTokens(response.text),
+        estimated: !response.usage,
+        latencyMs: Date.now() - startedAt,
+        success: true
+      });
+      return response;
+    } catch (error) {
+      // A cancelled call is the user's choice, not a provider failure
+      if (isAbortError(error)) throw error;
+      tokenBudgetingSystem.recordUsage({
+        feature,
+        provider: settings.kind,
+        model,
+        promptTokens: 0,
+        outputTokens: 0,
+        estimated: true,
+        latencyMs: Date.now() - startedAt,
+        success: false
+      });
+      throw error;
+    }
+  }
+
+  private getProvider(settings: AIProviderSettings): AIProvider {
+    if (!this.hasApiKey(settings)) {
+      this.missingKeyListeners.forEach(listener => listener());
+      throw new MissingApiKeyError();
+    }
+    const cacheKey = `${settings.kind}|${settings.baseUrl || ''}|${settings.apiKey || ''}`;
+    let provider = this.providers.get(cacheKey);
+    if (!provider) {
+      provider = createProvider(settings);
+      this.providers.set(cacheKey, provider);
+    }
+    return provider;
+  }
+
+  private loadAll(): Record<string, AIProviderSettings> {
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      if (!data) return {};
+      const parsed = JSON.parse(data);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  private saveAll(all: Record<string, AIProviderSettings>): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist AI provider settings:', error);
+    }
+  }
+}
+
+export const aiProviderService = new AIProviderService();
@@ -0,0 +1,238 @@
+/**
+ * AI Response Validator
+ * Runtime schemas for structured AI responses. A response that fails validation gets one
+ * repair call against the schema before the failing field is reported.
+ */
+
+import { z } from 'zod';
+import { aiProviderService, toJsonSchema } from './aiProviderService';
+import { AIJobPriority } from './aiSchedulerService';
+import { geminiLogger } from '../lib/logger';
+import {
+  CameraMovementData,
+  ColorGradingData,
+  CompositionCharacter,
+  CompositionData,
+  ExtractedKnowledge,
+  ImagePromptFields,
+  LightingData,
+  SequenceStyle,
+  StoryboardShot
+} from '../types';
+
+/** The visual-init payload; characters may come back without ids, which the caller assigns */
+export interface VisualInitPayload {
+  composition: Omit<CompositionData, 'characters'> & { characters: Array<Omit<CompositionCharacter, 'id'> & { id?: string }> };
+  lighting: LightingData;
+  color: ColorGradingData;
+  camera: CameraMovementData;
+}
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// zod only infers required keys under strictNullChecks, so pin each schema to its app type
+const typed = <T>(schema: z.ZodTypeAny): Schema<T> => schema as Schema<T>;
+
+const text = z.string().trim().min(1);
+const num = z.number().finite();
+// Secondary shot fields the editors can live without
+const optionalText = z.string().default('');
+
+export const StoryboardShotSchema = typed<StoryboardShot>(z.object({
+  screenplayLine: text,
+  sceneNumber: z.number().int().optional(),
+  sceneHeading: z.string().optional(),
+  shotDetails: z.object({
+    shotType: text,
+    cameraAngle: optionalText,
+    description: text,
+    lightingMood: optionalText,
+    cameraMovement: optionalText
+  })
+}));
+
+/** A storyboard is an array of shots; a lone shot object is accepted as a one-shot storyboard */
+export const StoryboardSchema = typed<StoryboardShot[]>(z.preprocess(
+  value => (value && typeof value === 'object' && !Array.isArray(value) ? [value] : value),
+  z.array(StoryboardShotSchema).min(1)
+));
+
+export const SequenceStyleSchema = typed<SequenceStyle>(z.object({
+  visualDNA: text,
+  colorPalette: text,
+  mood: text
+}));
+
+export const ExtractedKnowledgeSchema = typed<ExtractedKnowledge>(z.object({
+  themes: z.array(z.string()),
+  visualStyles: z.array(z.string()),
+  characters: z.array(z.string()),
+  techniques: z.array(z.string())
+}));
+
+// Descriptors the model could not find come back blank or missing
+export const ImagePromptFieldsSchema = typed<ImagePromptFields>(z.object({
+  sceneCore: optionalText,
+  cameraType: optionalText,
+  focalLength: optionalText,
+  depthOfField: optionalText,
+  lightingStyle: optionalText,
+  filmStock: optionalText,
+  colorGrading: optionalText
+}));
+
+const point = z.object({ x: num, y: num });
+
+export const VisualInitSchema = typed<VisualInitPayload>(z.object({
+  composition: z.object({
+    characters: z.array(z.object({ id: z.string().optional(), name: z.string(), x: num, y: num })).default([]),
+    cameraAngle: text,
+    cameraHeight: text
+  }),
+  lighting: z.object({
+    keyLightIntensity: num,
+    keyLightColor: text,
+    fillLightIntensity: num,
+    fillLightColor: text,
+    backLightIntensity: num,
+    backLightColor: text,
+    ambientIntensity: num,
+    colorTemperature: num,
+    mood: text
+  }),
+  color: z.object({
+    colorGrade: text,
+    saturation: num,
+    contrast: num,
+    highlights: num,
+    shadows: num,
+    colorPalette: z.array(z.string()).min(1),
+    colorHarmony: text
+  }),
+  camera: z.object({
+    movementType: text,
+    startPos: point,
+    endPos: point,
+    duration: num,
+    easing: text,
+    focalLength: num
+  })
+}));
+
+/**
+ * Raised when a response is still invalid after the repair call. `path` names the failing field.
+ */
+export class AIResponseValidationError extends Error {
+  constructor(public feature: string, public path: string, public issue: string) {
+    super(`${feature} returned invalid data at ${path}: ${issue}`);
+    this.name = 'AIResponseValidationError';
+  }
+}
+
+export interface AIValidationResult<T> {
+  success: boolean;
+  data?: T;
+  /** Failing field, e.g. `[2].shotDetails.shotType` */
+  path?: string;
+  issue?: string;
+}
+
+/**
+ * Parse model output as JSON, tolerating a markdown fence or prose around the payload
+ */
+export const parseAIJson = (raw: string): unknown => {
+  const trimmed = (raw || '').trim();
+  if (!trimmed) throw new Error('Empty response');
+
+  const candidates = [trimmed];
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) candidates.push(fenced[1]);
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf(']'), trimmed.lastIndexOf('}'));
+  if (start !== -1 && end > start) candidates.push(trimmed.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      // Try the next candidate
+    }
+  }
+  throw new Error('Response is not valid JSON');
+};
+
+/**
+ * Render a zod issue path the way it reads in the payload, e.g. `[2].shotDetails.shotType`
+ */
+export const formatIssuePath = (path: Array<string | number>): string =>
+  path.length === 0
+    ? '(root)'
+    : path.map((key, index) => (typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`)).join('');
+
+export const validateAIResponse = <T>(raw: string, schema: Schema<T>): AIValidationResult<T> => {
+  let value: unknown;
+  try {
+    value = parseAIJson(raw);
+  } catch (error) {
+    return { success: false, path: '(root)', issue: error instanceof Error ? error.message : 'Response is not valid JSON' };
+  }
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  const [issue] = result.error.issues;
+  return { success: false, path: formatIssuePath(issue.path), issue: issue.message };
+};
+
+/**
+ * Cache guard: only keep responses that already satisfy the schema
+ */
+export const isValidAIResponse = (schema: Schema<unknown>) =>
+  (raw: string): boolean => validateAIResponse(raw, schema).success;
+
+export interface AIResponseContext {
+  /** Feature name, used for usage accounting and error messages */
+  feature: string;
+  /** Provider response schema from the original request, shown to the model during repair */
+  responseSchema?: any;
+  priority?: AIJobPriority;
+  signal?: AbortSignal;
+}
+
+/**
+ * Validate a response, making one repair call if it doesn't match the schema.
+ * Throws AIResponseValidationError naming the failing field if the repair doesn't validate either.
+ */
+export const parseAIResponse = async <T>(
+  raw: string,
+  schema: Schema<T>,
+  context: AIResponseContext
+): Promise<T> => {
+  const first = validateAIResponse(raw, schema);
+  if (first.success) return first.data;
+
+  geminiLogger.warn(`${context.feature} response failed validation at ${first.path} (${first.issue}); requesting a repair`);
+  const schemaSection = context.responseSchema
+    ? `\n\nJSON SCHEMA:\n${JSON.stringify(toJsonSchema(context.responseSchema))}`
+    : '';
+  const repair = await aiProviderService.generateContent({
+    tier: 'fast',
+    feature: `${context.feature}.repair`,
+    priority: context.priority,
+    signal: context.signal,
+    contents: `The JSON below failed validation at "${first.path}": ${first.issue}.
+Return a corrected version that satisfies the schema. Keep every valid value as it is, fill in or fix only what is wrong, and respond with the JSON alone.${schemaSection}
+
+JSON:
+${raw.slice(0, 12000)}`,
+    config: {
+      responseMimeType: 'application/json',
+      ...(context.responseSchema ? { responseSchema: context.responseSchema } : {})
+    }
+  });
+
+  const second = validateAIResponse(repair.text, schema);
+  if (second.success) {
+    geminiLogger.info(`${context.feature} response repaired`);
+    return second.data;
+  }
+  throw new AIResponseValidationError(context.feature, second.path, second.issue);
+};
@@ -0,0 +1,312 @@
+/**
+ * AI Scheduler Service
+ * Shared queue for every AI provider call: per-model concurrency limits, priorities,
+ * and exponential backoff on rate limits that honours Retry-After
+ */
+
+import { geminiLogger } from '../lib/logger';
+
+export type AIJobPriority = 'interactive' | 'normal' | 'batch';
+
+export type AIJobStatus = 'queued' | 'running' | 'waiting' | 'completed' | 'failed';
+
+export interface AIJob {
+  id: string;
+  feature: string;
+  model: string;
+  priority: AIJobPriority;
+  status: AIJobStatus;
+  attempts: number;
+  enqueuedAt: number;
+  startedAt?: number;
+  /** When a job waiting out a backoff will run again */
+  retryAt?: number;
+  error?: string;
+}
+
+export interface AIScheduleOptions {
+  feature?: string;
+  model: string;
+  priority?: AIJobPriority;
+  /** Veto retries, e.g. once a stream has already delivered text */
+  canRetry?: () => boolean;
+  /** Cancels the job: queued or backing-off jobs are dropped, running ones rejected */
+  signal?: AbortSignal;
+}
+
+export interface AISchedulerConfig {
+  /** Concurrent requests per model */
+  concurrency: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+type JobListener = (jobs: AIJob[]) => void;
+
+interface QueueEntry {
+  job: AIJob;
+  run: () => Promise<unknown>;
+  options: AIScheduleOptions;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+const PRIORITY_ORDER: Record<AIJobPriority, number> = { interactive: 0, normal: 1, batch: 2 };
+
+const DEFAULT_CONFIG: AISchedulerConfig = {
+  concurrency: 2,
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+// How many failed jobs stay visible in the queue panel
+const MAX_FAILED_JOBS = 20;
+
+/**
+ * Error thrown when the caller cancels an AI operation
+ */
+export const createAbortError = (message: string = 'AI request cancelled'): Error => {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * Throw the signal's abort reason (or a generic AbortError) if it has fired
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw isAbortError(signal.reason) ? signal.reason : createAbortError();
+  }
+};
+
+/**
+ * Whether an error is worth retrying (rate limits, overload, transient server errors)
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (!error || error.name === 'BudgetExceededError' || error.name === 'AbortError') return false;
+  const status = typeof error.status === 'number' ? error.status : undefined;
+  if (status !== undefined) return status === 429 || status === 408 || status >= 500;
+  const message = String(error.message || '').toLowerCase();
+  return /\b(429|500|502|503|504)\b/.test(message)
+    || message.includes('rate limit')
+    || message.includes('resource exhausted')
+    || message.includes('resource_exhausted')
+    || message.includes('overloaded')
+    || message.includes('unavailable');
+};
+
+/**
+ * Server-requested delay from a Retry-After header or Gemini's retryDelay detail, in ms
+ */
+export const getRetryAfterMs = (error: any): number | null => {
+  if (!error) return null;
+  if (typeof error.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = String(error.message || '').match(/retry(?:Delay|[- ]after| in)["']?\s*[:=]?\s*["']?(\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
+
+export class AIScheduler {
+  private config: AISchedulerConfig;
+  private modelLimits = new Map<string, number>();
+  private queue: QueueEntry[] = [];
+  private running = new Map<string, number>();
+  private jobs = new Map<string, AIJob>();
+  private listeners = new Set<JobListener>();
+  private nextId = 1;
+
+  constructor(config: Partial<AISchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Queue a provider call. Resolves with its result, or rejects after the last retry.
+   */
+  schedule<T>(run: () => Promise<T>, options: AIScheduleOptions): Promise<T> {
+    try {
+      throwIfAborted(options.signal);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const job: AIJob = {
+      id: `ai-job-${this.nextId++}`,
+      feature: options.feature || 'other',
+      model: options.model,
+      priority: options.priority || 'normal',
+      status: 'queued',
+      attempts: 0,
+      enqueuedAt: Date.now()
+    };
+    this.jobs.set(job.id, job);
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => this.cancel(entry);
+      // Settling drops the abort listener, so a long-lived signal doesn't hold on to finished jobs
+      const settle = <V,>(finish: (value: V) => void) => (value: V) => {
+        options.signal?.removeEventListener('abort', onAbort);
+        finish(value);
+      };
+      const entry: QueueEntry = { job, run, options, resolve: settle(resolve), reject: settle(reject) };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(entry);
+    });
+  }
+
+  /**
+   * Change retry and concurrency settings for jobs started from now on
+   */
+  configure(config: Partial<AISchedulerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.pump();
+  }
+
+  getConfig(): AISchedulerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Limit concurrent requests for one model (e.g. 1 for a local server)
+   */
+  setModelConcurrency(model: string, limit: number): void {
+    this.modelLimits.set(model, Math.max(1, limit));
+    this.pump();
+  }
+
+  /**
+   * Jobs that are queued, running, waiting to retry, or failed
+   */
+  getJobs(): AIJob[] {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }));
+  }
+
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Remove failed jobs from the visible queue
+   */
+  clearFailed(): void {
+    Array.from(this.jobs.values())
+      .filter(job => job.status === 'failed')
+      .forEach(job => this.jobs.delete(job.id));
+    this.notify();
+  }
+
+  private enqueue(entry: QueueEntry): void {
+    entry.job.status = 'queued';
+    entry.job.retryAt = undefined;
+    this.queue.push(entry);
+    // Stable sort: higher priority first, FIFO within a priority
+    this.queue.sort((a, b) =>
+      PRIORITY_ORDER[a.job.priority] - PRIORITY_ORDER[b.job.priority] || a.job.enqueuedAt - b.job.enqueuedAt
+    );
+    this.notify();
+    this.pump();
+  }
+
+  private pump(): void {
+    for (let index = 0; index < this.queue.length;) {
+      const entry = this.queue[index];
+      const model = entry.job.model;
+      const limit = this.modelLimits.get(model) ?? this.config.concurrency;
+      if ((this.running.get(model) || 0) >= limit) {
+        index++;
+        continue;
+      }
+      this.queue.splice(index, 1);
+      this.start(entry);
+    }
+  }
+
+  private async start(entry: QueueEntry): Promise<void> {
+    const { job } = entry;
+    this.running.set(job.model, (this.running.get(job.model) || 0) + 1);
+    job.status = 'running';
+    job.attempts += 1;
+    job.startedAt = Date.now();
+    this.notify();
+
+    try {
+      const result = await entry.run();
+      // Providers that can't be interrupted still finish; drop their result once cancelled
+      throwIfAborted(entry.options.signal);
+      job.status = 'completed';
+      this.jobs.delete(job.id);
+      entry.resolve(result);
+    } catch (error) {
+      if (entry.options.signal?.aborted) {
+        this.jobs.delete(job.id);
+        entry.reject(isAbortError(error) ? error : createAbortError());
+        return;
+      }
+      const retryable = job.attempts < this.config.maxAttempts
+        && isRetryableError(error)
+        && (entry.options.canRetry?.() ?? true);
+      job.error = error instanceof Error ? error.message : String(error);
+
+      if (retryable) {
+        const delay = this.backoffDelay(job.attempts, error);
+        geminiLogger.warn(`AI ${job.feature} call failed (attempt ${job.attempts}), retrying in ${delay}ms`);
+        job.status = 'waiting';
+        job.retryAt = Date.now() + delay;
+        entry.retryTimer = setTimeout(() => {
+          entry.retryTimer = undefined;
+          this.enqueue(entry);
+        }, delay);
+      } else {
+        job.status = 'failed';
+        this.trimFailed();
+        entry.reject(error);
+      }
+    } finally {
+      this.running.set(job.model, (this.running.get(job.model) || 1) - 1);
+      this.notify();
+      this.pump();
+    }
+  }
+
+  /**
+   * Drop a cancelled job that hasn't started yet. Running jobs are rejected when their call settles.
+   */
+  private cancel(entry: QueueEntry): void {
+    const queued = this.queue.indexOf(entry);
+    if (queued === -1 && !entry.retryTimer) return;
+
+    if (queued !== -1) this.queue.splice(queued, 1);
+    if (entry.retryTimer) clearTimeout(entry.retryTimer);
+    entry.retryTimer = undefined;
+    this.jobs.delete(entry.job.id);
+    entry.reject(isAbortError(entry.options.signal?.reason) ? entry.options.signal!.reason : createAbortError());
+    this.notify();
+  }
+
+  private backoffDelay(attempt: number, error: unknown): number {
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== null) return Math.min(retryAfter, this.config.maxDelayMs);
+    const exponential = this.config.baseDelayMs * 2 ** (attempt - 1);
+    const jitter = Math.random() * this.config.baseDelayMs;
+    return Math.round(Math.min(exponential + jitter, this.config.maxDelayMs));
+  }
+
+  private trimFailed(): void {
+    const failed = Array.from(this.jobs.values()).filter(job => job.status === 'failed');
+    failed.slice(0, Math.max(0, failed.length - MAX_FAILED_JOBS)).forEach(job => this.jobs.delete(job.id));
+  }
+
+  private notify(): void {
+    const jobs = this.getJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+export const aiScheduler = new AIScheduler();
@@ -0,0 +1,197 @@
+/**
+ * Camera & Lens Service
+ * A catalogue of cinema camera bodies and lens sets, and the optics that follow from them:
+ * field of view, crop factor and full-frame equivalent focal length for a shot's camera setup
+ */
+
+import { movementTypes } from '../constants';
+import { CameraBody, CameraMovementData, LensSet } from '../types';
+
+export type CameraSetup = Pick<CameraMovementData, 'focalLength' | 'cameraBodyId' | 'lensSetId'>;
+
+export type LensPerspective = 'ultra-wide' | 'wide' | 'normal' | 'short telephoto' | 'telephoto';
+
+export interface OpticsReadout {
+  /** Degrees across the frame, after any anamorphic desqueeze */
+  horizontalFov: number;
+  verticalFov: number;
+  diagonalFov: number;
+  /** Full-frame diagonal over the sensor's; below 1 for sensors larger than full frame */
+  cropFactor: number;
+  /** The focal length times the crop factor: the full-frame lens with the same diagonal view */
+  equivalentFocalLength: number;
+  /** Anamorphic lenses only: the full-frame equivalent divided by the squeeze, the spherical lens as wide across the desqueezed frame */
+  desqueezedFocalLength?: number;
+  perspective: LensPerspective;
+  /** The lens's image circle is smaller than the sensor, so the corners go dark */
+  vignettes: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_CAMERA_MOVEMENT: CameraMovementData = { movementType: movementTypes[0], startPos: { x: 100, y: 300 }, endPos: { x: 700, y: 150 }, duration: 5, easing: 'ease-in-out', focalLength: 35 };
+
+export const FULL_FRAME: CameraBody = { id: 'full-frame', name: 'Full-frame stills camera', format: 'Full frame', sensorWidth: 36, sensorHeight: 24 };
+
+const FULL_FRAME_DIAGONAL = Math.hypot(FULL_FRAME.sensorWidth, FULL_FRAME.sensorHeight);
+
+export const CAMERA_BODIES: CameraBody[] = [
+  { id: 'arri-alexa-65', name: 'ARRI Alexa 65', format: '65 mm large format', sensorWidth: 54.12, sensorHeight: 25.58 },
+  { id: 'arri-alexa-mini-lf', name: 'ARRI Alexa Mini LF', format: 'Large format', sensorWidth: 36.7, sensorHeight: 25.54 },
+  { id: 'arri-alexa-35', name: 'ARRI Alexa 35', format: 'Super 35', sensorWidth: 27.99, sensorHeight: 19.22 },
+  { id: 'arri-alexa-mini', name: 'ARRI Alexa Mini', format: 'Super 35', sensorWidth: 28.25, sensorHeight: 18.17 },
+  { id: 'sony-venice-2', name: 'Sony Venice 2', format: 'Full frame', sensorWidth: 36, sensorHeight: 24 },
+  { id: 'red-v-raptor', name: 'RED V-Raptor 8K VV', format: 'VistaVision', sensorWidth: 40.96, sensorHeight: 21.6 },
+  { id: 'red-monstro', name: 'RED Monstro 8K VV', format: 'VistaVision', sensorWidth: 40.96, sensorHeight: 21.6 },
+  { id: 'red-komodo', name: 'RED Komodo 6K', format: 'Super 35', sensorWidth: 27.03, sensorHeight: 14.26 },
+  { id: 'blackmagic-pocket-4k', name: 'Blackmagic Pocket 4K', format: 'Micro Four Thirds', sensorWidth: 18.96, sensorHeight: 10 },
+  { id: 'blackmagic-pocket-6k', name: 'Blackmagic Pocket 6K', format: 'Super 35', sensorWidth: 23.1, sensorHeight: 12.99 },
+  { id: 'canon-c300-iii', name: 'Canon C300 Mark III', format: 'Super 35', sensorWidth: 26.2, sensorHeight: 13.8 },
+  { id: 'canon-c500-ii', name: 'Canon C500 Mark II', format: 'Full frame', sensorWidth: 38.1, sensorHeight: 20.1 },
+  { id: 'panasonic-varicam-35', name: 'Panasonic VariCam 35', format: 'Super 35', sensorWidth: 24.6, sensorHeight: 12.97 },
+  { id: 'imax-film', name: 'IMAX 15/70 film', format: '15-perf 65 mm film', sensorWidth: 70.41, sensorHeight: 52.63 },
+  { id: 'super-35-film', name: '35 mm film camera', format: 'Super 35 film, 4-perf', sensorWidth: 24.89, sensorHeight: 18.66 },
+  { id: 'super-16-film', name: '16 mm film camera', format: 'Super 16 film', sensorWidth: 12.52, sensorHeight: 7.41 },
+  FULL_FRAME
+];
+
+export const LENS_SETS: LensSet[] = [
+  { id: 'arri-signature-prime', name: 'ARRI Signature Primes', focalLengths: [12, 15, 18, 21, 25, 29, 35, 40, 47, 58, 75, 95, 125, 150, 200], imageCircle: 46.3 },
+  { id: 'zeiss-supreme-prime', name: 'ZEISS Supreme Primes', focalLengths: [15, 18, 21, 25, 29, 35, 50, 65, 85, 100, 135, 150, 200], imageCircle: 46.2 },
+  { id: 'canon-cn-e-prime', name: 'Canon CN-E Primes', focalLengths: [14, 20, 24, 35, 50, 85, 135], imageCircle: 43.3 },
+  { id: 'cooke-s4i', name: 'Cooke S4/i', focalLengths: [12, 14, 16, 18, 21, 25, 27, 32, 35, 40, 50, 65, 75, 100, 135, 150, 180], imageCircle: 33 },
+  { id: 'leitz-summilux-c', name: 'Leitz Summilux-C', focalLengths: [16, 18, 21, 25, 29, 35, 40, 50, 65, 75, 100, 135], imageCircle: 33 },
+  { id: 'panavision-c-series', name: 'Panavision C Series anamorphics', focalLengths: [35, 40, 50, 75, 100], imageCircle: 31, squeeze: 2 },
+  { id: 'atlas-orion', name: 'Atlas Orion anamorphics', focalLengths: [25, 32, 40, 50, 65, 80, 100], imageCircle: 31, squeeze: 2 }
+];
+
+// How free-text camera answers name each body, most specific first
+const BODY_NAMES: { id: string; pattern: RegExp }[] = [
+  { id: 'arri-alexa-65', pattern: /alexa\s*65/i },
+  { id: 'arri-alexa-mini-lf', pattern: /alexa\s*(?:mini\s*)?lf/i },
+  { id: 'arri-alexa-35', pattern: /alexa\s*35/i },
+  { id: 'arri-alexa-mini', pattern: /alexa/i },
+  { id: 'sony-venice-2', pattern: /venice/i },
+  { id: 'red-v-raptor', pattern: /v-?raptor/i },
+  { id: 'red-monstro', pattern: /monstro/i },
+  { id: 'red-komodo', pattern: /komodo/i },
+  { id: 'blackmagic-pocket-4k', pattern: /(?:pocket|bmpcc)\s*4k/i },
+  { id: 'blackmagic-pocket-6k', pattern: /blackmagic|bmpcc/i },
+  { id: 'canon-c300-iii', pattern: /c300/i },
+  { id: 'canon-c500-ii', pattern: /c500/i },
+  { id: 'panasonic-varicam-35', pattern: /varicam/i },
+  { id: 'imax-film', pattern: /imax/i },
+  { id: 'super-16-film', pattern: /(?:super\s*)?16\s*mm\s*film|super\s*16/i },
+  { id: 'super-35-film', pattern: /35\s*mm\s*film|super\s*35/i },
+  { id: 'full-frame', pattern: /full[- ]?frame/i }
+];
+
+// Horizontal views of a 20mm, 35mm, 60mm and 100mm lens on full frame
+const PERSPECTIVES: { minFov: number; perspective: LensPerspective }[] = [
+  { minFov: 84, perspective: 'ultra-wide' },
+  { minFov: 55, perspective: 'wide' },
+  { minFov: 34, perspective: 'normal' },
+  { minFov: 20, perspective: 'short telephoto' },
+  { minFov: 0, perspective: 'telephoto' }
+];
+
+export const getCameraBody = (id?: string): CameraBody | undefined => CAMERA_BODIES.find(body => body.id === id);
+
+export const getLensSet = (id?: string): LensSet | undefined => LENS_SETS.find(lens => lens.id === id);
+
+/**
+ * A fresh copy of the default camera: no camera body or lens set, the default move and path
+ */
+export const resetCameraMovement = (): CameraMovementData => ({
+  ...DEFAULT_CAMERA_MOVEMENT,
+  startPos: { ...DEFAULT_CAMERA_MOVEMENT.startPos },
+  endPos: { ...DEFAULT_CAMERA_MOVEMENT.endPos }
+});
+
+/**
+ * The catalogue body a camera answer like "Arri Alexa 65" names
+ */
+export const findCameraBody = (text: string): CameraBody | undefined => {
+  const match = BODY_NAMES.find(({ pattern }) => pattern.test(text));
+  return match && getCameraBody(match.id);
+};
+
+/**
+ * Degrees a lens of the given focal length sees across a sensor dimension
+ */
+export const fieldOfView = (sensorSize: number, focalLength: number): number =>
+  (2 * Math.atan(sensorSize / (2 * focalLength)) * 180) / Math.PI;
+
+export const cropFactor = (body: CameraBody): number =>
+  FULL_FRAME_DIAGONAL / Math.hypot(body.sensorWidth, body.sensorHeight);
+
+export const computeOptics = (setup: CameraSetup): OpticsReadout => {
+  const body = getCameraBody(setup.cameraBodyId) || FULL_FRAME;
+  const lens = getLensSet(setup.lensSetId);
+  const squeeze = lens?.squeeze || 1;
+  const focalLength = Math.max(1, setup.focalLength);
+  const width = body.sensorWidth * squeeze;
+  const horizontalFov = fieldOfView(width, focalLength);
+  const crop = cropFactor(body);
+  const equivalentFocalLength = focalLength * crop;
+  return {
+    horizontalFov,
+    verticalFov: fieldOfView(body.sensorHeight, focalLength),
+    diagonalFov: fieldOfView(Math.hypot(width, body.sensorHeight), focalLength),
+    cropFactor: crop,
+    equivalentFocalLength,
+    desqueezedFocalLength: squeeze > 1 ? equivalentFocalLength / squeeze : undefined,
+    perspective: PERSPECTIVES.find(({ minFov }) => horizontalFov >= minFov)!.perspective,
+    vignettes: !!lens && lens.imageCircle < Math.hypot(body.sensorWidth, body.sensorHeight)
+  };
+};
+
+/**
+ * The camera body and focal length named by builder text like "Arri Alexa 65" or "35mm
+ * cinematic", taking each from the first text that names one. Nothing named, nothing set.
+ */
+export const cameraFromAnswers = (texts: string[]): Partial<CameraSetup> => {
+  const setup: Partial<CameraSetup> = {};
+  texts.forEach(text => {
+    const body = setup.cameraBodyId ? undefined : findCameraBody(text);
+    if (body) setup.cameraBodyId = body.id;
+    const millimetres = parseFloat(text.match(/(\d+(?:\.\d+)?)\s?mm\b/i)?.[1] || '');
+    if (setup.focalLength === undefined && millimetres > 0) setup.focalLength = millimetres;
+  });
+  return setup;
+};
+
+/**
+ * Prompt wording for a camera setup that holds for its sensor: a 35mm lens on an Alexa 65
+ * reads as the wide it is there, not the normal lens it would be on full frame
+ */
+export const describeOptics = (setup: CameraSetup): string => {
+  const body = getCameraBody(setup.cameraBodyId);
+  const lens = getLensSet(setup.lensSetId);
+  const optics = computeOptics(setup);
+  const lensName = lens ? `${setup.focalLength}mm lens from the ${lens.name}` : `${setup.focalLength}mm lens`;
+  const squeeze = lens?.squeeze ? ` with ${lens.squeeze}x anamorphic squeeze` : '';
+  const mount = body ? ` on the ${body.name} (${body.format})` : '';
+  const equivalent = Math.round(optics.equivalentFocalLength);
+  const framing = equivalent !== Math.round(setup.focalLength) ? `, framing like a ${equivalent}mm on full frame (by diagonal)` : '';
+  const desqueezed = optics.desqueezedFocalLength ? `, as wide as a ${Math.round(optics.desqueezedFocalLength)}mm once desqueezed` : '';
+  const view = `${optics.perspective} view, ${Math.round(optics.horizontalFov)}° across by ${Math.round(optics.verticalFov)}° high`;
+  const falloff = optics.vignettes ? ' The lens does not cover the sensor, so the corners fall off into vignette.' : '';
+  return `${lensName}${squeeze}${mount}${framing}${desqueezed}: ${view}.${falloff}`;
+};
+
+/**
+ * The triangle a camera at `origin` looking at `target` sees on the stage floor plan,
+ * drawn out to `length`
+ */
+export const fieldOfViewCone = (origin: Point, target: Point, horizontalFov: number, length: number): [Point, Point, Point] => {
+  const heading = Math.atan2(target.y - origin.y, target.x - origin.x);
+  const half = (Math.min(horizontalFov, 179) * Math.PI) / 360;
+  // Stretch the edges so the cone's far side sits `length` ahead of the camera
+  const reach = length / Math.cos(half);
+  const edge = (angle: number): Point => ({ x: origin.x + Math.cos(angle) * reach, y: origin.y + Math.sin(angle) * reach });
+  return [{ ...origin }, edge(heading - half), edge(heading + half)];
+};
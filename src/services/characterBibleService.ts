@@ -0,0 +1,300 @@
+/**
+ * Character Bible Service
+ * Per-project registry of named characters, filled from the script or the story ideation
+ * answers, and the descriptors that keep each character consistent across shot prompts
+ */
+
+import { CharacterProfile, CompositionData } from '../types';
+import type { StoryContext } from './storyIdeationService';
+import { parseFountain } from '../utils/fountain';
+import { projectService } from './projectService';
+import { geminiLogger } from '../lib/logger';
+
+/** A character found in a script or answers, before it is stored */
+export type CharacterDraft = Omit<CharacterProfile, 'id'>;
+
+type CharacterBibleListener = () => void;
+
+// Screenplays introduce characters in caps with their age: `MARA (28), wiry, in overalls, threads film.`
+const INTRODUCTION = /\b([A-Z][A-Z'-]+(?: [A-Z][A-Z'-]+)?)\s*\(((?:early |mid |late )?\d{1,2}s?)\)([^.!?]*)/g;
+const SPEAKER_LINE = /^([A-Z][A-Z0-9 .'-]*[A-Z]):\s/;
+const WARDROBE = /^(?:in|wearing|dressed in)\s+/i;
+const NOT_NAMES = new Set(['INT', 'EXT', 'CONT', 'CONTINUED', 'FADE IN', 'FADE OUT', 'CUT TO', 'THE END', 'LATER', 'MORE', 'NOTE']);
+// Stage markers nobody has named yet
+const PLACEHOLDER_NAME = /^(?:subject|character) [a-z0-9]+$/i;
+const DESCRIPTOR_SUFFIX = /\s*Characters: [^\n]*$/;
+const AGE_GROUPS: Record<string, string> = {
+  child: 'child', teenager: 'teenager', young_adult: 'young adult', adult: 'adult', middle_aged: 'middle-aged', elder: 'elderly'
+};
+
+const toDisplayName = (name: string): string => name.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, lead: string, char: string) => lead + char.toUpperCase());
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentionIndex = (text: string, name: string): number => text.search(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i'));
+
+const emptyDraft = (name: string, source: CharacterProfile['source']): CharacterDraft =>
+  ({ name, age: '', appearance: '', wardrobe: '', props: [], source });
+
+/**
+ * Characters named in a script: Fountain cues, `NAME:` lines in plain scripts, and
+ * screenplay-style introductions, which also give age, looks and wardrobe
+ */
+export const extractCharactersFromScript = (script: string): CharacterDraft[] => {
+  const found = new Map<string, CharacterDraft>();
+  const add = (name: string): CharacterDraft | null => {
+    const key = name.trim().toUpperCase();
+    if (key.length < 2 || NOT_NAMES.has(key)) return null;
+    if (!found.has(key)) found.set(key, emptyDraft(toDisplayName(key), 'script'));
+    return found.get(key)!;
+  };
+
+  parseFountain(script).scenes.forEach(scene => scene.elements.forEach(element => {
+    if (element.type === 'character' && element.character) add(element.character);
+    if (element.type !== 'action') return;
+
+    const speaker = element.text.match(SPEAKER_LINE);
+    if (speaker) add(speaker[1]);
+    for (const match of element.text.matchAll(INTRODUCTION)) {
+      const draft = add(match[1]);
+      if (!draft || draft.age) continue;
+      draft.age = match[2];
+      // The last clause of an introduction is usually what the character does, not how they look
+      const details = match[3].split(',').map(part => part.trim()).filter(Boolean).slice(0, -1);
+      draft.appearance = details.filter(part => !WARDROBE.test(part)).join(', ');
+      draft.wardrobe = details.filter(part => WARDROBE.test(part)).map(part => part.replace(WARDROBE, '')).join(', ');
+    }
+  }));
+
+  return Array.from(found.values());
+};
+
+// `Maya, 28, struggling filmmaker living in Brooklyn...`
+const readIdeationAnswer = (answer: string | undefined, ageGroup?: string): CharacterDraft | null => {
+  if (!answer?.trim()) return null;
+  const [first, ...rest] = answer.split(',').map(part => part.trim());
+  const name = first.match(/^[A-Z][\w'-]*(?: [A-Z][\w'-]*){0,2}$/)?.[0];
+  if (!name) return null;
+
+  const ageIndex = rest.findIndex(part => /^(?:\d{1,3}(?:\s*years? old)?|(?:early|mid|late) \d0s)$/i.test(part));
+  const draft = emptyDraft(name, 'ideation');
+  draft.age = ageIndex >= 0 ? rest[ageIndex].replace(/\s*years? old/i, '') : (ageGroup && AGE_GROUPS[ageGroup]) || '';
+  draft.appearance = rest.filter((_, index) => index !== ageIndex).join(', ').replace(/\.+$/, '');
+  return draft;
+};
+
+/**
+ * The protagonist (and antagonist, if given) from the story ideation answers
+ */
+export const extractCharactersFromIdeation = (context: Partial<StoryContext>): CharacterDraft[] =>
+  [readIdeationAnswer(context.protagonist, context.age), readIdeationAnswer(context.antagonist)]
+    .filter((draft): draft is CharacterDraft => !!draft);
+
+/**
+ * `Mara (28; wiry; wearing paint-stained overalls; carries a Super 8 camera)`
+ */
+export const describeCharacter = (character: CharacterProfile): string => {
+  const props = character.props.map(prop => prop.trim()).filter(Boolean);
+  const details = [
+    character.age.trim(),
+    character.appearance.trim(),
+    character.wardrobe.trim() && `wearing ${character.wardrobe.trim()}`,
+    props.length > 0 && `carries ${props.join(', ')}`
+  ].filter(Boolean);
+  return details.length > 0 ? `${character.name} (${details.join('; ')})` : character.name;
+};
+
+/**
+ * Append descriptors for the characters a prompt mentions or its composition links to.
+ * Earlier descriptors are replaced, so applying it again after an edit stays in sync.
+ */
+export const applyCharacterDescriptors = (prompt: string, characters: CharacterProfile[], linkedIds: string[] = []): string => {
+  const base = prompt.replace(DESCRIPTOR_SUFFIX, '');
+  const present = characters
+    .filter(character => linkedIds.includes(character.id) || mentionIndex(base, character.name) !== -1)
+    .map(describeCharacter)
+    .filter((descriptor, index, all) => descriptor.includes('(') && all.indexOf(descriptor) === index);
+  return present.length > 0 ? `${base.trimEnd()} Characters: ${present.join(', ')}.` : base;
+};
+
+/**
+ * Link a composition's stage markers to bible characters: markers named after a character
+ * are linked to it, and placeholder markers ("Subject A") take the characters the shot
+ * mentions, in order of first mention. Positions are kept.
+ */
+export const castComposition = (composition: CompositionData, text: string, characters: CharacterProfile[]): CompositionData => {
+  const byName = (name: string) => characters.find(character => character.name.toLowerCase() === name.trim().toLowerCase());
+  const taken = new Set(composition.characters.map(marker => marker.characterId || byName(marker.name)?.id).filter(Boolean));
+  const unplaced = characters
+    .filter(character => !taken.has(character.id) && mentionIndex(text, character.name) !== -1)
+    .sort((a, b) => mentionIndex(text, a.name) - mentionIndex(text, b.name));
+
+  return {
+    ...composition,
+    characters: composition.characters.map(marker => {
+      if (marker.characterId) return marker;
+      const named = byName(marker.name);
+      if (named) return { ...marker, name: named.name, characterId: named.id };
+      const next = PLACEHOLDER_NAME.test(marker.name) ? unplaced.shift() : undefined;
+      return next ? { ...marker, name: next.name, characterId: next.id } : marker;
+    })
+  };
+};
+
+/** Bible characters a composition's stage markers are linked to */
+export const linkedCharacterIds = (composition?: CompositionData): string[] =>
+  (composition?.characters || []).map(marker => marker.characterId).filter((id): id is string => !!id);
+
+/** Characters merged with extracted drafts, and how many were added or filled in */
+export interface CharacterMerge {
+  characters: CharacterProfile[];
+  added: number;
+  updated: number;
+}
+
+// Incoming characters that already carry an id keep it when added
+const mergeCharacters = (stored: CharacterProfile[], incoming: (CharacterDraft | CharacterProfile)[]): CharacterMerge => {
+  let added = 0;
+  let updated = 0;
+  const characters = [...stored];
+
+  incoming.forEach(draft => {
+    const index = characters.findIndex(character => character.name.toLowerCase() === draft.name.toLowerCase());
+    if (index === -1) {
+      characters.push({ ...draft, id: 'id' in draft ? draft.id : crypto.randomUUID() });
+      added++;
+      return;
+    }
+    const existing = characters[index];
+    const filled: CharacterProfile = {
+      ...existing,
+      age: existing.age || draft.age,
+      appearance: existing.appearance || draft.appearance,
+      wardrobe: existing.wardrobe || draft.wardrobe,
+      props: existing.props.length > 0 ? existing.props : draft.props
+    };
+    if (JSON.stringify(filled) !== JSON.stringify(existing)) {
+      characters[index] = filled;
+      updated++;
+    }
+  });
+
+  return { characters, added, updated };
+};
+
+class CharacterBibleService {
+  private readonly STORAGE_KEY = 'dreamer_character_bible';
+  private bible: Record<string, CharacterProfile[]> | null = null;
+  private listeners = new Set<CharacterBibleListener>();
+
+  /**
+   * The project's characters
+   */
+  list(projectId: string = projectService.getActiveProjectId()): CharacterProfile[] {
+    return this.load()[projectId] || [];
+  }
+
+  /**
+   * Add a character, or replace the one with the same id
+   */
+  save(character: CharacterProfile, projectId: string = projectService.getActiveProjectId()): void {
+    const characters = this.list(projectId);
+    const exists = characters.some(existing => existing.id === character.id);
+    this.load()[projectId] = exists
+      ? characters.map(existing => existing.id === character.id ? character : existing)
+      : [...characters, character];
+    this.persist();
+  }
+
+  /**
+   * Start a new character with the given fields
+   */
+  create(fields: Partial<CharacterDraft> = {}, projectId: string = projectService.getActiveProjectId()): CharacterProfile {
+    const character: CharacterProfile = { id: crypto.randomUUID(), ...emptyDraft('New character', 'manual'), ...fields };
+    this.save(character, projectId);
+    return character;
+  }
+
+  remove(id: string, projectId: string = projectService.getActiveProjectId()): void {
+    this.load()[projectId] = this.list(projectId).filter(character => character.id !== id);
+    this.persist();
+  }
+
+  /**
+   * The project's characters with the extracted ones merged in, without storing them.
+   * New characters get their ids here, so shots cast from the result keep them once
+   * `commitMerge` saves it.
+   */
+  resolveMerge(drafts: CharacterDraft[], projectId: string = projectService.getActiveProjectId()): CharacterMerge {
+    return mergeCharacters(this.list(projectId), drafts);
+  }
+
+  /**
+   * Store a resolved merge. It is merged again over the stored characters, so edits made
+   * since it was resolved are kept.
+   */
+  commitMerge(merge: CharacterMerge, projectId: string = projectService.getActiveProjectId()): { added: number; updated: number } {
+    const { characters, added, updated } = mergeCharacters(this.list(projectId), merge.characters);
+    if (added > 0 || updated > 0) {
+      this.load()[projectId] = characters;
+      this.persist();
+    }
+    return { added, updated };
+  }
+
+  /**
+   * Add extracted characters. A character that already exists (by name) only has its
+   * empty fields filled in, so edits are never overwritten.
+   */
+  merge(drafts: CharacterDraft[], projectId: string = projectService.getActiveProjectId()): { added: number; updated: number } {
+    return this.commitMerge(this.resolveMerge(drafts, projectId), projectId);
+  }
+
+  /**
+   * A prompt with descriptors for the project's characters that appear in it
+   */
+  applyToPrompt(prompt: string, linkedIds: string[] = [], projectId: string = projectService.getActiveProjectId()): string {
+    return applyCharacterDescriptors(prompt, this.list(projectId), linkedIds);
+  }
+
+  /**
+   * A composition with its stage markers linked to the project's characters
+   */
+  castComposition(composition: CompositionData, text: string, projectId: string = projectService.getActiveProjectId()): CompositionData {
+    return castComposition(composition, text, this.list(projectId));
+  }
+
+  /**
+   * Called whenever any project's characters change
+   */
+  subscribe(listener: CharacterBibleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): Record<string, CharacterProfile[]> {
+    if (this.bible) return this.bible;
+    this.bible = {};
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = data ? JSON.parse(data) : {};
+      this.bible = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      // Storage unavailable; keep the bible in memory
+    }
+    return this.bible;
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.bible || {}));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist character bible:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const characterBibleService = new CharacterBibleService();
@@ -0,0 +1,171 @@
+/**
+ * Dialogue Coverage Service
+ * Plans standard coverage for a two-person exchange (master, over-the-shoulders, singles and
+ * an insert) from the stage blocking, keeping every camera on one side of the 180-degree line
+ */
+
+import { CameraMovementData, CompositionCharacter, CompositionData } from '../types';
+import { STAGE_WIDTH, STAGE_HEIGHT, movementTypes } from '../constants';
+import { ScriptBeat } from './scriptBeatService';
+
+export type CoverageShotKind = 'master' | 'over-the-shoulder' | 'single' | 'insert';
+
+export interface CoverageShot {
+  kind: CoverageShotKind;
+  /** The character the shot favors */
+  subject?: string;
+  role: string;
+  description: string;
+  composition: CompositionData;
+  camera: CameraMovementData;
+  /** The camera ended up on the wrong side of the action line */
+  crossesLine: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// The stage is a floor plan; with no camera placed yet, the audience looks in from the bottom edge
+const AUDIENCE: Point = { x: STAGE_WIDTH / 2, y: STAGE_HEIGHT };
+// Cameras stay this far inside the stage
+const STAGE_MARGIN = 10;
+const MIN_MASTER_DISTANCE = 120;
+const FOCAL_LENGTHS: Record<CoverageShotKind, number> = { master: 24, 'over-the-shoulder': 50, single: 85, insert: 100 };
+const ROLES: Record<CoverageShotKind, string> = {
+  master: 'master wide two-shot',
+  'over-the-shoulder': 'over-the-shoulder',
+  single: 'medium close-up single',
+  insert: 'insert'
+};
+
+const toDisplayName = (name: string): string => name.toLowerCase().replace(/(^|[\s-])([a-z])/g, (_, lead: string, char: string) => lead + char.toUpperCase());
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Which side of the line from `from` to `to` a point is on; 0 when it's on the line
+ */
+export const sideOfLine = (from: Point, to: Point, point: Point): -1 | 0 | 1 =>
+  Math.sign((to.x - from.x) * (point.y - from.y) - (to.y - from.y) * (point.x - from.x)) as -1 | 0 | 1;
+
+/**
+ * Whether a composition's camera has crossed its action line, e.g. after the markers were moved
+ */
+export const crossesActionLine = (composition: CompositionData): boolean => {
+  const { camera, actionLine } = composition;
+  if (!camera || !actionLine) return false;
+  const [from, to] = actionLine.characterIds.map(id => composition.characters.find(marker => marker.id === id));
+  if (!from || !to) return false;
+  return sideOfLine(from, to, camera) === -actionLine.side;
+};
+
+export const isTwoPersonDialogue = (beat: ScriptBeat): boolean => beat.kind === 'dialogue' && beat.characters.length === 2;
+
+// Beat text reads `MARA: I keep cutting it. JONAH: Then stop.`
+const linesOf = (beat: ScriptBeat, speaker: string): string => {
+  const cue = new RegExp(`(${beat.characters.map(escapeRegExp).join('|')}): `, 'g');
+  const parts = beat.text.split(cue);
+  const lines: string[] = [];
+  for (let index = 1; index < parts.length; index += 2) {
+    if (parts[index] === speaker) lines.push(parts[index + 1].trim());
+  }
+  return lines.join(' ');
+};
+
+// The two markers playing the scene: ones already named after the speakers, then the first free markers
+const blockSpeakers = (blocking: CompositionData, speakers: [string, string]): CompositionCharacter[] => {
+  const markers = blocking.characters.map(marker => ({ ...marker }));
+  while (markers.length < 2) {
+    markers.push({ id: `char-${markers.length + 1}`, name: '', x: STAGE_WIDTH * (markers.length + 1) / 3, y: STAGE_HEIGHT / 2 });
+  }
+  const used = new Set<string>();
+  const cast = speakers.map(speaker => {
+    const named = markers.find(marker => !used.has(marker.id) && marker.name.toLowerCase() === toDisplayName(speaker).toLowerCase());
+    const marker = named
+      || markers.find(marker => !used.has(marker.id) && !speakers.some(other => marker.name.toLowerCase() === toDisplayName(other).toLowerCase()))
+      || markers.find(marker => !used.has(marker.id))!;
+    used.add(marker.id);
+    if (!named) {
+      marker.name = toDisplayName(speaker);
+      delete marker.characterId;
+    }
+    return marker;
+  });
+  return [...cast, ...markers.filter(marker => !used.has(marker.id))];
+};
+
+/**
+ * Master, over-the-shoulders, singles and an insert for a two-person dialogue beat. Cameras
+ * go on the side of the action line the blocking's camera (or the audience) is on; a camera
+ * pushed back over the line by the stage edge is flagged.
+ */
+export const planDialogueCoverage = (beat: ScriptBeat, blocking: CompositionData): CoverageShot[] => {
+  if (!isTwoPersonDialogue(beat)) return [];
+  const [first, second] = beat.characters;
+  const markers = blockSpeakers(blocking, [first, second]);
+  const [a, b] = markers;
+  const [nameA, nameB] = [a.name, b.name];
+
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const along = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+  const side = sideOfLine(a, b, blocking.camera || AUDIENCE) || 1;
+  // Perpendicular to the line, pointing to the camera side
+  const out = { x: -along.y * side, y: along.x * side };
+  const middle = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  const place = (origin: Point, alongLine: number, outwards: number): Point => ({
+    x: Math.min(STAGE_WIDTH - STAGE_MARGIN, Math.max(STAGE_MARGIN, origin.x + along.x * alongLine + out.x * outwards)),
+    y: Math.min(STAGE_HEIGHT - STAGE_MARGIN, Math.max(STAGE_MARGIN, origin.y + along.y * alongLine + out.y * outwards))
+  });
+
+  const quote = (name: string, speaker: string): string => {
+    const lines = linesOf(beat, speaker);
+    return lines ? ` ${name}: "${lines}"` : '';
+  };
+  const plans: { kind: CoverageShotKind; subject?: string; position: Point; target: Point; description: string; seconds: number }[] = [
+    {
+      kind: 'master',
+      position: place(middle, 0, Math.max(length * 1.2, MIN_MASTER_DISTANCE)),
+      target: middle,
+      description: `${nameA} and ${nameB} in conversation, both in frame. ${beat.text}`,
+      seconds: beat.estimatedSeconds
+    },
+    { kind: 'over-the-shoulder', subject: nameA, position: place(b, length * 0.35, length * 0.25), target: a, description: `Over ${nameB}'s shoulder onto ${nameA}.${quote(nameA, first)}`, seconds: Math.ceil(beat.estimatedSeconds / 2) },
+    { kind: 'over-the-shoulder', subject: nameB, position: place(a, -length * 0.35, length * 0.25), target: b, description: `Over ${nameA}'s shoulder onto ${nameB}.${quote(nameB, second)}`, seconds: Math.ceil(beat.estimatedSeconds / 2) },
+    { kind: 'single', subject: nameA, position: place(b, -length * 0.1, length * 0.35), target: a, description: `Clean single on ${nameA}, near ${nameB}'s eyeline.${quote(nameA, first)}`, seconds: Math.ceil(beat.estimatedSeconds / 2) },
+    { kind: 'single', subject: nameB, position: place(a, length * 0.1, length * 0.35), target: b, description: `Clean single on ${nameB}, near ${nameA}'s eyeline.${quote(nameB, second)}`, seconds: Math.ceil(beat.estimatedSeconds / 2) },
+    {
+      kind: 'insert',
+      position: place(middle, 0, length * 0.3),
+      target: middle,
+      description: `Insert: hands and props between ${nameA} and ${nameB}${beat.emotionalTurn ? ` as the exchange turns (${beat.emotionalTurn})` : ''}.`,
+      seconds: 2
+    }
+  ];
+
+  return plans.map(plan => {
+    const composition: CompositionData = {
+      ...blocking,
+      characters: markers.map(marker => ({ ...marker })),
+      camera: { ...plan.position, target: { x: plan.target.x, y: plan.target.y } },
+      actionLine: { characterIds: [a.id, b.id], side }
+    };
+    return {
+      kind: plan.kind,
+      subject: plan.subject,
+      role: ROLES[plan.kind],
+      description: plan.description,
+      composition,
+      camera: {
+        movementType: movementTypes[0],
+        startPos: { ...plan.position },
+        endPos: { ...plan.position },
+        duration: Math.max(1, plan.seconds),
+        easing: 'ease-in-out',
+        focalLength: FOCAL_LENGTHS[plan.kind]
+      },
+      crossesLine: crossesActionLine(composition)
+    };
+  });
+};
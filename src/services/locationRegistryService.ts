@@ -0,0 +1,265 @@
+/**
+ * Location Registry Service
+ * Per-project registry of locations and sets, detected from scene headings, with the
+ * environment description and default look shared by every shot that plays there
+ */
+
+import { ColorGradingData, LightingData, LocationProfile, LocationSetting } from '../types';
+import { parseFountain } from '../utils/fountain';
+import { projectService } from './projectService';
+import { geminiLogger } from '../lib/logger';
+
+/** A location read from a scene heading, before it is stored */
+export type LocationDraft = Omit<LocationProfile, 'id'>;
+
+type LocationRegistryListener = () => void;
+
+const HEADING = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]\s*(.*)$/i;
+const TIMES_OF_DAY = new Set([
+  'DAY', 'NIGHT', 'MORNING', 'AFTERNOON', 'EVENING', 'DUSK', 'DAWN', 'SUNSET', 'SUNRISE',
+  'MIDNIGHT', 'NOON', 'MAGIC HOUR', 'GOLDEN HOUR', 'EARLY MORNING', 'LATE NIGHT', 'TWILIGHT'
+]);
+// These keep the time of the scene before
+const RELATIVE_TIMES = new Set(['CONTINUOUS', 'LATER', 'MOMENTS LATER', 'SAME', 'SAME TIME', 'SIMULTANEOUS']);
+const SETTING_WORDS: Record<LocationSetting, string> = { INT: 'interior', EXT: 'exterior', 'INT/EXT': 'interior and exterior' };
+// Kept ahead of the character descriptors, which always close the prompt
+const LOCATION_DESCRIPTOR = /\s*Location: [^\n]*?\.(?=(?:\s*Characters: [^\n]*)?$)/;
+const CHARACTERS_SUFFIX = /\s*Characters: [^\n]*$/;
+
+const toDisplayName = (name: string): string => name.toLowerCase().replace(/(^|[\s/-])([a-z])/g, (_, lead: string, char: string) => lead + char.toUpperCase());
+
+const keyOf = (location: Pick<LocationProfile, 'setting' | 'name' | 'timeOfDay'>): string =>
+  [location.setting, location.name, location.timeOfDay].map(part => part.trim().toLowerCase()).join('|');
+
+const emptyDraft = (name: string, setting: LocationSetting, timeOfDay: string, source: LocationProfile['source']): LocationDraft =>
+  ({ name, setting, timeOfDay, architecture: '', styleNotes: '', palette: [], source });
+
+interface ParsedHeading {
+  draft: LocationDraft;
+  /** `CONTINUOUS`, `LATER` and headings without a time */
+  inheritsTime: boolean;
+}
+
+const readHeading = (heading: string): ParsedHeading | null => {
+  const match = heading.trim().match(HEADING);
+  if (!match) return null;
+  const prefix = match[1].toUpperCase();
+  const setting: LocationSetting = prefix === 'INT' ? 'INT' : prefix === 'EXT' || prefix === 'EST' ? 'EXT' : 'INT/EXT';
+
+  const segments = match[2].split(/\s+[-–—]+\s+/).map(segment => segment.trim()).filter(Boolean);
+  const last = (segments[segments.length - 1] || '').toUpperCase();
+  const hasTime = segments.length > 1 && (TIMES_OF_DAY.has(last) || RELATIVE_TIMES.has(last));
+  const name = toDisplayName((hasTime ? segments.slice(0, -1) : segments).join(' - '));
+  if (!name) return null;
+
+  const timeOfDay = hasTime && TIMES_OF_DAY.has(last) ? toDisplayName(last) : '';
+  return { draft: emptyDraft(name, setting, timeOfDay, 'script'), inheritsTime: !timeOfDay };
+};
+
+/**
+ * The location a scene heading names, e.g. `INT. MARA'S FLAT - KITCHEN - NIGHT`
+ */
+export const parseSceneHeading = (heading: string): LocationDraft | null => readHeading(heading)?.draft || null;
+
+/**
+ * Locations for a run of scene headings in script order. Scenes marked `CONTINUOUS` or
+ * `LATER`, or with no time at all, take the time of the scene before.
+ */
+export const resolveSceneLocations = (headings: (string | undefined)[]): (LocationDraft | null)[] => {
+  let timeOfDay = '';
+  return headings.map(heading => {
+    const parsed = heading ? readHeading(heading) : null;
+    if (!parsed) return null;
+    if (parsed.inheritsTime) return { ...parsed.draft, timeOfDay };
+    timeOfDay = parsed.draft.timeOfDay;
+    return parsed.draft;
+  });
+};
+
+/**
+ * Every distinct location in a script's scene headings
+ */
+export const extractLocationsFromScript = (script: string): LocationDraft[] => {
+  const found = new Map<string, LocationDraft>();
+  resolveSceneLocations(parseFountain(script).scenes.map(scene => scene.heading)).forEach(draft => {
+    if (draft && !found.has(keyOf(draft))) found.set(keyOf(draft), draft);
+  });
+  return Array.from(found.values());
+};
+
+/**
+ * `Editing Room (interior, night; exposed brick; warm practicals; palette amber, #1f3a4d)`
+ */
+export const describeLocation = (location: LocationProfile): string => {
+  const palette = location.palette.map(color => color.trim()).filter(Boolean);
+  const details = [
+    [SETTING_WORDS[location.setting], location.timeOfDay.trim().toLowerCase()].filter(Boolean).join(', '),
+    location.architecture.trim(),
+    location.styleNotes.trim(),
+    palette.length > 0 && `palette ${palette.join(', ')}`
+  ].filter(Boolean);
+  return `${location.name} (${details.join('; ')})`;
+};
+
+/**
+ * Put a location's environment description in a prompt, ahead of any character descriptors.
+ * An earlier description is replaced; without a location it is removed.
+ */
+export const applyLocationDescriptor = (prompt: string, location?: LocationProfile | null): string => {
+  const base = prompt.replace(LOCATION_DESCRIPTOR, '');
+  if (!location) return base;
+  const descriptor = ` Location: ${describeLocation(location)}.`;
+  const characters = base.match(CHARACTERS_SUFFIX);
+  return characters
+    ? `${base.slice(0, characters.index).trimEnd()}${descriptor}${base.slice(characters.index)}`
+    : `${base.trimEnd()}${descriptor}`;
+};
+
+class LocationRegistryService {
+  private readonly STORAGE_KEY = 'dreamer_location_registry';
+  private registry: Record<string, LocationProfile[]> | null = null;
+  private listeners = new Set<LocationRegistryListener>();
+
+  /**
+   * The project's locations
+   */
+  list(projectId: string = projectService.getActiveProjectId()): LocationProfile[] {
+    return this.load()[projectId] || [];
+  }
+
+  get(id: string | undefined, projectId: string = projectService.getActiveProjectId()): LocationProfile | null {
+    return id ? this.list(projectId).find(location => location.id === id) || null : null;
+  }
+
+  /**
+   * Add a location, or replace the one with the same id
+   */
+  save(location: LocationProfile, projectId: string = projectService.getActiveProjectId()): void {
+    const locations = this.list(projectId);
+    const exists = locations.some(existing => existing.id === location.id);
+    this.load()[projectId] = exists
+      ? locations.map(existing => existing.id === location.id ? location : existing)
+      : [...locations, location];
+    this.persist();
+  }
+
+  /**
+   * Start a new location with the given fields
+   */
+  create(fields: Partial<LocationDraft> = {}, projectId: string = projectService.getActiveProjectId()): LocationProfile {
+    const location: LocationProfile = { id: crypto.randomUUID(), ...emptyDraft('New location', 'INT', '', 'manual'), ...fields };
+    this.save(location, projectId);
+    return location;
+  }
+
+  remove(id: string, projectId: string = projectService.getActiveProjectId()): void {
+    this.load()[projectId] = this.list(projectId).filter(location => location.id !== id);
+    this.persist();
+  }
+
+  /**
+   * The stored location for each draft, or a new one for drafts the registry doesn't have
+   * yet. Nothing is saved; `add` keeps the new ones. Locations match on setting, name and
+   * time of day.
+   */
+  resolve(drafts: (LocationDraft | null)[], projectId: string = projectService.getActiveProjectId()): (LocationProfile | null)[] {
+    const locations = [...this.list(projectId)];
+    return drafts.map(draft => {
+      if (!draft) return null;
+      const existing = locations.find(location => keyOf(location) === keyOf(draft));
+      if (existing) return existing;
+      const location: LocationProfile = { ...draft, id: crypto.randomUUID() };
+      locations.push(location);
+      return location;
+    });
+  }
+
+  /**
+   * Store the resolved locations the registry doesn't have yet
+   */
+  add(resolved: (LocationProfile | null)[], projectId: string = projectService.getActiveProjectId()): void {
+    const locations = [...this.list(projectId)];
+    const known = locations.length;
+    resolved.forEach(location => {
+      if (location && !locations.some(existing => existing.id === location.id)) locations.push(location);
+    });
+    if (locations.length > known) {
+      this.load()[projectId] = locations;
+      this.persist();
+    }
+  }
+
+  /**
+   * The stored location for each draft, adding the ones the registry doesn't have yet
+   */
+  register(drafts: (LocationDraft | null)[], projectId: string = projectService.getActiveProjectId()): (LocationProfile | null)[] {
+    const resolved = this.resolve(drafts, projectId);
+    this.add(resolved, projectId);
+    return resolved;
+  }
+
+  /**
+   * The stored location a scene heading names. Headings without their own time of day
+   * fall back to the first location with the same setting and name.
+   */
+  findForHeading(heading: string | undefined, projectId: string = projectService.getActiveProjectId()): LocationProfile | null {
+    const parsed = heading ? readHeading(heading) : null;
+    if (!parsed) return null;
+    const locations = this.list(projectId);
+    const exact = locations.find(location => keyOf(location) === keyOf(parsed.draft));
+    if (exact || !parsed.inheritsTime) return exact || null;
+    return locations.find(location =>
+      location.setting === parsed.draft.setting && location.name.toLowerCase() === parsed.draft.name.toLowerCase()
+    ) || null;
+  }
+
+  /**
+   * Make a lighting and color setup the default look for shots at a location
+   */
+  setLook(id: string, lighting: LightingData, color: ColorGradingData, projectId: string = projectService.getActiveProjectId()): void {
+    const location = this.get(id, projectId);
+    if (!location) return;
+    this.save({ ...location, lighting, color }, projectId);
+  }
+
+  /**
+   * A prompt with the environment description of the given location
+   */
+  applyToPrompt(prompt: string, locationId: string | undefined, projectId: string = projectService.getActiveProjectId()): string {
+    return applyLocationDescriptor(prompt, this.get(locationId, projectId));
+  }
+
+  /**
+   * Called whenever any project's locations change
+   */
+  subscribe(listener: LocationRegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): Record<string, LocationProfile[]> {
+    if (this.registry) return this.registry;
+    this.registry = {};
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = data ? JSON.parse(data) : {};
+      this.registry = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      // Storage unavailable; keep the registry in memory
+    }
+    return this.registry;
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.registry || {}));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist location registry:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const locationRegistryService = new LocationRegistryService();
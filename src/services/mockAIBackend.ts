@@ -0,0 +1,187 @@
+/**
+ * Mock AI Backend
+ * Records real generateContent request/response pairs and replays them by request hash,
+ * so AI flows can run deterministically in vitest and in the UI without network access
+ */
+
+import { geminiLogger } from '../lib/logger';
+import { aiProviderService, AIGenerateRequest, AIRequestInterceptor } from './aiProviderService';
+import { hashValue } from '../utils/hash';
+
+export type AIBackendMode = 'live' | 'record' | 'replay';
+
+export interface AIFixture {
+  hash: string;
+  tier: AIGenerateRequest['tier'];
+  model: string;
+  promptPreview: string;
+  request: AIGenerateRequest;
+  response: { text: string };
+  recordedAt: string;
+}
+
+export interface AIFixtureFile {
+  version: 1;
+  fixtures: AIFixture[];
+}
+
+export class MissingFixtureError extends Error {
+  constructor(public hash: string, public promptPreview: string) {
+    super(`No recorded AI fixture for request ${hash} ("${promptPreview}")`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+/**
+ * Hash a request by tier, contents and config. The concrete model is left out
+ * so fixtures survive provider or model changes.
+ */
+export const hashAIRequest = (request: AIGenerateRequest): string =>
+  hashValue({ tier: request.tier, contents: request.contents, config: request.config });
+
+const previewOf = (request: AIGenerateRequest): string => {
+  const text = typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.parts.map(part => ('text' in part ? part.text : '[image]')).join(' ');
+  return text.replace(/\s+/g, ' ').trim().slice(0, 120);
+};
+
+class MockAIBackend {
+  private readonly STORAGE_KEY = 'dreamer_ai_fixtures';
+  private readonly MODE_KEY = 'dreamer_ai_backend_mode';
+  private mode: AIBackendMode = 'live';
+  private fixtures = new Map<string, AIFixture>();
+  private persist = true;
+
+  private readonly interceptor: AIRequestInterceptor = async (request, { model }, next) => {
+    const hash = hashAIRequest(request);
+
+    if (this.mode === 'replay') {
+      const fixture = this.fixtures.get(hash);
+      if (!fixture) {
+        throw new MissingFixtureError(hash, previewOf(request));
+      }
+      return { text: fixture.response.text, model: fixture.model, provider: aiProviderService.getSettings().kind };
+    }
+
+    const response = await next();
+    this.fixtures.set(hash, {
+      hash,
+      tier: request.tier,
+      model,
+      promptPreview: previewOf(request),
+      request: JSON.parse(JSON.stringify(request)),
+      response: { text: response.text },
+      recordedAt: new Date().toISOString()
+    });
+    this.saveFixtures();
+    return response;
+  };
+
+  /**
+   * Restore the persisted mode and fixtures (browser only)
+   */
+  restore(): void {
+    try {
+      const storedMode = localStorage.getItem(this.MODE_KEY) as AIBackendMode | null;
+      const storedFixtures = localStorage.getItem(this.STORAGE_KEY);
+      if (storedFixtures) {
+        this.loadFixtures(JSON.parse(storedFixtures), { replace: true });
+      }
+      if (storedMode) {
+        this.setMode(storedMode);
+      }
+    } catch (error) {
+      // Storage unavailable; stay live
+    }
+  }
+
+  /**
+   * Switch between live calls, recording, and offline replay
+   */
+  setMode(mode: AIBackendMode, options: { persist?: boolean } = {}): void {
+    this.mode = mode;
+    this.persist = options.persist ?? this.persist;
+    aiProviderService.setInterceptor(mode === 'live' ? null : this.interceptor);
+
+    if (this.persist) {
+      try {
+        localStorage.setItem(this.MODE_KEY, mode);
+      } catch (error) {
+        // Ignore storage errors
+      }
+    }
+    geminiLogger.info(`AI backend mode: ${mode}`);
+  }
+
+  getMode(): AIBackendMode {
+    return this.mode;
+  }
+
+  /**
+   * Replay the given fixtures without touching localStorage (used by tests)
+   */
+  replay(file: AIFixtureFile): void {
+    this.persist = false;
+    this.loadFixtures(file, { replace: true });
+    this.setMode('replay', { persist: false });
+  }
+
+  /**
+   * Load fixtures from an exported fixture file
+   */
+  loadFixtures(file: AIFixtureFile, options: { replace?: boolean } = {}): number {
+    if (!file || !Array.isArray(file.fixtures)) {
+      throw new Error('Invalid AI fixture file');
+    }
+    if (options.replace) {
+      this.fixtures.clear();
+    }
+    file.fixtures.forEach(fixture => {
+      // Re-hash so fixtures edited by hand stay addressable
+      const hash = fixture.request ? hashAIRequest(fixture.request) : fixture.hash;
+      this.fixtures.set(hash, { ...fixture, hash });
+    });
+    this.saveFixtures();
+    return file.fixtures.length;
+  }
+
+  /**
+   * Export recorded fixtures for saving to a fixture file
+   */
+  exportFixtures(): AIFixtureFile {
+    return {
+      version: 1,
+      fixtures: Array.from(this.fixtures.values()).sort((a, b) => a.hash.localeCompare(b.hash))
+    };
+  }
+
+  getFixtureCount(): number {
+    return this.fixtures.size;
+  }
+
+  clearFixtures(): void {
+    this.fixtures.clear();
+    this.saveFixtures();
+  }
+
+  /**
+   * Return to live mode and drop in-memory fixtures (used by tests)
+   */
+  reset(): void {
+    this.fixtures.clear();
+    this.mode = 'live';
+    aiProviderService.setInterceptor(null);
+  }
+
+  private saveFixtures(): void {
+    if (!this.persist) return;
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.exportFixtures()));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist AI fixtures:', error);
+    }
+  }
+}
+
+export const mockAIBackend = new MockAIBackend();
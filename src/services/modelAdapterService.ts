@@ -0,0 +1,326 @@
+/**
+ * Model Adapter Service
+ * Declarative profiles describing how each image model wants its prompt written: prefix and
+ * suffix, negative-prompt and weighting syntax, parameter flags built from the shot and the
+ * longest prompt it reads. Shipped profiles can be edited; users can add, import and export their own.
+ */
+
+import { ModelAdapterProfile } from '../types';
+import { MIDJOURNEY } from '../constants';
+import { geminiLogger } from '../lib/logger';
+
+/** What a shot contributes to the formatted prompt beyond its text */
+export interface AdapterShotData {
+  aspectRatio?: string;
+  seed?: number | string;
+  stylize?: number;
+  /** Style codes or image URLs the model should take its style from */
+  styleReference?: string;
+  /** Image of a character the model should keep consistent */
+  characterReference?: string;
+  /** Terms to keep out of the image */
+  negative?: string[];
+}
+
+type ModelAdapterListener = () => void;
+
+// Dreamer prompts write emphasis as `(term:1.2)`; each profile rewrites it in its model's syntax
+const WEIGHTED_TERM = /\(([^():]+):(\d+(?:\.\d+)?)\)/g;
+const URL = /https?:\/\/[^\s]+/g;
+const PLACEHOLDER = /\{(\w+)\}/g;
+const EXPORT_VERSION = 1;
+
+const MIDJOURNEY_PARAMETERS = ['--ar {aspectRatio}', '--seed {seed}', '--stylize {stylize}', '--sref {styleReference}', '--cref {characterReference}', MIDJOURNEY.STYLE_FLAG, MIDJOURNEY.VERSION_FLAG];
+const SEPARATE_NEGATIVE = '\nNegative prompt: {terms}';
+
+const profile = (fields: Partial<ModelAdapterProfile> & Pick<ModelAdapterProfile, 'id' | 'name' | 'description'>): ModelAdapterProfile => ({
+  prefix: '',
+  suffix: '',
+  negativeTemplate: '',
+  negativeTerms: [],
+  weightTemplate: '',
+  parameters: [],
+  builtIn: true,
+  ...fields
+});
+
+export const DEFAULT_MODEL_ADAPTERS: ModelAdapterProfile[] = [
+  profile({
+    id: 'midjourney',
+    name: 'Midjourney',
+    description: 'High-quality artistic image generation',
+    website: 'https://midjourney.com',
+    prefix: MIDJOURNEY.PROMPT_PREFIX,
+    negativeTemplate: ' --no {terms}',
+    weightTemplate: '{term}::{weight}',
+    parameters: MIDJOURNEY_PARAMETERS,
+    promptLimit: { max: 6000, unit: 'characters' }
+  }),
+  profile({
+    id: 'dalle',
+    name: 'DALL-E',
+    description: 'OpenAI\'s advanced image generation',
+    website: 'https://openai.com/dall-e',
+    promptLimit: { max: 4000, unit: 'characters' }
+  }),
+  profile({
+    id: 'stable-diffusion',
+    name: 'Stable Diffusion',
+    description: 'Open-source image generation',
+    website: 'https://stability.ai',
+    suffix: ', high quality, cinematic lighting, professional photography, 8k resolution',
+    negativeTemplate: SEPARATE_NEGATIVE,
+    weightTemplate: '({term}:{weight})',
+    settingsLines: ['Seed: {seed}'],
+    promptLimit: { max: 75, unit: 'tokens' }
+  }),
+  profile({
+    id: 'leonardo-ai',
+    name: 'Leonardo AI',
+    description: 'Professional AI image generation',
+    website: 'https://leonardo.ai',
+    suffix: ', masterpiece, high detail, professional quality',
+    negativeTemplate: SEPARATE_NEGATIVE,
+    promptLimit: { max: 1000, unit: 'characters' }
+  }),
+  profile({
+    id: 'firefly',
+    name: 'Adobe Firefly',
+    description: 'Commercial-safe image generation',
+    website: 'https://firefly.adobe.com',
+    promptLimit: { max: 1024, unit: 'characters' }
+  }),
+  profile({
+    id: 'ideogram',
+    name: 'Ideogram',
+    description: 'Text-aware image generation',
+    website: 'https://ideogram.ai',
+    suffix: ', sharp focus, detailed, cinematic',
+    negativeTemplate: SEPARATE_NEGATIVE
+  }),
+  profile({
+    id: 'flux',
+    name: 'Flux',
+    description: 'High-quality text-to-image',
+    website: 'https://fal.ai/models/fal-ai/flux',
+    suffix: ', ultra detailed, photorealistic, 4k',
+    promptLimit: { max: 512, unit: 'tokens' }
+  }),
+  profile({
+    id: 'runway',
+    name: 'Runway ML',
+    description: 'Creative AI for image and video',
+    website: 'https://runwayml.com',
+    suffix: ', artistic interpretation, creative composition',
+    promptLimit: { max: 1000, unit: 'characters' }
+  }),
+  profile({
+    id: 'bluewillow',
+    name: 'BlueWillow',
+    description: 'Free AI image generation',
+    website: 'https://bluewillow.ai',
+    prefix: MIDJOURNEY.PROMPT_PREFIX,
+    negativeTemplate: ' --no {terms}',
+    weightTemplate: '{term}::{weight}',
+    parameters: MIDJOURNEY_PARAMETERS,
+    promptLimit: { max: 6000, unit: 'characters' }
+  })
+];
+
+const fill = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER, (match, key: string) => key in values ? values[key] : match);
+
+// Midjourney only takes whole numbers, so `2.39:1` becomes `239:100`. Builder answers like
+// `2.39:1 Anamorphic widescreen` are read for the ratio they start with.
+const toRatioParameter = (ratio: string): string => {
+  const parts = (ratio.match(/\d+(?:\.\d+)?\s*:\s*\d+(?:\.\d+)?/)?.[0] || ratio).split(':').map(part => part.trim());
+  if (parts.length !== 2 || parts.some(part => !/^\d+(?:\.\d+)?$/.test(part))) return ratio.trim();
+  const decimals = Math.max(...parts.map(part => part.split('.')[1]?.length || 0));
+  const [width, height] = parts.map(part => Math.round(parseFloat(part) * 10 ** decimals));
+  const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+  const divisor = gcd(width, height) || 1;
+  return `${width / divisor}:${height / divisor}`;
+};
+
+/**
+ * A prompt written the way the profile's model expects, with its parameters filled in
+ * from the shot. Parameters missing a value are left out.
+ */
+export const formatForAdapter = (adapter: ModelAdapterProfile, prompt: string, shot: AdapterShotData = {}): string => {
+  const body = prompt
+    .replace(WEIGHTED_TERM, (_, term: string, weight: string) => adapter.weightTemplate ? fill(adapter.weightTemplate, { term: term.trim(), weight }) : term.trim())
+    .replace(URL, '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+
+  const stylize = shot.stylize ?? adapter.stylize;
+  const values: Record<string, string> = {
+    aspectRatio: shot.aspectRatio ? toRatioParameter(shot.aspectRatio) : '',
+    seed: shot.seed === undefined ? '' : String(shot.seed).trim(),
+    stylize: stylize === undefined ? '' : String(stylize),
+    styleReference: shot.styleReference?.trim() || '',
+    characterReference: shot.characterReference?.trim() || ''
+  };
+  const fillAll = (templates: string[]): string[] => templates
+    .filter(template => Array.from(template.matchAll(PLACEHOLDER)).every(([, key]) => values[key]))
+    .map(template => fill(template, values).trim())
+    .filter(Boolean);
+  const parameters = fillAll(adapter.parameters);
+  const settings = fillAll(adapter.settingsLines || []).map(line => `\n${line}`).join('');
+
+  const negative = Array.from(new Set([...adapter.negativeTerms, ...(shot.negative || [])].map(term => term.trim()).filter(Boolean)));
+  const negativeText = adapter.negativeTemplate && negative.length > 0 ? fill(adapter.negativeTemplate, { terms: negative.join(', ') }) : '';
+
+  const text = `${adapter.prefix ? `${adapter.prefix} ` : ''}${body}${adapter.suffix}`;
+  return `${[text, ...parameters].join(' ')}${negativeText}${settings}`.trim();
+};
+
+const asString = (value: unknown, fallback = ''): string => typeof value === 'string' ? value : fallback;
+const asStrings = (value: unknown): string[] => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/**
+ * Profiles from exported JSON, either a bare array or `{ profiles: [...] }`
+ */
+export const parseModelAdapters = (json: string): ModelAdapterProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error('The file is not valid JSON.');
+  }
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(entries)) throw new Error('No model profiles found in the file.');
+
+  return entries.map((entry, index): ModelAdapterProfile => {
+    if (!entry || typeof entry !== 'object' || !asString(entry.name).trim()) {
+      throw new Error(`Profile ${index + 1} has no name.`);
+    }
+    const limit = entry.promptLimit;
+    return {
+      id: asString(entry.id).trim() || crypto.randomUUID(),
+      name: entry.name.trim(),
+      description: asString(entry.description),
+      website: asString(entry.website) || undefined,
+      prefix: asString(entry.prefix),
+      suffix: asString(entry.suffix),
+      negativeTemplate: asString(entry.negativeTemplate),
+      negativeTerms: asStrings(entry.negativeTerms),
+      weightTemplate: asString(entry.weightTemplate),
+      parameters: asStrings(entry.parameters),
+      settingsLines: Array.isArray(entry.settingsLines) ? asStrings(entry.settingsLines) : undefined,
+      stylize: typeof entry.stylize === 'number' ? entry.stylize : undefined,
+      promptLimit: limit && typeof limit.max === 'number' && (limit.unit === 'characters' || limit.unit === 'tokens')
+        ? { max: limit.max, unit: limit.unit }
+        : undefined,
+      builtIn: DEFAULT_MODEL_ADAPTERS.some(adapter => adapter.id === entry.id)
+    };
+  });
+};
+
+class ModelAdapterService {
+  private readonly STORAGE_KEY = 'dreamer_model_adapters';
+  // Edited shipped profiles and the user's own, by id
+  private stored: ModelAdapterProfile[] | null = null;
+  private listeners = new Set<ModelAdapterListener>();
+
+  /**
+   * Shipped profiles (with the user's edits) followed by the user's own
+   */
+  list(): ModelAdapterProfile[] {
+    const stored = this.load();
+    const shipped = DEFAULT_MODEL_ADAPTERS.map(adapter => stored.find(edited => edited.id === adapter.id) || adapter);
+    return [...shipped, ...stored.filter(adapter => !DEFAULT_MODEL_ADAPTERS.some(shippedAdapter => shippedAdapter.id === adapter.id))];
+  }
+
+  get(id: string): ModelAdapterProfile | null {
+    return this.list().find(adapter => adapter.id === id) || null;
+  }
+
+  /**
+   * Whether a shipped profile has been edited
+   */
+  isCustomized(id: string): boolean {
+    return DEFAULT_MODEL_ADAPTERS.some(adapter => adapter.id === id) && this.load().some(adapter => adapter.id === id);
+  }
+
+  save(adapter: ModelAdapterProfile): void {
+    const stored = this.load();
+    this.stored = stored.some(existing => existing.id === adapter.id)
+      ? stored.map(existing => existing.id === adapter.id ? adapter : existing)
+      : [...stored, adapter];
+    this.persist();
+  }
+
+  /**
+   * Start a new profile, copying the given one's settings when there is one
+   */
+  create(from?: ModelAdapterProfile): ModelAdapterProfile {
+    const adapter: ModelAdapterProfile = from
+      ? { ...from, id: crypto.randomUUID(), name: `${from.name} copy`, builtIn: false }
+      : { ...profile({ id: crypto.randomUUID(), name: 'New model', description: '' }), builtIn: false };
+    this.save(adapter);
+    return adapter;
+  }
+
+  /**
+   * Delete one of the user's profiles, or put a shipped one back the way it shipped
+   */
+  remove(id: string): void {
+    this.stored = this.load().filter(adapter => adapter.id !== id);
+    this.persist();
+  }
+
+  /**
+   * The given profiles, or all of them, as JSON for sharing
+   */
+  exportJson(ids?: string[]): string {
+    const profiles = this.list().filter(adapter => !ids || ids.includes(adapter.id));
+    return JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+  }
+
+  /**
+   * Add the profiles in an exported file; ones with a known id replace it
+   */
+  importJson(json: string): ModelAdapterProfile[] {
+    const imported = parseModelAdapters(json);
+    const byId = new Map(this.load().map(adapter => [adapter.id, adapter]));
+    imported.forEach(adapter => byId.set(adapter.id, adapter));
+    this.stored = Array.from(byId.values());
+    this.persist();
+    return imported;
+  }
+
+  /**
+   * Called whenever a profile changes
+   */
+  subscribe(listener: ModelAdapterListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): ModelAdapterProfile[] {
+    if (this.stored) return this.stored;
+    this.stored = [];
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = data ? JSON.parse(data) : [];
+      this.stored = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      // Storage unavailable; keep edited profiles in memory
+    }
+    return this.stored;
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.stored || []));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist model adapter profiles:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const modelAdapterService = new ModelAdapterService();
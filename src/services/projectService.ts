@@ -0,0 +1,83 @@
+/**
+ * Project Service
+ * Tracks the active project so AI and workflow settings can be scoped per project. The
+ * active id is kept across reloads, since the builder answers that carry it may not be.
+ */
+
+import { geminiLogger } from '../lib/logger';
+
+export const DEFAULT_PROJECT_ID = 'default';
+
+type ProjectListener = (projectId: string) => void;
+
+class ProjectService {
+  private readonly STORAGE_KEY = 'dreamer_active_project';
+  private activeProjectId: string | null = null;
+  private listeners = new Set<ProjectListener>();
+
+  /**
+   * A fresh id for a new project
+   */
+  createProjectId(): string {
+    return crypto.randomUUID();
+  }
+
+  /**
+   * The id a project saved before projects had ids was scoped under, derived from its title
+   */
+  toProjectId(title: string | string[] | undefined | null): string {
+    const raw = Array.isArray(title) ? title.join(' ') : (title || '');
+    const slug = raw
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return slug || DEFAULT_PROJECT_ID;
+  }
+
+  /**
+   * Set the active project by id
+   */
+  setActiveProject(projectId: string | undefined | null): void {
+    const nextId = projectId || DEFAULT_PROJECT_ID;
+    if (nextId === this.getActiveProjectId()) return;
+
+    this.activeProjectId = nextId;
+    this.persist();
+    this.listeners.forEach(listener => listener(nextId));
+  }
+
+  /**
+   * Get the active project id, as last set in this or an earlier session
+   */
+  getActiveProjectId(): string {
+    if (this.activeProjectId === null) {
+      try {
+        this.activeProjectId = localStorage.getItem(this.STORAGE_KEY) || DEFAULT_PROJECT_ID;
+      } catch (error) {
+        this.activeProjectId = DEFAULT_PROJECT_ID;
+      }
+    }
+    return this.activeProjectId;
+  }
+
+  /**
+   * Subscribe to active project changes
+   */
+  subscribe(listener: ProjectListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, this.getActiveProjectId());
+    } catch (error) {
+      geminiLogger.warn('Failed to persist the active project:', error);
+    }
+  }
+}
+
+export const projectService = new ProjectService();
@@ -0,0 +1,195 @@
+/**
+ * Prompt Import Service
+ * Reads an image prompt written for another tool back into builder answers. Model syntax is
+ * stripped first, then camera, lens, aperture, lighting, film stock and grade are picked out
+ * with a local vocabulary; the AI is only asked when that vocabulary finds too little.
+ */
+
+import { ImagePromptFields, PromptData, Question } from '../types';
+import { AICallOptions, describeImagePrompt } from './geminiService';
+import { answerField } from './questionSetService';
+
+type DescriptorField = Exclude<keyof ImagePromptFields, 'sceneCore'>;
+
+export interface StrippedPrompt {
+  /** The descriptive text, without commands, parameters, weights or negative prompts */
+  text: string;
+  /** From `--ar` or `--aspect` */
+  aspectRatio?: string;
+}
+
+export interface ImportedPrompt {
+  fields: ImagePromptFields;
+  aspectRatio?: string;
+  /** Whether the AI filled fields the local vocabulary missed */
+  usedAI: boolean;
+}
+
+const DESCRIPTOR_FIELDS: DescriptorField[] = ['cameraType', 'focalLength', 'depthOfField', 'lightingStyle', 'filmStock', 'colorGrading'];
+
+// Fewer descriptors than this and the prompt is probably phrased in a way the vocabulary doesn't know
+const MIN_LOCAL_DESCRIPTORS = 2;
+
+// Checked in order, and each match is blanked before the next field looks, so "35mm film"
+// is a film stock rather than a lens
+const VOCABULARY: { field: DescriptorField; pattern: RegExp; normalize?: (match: string) => string }[] = [
+  {
+    field: 'filmStock',
+    pattern: /\b(?:kodak\s+(?:vision\s?3|portra|ektachrome|ektar|tri-?x|gold)(?:\s+\d{2,4}[td]?)*|fuji(?:film)?\s+(?:eterna|velvia|provia|superia|pro\s+400h)(?:\s+\d{2,4}[td]?)*|cinestill\s+\d{2,4}[td]?|ilford\s+[a-z0-9]+|polaroid|instax|super\s?8|(?:8|16|35|65|70)\s?mm\s+(?:film(?:\s+(?:stock|grain))?|grain|stock|footage)|film\s+grain|vhs|technicolor)\b/gi
+  },
+  {
+    field: 'cameraType',
+    pattern: /\b(?:arri\s+(?:alexa|amira)(?:\s+(?:65|mini(?:\s+lf)?|lf|35|xt))?|sony\s+(?:venice(?:\s+2)?|fx\s?[369]|a7s(?:\s?i{1,3})?)|red\s+(?:monstro|komodo|v-?raptor|dragon)(?:\s+\dk)?|blackmagic(?:\s+(?:pocket|ursa)(?:\s+cinema)?(?:\s+camera)?)?(?:\s+\d{1,2}(?:\.\d)?k)?|canon\s+(?:c\d{2,3}(?:\s+mark\s+i{1,3})?|eos\s+[a-z0-9]+)|panasonic\s+(?:varicam|lumix\s+[a-z0-9]+)|panavision\s+[a-z0-9]+|imax\s+camera|hasselblad\s+[a-z0-9]+|leica\s+[a-z0-9]+|nikon\s+[a-z0-9]+)\b/gi
+  },
+  {
+    field: 'focalLength',
+    pattern: /\b\d{2,3}\s?mm(?:\s+(?:anamorphic|prime|telephoto|wide|lens))*\b|\banamorphic(?:\s+lens)?\b|\b(?:wide[- ]angle|telephoto|fish-?eye|macro)\s+lens\b/gi
+  },
+  {
+    field: 'depthOfField',
+    pattern: /\bf\/?\s?\d{1,2}(?:\.\d)?\b|\b(?:shallow|deep)\s+(?:depth\s+of\s+field|focus|dof)\b|\bbokeh\b/gi,
+    normalize: match => match.replace(/^f\/?\s?(?=\d)/i, 'f/')
+  },
+  {
+    field: 'lightingStyle',
+    pattern: /\b(?:chiaroscuro|rembrandt|three[- ]point|high[- ]key|low[- ]key|rim|back|key|soft|hard|natural|practical|neon|studio|dramatic|cinematic|moody|volumetric|ambient|window|top)\s?(?:light(?:ing|s)?|lit)\b|\b(?:chiaroscuro|golden hour|blue hour|god rays|moonlight|candlelight|silhouetted?|backlit|high[- ]key|low[- ]key)\b/gi
+  },
+  {
+    field: 'colorGrading',
+    pattern: /\b(?:teal\s*(?:and|&|-)\s*orange|bleach[- ]bypass|desaturated|monochrom(?:e|atic)|black\s*(?:and|&)\s*white|sepia|cross[- ]processed|(?:warm|cool|cold|muted|pastel|neon|earthy|vibrant)\s+(?:colou?rs?|tones|palette|grade|grading|hues)|colou?r\s+grad(?:e|ed|ing))\b/gi
+  }
+];
+
+// Quality tags that say nothing about the shot
+const BOILERPLATE = /^(?:\d+k|hd|uhd|(?:ultra|highly|hyper)[- ]?(?:detailed|realistic)|photo-?realistic|masterpiece|best quality|high quality|sharp focus|trending on artstation|octane render|unreal engine(?:\s*\d)?|award[- ]winning(?:\s+photo(?:graph)?)?)$/i;
+
+// Words left around a descriptor that don't make the phrase worth keeping as scene text
+const FILLER = /\b(?:shot|filmed|captured|on|with|at|and|using|lens|lighting|lit|by|in|a|an|the|style|look|aperture|film|camera|photography|photo|grade|graded|cinematic)\b/gi;
+
+// Default wizard questions that ask for a descriptor under a different key
+const QUESTION_ALIASES: Record<string, DescriptorField | 'aspectRatio'> = {
+  cameraChoice: 'cameraType',
+  colorPalette: 'colorGrading',
+  aspectRatio: 'aspectRatio'
+};
+
+// Words too common in options to say which one a value means
+const GENERIC_WORDS = new Set(['and', 'the', 'light', 'lighting', 'lens', 'film', 'shot', 'camera', 'grade', 'color', 'colour', 'tones']);
+
+const significantWords = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9/:.]+/)
+    .filter(word => (word.length > 2 || /\d/.test(word)) && !GENERIC_WORDS.has(word));
+
+/**
+ * The option a parsed value most likely means: the one sharing more than half the value's
+ * distinctive words, so "35mm lens" picks "35mm cinematic standard"
+ */
+export const snapToOption = (value: string, options: string[]): string | undefined => {
+  const words = significantWords(value);
+  let best: { option: string; shared: number } | undefined;
+  options.forEach(option => {
+    const optionWords = new Set(significantWords(option));
+    const shared = words.filter(word => optionWords.has(word)).length;
+    if (shared * 2 > words.length && (!best || shared > best.shared)) best = { option, shared };
+  });
+  return best?.option;
+};
+
+/**
+ * Remove Midjourney and Stable Diffusion syntax: `/imagine prompt:`, `--` parameters,
+ * `::` and `(term:1.2)` weights, LoRA tags and the negative prompt and settings lines
+ */
+export const stripModelSyntax = (prompt: string): StrippedPrompt => {
+  let aspectRatio: string | undefined;
+  const text = prompt
+    .split(/\r?\n/)
+    .filter(line => !/^\s*(?:negative prompt:|(?:steps|seed):\s*\d)/i.test(line))
+    .join(', ')
+    .replace(/^\s*\/imagine\s+(?:prompt:?)?/i, '')
+    .replace(/(?:^|\s)(?:--|—)([a-z][\w-]*)((?:\s+(?!--|—)\S+)*)/gi, (_match, name: string, value: string) => {
+      if (/^(?:ar|aspect)$/i.test(name)) aspectRatio = value.trim();
+      return ' ';
+    })
+    .replace(/<[^<>]*:[^<>]*>/g, '')
+    .replace(/::-?\d*\.?\d*/g, ', ')
+    .replace(/\(([^()]*?):\s*-?\d+(?:\.\d+)?\)/g, '$1')
+    .replace(/[()[\]{}]/g, '')
+    .split(/[,;]/)
+    .map(phrase => phrase.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(', ');
+  return { text, aspectRatio };
+};
+
+/**
+ * Builder fields found in the prompt by the local vocabulary. Phrases that are only
+ * descriptors are taken out; whatever is left describes the scene.
+ */
+export const parseImagePrompt = (prompt: string): Omit<ImportedPrompt, 'usedAI'> => {
+  const { text, aspectRatio } = stripModelSyntax(prompt);
+  const found = new Map<DescriptorField, string[]>();
+  const scene: string[] = [];
+
+  text.split(', ').forEach(phrase => {
+    if (BOILERPLATE.test(phrase)) return;
+    let rest = phrase;
+    VOCABULARY.forEach(({ field, pattern, normalize }) => {
+      rest = rest.replace(pattern, match => {
+        const value = normalize ? normalize(match.trim()) : match.trim();
+        const values = found.get(field) || [];
+        if (!values.some(existing => existing.toLowerCase() === value.toLowerCase())) found.set(field, [...values, value]);
+        return ' ';
+      });
+    });
+    if (rest.replace(FILLER, '').replace(/[^a-z0-9]/gi, '')) scene.push(phrase);
+  });
+
+  const fields: ImagePromptFields = {};
+  if (scene.length > 0) fields.sceneCore = scene.join(', ');
+  found.forEach((values, field) => {
+    fields[field] = values.join(', ');
+  });
+  return { fields, aspectRatio };
+};
+
+/**
+ * Parse the prompt locally, asking the AI for the fields the vocabulary missed when it
+ * recognised too few. What the vocabulary found is kept over the AI's reading.
+ */
+export const importImagePrompt = async (prompt: string, options: AICallOptions = {}): Promise<ImportedPrompt> => {
+  const parsed = parseImagePrompt(prompt);
+  if (DESCRIPTOR_FIELDS.filter(field => parsed.fields[field]).length >= MIN_LOCAL_DESCRIPTORS) return { ...parsed, usedAI: false };
+
+  const described = await describeImagePrompt(stripModelSyntax(prompt).text, options);
+  if (!described) return { ...parsed, usedAI: false };
+
+  const fields: ImagePromptFields = { ...parsed.fields };
+  let usedAI = false;
+  DESCRIPTOR_FIELDS.forEach(field => {
+    const value = described[field];
+    if (!fields[field] && typeof value === 'string' && value.trim()) {
+      fields[field] = value.trim();
+      usedAI = true;
+    }
+  });
+  // The AI separates subject from descriptors better than the leftover phrases do
+  if (usedAI && typeof described.sceneCore === 'string' && described.sceneCore.trim()) fields.sceneCore = described.sceneCore.trim();
+  return { fields, aspectRatio: parsed.aspectRatio, usedAI };
+};
+
+/**
+ * Builder answers for an imported prompt: its fields, plus the answer to each question that
+ * asks for one of them, snapped to the question's options where one matches
+ */
+export const importedAnswers = (imported: Omit<ImportedPrompt, 'usedAI'>, questions: Question[]): Partial<PromptData> => {
+  const answers: Record<string, string | string[]> = { ...imported.fields };
+  questions.forEach(question => {
+    const key = answerField(question);
+    const source = key in imported.fields ? key as keyof ImagePromptFields : QUESTION_ALIASES[key];
+    const value = source === 'aspectRatio' ? imported.aspectRatio : source && imported.fields[source];
+    if (!value || Array.isArray(value)) return;
+    const answer = question.options?.length ? snapToOption(value, question.options) || value : value;
+    answers[key] = question.type === 'multiselect' ? [answer] : answer;
+  });
+  return answers as Partial<PromptData>;
+};
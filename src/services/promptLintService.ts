@@ -0,0 +1,245 @@
+/**
+ * Prompt Lint Service
+ * Checks a shot prompt, and the version of it formatted for a model, for contradicting
+ * technical terms, repeated descriptors, leftover placeholders and model length limits
+ */
+
+import { PromptLengthLimit, ShotPrompt } from '../types';
+
+export type PromptLintKind = 'contradiction' | 'duplicate' | 'placeholder' | 'length';
+
+export interface PromptLintFix {
+  label: string;
+  /** The prompt with the fix applied */
+  apply: (prompt: string) => string;
+}
+
+export interface PromptLintFinding {
+  kind: PromptLintKind;
+  severity: 'warning' | 'error';
+  message: string;
+  fixes: PromptLintFix[];
+}
+
+export interface PromptLintContext {
+  /** Shot settings the prompt has to agree with, e.g. the camera move */
+  settings?: string[];
+  /** The shot the prompt belongs to, for rewriting placeholder prompts */
+  shot?: Pick<ShotPrompt, 'shotNumber' | 'role' | 'description'>;
+  /** The model the prompt is being prepared for */
+  model?: {
+    name: string;
+    limit?: PromptLengthLimit;
+    format: (prompt: string) => string;
+  };
+}
+
+interface ContradictionSide {
+  label: string;
+  pattern: RegExp;
+}
+
+const CONTRADICTIONS: { topic: string; sides: [ContradictionSide, ContradictionSide] }[] = [
+  {
+    topic: 'depth of field',
+    sides: [
+      { label: 'deep focus', pattern: /\bdeep focus\b|\bf\/(?:8|11|16|22)\b|\beverything (?:in focus|sharp)\b/i },
+      { label: 'shallow focus', pattern: /\bshallow\b|\bbokeh\b|\bf\/(?:1\.2|1\.4|1\.8|2\.8|2)\b/i }
+    ]
+  },
+  {
+    topic: 'camera movement',
+    sides: [
+      { label: 'a static camera', pattern: /\bstatic\b|\blocked[- ]off\b|\btripod\b|\bstill camera\b/i },
+      { label: 'a moving camera', pattern: /\borbit(?:al|ing|s)?\b|\bpan(?:s|ning)?\b|\bdolly\b|\btracking\b|\bhandheld\b|\bsteadicam\b|\bcrane\b|\bwhip\b|\bpush[- ]in\b/i }
+    ]
+  },
+  {
+    topic: 'lighting key',
+    sides: [
+      { label: 'high-key lighting', pattern: /\bhigh[- ]key\b/i },
+      { label: 'low-key lighting', pattern: /\blow[- ]key\b|\bchiaroscuro\b/i }
+    ]
+  },
+  {
+    topic: 'time of day',
+    sides: [
+      { label: 'daylight', pattern: /\bdaylight\b|\bdaytime\b|\bmidday\b|\bnoon\b|\bsunlit\b/i },
+      { label: 'night', pattern: /\bnight(?:time)?\b|\bmidnight\b|\bmoonlit\b/i }
+    ]
+  },
+  {
+    topic: 'color',
+    sides: [
+      { label: 'black and white', pattern: /\bblack[- ](?:and|&)[- ]white\b|\bmonochrome\b|\bb&w\b/i },
+      { label: 'color', pattern: /\bvibrant colou?rs?\b|\bsaturated colou?rs?\b|\bteal[- ]orange\b|\bcolou?rful\b|\btechnicolou?r\b/i }
+    ]
+  }
+];
+
+const PLACEHOLDERS: { pattern: RegExp; label: string }[] = [
+  { pattern: /Placeholder for Shot \d+/gi, label: 'placeholder text' },
+  { pattern: /\b(?:TODO|TBD)\b:?/g, label: 'a TODO marker' },
+  { pattern: /\{\{[^}]*\}\}|\[\[[^\]]*\]\]/g, label: 'an unfilled template field' }
+];
+
+// Comma, semicolon and sentence breaks; `f/2.8` is not a sentence break
+const CLAUSE_BREAK = /(\s*[,;]\s*|\.(?:\s+|$))/;
+// Location and character descriptors close the prompt and are trimmed last
+const DESCRIPTOR_TAIL = /\s(?:Location|Characters): [\s\S]*$/;
+const MIN_DUPLICATE_LENGTH = 4;
+
+const normalize = (clause: string): string => clause.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const tidy = (prompt: string): string => prompt.replace(/[ \t]{2,}/g, ' ').trim();
+
+const clausesOf = (prompt: string): string[] =>
+  prompt.split(CLAUSE_BREAK).filter((_, index) => index % 2 === 0).filter(clause => clause.trim());
+
+/**
+ * Drop the clauses `matches` picks out, keeping the punctuation around the rest readable
+ */
+const removeClauses = (prompt: string, matches: (clause: string) => boolean): string => {
+  const parts = prompt.split(CLAUSE_BREAK);
+  const kept: string[] = [];
+  for (let index = 0; index < parts.length; index += 2) {
+    const [clause, delimiter = ''] = [parts[index], parts[index + 1]];
+    if (clause.trim() && matches(clause)) {
+      // A clause closing its sentence hands the full stop to the clause before it
+      if (!/[,;]/.test(delimiter) && /[,;]/.test(kept[kept.length - 1] || '')) kept[kept.length - 1] = delimiter;
+      continue;
+    }
+    kept.push(clause, delimiter);
+  }
+  return tidy(kept.join(''));
+};
+
+/**
+ * Rough token count in the style of CLIP and T5 tokenizers: words and punctuation marks
+ */
+export const estimateTokens = (text: string): number => (text.match(/[A-Za-z0-9']+|[^\sA-Za-z0-9']/g) || []).length;
+
+const measure = (text: string, limit: PromptLengthLimit): number =>
+  limit.unit === 'tokens' ? estimateTokens(text) : text.length;
+
+// Drop clauses from the end of the prompt body, keeping its descriptors, until the model's version fits
+const trimToFit = (prompt: string, fits: (prompt: string) => boolean): string => {
+  const tail = prompt.match(DESCRIPTOR_TAIL)?.[0] || '';
+  let body = prompt.slice(0, prompt.length - tail.length);
+  while (!fits(`${body}${tail}`) && clausesOf(body).length > 1) {
+    const last = clausesOf(body).length - 1;
+    let position = 0;
+    body = removeClauses(body, () => position++ === last);
+  }
+  return tidy(`${body}${tail}`);
+};
+
+const findContradictions = (prompt: string, settings: string[]): PromptLintFinding[] =>
+  CONTRADICTIONS.flatMap(({ topic, sides }) => {
+    const found = sides.map(side => ({
+      side,
+      inPrompt: clausesOf(prompt).filter(clause => side.pattern.test(clause)),
+      inSettings: settings.filter(setting => side.pattern.test(setting))
+    }));
+    if (found.some(({ inPrompt, inSettings }) => inPrompt.length + inSettings.length === 0)) return [];
+
+    const [a, b] = found;
+    const quote = ({ inPrompt, inSettings }: typeof a): string => `"${(inSettings[0] || inPrompt[0]).trim()}"`;
+    // Only terms in the prompt itself can be taken out; settings are changed in the editor
+    const fixes = found
+      .filter(({ inSettings }) => inSettings.length === 0)
+      .map(({ side }): PromptLintFix => {
+        const keep = sides.find(other => other !== side)!;
+        return { label: `Keep ${keep.label}`, apply: text => removeClauses(text, clause => side.pattern.test(clause)) };
+      });
+    return [{
+      kind: 'contradiction' as const,
+      severity: 'warning' as const,
+      message: `Conflicting ${topic}: ${quote(a)} and ${quote(b)}`,
+      fixes
+    }];
+  });
+
+const findDuplicates = (prompt: string, formatted: string): PromptLintFinding[] => {
+  const counts = new Map<string, number>();
+  clausesOf(formatted).forEach(clause => {
+    const key = normalize(clause);
+    if (key.length >= MIN_DUPLICATE_LENGTH) counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  const findings: PromptLintFinding[] = [];
+  counts.forEach((count, key) => {
+    if (count < 2) return;
+    const inPrompt = clausesOf(prompt).filter(clause => normalize(clause) === key).length;
+    // Keep one copy overall; when the model adds its own, the prompt's copies all go
+    const remove = Math.min(inPrompt, count - 1);
+    if (remove === 0) return;
+    findings.push({
+      kind: 'duplicate',
+      severity: 'warning',
+      message: `"${key}" appears ${count} times`,
+      fixes: [{
+        label: 'Remove repeats',
+        apply: text => {
+          let seen = 0;
+          return removeClauses(text, clause => normalize(clause) === key && ++seen > inPrompt - remove);
+        }
+      }]
+    });
+  });
+
+  const repeatedWord = /\b(\w{3,})\s+\1\b/gi;
+  const repeats = Array.from(new Set((prompt.match(repeatedWord) || []).map(match => match.toLowerCase())));
+  repeats.forEach(repeat => findings.push({
+    kind: 'duplicate',
+    severity: 'warning',
+    message: `Repeated word: "${repeat}"`,
+    fixes: [{ label: 'Remove the repeat', apply: text => text.replace(repeatedWord, '$1') }]
+  }));
+  return findings;
+};
+
+const findPlaceholders = (prompt: string, shot?: PromptLintContext['shot']): PromptLintFinding[] =>
+  PLACEHOLDERS.flatMap(({ pattern, label }) => {
+    const matches = prompt.match(pattern);
+    if (!matches) return [];
+    const remove: PromptLintFix = { label: 'Remove it', apply: text => tidy(text.replace(pattern, '')) };
+    const rewrite: PromptLintFix | null = shot?.description && /Placeholder/i.test(matches[0])
+      ? { label: 'Write from the shot description', apply: text => tidy(text.replace(pattern, `Cinematic shot ${shot.shotNumber}: ${shot.role}. Scene: ${shot.description}.`)) }
+      : null;
+    return [{
+      kind: 'placeholder' as const,
+      severity: 'error' as const,
+      message: `Leftover ${label}: "${matches[0]}"`,
+      fixes: rewrite ? [rewrite, remove] : [remove]
+    }];
+  });
+
+const findLengthProblems = (prompt: string, model: PromptLintContext['model']): PromptLintFinding[] => {
+  if (!model?.limit) return [];
+  const { limit } = model;
+  const fits = (text: string): boolean => measure(model.format(text), limit) <= limit.max;
+  const length = measure(model.format(prompt), limit);
+  if (length <= limit.max) return [];
+  const trimmed = trimToFit(prompt, fits);
+  return [{
+    kind: 'length',
+    severity: 'error',
+    message: `${length} ${limit.unit} for ${model.name}, which reads at most ${limit.max}`,
+    fixes: fits(trimmed) ? [{ label: 'Trim to fit', apply: text => trimToFit(text, fits) }] : []
+  }];
+};
+
+/**
+ * Everything wrong with a shot prompt. Duplicates and length are checked on the prompt as the
+ * model will receive it; every fix applies to the shot prompt itself.
+ */
+export const lintPrompt = (prompt: string, context: PromptLintContext = {}): PromptLintFinding[] => {
+  const formatted = context.model ? context.model.format(prompt) : prompt;
+  return [
+    ...findPlaceholders(prompt, context.shot),
+    ...findLengthProblems(prompt, context.model),
+    ...findContradictions(prompt, context.settings || []),
+    ...findDuplicates(prompt, formatted)
+  ];
+};
@@ -0,0 +1,311 @@
+/**
+ * Prompt Template Service
+ * Versioned registry of the system prompts sent to the AI, with `{{variable}}` slots
+ * and per-project overrides
+ */
+
+import { projectService } from './projectService';
+import { geminiLogger } from '../lib/logger';
+
+export type PromptTemplateId =
+  | 'storyboard.cinematic'
+  | 'storyboard.explainer'
+  | 'videoPrompt.image'
+  | 'videoPrompt.text'
+  | 'broll'
+  | 'timelineSuggestion';
+
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+  /** Example value used for previews */
+  sample: string;
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  /** Bumped whenever the built-in text changes */
+  version: number;
+  variables: PromptTemplateVariable[];
+  template: string;
+}
+
+export interface PromptTemplateOverride {
+  template: string;
+  /** Version of the built-in template the override was written against */
+  baseVersion: number;
+  updatedAt: number;
+}
+
+export interface ResolvedPromptTemplate extends PromptTemplate {
+  isOverridden: boolean;
+  /** The built-in template has changed since this project's override was saved */
+  isOutdated: boolean;
+  defaultTemplate: string;
+}
+
+export type PromptVariables = Record<string, string | number | undefined | null>;
+
+const SAMPLE_SCRIPT = `INT. EDITING ROOM - NIGHT
+Rain streaks the window. MARA threads a reel of film.
+MARA
+I keep cutting it until it stops hurting.`;
+
+const SAMPLE_SHOTS = 'Shot 3: Medium close-up of Mara threading a reel, flickering tungsten key.\nShot 4: Insert of the projector gate as the film catches.';
+
+const scriptVariables: PromptTemplateVariable[] = [
+  { name: 'script', description: 'The script or scene chunk being storyboarded', sample: SAMPLE_SCRIPT },
+  {
+    name: 'customInstructions',
+    description: 'The custom instructions block, empty when the user gave none',
+    sample: '\n\nCUSTOM INSTRUCTIONS:\nFavour static, symmetrical frames.'
+  },
+  {
+    name: 'continuity',
+    description: 'Neighbouring scenes for long scripts storyboarded in chunks, empty otherwise',
+    sample: ''
+  }
+];
+
+const motionVariables: PromptTemplateVariable[] = [
+  { name: 'basePrompt', description: 'The still-image prompt being animated', sample: 'Medium close-up of Mara threading a reel, flickering tungsten key, deep shadows.' },
+  { name: 'motionInstructions', description: "The user's motion notes, or a request to choose a motion", sample: 'Slow push in as the projector starts.' }
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  'storyboard.cinematic': {
+    id: 'storyboard.cinematic',
+    name: 'Storyboard (cinematic)',
+    description: 'Turns a script into shots for the cinematic storyboard style',
+    version: 1,
+    variables: scriptVariables,
+    template: `Generate visual storyboard from script:
+• Each shot = 2.5-3 seconds screen time
+• Break long lines into multiple shots
+• Include: camera movements, framing, composition, lighting mood
+• Use industry-standard cinematography terms{{customInstructions}}{{continuity}}
+
+SCRIPT:
+{{script}}`
+  },
+  'storyboard.explainer': {
+    id: 'storyboard.explainer',
+    name: 'Storyboard (explainer)',
+    description: 'Turns narration into shots for the explainer storyboard style',
+    version: 1,
+    variables: scriptVariables,
+    template: `Generate explainer video storyboard:
+• Each shot = 3-3.5 seconds narration
+• Focus: clean, simple visuals that illustrate narration
+• Style: modern illustrations (not photorealism)
+• Avoid complex cinematic jargon{{customInstructions}}{{continuity}}
+
+SCRIPT:
+{{script}}`
+  },
+  'videoPrompt.image': {
+    id: 'videoPrompt.image',
+    name: 'Video prompt (from image)',
+    description: 'Animates a generated still; the image is sent alongside this text',
+    version: 1,
+    variables: motionVariables,
+    template: `As a master cinematographer, analyze the provided still image and its original prompt. Your task is to generate a concise, powerful video prompt for a text-to-video AI (like Sora or Veo) that brings this static scene to life.
+
+ORIGINAL PROMPT:
+"{{basePrompt}}"
+
+USER INSTRUCTIONS FOR MOTION (if any):
+"{{motionInstructions}}"
+
+Based on the image's composition, mood, and the provided context, describe the initial action or subtle movement. Suggest a camera motion (e.g., slow dolly in, gentle pan left, static shot with atmospheric changes). Describe how the scene should evolve over a short clip.
+
+Return only the final video prompt, ready to be used.`
+  },
+  'videoPrompt.text': {
+    id: 'videoPrompt.text',
+    name: 'Video prompt (from text)',
+    description: 'Animates a shot prompt when there is no generated image',
+    version: 1,
+    variables: motionVariables,
+    template: `As a master cinematographer, analyze the provided cinematic prompt. Your task is to generate a concise, powerful video prompt for a text-to-video AI (like Sora or Veo) that imagines this scene in motion.
+
+ORIGINAL PROMPT:
+"{{basePrompt}}"
+
+USER INSTRUCTIONS FOR MOTION (if any):
+"{{motionInstructions}}"
+
+Based on the prompt's description, mood, and technical details, describe a compelling camera motion (e.g., slow dolly in, gentle pan left, static shot with atmospheric changes) and any initial character or environmental action. Describe how the scene should evolve over a short clip.
+
+Return only the final video prompt, ready to be used.`
+  },
+  broll: {
+    id: 'broll',
+    name: 'B-roll prompt',
+    description: 'Suggests a B-roll or establishing shot between existing shots',
+    version: 1,
+    variables: [
+      { name: 'context', description: 'Prompts of the surrounding shots', sample: SAMPLE_SHOTS },
+      {
+        name: 'style',
+        description: 'The analysed sequence style, or a request to establish one',
+        sample: 'Adhere to the established sequence style:\n- Visual DNA: Handheld emotional realism\n- Color Palette: Desaturated blues, warm tungsten\n- Mood: Melancholic'
+      }
+    ],
+    template: `Generate a concise, cinematic B-roll or establishing shot prompt. It should be atmospheric and relevant to the surrounding scene context.
+
+CONTEXT OF SURROUNDING SHOTS:
+{{context}}
+
+{{style}}
+
+Return only the prompt text.`
+  },
+  timelineSuggestion: {
+    id: 'timelineSuggestion',
+    name: 'Timeline edit suggestion',
+    description: 'Suggests an edit or transition for the selected point in the timeline',
+    version: 1,
+    variables: [
+      { name: 'context', description: 'The surrounding storyboard shots', sample: SAMPLE_SHOTS }
+    ],
+    template: `You are Dreamer, an expert film editor AI grounded in cinematic theory (Walter Murch's Rule of Six, etc.). Analyze the provided storyboard context and suggest a professional, creative edit or transition.
+
+CONTEXT:
+{{context}}
+
+Based on this, provide a single, actionable suggestion. For example: "Suggest a match cut from the character's hand to a similar shape in the next shot to create a strong visual link." or "A J-cut here would build anticipation before the reveal."
+
+Return only the suggestion.`
+  }
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[];
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+
+/**
+ * Fill `{{variable}}` slots. Unknown variables are left in place so they show up in previews.
+ */
+export const renderTemplate = (template: string, variables: PromptVariables): string =>
+  template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name] ?? '') : match
+  );
+
+/**
+ * Variables used in a template, in order of first appearance
+ */
+export const getTemplateVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1])));
+
+class PromptTemplateService {
+  private readonly STORAGE_KEY = 'dreamer_prompt_templates';
+  private overrides: Record<string, Partial<Record<PromptTemplateId, PromptTemplateOverride>>> | null = null;
+
+  /**
+   * All templates as the project sees them
+   */
+  list(projectId: string = projectService.getActiveProjectId()): ResolvedPromptTemplate[] {
+    return PROMPT_TEMPLATE_IDS.map(id => this.get(id, projectId));
+  }
+
+  /**
+   * A template with the project's override applied
+   */
+  get(id: PromptTemplateId, projectId: string = projectService.getActiveProjectId()): ResolvedPromptTemplate {
+    const base = DEFAULT_PROMPT_TEMPLATES[id];
+    const override = this.loadOverrides()[projectId]?.[id];
+    return {
+      ...base,
+      template: override ? override.template : base.template,
+      defaultTemplate: base.template,
+      isOverridden: !!override,
+      isOutdated: !!override && override.baseVersion < base.version
+    };
+  }
+
+  /**
+   * Render a template with the project's override applied
+   */
+  render(id: PromptTemplateId, variables: PromptVariables, projectId: string = projectService.getActiveProjectId()): string {
+    return renderTemplate(this.get(id, projectId).template, variables);
+  }
+
+  /**
+   * Render a template text with each variable's sample value
+   */
+  preview(id: PromptTemplateId, template: string = this.get(id).template): string {
+    const samples = Object.fromEntries(DEFAULT_PROMPT_TEMPLATES[id].variables.map(variable => [variable.name, variable.sample]));
+    return renderTemplate(template, samples);
+  }
+
+  /**
+   * Variables in a template text that the template doesn't provide
+   */
+  findUnknownVariables(id: PromptTemplateId, template: string): string[] {
+    const known = new Set(DEFAULT_PROMPT_TEMPLATES[id].variables.map(variable => variable.name));
+    return getTemplateVariables(template).filter(name => !known.has(name));
+  }
+
+  /**
+   * Variables the built-in template fills that a template text leaves out
+   */
+  findMissingVariables(id: PromptTemplateId, template: string): string[] {
+    const used = new Set(getTemplateVariables(template));
+    return getTemplateVariables(DEFAULT_PROMPT_TEMPLATES[id].template).filter(name => !used.has(name));
+  }
+
+  /**
+   * Override a template for a project. Saving the built-in text removes the override.
+   */
+  saveOverride(id: PromptTemplateId, template: string, projectId: string = projectService.getActiveProjectId()): void {
+    const base = DEFAULT_PROMPT_TEMPLATES[id];
+    if (template === base.template) {
+      this.resetOverride(id, projectId);
+      return;
+    }
+    const all = this.loadOverrides();
+    all[projectId] = { ...all[projectId], [id]: { template, baseVersion: base.version, updatedAt: Date.now() } };
+    this.saveOverrides();
+  }
+
+  /**
+   * Go back to the built-in template for a project
+   */
+  resetOverride(id: PromptTemplateId, projectId: string = projectService.getActiveProjectId()): void {
+    const all = this.loadOverrides();
+    if (!all[projectId]?.[id]) return;
+    const { [id]: _removed, ...rest } = all[projectId];
+    if (Object.keys(rest).length > 0) {
+      all[projectId] = rest;
+    } else {
+      delete all[projectId];
+    }
+    this.saveOverrides();
+  }
+
+  private loadOverrides(): Record<string, Partial<Record<PromptTemplateId, PromptTemplateOverride>>> {
+    if (this.overrides) return this.overrides;
+    this.overrides = {};
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = data ? JSON.parse(data) : {};
+      this.overrides = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      // Storage unavailable; keep overrides in memory
+    }
+    return this.overrides;
+  }
+
+  private saveOverrides(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.overrides || {}));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist prompt templates:', error);
+    }
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
@@ -0,0 +1,125 @@
+/**
+ * Prompt Version Service
+ * Branching version history for shot prompts: recording new versions, going back to any
+ * earlier one to branch from it, and word-level diffs for comparing two versions
+ */
+
+import { PromptVersion, PromptVersionSource, ShotPrompt } from '../types';
+
+export interface PromptDiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface PromptVersionNode {
+  version: PromptVersion;
+  depth: number;
+}
+
+type PromptHistory = Pick<ShotPrompt, 'prompt' | 'originalPrompt' | 'versions' | 'versionId'>;
+
+// Typing into the prompt keeps amending the same manual version until the user pauses this long
+const MANUAL_EDIT_WINDOW_MS = 2 * 60 * 1000;
+
+const createVersion = (prompt: string, source: PromptVersionSource, parentId: string | null, timestamp: number): PromptVersion =>
+  ({ id: crypto.randomUUID(), parentId, prompt, source, timestamp });
+
+/**
+ * History for a newly created shot prompt
+ */
+export const startPromptHistory = (prompt: string, source: PromptVersionSource, timestamp: number = Date.now()): PromptHistory => {
+  const root = createVersion(prompt, source, null, timestamp);
+  return { prompt, originalPrompt: prompt, versions: [root], versionId: root.id };
+};
+
+/**
+ * The shot with a version history. Shots made before version history get their original
+ * and current prompt as the first versions.
+ */
+export const ensurePromptHistory = (shot: ShotPrompt, timestamp: number = Date.now()): ShotPrompt => {
+  if (shot.versions?.length && shot.versions.some(version => version.id === shot.versionId)) return shot;
+  if (shot.versions?.length) return { ...shot, versionId: shot.versions[shot.versions.length - 1].id };
+  const root = createVersion(shot.originalPrompt || shot.prompt, 'original', null, timestamp);
+  const versions = [root];
+  if (shot.prompt !== root.prompt) versions.push(createVersion(shot.prompt, 'manual', root.id, timestamp));
+  return { ...shot, versions, versionId: versions[versions.length - 1].id };
+};
+
+/**
+ * Save a new prompt as a child of the version the shot is on. Back-to-back manual edits
+ * amend one version rather than recording every keystroke.
+ */
+export const recordPromptVersion = (shot: ShotPrompt, prompt: string, source: PromptVersionSource, timestamp: number = Date.now()): ShotPrompt => {
+  const current = ensurePromptHistory(shot, timestamp);
+  const versions = current.versions!;
+  const head = versions.find(version => version.id === current.versionId)!;
+  if (head.prompt === prompt) return { ...current, prompt };
+
+  const isLeaf = !versions.some(version => version.parentId === head.id);
+  if (source === 'manual' && head.source === 'manual' && isLeaf && timestamp - head.timestamp < MANUAL_EDIT_WINDOW_MS) {
+    return { ...current, prompt, versions: versions.map(version => version.id === head.id ? { ...version, prompt, timestamp } : version) };
+  }
+
+  const version = createVersion(prompt, source, head.id, timestamp);
+  return { ...current, prompt, versions: [...versions, version], versionId: version.id };
+};
+
+/**
+ * Go back to an earlier version; the next change branches from it
+ */
+export const checkoutPromptVersion = (shot: ShotPrompt, versionId: string): ShotPrompt => {
+  const current = ensurePromptHistory(shot);
+  const version = current.versions!.find(candidate => candidate.id === versionId);
+  return version ? { ...current, prompt: version.prompt, versionId: version.id } : current;
+};
+
+/**
+ * The shot's versions in tree order, each after its parent and siblings oldest first
+ */
+export const promptVersionTree = (versions: PromptVersion[] = []): PromptVersionNode[] => {
+  const children = (parentId: string | null): PromptVersion[] => versions
+    .filter(version => version.parentId === parentId || (parentId === null && !versions.some(other => other.id === version.parentId)))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const nodes: PromptVersionNode[] = [];
+  const visit = (version: PromptVersion, depth: number) => {
+    nodes.push({ version, depth });
+    children(version.id).forEach(child => visit(child, depth + 1));
+  };
+  children(null).forEach(root => visit(root, 0));
+  return nodes;
+};
+
+/**
+ * Word-level differences between two prompts, in reading order
+ */
+export const diffPrompts = (before: string, after: string): PromptDiffPart[] => {
+  const a = before.match(/\s+|[^\s]+/g) || [];
+  const b = after.match(/\s+|[^\s]+/g) || [];
+  // Longest common subsequence table, filled from the end so the walk below reads forwards
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: PromptDiffPart[] = [];
+  const push = (kind: PromptDiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let [i, j] = [0, 0];
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,281 @@
+/**
+ * Question Set Service
+ * The prompt builder's wizards: which questions it asks, in which phases, and the `PromptData`
+ * field each answer fills. Sets can be edited, imported and exported, and each project picks one.
+ */
+
+import { PromptData, Question, QuestionPhase, QuestionSet, QuestionType } from '../types';
+import { originalQuestions, phaseMetadata } from '../constants-original';
+import { projectService } from './projectService';
+import { geminiLogger } from '../lib/logger';
+import { SHOT_MATRIX_FIELDS } from '../utils/shotMatrix';
+
+type QuestionSetListener = () => void;
+
+interface StoredQuestionSets {
+  /** Edited shipped sets and the user's own */
+  sets: QuestionSet[];
+  /** The set each project builds with, by project id */
+  projects: Record<string, string>;
+}
+
+export const QUESTION_TYPES: QuestionType[] = ['text', 'textarea', 'select', 'multiselect', 'number'];
+
+export const DEFAULT_QUESTION_SET_ID = 'dreamer-cinematic';
+
+export const DEFAULT_QUESTION_SETS: QuestionSet[] = [
+  {
+    id: DEFAULT_QUESTION_SET_ID,
+    name: 'Dreamer cinematic',
+    description: 'The full narrative builder: script, camera, blocking, light, color, voice and output',
+    phases: phaseMetadata.map(({ phase, name }) => ({ phase, name })),
+    questions: originalQuestions,
+    builtIn: true
+  }
+];
+
+const EXPORT_VERSION = 1;
+
+/**
+ * The `PromptData` key a question's answer is read from and written to
+ */
+export const answerField = (question: Question): keyof PromptData => (question.field?.trim() || question.id) as keyof PromptData;
+
+/**
+ * Fields the builder and the shot matrix read. An answer stored under any other key reaches
+ * no prompt.
+ */
+export const ANSWER_FIELDS: string[] = Array.from(new Set<string>([
+  ...DEFAULT_QUESTION_SETS.flatMap(set => set.questions.map(answerField)),
+  ...SHOT_MATRIX_FIELDS.map(({ field }) => field)
+]));
+
+/**
+ * The set's questions whose answers go nowhere
+ */
+export const unusedQuestions = (set: Pick<QuestionSet, 'questions'>): Question[] =>
+  set.questions.filter(question => !ANSWER_FIELDS.includes(answerField(question)));
+
+/**
+ * `base-N` for the first N from the question count up that no question in the list has
+ */
+export const uniqueQuestionId = (questions: Question[], base = 'question'): string => {
+  const ids = new Set(questions.map(question => question.id));
+  let number = questions.length + 1;
+  while (ids.has(`${base}-${number}`)) number++;
+  return `${base}-${number}`;
+};
+
+export const isAnswered = (promptData: Partial<PromptData>, question: Question): boolean => {
+  const value = promptData[answerField(question)];
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && String(value).trim() !== '';
+};
+
+/**
+ * The set's phases that have questions, in order. Phases its questions use without naming
+ * them are shown by number.
+ */
+export const questionPhases = (set: QuestionSet): QuestionPhase[] =>
+  Array.from(new Set(set.questions.map(question => question.phase)))
+    .sort((a, b) => a - b)
+    .map(phase => set.phases.find(candidate => candidate.phase === phase) || { phase, name: `Phase ${phase}` });
+
+const asString = (value: unknown, fallback = ''): string => typeof value === 'string' ? value : fallback;
+const asStrings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+const slug = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const parseQuestion = (entry: any, setName: string, index: number): Question => {
+  const text = asString(entry?.question).trim();
+  if (!text) throw new Error(`Question ${index + 1} in "${setName}" has no text.`);
+  return {
+    id: asString(entry.id).trim() || slug(text) || `question-${index + 1}`,
+    phase: Number.isInteger(entry.phase) && entry.phase > 0 ? entry.phase : 1,
+    category: asString(entry.category),
+    question: text,
+    type: QUESTION_TYPES.includes(entry.type) ? entry.type : 'text',
+    options: asStrings(entry.options),
+    placeholder: asString(entry.placeholder) || undefined,
+    randomOptions: asStrings(entry.randomOptions),
+    field: asString(entry.field).trim() || undefined
+  };
+};
+
+/**
+ * Question sets from exported JSON, either a bare array or `{ sets: [...] }`
+ */
+export const parseQuestionSets = (json: string): QuestionSet[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error('The file is not valid JSON.');
+  }
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { sets?: unknown })?.sets;
+  if (!Array.isArray(entries)) throw new Error('No question sets found in the file.');
+
+  return entries.map((entry, index): QuestionSet => {
+    const name = asString(entry?.name).trim();
+    if (!name) throw new Error(`Question set ${index + 1} has no name.`);
+    if (!Array.isArray(entry.questions) || entry.questions.length === 0) throw new Error(`"${name}" has no questions.`);
+    const phases: QuestionPhase[] = Array.isArray(entry.phases)
+      ? entry.phases
+        .filter((phase: any) => Number.isInteger(phase?.phase))
+        .map((phase: any) => ({ phase: phase.phase, name: asString(phase.name) || `Phase ${phase.phase}` }))
+      : [];
+    return {
+      id: asString(entry.id).trim() || crypto.randomUUID(),
+      name,
+      description: asString(entry.description),
+      phases,
+      // A repeated id would share its answer with the question before it
+      questions: entry.questions.reduce((questions: Question[], question: unknown, questionIndex: number) => {
+        const parsedQuestion = parseQuestion(question, name, questionIndex);
+        const id = questions.some(earlier => earlier.id === parsedQuestion.id) ? uniqueQuestionId(questions, parsedQuestion.id) : parsedQuestion.id;
+        return [...questions, { ...parsedQuestion, id }];
+      }, []),
+      builtIn: DEFAULT_QUESTION_SETS.some(set => set.id === entry.id)
+    };
+  });
+};
+
+class QuestionSetService {
+  private readonly STORAGE_KEY = 'dreamer_question_sets';
+  private stored: StoredQuestionSets | null = null;
+  private listeners = new Set<QuestionSetListener>();
+
+  /**
+   * Shipped sets (with the user's edits) followed by the user's own
+   */
+  list(): QuestionSet[] {
+    const { sets } = this.load();
+    const shipped = DEFAULT_QUESTION_SETS.map(set => sets.find(edited => edited.id === set.id) || set);
+    return [...shipped, ...sets.filter(set => !DEFAULT_QUESTION_SETS.some(shippedSet => shippedSet.id === set.id))];
+  }
+
+  get(id: string): QuestionSet | null {
+    return this.list().find(set => set.id === id) || null;
+  }
+
+  /**
+   * Whether a shipped set has been edited
+   */
+  isCustomized(id: string): boolean {
+    return DEFAULT_QUESTION_SETS.some(set => set.id === id) && this.load().sets.some(set => set.id === id);
+  }
+
+  save(set: QuestionSet): void {
+    const stored = this.load();
+    stored.sets = stored.sets.some(existing => existing.id === set.id)
+      ? stored.sets.map(existing => existing.id === set.id ? set : existing)
+      : [...stored.sets, set];
+    this.persist();
+  }
+
+  /**
+   * Start a new set, copying the given one's questions when there is one
+   */
+  create(from?: QuestionSet): QuestionSet {
+    const set: QuestionSet = from
+      ? { ...from, id: crypto.randomUUID(), name: `${from.name} copy`, builtIn: false }
+      : {
+        id: crypto.randomUUID(),
+        name: 'New question set',
+        description: '',
+        phases: [{ phase: 1, name: 'Scene' }],
+        questions: [{ id: 'sceneCore', phase: 1, category: 'Scene', question: 'Describe your scene', type: 'textarea' }]
+      };
+    this.save(set);
+    return set;
+  }
+
+  /**
+   * Delete one of the user's sets, or put a shipped one back the way it shipped. Projects
+   * that built with a deleted set go back to the default.
+   */
+  remove(id: string): void {
+    const stored = this.load();
+    stored.sets = stored.sets.filter(set => set.id !== id);
+    if (!DEFAULT_QUESTION_SETS.some(set => set.id === id)) {
+      Object.keys(stored.projects).forEach(projectId => {
+        if (stored.projects[projectId] === id) delete stored.projects[projectId];
+      });
+    }
+    this.persist();
+  }
+
+  /**
+   * The set the project's builder asks
+   */
+  getActive(projectId: string = projectService.getActiveProjectId()): QuestionSet {
+    const id = this.load().projects[projectId];
+    return (id && this.get(id)) || this.get(DEFAULT_QUESTION_SET_ID)!;
+  }
+
+  setActive(id: string, projectId: string = projectService.getActiveProjectId()): void {
+    this.load().projects[projectId] = id;
+    this.persist();
+  }
+
+  /**
+   * The given sets, or all of them, as JSON for sharing
+   */
+  exportJson(ids?: string[]): string {
+    const sets = this.list().filter(set => !ids || ids.includes(set.id));
+    return JSON.stringify({ version: EXPORT_VERSION, sets }, null, 2);
+  }
+
+  /**
+   * Add the sets in an exported file; ones with a known id replace it
+   */
+  importJson(json: string): QuestionSet[] {
+    const imported = parseQuestionSets(json);
+    const stored = this.load();
+    const byId = new Map(stored.sets.map(set => [set.id, set]));
+    imported.forEach(set => byId.set(set.id, set));
+    stored.sets = Array.from(byId.values());
+    this.persist();
+    return imported;
+  }
+
+  /**
+   * Called whenever a set or a project's choice changes
+   */
+  subscribe(listener: QuestionSetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): StoredQuestionSets {
+    if (this.stored) return this.stored;
+    this.stored = { sets: [], projects: {} };
+    try {
+      const data = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = data ? JSON.parse(data) : null;
+      if (parsed && typeof parsed === 'object') {
+        this.stored = {
+          sets: Array.isArray(parsed.sets) ? parsed.sets : [],
+          projects: parsed.projects && typeof parsed.projects === 'object' ? parsed.projects : {}
+        };
+      }
+    } catch (error) {
+      // Storage unavailable; keep question sets in memory
+    }
+    return this.stored;
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.stored || { sets: [], projects: {} }));
+    } catch (error) {
+      geminiLogger.warn('Failed to persist question sets:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const questionSetService = new QuestionSetService();
@@ -0,0 +1,228 @@
+/**
+ * Script Beat Service
+ * Segments a script into beats (scene changes, dialogue exchanges, action bursts and emotional
+ * turns), estimates each beat's screen time and suggests how many shots it deserves
+ */
+
+import { ScriptElementType, ScriptLineRange } from '../types';
+import { parseFountain } from '../utils/fountain';
+import { ScreenplayElement } from '../utils/screenplay';
+
+export type ScriptBeatKind = 'action' | 'dialogue';
+
+export interface ScriptBeat {
+  /** Position in the script, starting at 1 */
+  number: number;
+  kind: ScriptBeatKind;
+  sceneNumber: number;
+  sceneHeading?: string;
+  /** First beat of its scene */
+  opensScene: boolean;
+  /** The wording that marked an emotional turn in this beat, e.g. `breaks down` */
+  emotionalTurn?: string;
+  characters: string[];
+  text: string;
+  lines: ScriptLineRange;
+  estimatedSeconds: number;
+  suggestedShots: number;
+}
+
+/** One builder shot and the beats it covers */
+export interface BeatShot {
+  beatNumbers: number[];
+  description: string;
+}
+
+export interface BeatSummary {
+  beats: number;
+  estimatedSeconds: number;
+  suggestedShots: number;
+}
+
+// A formatted screenplay page is about 55 lines and runs about a minute on screen
+const LINES_PER_PAGE = 55;
+const SECONDS_PER_PAGE = 60;
+const WRAP_WIDTH: Partial<Record<ScriptElementType, number>> = { action: 60, dialogue: 35, parenthetical: 25 };
+// Past this, an action burst or exchange is split at the next paragraph or cue
+const MAX_BEAT_SECONDS = 30;
+// Short action inside an exchange is a reaction, not a new beat
+const REACTION_MAX_CHARS = 80;
+// Seconds a single shot usually holds
+const SECONDS_PER_SHOT: Record<ScriptBeatKind, number> = { action: 4, dialogue: 6 };
+const MAX_SHOTS_PER_BEAT = 8;
+
+const SPEAKER_LINE = /^([A-Z][A-Z0-9 .'-]*[A-Z]):\s+([\s\S]+)$/;
+const EMOTIONAL_TURN = /\b(suddenly|reali[sz]es?|breaks? down|bursts? (?:into|out)|sobs?|sobbing|screams?|shouts?|laughs?|laughing|smiles?|freezes?|falls silent|silence|gasps?|trembl(?:es?|ing)|explodes?|snaps?|softens?|hesitates?|finally|tearful(?:ly)?|crying|furious(?:ly)?|angr(?:y|ily))\b/i;
+
+interface BeatDraft {
+  kind: ScriptBeatKind;
+  sceneNumber: number;
+  sceneHeading?: string;
+  opensScene: boolean;
+  emotionalTurn?: string;
+  characters: Set<string>;
+  parts: string[];
+  lines: ScriptLineRange;
+  formattedLines: number;
+}
+
+// Plain scripts often write dialogue as `MARA: line` inside ordinary paragraphs
+const readSpeaker = (element: ScreenplayElement): ScreenplayElement => {
+  if (element.type !== 'action') return element;
+  const match = element.text.match(SPEAKER_LINE);
+  return match ? { ...element, type: 'dialogue', character: match[1].trim(), text: match[2] } : element;
+};
+
+// Printed height of an element, counting the blank line that follows a paragraph or dialogue block
+const formattedLinesOf = (element: ScreenplayElement): number => {
+  if (element.type === 'character') return 2;
+  const width = WRAP_WIDTH[element.type] || WRAP_WIDTH.action!;
+  const wrapped = element.text.split('\n').reduce((total, line) => total + Math.max(1, Math.ceil(line.length / width)), 0);
+  return element.type === 'dialogue' || element.type === 'parenthetical' ? wrapped : wrapped + 1;
+};
+
+const suggestShots = (beat: Omit<ScriptBeat, 'suggestedShots'>): number => {
+  let shots = Math.ceil(beat.estimatedSeconds / SECONDS_PER_SHOT[beat.kind]);
+  // Two speakers need at least a shot and a reverse
+  if (beat.kind === 'dialogue' && beat.characters.length > 1) shots = Math.max(shots, 2);
+  if (beat.opensScene) shots += 1;
+  if (beat.emotionalTurn) shots += 1;
+  return Math.min(MAX_SHOTS_PER_BEAT, Math.max(1, shots));
+};
+
+/**
+ * Split a script (plain text or Fountain) into beats. A beat ends at a scene change, when
+ * the script moves between action and dialogue, at an emotional turn in the action, or once
+ * it runs past half a minute.
+ */
+export const segmentScriptBeats = (script: string): ScriptBeat[] => {
+  if (!script.trim()) return [];
+  const drafts: BeatDraft[] = [];
+  let current: BeatDraft | null = null;
+  let parenthetical = '';
+
+  parseFountain(script).scenes.forEach(scene => {
+    let opensScene = true;
+    scene.elements.forEach(source => {
+      if (source.type === 'scene_heading') return;
+      const element = readSpeaker(source);
+      const lines = formattedLinesOf(element);
+      if (element.type === 'transition' || element.type === 'centered') {
+        if (current) current.formattedLines += lines;
+        return;
+      }
+
+      const kind: ScriptBeatKind = ['character', 'parenthetical', 'dialogue'].includes(element.type) ? 'dialogue' : 'action';
+      const turn = element.type === 'character' ? undefined : element.text.match(EMOTIONAL_TURN)?.[1].toLowerCase();
+      const isReaction = current?.kind === 'dialogue' && kind === 'action' && !turn && element.text.length <= REACTION_MAX_CHARS;
+      const isLong = !!current && current.formattedLines / LINES_PER_PAGE * SECONDS_PER_PAGE >= MAX_BEAT_SECONDS;
+      const startsBeat = !current || current.sceneNumber !== scene.number
+        || (current.kind !== kind && !isReaction)
+        || (kind === 'action' && !!turn && current.parts.length > 0)
+        || (isLong && (kind === 'action' || element.type === 'character'));
+
+      if (startsBeat) {
+        current = {
+          kind,
+          sceneNumber: scene.number,
+          sceneHeading: scene.heading || undefined,
+          opensScene,
+          characters: new Set(),
+          parts: [],
+          lines: { ...element.lines },
+          formattedLines: 0
+        };
+        drafts.push(current);
+        opensScene = false;
+      }
+      const beat = current!;
+      if (turn && !beat.emotionalTurn) beat.emotionalTurn = turn;
+      beat.formattedLines += lines;
+      beat.lines.end = Math.max(beat.lines.end, element.lines.end);
+
+      if (element.type === 'parenthetical') {
+        parenthetical = element.text;
+      } else if (element.type === 'dialogue') {
+        if (element.character) beat.characters.add(element.character);
+        beat.parts.push(`${element.character ? `${element.character}: ` : ''}${parenthetical ? `${parenthetical} ` : ''}${element.text}`);
+        parenthetical = '';
+      } else if (element.type !== 'character') {
+        beat.parts.push(element.text);
+      }
+    });
+  });
+
+  return drafts
+    .filter(draft => draft.parts.length > 0)
+    .map((draft, index) => {
+      const beat = {
+        number: index + 1,
+        kind: draft.kind,
+        sceneNumber: draft.sceneNumber,
+        sceneHeading: draft.sceneHeading,
+        opensScene: draft.opensScene,
+        emotionalTurn: draft.emotionalTurn,
+        characters: Array.from(draft.characters),
+        text: draft.parts.join(' ').replace(/\s+/g, ' ').trim(),
+        lines: draft.lines,
+        estimatedSeconds: Math.max(1, Math.round(draft.formattedLines / LINES_PER_PAGE * SECONDS_PER_PAGE))
+      };
+      return { ...beat, suggestedShots: suggestShots(beat) };
+    });
+};
+
+export const summarizeBeats = (beats: ScriptBeat[]): BeatSummary => ({
+  beats: beats.length,
+  estimatedSeconds: beats.reduce((total, beat) => total + beat.estimatedSeconds, 0),
+  suggestedShots: beats.reduce((total, beat) => total + beat.suggestedShots, 0)
+});
+
+export const describeBeat = (beat: ScriptBeat): string =>
+  beat.opensScene && beat.sceneHeading ? `${beat.sceneHeading}. ${beat.text}` : beat.text;
+
+/**
+ * Spread a fixed number of shots over the beats in proportion to their suggested shots.
+ * With fewer shots than beats, neighbouring beats share a shot instead of being dropped.
+ */
+export const planBeatShots = (beats: ScriptBeat[], totalShots: number): BeatShot[] => {
+  if (beats.length === 0 || totalShots <= 0) return [];
+  const weight = beats.reduce((total, beat) => total + beat.suggestedShots, 0);
+
+  if (totalShots >= beats.length) {
+    // Every beat gets a shot; the rest go by largest remainder
+    const exact = beats.map(beat => beat.suggestedShots / weight * totalShots);
+    const counts = exact.map(value => Math.max(1, Math.floor(value)));
+    let remaining = totalShots - counts.reduce((total, count) => total + count, 0);
+    while (remaining !== 0) {
+      const candidates = counts.map((_, index) => index).filter(index => remaining > 0 || counts[index] > 1);
+      const pick = candidates.reduce((best, index) =>
+        (exact[index] - counts[index]) * Math.sign(remaining) > (exact[best] - counts[best]) * Math.sign(remaining) ? index : best
+      );
+      counts[pick] += Math.sign(remaining);
+      remaining -= Math.sign(remaining);
+    }
+    return beats.flatMap((beat, index) =>
+      Array.from({ length: counts[index] }, () => ({ beatNumbers: [beat.number], description: describeBeat(beat) }))
+    );
+  }
+
+  const groups: ScriptBeat[][] = [];
+  let group: ScriptBeat[] = [];
+  let covered = 0;
+  beats.forEach((beat, index) => {
+    group.push(beat);
+    covered += beat.suggestedShots;
+    const beatsLeft = beats.length - index - 1;
+    const groupsLeft = totalShots - groups.length - 1;
+    if (groupsLeft > 0 && (covered >= (groups.length + 1) / totalShots * weight || beatsLeft === groupsLeft)) {
+      groups.push(group);
+      group = [];
+    }
+  });
+  groups.push(group);
+
+  return groups.map(members => ({
+    beatNumbers: members.map(beat => beat.number),
+    description: members.map(describeBeat).join(' ')
+  }));
+};
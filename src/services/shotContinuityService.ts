@@ -0,0 +1,106 @@
+/**
+ * Shot Continuity Service
+ * Resolves the seed, style references and character reference each shot generates with,
+ * following its seed rule: its own seed, the previous shot's in the same scene, or a
+ * character's locked seed
+ */
+
+import { AnyTimelineItem, CharacterProfile, SeedRule, ShotContinuity, ShotItem } from '../types';
+import { AdapterShotData } from './modelAdapterService';
+
+export interface ResolvedContinuity {
+  seed?: number;
+  /** Where the seed came from; `none` when the shot has no seed at all */
+  seedSource: SeedRule | 'none';
+  /** The shot or character the seed was taken from */
+  seedFrom?: string;
+  styleReferences: string[];
+  characterReference?: string;
+}
+
+// Midjourney and Stable Diffusion both take unsigned 32-bit seeds
+export const MAX_SEED = 4294967295;
+
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/** A seed typed into a field, kept in range; blank clears it */
+export const parseSeed = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Math.min(MAX_SEED, Math.max(0, Math.floor(Number(value)) || 0));
+
+/**
+ * The seed rule the builder's continuity answers ask for
+ */
+export const builderSeedRule = (seedLinking: string, continuityMode: string): SeedRule =>
+  /previous|link|inherit|same/i.test(seedLinking) || /tight|strict|lock/i.test(continuityMode) ? 'scene' : 'own';
+
+/**
+ * Continuity for a new shot: a seed of its own, used whenever the rule has nothing to inherit
+ */
+export const startContinuity = (seedRule: SeedRule = 'own'): ShotContinuity => ({ seed: randomSeed(), seedRule });
+
+// B-roll cuts away inside a scene; a transition, a title card or another location starts a new one
+const previousShotInScene = (items: AnyTimelineItem[], index: number): ShotItem | undefined => {
+  const shot = items[index] as ShotItem;
+  for (let i = index - 1; i >= 0; i--) {
+    const candidate = items[i];
+    if (candidate.type === 'b-roll') continue;
+    if (candidate.type !== 'shot' || candidate.locationId !== shot.locationId) return undefined;
+    return candidate;
+  }
+  return undefined;
+};
+
+/**
+ * What the shot generates with once its seed rule is applied. Style and character references
+ * set on the shot win over inherited ones.
+ */
+export const resolveShotContinuity = (items: AnyTimelineItem[], id: string, characters: CharacterProfile[]): ResolvedContinuity => {
+  const index = items.findIndex(item => item.id === id);
+  const shot = items[index];
+  if (!shot || shot.type !== 'shot') return { seedSource: 'none', styleReferences: [] };
+
+  const continuity = shot.continuity || {};
+  const styleReferences = (continuity.styleReferences || []).map(reference => reference.trim()).filter(Boolean);
+  const characterReference = continuity.characterReference?.trim() || undefined;
+  const own: ResolvedContinuity = {
+    seed: continuity.seed,
+    seedSource: continuity.seed === undefined ? 'none' : 'own',
+    styleReferences,
+    characterReference
+  };
+
+  if (continuity.seedRule === 'character') {
+    const character = characters.find(candidate => candidate.id === continuity.seedCharacterId);
+    if (!character) return own;
+    const locked = character.lockedSeed !== undefined;
+    return {
+      ...own,
+      ...(locked ? { seed: character.lockedSeed, seedSource: 'character' as const, seedFrom: character.name } : {}),
+      characterReference: characterReference || character.referenceImage?.trim() || undefined
+    };
+  }
+
+  if (continuity.seedRule === 'scene') {
+    const previous = previousShotInScene(items, index);
+    const inherited = previous && resolveShotContinuity(items, previous.id, characters);
+    if (!inherited || inherited.seed === undefined) return own;
+    return {
+      seed: inherited.seed,
+      seedSource: 'scene',
+      seedFrom: `Shot ${previous.data.shotNumber}`,
+      styleReferences: styleReferences.length > 0 ? styleReferences : inherited.styleReferences,
+      characterReference: characterReference || inherited.characterReference
+    };
+  }
+
+  return own;
+};
+
+/**
+ * The continuity parameters in the form model adapters fill their flags from
+ */
+export const continuityAdapterData = (resolved: ResolvedContinuity): Pick<AdapterShotData, 'seed' | 'styleReference' | 'characterReference'> => ({
+  seed: resolved.seed,
+  styleReference: resolved.styleReferences.join(' ') || undefined,
+  characterReference: resolved.characterReference
+});
@@ -1,10 +1,6 @@
-import { GoogleGenAI } from "@google/genai";
 import { geminiLogger } from '../lib/logger';
 import { handleAIServiceError, sanitizeErrorMessage } from '../lib/errorHandler';
-import { API_CONFIG } from '../constants';
-
-// Initialize the Gemini AI client
-const ai = new GoogleGenAI(API_CONFIG.GEMINI_API_KEY);
+import { aiProviderService } from './aiProviderService';
 
 /**
  * Story-focused service for narrative ideation
@@ -19,8 +15,9 @@ const ai = new GoogleGenAI(API_CONFIG.GEMINI_API_KEY);
  */
 export const generateStoryFromIdea = async (idea: string): Promise<string[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.0-flash-exp',
+        const response = await aiProviderService.generateContent({
+            tier: 'fast',
+            feature: 'generateStoryFromIdea',
             contents: `Based on this cinematic concept: "${idea}"
 
 Generate 3-5 creative scene descriptions that expand this idea into vivid, director-level prompts. Each should be 1-2 sentences and capture mood, character, and visual atmosphere. Focus on narrative elements, story beats, character development, and emotional arcs. Format them as separate paragraphs, separated by a double newline.
@@ -50,8 +47,9 @@ Feel free to explore:
  */
 export const generateCharacterDevelopment = async (character: string, context: string): Promise<string[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.0-flash-exp',
+        const response = await aiProviderService.generateContent({
+            tier: 'fast',
+            feature: 'generateCharacterDevelopment',
             contents: `Based on this character: "${character}"
 
 Context: ${context}
@@ -82,8 +80,9 @@ Format as separate paragraphs with actionable narrative insights.`,
  */
 export const generatePlotDevelopment = async (currentPlot: string, desiredOutcome: string): Promise<string[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.0-flash-exp',
+        const response = await aiProviderService.generateContent({
+            tier: 'fast',
+            feature: 'generatePlotDevelopment',
             contents: `Current plot situation: "${currentPlot}"
 
 Desired outcome: "${desiredOutcome}"
@@ -114,8 +113,9 @@ Format as separate paragraphs with specific narrative direction.`,
  */
 export const generateThematicExploration = async (theme: string, storyContext: string): Promise<string[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.0-flash-exp',
+        const response = await aiProviderService.generateContent({
+            tier: 'fast',
+            feature: 'generateThematicExploration',
             contents: `Theme to explore: "${theme}"
 
 Story context: ${storyContext}
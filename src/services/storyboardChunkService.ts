@@ -0,0 +1,373 @@
+/**
+ * Storyboard Chunk Service
+ * Splits long scripts on scene headings, storyboards each chunk with its neighbouring scenes
+ * as continuity context, and merges the results into one ordered shot list
+ */
+
+import { ScriptLineRange, StoryboardShot } from '../types';
+import { generateStoryboard } from './geminiService';
+import { tokenBudgetingSystem, estimateTextTokens } from './tokenBudgetService';
+import { isAbortError, throwIfAborted } from './aiSchedulerService';
+import { ScreenplayDocument, ScreenplayElement, STRUCTURED_SCRIPT_NOTE, findScriptElement, renderScreenplayScene, stripElementTag } from '../utils/screenplay';
+import { parseFountain } from '../utils/fountain';
+import { geminiLogger } from '../lib/logger';
+
+/** How the script text is read: free text split on headings, or a Fountain screenplay */
+export type ScriptFormat = 'plain' | 'fountain';
+
+/** Script text, or a screenplay an importer has already parsed */
+export type ScriptSource = string | ScreenplayDocument;
+
+export interface ScriptScene {
+  number: number;
+  /** The script's own scene number, e.g. `12A` */
+  label?: string;
+  heading: string;
+  text: string;
+  /** Parsed elements and source lines, for structured scripts */
+  elements?: ScreenplayElement[];
+  lines?: ScriptLineRange;
+}
+
+export type StoryboardChunkStatus = 'pending' | 'generating' | 'completed' | 'failed';
+
+export interface StoryboardChunk {
+  id: string;
+  index: number;
+  scenes: ScriptScene[];
+  text: string;
+  continuity: { previous?: string; next?: string };
+  status: StoryboardChunkStatus;
+  shots: StoryboardShot[];
+  error?: string;
+}
+
+export interface ChunkedStoryboard {
+  style: 'cinematic' | 'explainer';
+  customInstructions: string;
+  format?: ScriptFormat;
+  chunks: StoryboardChunk[];
+}
+
+export interface ChunkedStoryboardOptions {
+  bypassCache?: boolean;
+  maxChunkChars?: number;
+  concurrency?: number;
+  format?: ScriptFormat;
+  /** Stops the run; chunks that didn't finish go back to pending and the promise rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Called with a fresh snapshot whenever a shot streams in or a chunk changes status */
+  onUpdate?: (storyboard: ChunkedStoryboard) => void;
+}
+
+// Roughly a page and a half of screenplay, which fits comfortably in one 4096-token response
+export const DEFAULT_MAX_CHUNK_CHARS = 3000;
+const CONTINUITY_BEFORE_CHARS = 600;
+const CONTINUITY_AFTER_CHARS = 300;
+// Instructions and schema wrapped around each chunk's script text
+const PROMPT_OVERHEAD_TOKENS = 120;
+
+const SCENE_HEADING = /^\s*(?:\d+[A-Z]?\s+)?(?:INT\.?\/EXT\.?|EXT\.?\/INT\.?|I\/E\.?|INT\.|EXT\.)\s/i;
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const isStructured = (script: ScriptSource, format: ScriptFormat): boolean =>
+  typeof script !== 'string' || format === 'fountain';
+
+/**
+ * Split a script into scenes on INT./EXT. headings. Text before the first heading
+ * belongs to scene 1; a script without headings is a single scene. Structured scenes
+ * (Fountain or imported) carry their parsed elements, and their text is the tagged
+ * rendering the model sees.
+ */
+export const splitScriptIntoScenes = (script: ScriptSource, format: ScriptFormat = 'plain'): ScriptScene[] => {
+  if (isStructured(script, format)) {
+    const document = typeof script === 'string' ? parseFountain(script) : script;
+    return document.scenes.map(scene => ({
+      number: scene.number,
+      label: scene.label,
+      heading: scene.heading,
+      text: renderScreenplayScene(scene),
+      elements: scene.elements,
+      lines: scene.lines
+    }));
+  }
+  const text = script as string;
+
+  const scenes: ScriptScene[] = [];
+  let preamble: string[] = [];
+  let current: { heading: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const text = current.lines.join('\n').trim();
+    if (text) scenes.push({ number: scenes.length + 1, heading: current.heading, text });
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    if (SCENE_HEADING.test(line)) {
+      flush();
+      current = { heading: line.trim(), lines: [...preamble, line] };
+      preamble = [];
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  });
+  flush();
+
+  if (scenes.length === 0 && text.trim()) {
+    return [{ number: 1, heading: '', text: text.trim() }];
+  }
+  return scenes;
+};
+
+/**
+ * Break text longer than the limit on paragraph, then line, boundaries
+ */
+const splitOversizedText = (text: string, maxChars: number): string[] => {
+  const units = text.split(/\n\s*\n/).flatMap(paragraph =>
+    paragraph.length <= maxChars
+      ? [paragraph]
+      : paragraph.split('\n').flatMap(line => {
+          const pieces: string[] = [];
+          for (let i = 0; i < line.length; i += maxChars) pieces.push(line.slice(i, i + maxChars));
+          return pieces;
+        })
+  );
+
+  const parts: string[] = [];
+  let current = '';
+  units.forEach(unit => {
+    if (current && current.length + unit.length + 2 > maxChars) {
+      parts.push(current);
+      current = unit;
+    } else {
+      current = current ? `${current}\n\n${unit}` : unit;
+    }
+  });
+  if (current) parts.push(current);
+  return parts;
+};
+
+/**
+ * Group consecutive scenes into chunks under the size limit, each with continuity context
+ */
+export const buildStoryboardChunks = (
+  script: ScriptSource,
+  maxChars: number = DEFAULT_MAX_CHUNK_CHARS,
+  format: ScriptFormat = 'plain'
+): StoryboardChunk[] => {
+  const pieces = splitScriptIntoScenes(script, format).flatMap(scene =>
+    scene.text.length <= maxChars
+      ? [scene]
+      : splitOversizedText(scene.text, maxChars).map(text => ({ ...scene, text }))
+  );
+
+  const groups: ScriptScene[][] = [];
+  let size = 0;
+  pieces.forEach(piece => {
+    const group = groups[groups.length - 1];
+    if (group && size + piece.text.length + 2 <= maxChars) {
+      group.push(piece);
+      size += piece.text.length + 2;
+    } else {
+      groups.push([piece]);
+      size = piece.text.length;
+    }
+  });
+
+  const texts = groups.map(group => group.map(scene => scene.text).join('\n\n'));
+  return groups.map((scenes, index) => ({
+    id: `chunk-${index + 1}`,
+    index,
+    scenes,
+    text: isStructured(script, format) ? `${STRUCTURED_SCRIPT_NOTE}\n\n${texts[index]}` : texts[index],
+    continuity: {
+      previous: index > 0 ? texts[index - 1].slice(-CONTINUITY_BEFORE_CHARS) : undefined,
+      next: index < texts.length - 1 ? texts[index + 1].slice(0, CONTINUITY_AFTER_CHARS) : undefined
+    },
+    status: 'pending' as StoryboardChunkStatus,
+    shots: []
+  }));
+};
+
+/**
+ * Tag shots with the scene their screenplay line comes from. Scenes only move forward,
+ * and a shot whose line can't be found stays in the previous shot's scene.
+ */
+export const assignSceneNumbers = (chunk: StoryboardChunk, shots: StoryboardShot[]): StoryboardShot[] => {
+  if (chunk.scenes.some(scene => scene.elements)) {
+    return assignScriptElements(chunk, shots);
+  }
+  const sceneTexts = chunk.scenes.map(scene => normalize(scene.text));
+  let sceneIndex = 0;
+
+  return shots.map(shot => {
+    const key = normalize(shot.screenplayLine || '').slice(0, 40);
+    if (key) {
+      const found = sceneTexts.findIndex((text, index) => index >= sceneIndex && text.includes(key));
+      if (found !== -1) sceneIndex = found;
+    }
+    const scene = chunk.scenes[sceneIndex];
+    return { ...shot, sceneNumber: scene.number, sceneHeading: scene.heading || undefined };
+  });
+};
+
+/**
+ * Map shots of a parsed script to the element each one quotes, giving them the
+ * element's scene, type and source lines
+ */
+const assignScriptElements = (chunk: StoryboardChunk, shots: StoryboardShot[]): StoryboardShot[] => {
+  const located = chunk.scenes.flatMap(scene => (scene.elements || []).map(element => ({ scene, element })));
+  const elements = located.map(entry => entry.element);
+  let position = 0;
+
+  return shots.map(shot => {
+    const found = findScriptElement(shot.screenplayLine, elements, position);
+    if (found !== -1) position = found;
+    const { scene, element } = located[position] || { scene: chunk.scenes[0], element: undefined };
+    return {
+      ...shot,
+      screenplayLine: stripElementTag(shot.screenplayLine || ''),
+      sceneNumber: scene.number,
+      sceneLabel: scene.label,
+      sceneHeading: scene.heading || undefined,
+      scriptElement: found !== -1 ? element.type : undefined,
+      scriptLines: found !== -1 ? { ...element.lines } : undefined,
+      scriptRevision: found !== -1 ? element.revision : undefined,
+      scriptPage: found !== -1 ? element.page : undefined
+    };
+  });
+};
+
+/**
+ * All shots in script order
+ */
+export const mergeChunkShots = (storyboard: ChunkedStoryboard): StoryboardShot[] =>
+  storyboard.chunks.flatMap(chunk => chunk.shots);
+
+/**
+ * Replace one chunk's shots inside a merged list that may have been edited since,
+ * leaving every other shot untouched
+ */
+export const spliceChunkShots = (
+  shots: StoryboardShot[],
+  before: ChunkedStoryboard,
+  chunkId: string,
+  replacement: StoryboardShot[]
+): StoryboardShot[] => {
+  const index = before.chunks.findIndex(chunk => chunk.id === chunkId);
+  if (index === -1) return shots;
+  const offset = before.chunks.slice(0, index).reduce((count, chunk) => count + chunk.shots.length, 0);
+  return [...shots.slice(0, offset), ...replacement, ...shots.slice(offset + before.chunks[index].shots.length)];
+};
+
+/**
+ * Expected calls and tokens for storyboarding a script, for budget checks before starting
+ */
+export const estimateStoryboardUsage = (
+  script: ScriptSource,
+  style: 'cinematic' | 'explainer' = 'cinematic',
+  maxChars: number = DEFAULT_MAX_CHUNK_CHARS,
+  format: ScriptFormat = 'plain'
+): { calls: number; promptTokens: number; outputTokens: number } => {
+  const chunks = buildStoryboardChunks(script, maxChars, format);
+  return chunks.reduce((total, chunk) => ({
+    calls: total.calls + 1,
+    promptTokens: total.promptTokens + PROMPT_OVERHEAD_TOKENS
+      + estimateTextTokens(`${chunk.text}${chunk.continuity.previous || ''}${chunk.continuity.next || ''}`),
+    outputTokens: total.outputTokens + tokenBudgetingSystem.estimateTokens(chunk.text, style)
+  }), { calls: 0, promptTokens: 0, outputTokens: 0 });
+};
+
+const snapshot = (storyboard: ChunkedStoryboard): ChunkedStoryboard => ({
+  ...storyboard,
+  chunks: storyboard.chunks.map(chunk => ({ ...chunk, shots: [...chunk.shots] }))
+});
+
+class StoryboardChunkService {
+  private readonly DEFAULT_CONCURRENCY = 2;
+
+  /**
+   * Storyboard a whole script chunk by chunk. Failed chunks are marked rather than thrown,
+   * so they can be retried on their own. Cancellation is the one error that is thrown.
+   */
+  async generate(
+    script: ScriptSource,
+    style: 'cinematic' | 'explainer' = 'cinematic',
+    customInstructions: string = '',
+    options: ChunkedStoryboardOptions = {}
+  ): Promise<ChunkedStoryboard> {
+    const storyboard: ChunkedStoryboard = {
+      style,
+      customInstructions,
+      format: options.format || 'plain',
+      chunks: buildStoryboardChunks(script, options.maxChunkChars, options.format)
+    };
+    geminiLogger.info(`Storyboarding script in ${storyboard.chunks.length} chunks`);
+    options.onUpdate?.(snapshot(storyboard));
+
+    const queue = [...storyboard.chunks];
+    const worker = async () => {
+      while (queue.length > 0) {
+        throwIfAborted(options.signal);
+        await this.generateChunk(storyboard, queue.shift()!, options);
+      }
+    };
+    const concurrency = Math.max(1, options.concurrency ?? this.DEFAULT_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+    return snapshot(storyboard);
+  }
+
+  /**
+   * Regenerate a single chunk, leaving the rest of the storyboard as it is
+   */
+  async retryChunk(storyboard: ChunkedStoryboard, chunkId: string, options: ChunkedStoryboardOptions = {}): Promise<ChunkedStoryboard> {
+    const working = snapshot(storyboard);
+    const chunk = working.chunks.find(candidate => candidate.id === chunkId);
+    if (!chunk) {
+      throw new Error(`Unknown storyboard chunk: ${chunkId}`);
+    }
+    await this.generateChunk(working, chunk, options);
+    return snapshot(working);
+  }
+
+  private async generateChunk(storyboard: ChunkedStoryboard, chunk: StoryboardChunk, options: ChunkedStoryboardOptions): Promise<void> {
+    chunk.status = 'generating';
+    chunk.shots = [];
+    chunk.error = undefined;
+    options.onUpdate?.(snapshot(storyboard));
+
+    const streamed: StoryboardShot[] = [];
+    try {
+      const shots = await generateStoryboard(chunk.text, storyboard.style, storyboard.customInstructions, {
+        bypassCache: options.bypassCache,
+        signal: options.signal,
+        continuity: chunk.continuity,
+        onShot: shot => {
+          streamed.push(shot);
+          chunk.shots = assignSceneNumbers(chunk, streamed);
+          options.onUpdate?.(snapshot(storyboard));
+        }
+      });
+      chunk.shots = assignSceneNumbers(chunk, shots);
+      chunk.status = 'completed';
+    } catch (error) {
+      if (isAbortError(error)) {
+        chunk.status = 'pending';
+        chunk.shots = [];
+        options.onUpdate?.(snapshot(storyboard));
+        throw error;
+      }
+      geminiLogger.error(`Storyboard ${chunk.id} failed:`, error);
+      chunk.status = 'failed';
+      chunk.error = error instanceof Error ? error.message : 'Storyboard generation failed.';
+    }
+    options.onUpdate?.(snapshot(storyboard));
+  }
+}
+
+export const storyboardChunkService = new StoryboardChunkService();
@@ -0,0 +1,419 @@
+/**
+ * Token Budget Service
+ * Token estimation, per-project accounting of actual AI usage and cost, and budget caps
+ */
+
+import { geminiLogger } from '../lib/logger';
+import { projectService } from './projectService';
+
+export interface AIUsageRecord {
+    id: string;
+    projectId: string;
+    feature: string;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    outputTokens: number;
+    /** True when the provider did not report usage and tokens were estimated from text length */
+    estimated: boolean;
+    latencyMs: number;
+    costUsd: number;
+    success: boolean;
+    timestamp: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    latencyMs: number;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    today: UsageTotals;
+    daily: Array<{ date: string } & UsageTotals>;
+    byFeature: Array<{ feature: string } & UsageTotals>;
+}
+
+export interface BudgetSettings {
+    dailyTokenLimit: number | null;
+    dailyCostLimitUsd: number | null;
+    perCallTokenLimit: number | null;
+    /** Whether going over a cap only warns or refuses the call */
+    mode: 'warn' | 'block';
+}
+
+export interface BudgetCheck {
+    level: 'ok' | 'warn' | 'block';
+    message?: string;
+    projectedTokens: number;
+    projectedCostUsd: number;
+}
+
+export type BudgetWarningListener = (message: string) => void;
+
+export class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export const DEFAULT_BUDGET: BudgetSettings = {
+    dailyTokenLimit: null,
+    dailyCostLimitUsd: null,
+    perCallTokenLimit: null,
+    mode: 'warn'
+};
+
+/**
+ * USD per million tokens. Matched by longest model-id prefix; unknown models cost nothing.
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-flash-lite': { input: 0.1, output: 0.4 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 }
+};
+
+// Share of a daily cap at which calls start warning
+const APPROACHING_LIMIT_RATIO = 0.8;
+const MAX_STORED_RECORDS = 5000;
+
+/**
+ * Rough token count for text (about four characters per token)
+ */
+export const estimateTextTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+export const estimateCost = (provider: string, model: string, promptTokens: number, outputTokens: number): number => {
+    if (provider === 'ollama') return 0;
+    const key = Object.keys(MODEL_PRICING)
+        .filter(prefix => model.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+    if (!key) return 0;
+    const pricing = MODEL_PRICING[key];
+    return (promptTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failures: 0, promptTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 });
+
+const addToTotals = (totals: UsageTotals, record: AIUsageRecord): UsageTotals => ({
+    calls: totals.calls + 1,
+    failures: totals.failures + (record.success ? 0 : 1),
+    promptTokens: totals.promptTokens + record.promptTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    costUsd: totals.costUsd + record.costUsd,
+    latencyMs: totals.latencyMs + record.latencyMs
+});
+
+const toDateKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Dynamic Token Budgeting System for Optimized API Usage
+ */
+class TokenBudgetingSystem {
+    MIN_TOKENS: number;
+    MAX_TOKENS: number;
+    SAFE_MARGIN: number;
+    complexityMultipliers: Record<string, number>;
+    performanceHistory: Map<string, UsageTotals>;
+    successPatterns: Map<string, { calls: number; promptTokens: number; outputTokens: number; peakOutputTokens: number }>;
+    private readonly USAGE_KEY = 'dreamer_ai_usage';
+    private readonly BUDGET_KEY = 'dreamer_ai_budgets';
+    private records: AIUsageRecord[] | null = null;
+    private budgets: Record<string, BudgetSettings> | null = null;
+    private warningListeners = new Set<BudgetWarningListener>();
+
+    constructor() {
+        this.MIN_TOKENS = 1024;
+        this.MAX_TOKENS = 4096;
+        this.SAFE_MARGIN = 0.85;
+
+        // Complexity multipliers (optimized for storyboard generation)
+        this.complexityMultipliers = {
+            'cinematic': 1.2,    // Reduced from 1.4 for efficiency
+            'explainer': 0.7     // Simple, clear content
+        };
+
+        // Performance tracking, rebuilt from the persisted usage log
+        this.performanceHistory = new Map();
+        this.successPatterns = new Map();
+    }
+
+    /**
+     * Intelligent token estimation based on script length and complexity
+     */
+    estimateTokens(script, style = 'explainer') {
+        if (!script || script.trim().length === 0) {
+            return 2048; // Default for empty scripts
+        }
+
+        // Base estimation: measured output/prompt ratio once enough storyboards have been recorded,
+        // otherwise tokens per character
+        const scriptLength = script.length;
+        const observedRatio = this.getObservedOutputRatio('generateStoryboard');
+        const baseTokens = observedRatio ? estimateTextTokens(script) * observedRatio : scriptLength * 0.5;
+
+        // Apply style complexity multiplier
+        const multiplier = this.complexityMultipliers[style] || 1.0;
+        const adjustedTokens = baseTokens * multiplier;
+
+        // Add prompt overhead (estimated 64 tokens for optimized prompts)
+        const promptOverhead = 64;
+        const totalEstimate = adjustedTokens + promptOverhead;
+
+        // Apply safety margin and bounds
+        const finalEstimate = Math.min(
+            Math.max(totalEstimate * this.SAFE_MARGIN, this.MIN_TOKENS),
+            this.MAX_TOKENS
+        );
+
+        return Math.floor(finalEstimate);
+    }
+
+    /**
+     * Smart retry logic with controlled token reduction
+     */
+    calculateRetryTokens(attempt, lastError, currentTokens) {
+        if (attempt >= 4) return null; // Max 3 retries
+
+        if (this.isTokenLimitError(lastError)) {
+            const reductionFactors = [0.8, 0.6, 0.4]; // 20%, 40%, 60% reduction
+            const reductionFactor = reductionFactors[attempt - 1] || 0.4;
+            const newTokens = Math.floor(currentTokens * reductionFactor);
+
+            return {
+                shouldRetry: true,
+                tokens: Math.max(newTokens, this.MIN_TOKENS),
+                reason: `Token limit - reduced by ${(1 - reductionFactor) * 100}%`
+            };
+        }
+
+        return null;
+    }
+
+    isTokenLimitError(error) {
+        return error.message && (
+            error.message.includes('429') ||
+            error.message.includes('resource exhausted') ||
+            error.message.includes('token limit') ||
+            error.message.includes('quota exceeded')
+        );
+    }
+
+    /**
+     * Average output tokens per prompt token over successful, provider-reported calls
+     */
+    getObservedOutputRatio(feature: string): number | null {
+        this.loadRecords();
+        const pattern = this.successPatterns.get(feature);
+        if (!pattern || pattern.calls < 3 || pattern.promptTokens === 0) return null;
+        return pattern.outputTokens / pattern.promptTokens;
+    }
+
+    /**
+     * Record one AI call. Cost is derived from the model's pricing.
+     */
+    recordUsage(usage: Omit<AIUsageRecord, 'id' | 'costUsd' | 'projectId' | 'timestamp'> & { projectId?: string; timestamp?: number }): AIUsageRecord {
+        const record: AIUsageRecord = {
+            ...usage,
+            id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            projectId: usage.projectId ?? projectService.getActiveProjectId(),
+            timestamp: usage.timestamp ?? Date.now(),
+            costUsd: estimateCost(usage.provider, usage.model, usage.promptTokens, usage.outputTokens)
+        };
+
+        const records = this.loadRecords();
+        records.push(record);
+        if (records.length > MAX_STORED_RECORDS) {
+            records.splice(0, records.length - MAX_STORED_RECORDS);
+        }
+        this.track(record);
+        this.saveRecords();
+        return record;
+    }
+
+    /**
+     * Usage records for a project, oldest first
+     */
+    getUsage(projectId: string = projectService.getActiveProjectId()): AIUsageRecord[] {
+        return this.loadRecords().filter(record => record.projectId === projectId);
+    }
+
+    /**
+     * Daily and per-feature totals for a project
+     */
+    summarize(projectId: string = projectService.getActiveProjectId()): UsageSummary {
+        const daily = new Map<string, UsageTotals>();
+        const byFeature = new Map<string, UsageTotals>();
+        const todayKey = toDateKey(Date.now());
+        let totals = emptyTotals();
+
+        this.getUsage(projectId).forEach(record => {
+            const dateKey = toDateKey(record.timestamp);
+            totals = addToTotals(totals, record);
+            daily.set(dateKey, addToTotals(daily.get(dateKey) || emptyTotals(), record));
+            byFeature.set(record.feature, addToTotals(byFeature.get(record.feature) || emptyTotals(), record));
+        });
+
+        return {
+            totals,
+            today: daily.get(todayKey) || emptyTotals(),
+            daily: Array.from(daily.entries())
+                .map(([date, dayTotals]) => ({ date, ...dayTotals }))
+                .sort((a, b) => b.date.localeCompare(a.date)),
+            byFeature: Array.from(byFeature.entries())
+                .map(([feature, featureTotals]) => ({ feature, ...featureTotals }))
+                .sort((a, b) => (b.promptTokens + b.outputTokens) - (a.promptTokens + a.outputTokens))
+        };
+    }
+
+    clearUsage(projectId: string = projectService.getActiveProjectId()): void {
+        this.records = this.loadRecords().filter(record => record.projectId !== projectId);
+        this.rebuildPatterns();
+        this.saveRecords();
+    }
+
+    getBudget(projectId: string = projectService.getActiveProjectId()): BudgetSettings {
+        return { ...DEFAULT_BUDGET, ...(this.loadBudgets()[projectId] || {}) };
+    }
+
+    saveBudget(budget: BudgetSettings, projectId: string = projectService.getActiveProjectId()): void {
+        const budgets = this.loadBudgets();
+        budgets[projectId] = { ...budget };
+        try {
+            localStorage.setItem(this.BUDGET_KEY, JSON.stringify(budgets));
+        } catch (error) {
+            geminiLogger.warn('Failed to persist AI budget:', error);
+        }
+    }
+
+    /**
+     * Check a planned call (or batch of calls) against the project's caps before sending it
+     */
+    checkBudget(
+        planned: { provider: string; model: string; promptTokens: number; outputTokens: number },
+        projectId: string = projectService.getActiveProjectId()
+    ): BudgetCheck {
+        const budget = this.getBudget(projectId);
+        const projectedTokens = planned.promptTokens + planned.outputTokens;
+        const projectedCostUsd = estimateCost(planned.provider, planned.model, planned.promptTokens, planned.outputTokens);
+        const today = this.summarize(projectId).today;
+        const todayTokens = today.promptTokens + today.outputTokens;
+
+        const exceeded: string[] = [];
+        const approaching: string[] = [];
+
+        if (budget.perCallTokenLimit && projectedTokens > budget.perCallTokenLimit) {
+            exceeded.push(`this call needs ~${projectedTokens.toLocaleString()} tokens (cap ${budget.perCallTokenLimit.toLocaleString()})`);
+        }
+        if (budget.dailyTokenLimit) {
+            const projected = todayTokens + projectedTokens;
+            if (projected > budget.dailyTokenLimit) {
+                exceeded.push(`today's tokens would reach ${projected.toLocaleString()} (cap ${budget.dailyTokenLimit.toLocaleString()})`);
+            } else if (projected > budget.dailyTokenLimit * APPROACHING_LIMIT_RATIO) {
+                approaching.push(`today's tokens would reach ${Math.round((projected / budget.dailyTokenLimit) * 100)}% of the daily cap`);
+            }
+        }
+        if (budget.dailyCostLimitUsd) {
+            const projected = today.costUsd + projectedCostUsd;
+            if (projected > budget.dailyCostLimitUsd) {
+                exceeded.push(`today's spend would reach $${projected.toFixed(2)} (cap $${budget.dailyCostLimitUsd.toFixed(2)})`);
+            } else if (projected > budget.dailyCostLimitUsd * APPROACHING_LIMIT_RATIO) {
+                approaching.push(`today's spend would reach ${Math.round((projected / budget.dailyCostLimitUsd) * 100)}% of the daily cap`);
+            }
+        }
+
+        if (exceeded.length > 0) {
+            return { level: budget.mode, message: `Budget exceeded: ${exceeded.join('; ')}.`, projectedTokens, projectedCostUsd };
+        }
+        if (approaching.length > 0) {
+            return { level: 'warn', message: `Approaching budget: ${approaching.join('; ')}.`, projectedTokens, projectedCostUsd };
+        }
+        return { level: 'ok', projectedTokens, projectedCostUsd };
+    }
+
+    /**
+     * Tell the user a call went ahead past a soft cap
+     */
+    reportWarning(message: string): void {
+        geminiLogger.warn(message);
+        this.warningListeners.forEach(listener => listener(message));
+    }
+
+    /**
+     * Subscribe to soft-cap warnings, e.g. to show them as toasts
+     */
+    onWarning(listener: BudgetWarningListener): () => void {
+        this.warningListeners.add(listener);
+        return () => {
+            this.warningListeners.delete(listener);
+        };
+    }
+
+    private track(record: AIUsageRecord): void {
+        this.performanceHistory.set(record.feature, addToTotals(this.performanceHistory.get(record.feature) || emptyTotals(), record));
+
+        if (record.success && !record.estimated) {
+            const pattern = this.successPatterns.get(record.feature) || { calls: 0, promptTokens: 0, outputTokens: 0, peakOutputTokens: 0 };
+            this.successPatterns.set(record.feature, {
+                calls: pattern.calls + 1,
+                promptTokens: pattern.promptTokens + record.promptTokens,
+                outputTokens: pattern.outputTokens + record.outputTokens,
+                peakOutputTokens: Math.max(pattern.peakOutputTokens, record.outputTokens)
+            });
+        }
+    }
+
+    private rebuildPatterns(): void {
+        this.performanceHistory.clear();
+        this.successPatterns.clear();
+        (this.records || []).forEach(record => this.track(record));
+    }
+
+    private loadRecords(): AIUsageRecord[] {
+        if (this.records) return this.records;
+        this.records = [];
+        try {
+            const data = localStorage.getItem(this.USAGE_KEY);
+            const parsed = data ? JSON.parse(data) : [];
+            this.records = Array.isArray(parsed) ? parsed : [];
+        } catch (error) {
+            // Storage unavailable; keep usage in memory
+        }
+        this.rebuildPatterns();
+        return this.records;
+    }
+
+    private saveRecords(): void {
+        try {
+            localStorage.setItem(this.USAGE_KEY, JSON.stringify(this.records || []));
+        } catch (error) {
+            // Ignore storage errors
+        }
+    }
+
+    private loadBudgets(): Record<string, BudgetSettings> {
+        if (this.budgets) return this.budgets;
+        this.budgets = {};
+        try {
+            const data = localStorage.getItem(this.BUDGET_KEY);
+            const parsed = data ? JSON.parse(data) : {};
+            this.budgets = parsed && typeof parsed === 'object' ? parsed : {};
+        } catch (error) {
+            // Storage unavailable; keep budgets in memory
+        }
+        return this.budgets;
+    }
+}
+
+export const tokenBudgetingSystem = new TokenBudgetingSystem();
@@ -1,5 +1,8 @@
 
 export interface PromptData {
+  /** Scopes per-project settings; unlike the title it never changes */
+  projectId?: string;
+  projectTitle?: string | string[];
   scriptText?: string;
   useScript?: boolean;
   sceneCore: string | string[];
@@ -25,6 +28,8 @@ export interface PromptData {
   continuityMode: string | string[];
   seedLinking: string | string[];
   resolution: string | string[];
+  /** The project's frame, e.g. `2.39:1 Anamorphic widescreen` */
+  aspectRatio?: string | string[];
   outputType: string | string[];
   visualCompositionGuide: string | string[];
   visualCameraSetup: string | string[];
@@ -36,12 +41,63 @@ export interface PromptData {
   visualFocusMotion: string | string[];
 }
 
+/** Builder answers read back out of an existing image prompt */
+export type ImagePromptFields = Partial<Pick<PromptData, 'sceneCore' | 'cameraType' | 'focalLength' | 'depthOfField' | 'lightingStyle' | 'filmStock' | 'colorGrading'>>;
+
+export type QuestionType = 'text' | 'textarea' | 'select' | 'multiselect' | 'number';
+
+/** One step of the prompt builder wizard */
+export interface Question {
+  id: string;
+  /** The progress box the question belongs to, numbered from 1 */
+  phase: number;
+  category: string;
+  question: string;
+  type: QuestionType;
+  options?: string[];
+  placeholder?: string;
+  randomOptions?: string[];
+  /** The `PromptData` field the answer is stored in; the question id when not set */
+  field?: string;
+}
+
+export interface QuestionPhase {
+  phase: number;
+  name: string;
+}
+
+/** A builder wizard: its questions and the phases its progress is shown in */
+export interface QuestionSet {
+  id: string;
+  name: string;
+  description: string;
+  phases: QuestionPhase[];
+  questions: Question[];
+  builtIn?: boolean;
+}
+
 export interface ShotPrompt {
   shotNumber: number;
   prompt: string;
   originalPrompt: string; // Added for version control
   description: string;
   role: string;
+  /** Every version the prompt has had, as a tree through `parentId` */
+  versions?: PromptVersion[];
+  /** The version `prompt` was last saved as; new versions branch from it */
+  versionId?: string;
+}
+
+/** Where a prompt version came from */
+export type PromptVersionSource = 'original' | 'builder' | 'storyboard' | 'coverage' | 'manual' | 'enhance' | 'visuals';
+
+export interface PromptVersion {
+  id: string;
+  /** The version this one was made from; null for the first */
+  parentId: string | null;
+  prompt: string;
+  source: PromptVersionSource;
+  timestamp: number;
 }
 
 export interface SavedConfiguration {
@@ -79,11 +135,46 @@ export interface CompositionCharacter {
     name: string;
     x: number;
     y: number;
+    /** Character bible entry this marker stands for */
+    characterId?: string;
+}
+
+/** A recurring character, described the same way in every shot prompt */
+export interface CharacterProfile {
+    id: string;
+    name: string;
+    age: string;
+    appearance: string;
+    wardrobe: string;
+    /** Signature props the character is always seen with */
+    props: string[];
+    /** Where the character was first found */
+    source: 'script' | 'ideation' | 'manual';
+    /** Seed every shot locked to this character generates with */
+    lockedSeed?: number;
+    /** Image models keep the character's look consistent against */
+    referenceImage?: string;
+}
+/** Where the camera stands on the stage and the point it faces */
+export interface StageCamera {
+  x: number;
+  y: number;
+  target: { x: number; y: number };
+}
+
+/** The 180-degree line between two stage markers */
+export interface ActionLine {
+  characterIds: [string, string];
+  /** Side of the line, looking from the first marker to the second, that cameras stay on */
+  side: 1 | -1;
 }
+
 export interface CompositionData {
   characters: CompositionCharacter[];
   cameraAngle: string;
   cameraHeight: string;
+  camera?: StageCamera;
+  actionLine?: ActionLine;
 }
 
 export interface LightingData {
@@ -115,6 +206,84 @@ export interface CameraMovementData {
   duration: number;
   easing: string;
   focalLength: number;
+  /** Catalogue camera body; full frame is assumed without one */
+  cameraBodyId?: string;
+  /** Catalogue lens set the focal length comes from */
+  lensSetId?: string;
+}
+
+/** A cinema camera body. Sensor sizes are the recording area in millimetres. */
+export interface CameraBody {
+  id: string;
+  name: string;
+  format: string;
+  sensorWidth: number;
+  sensorHeight: number;
+}
+
+/** A matched set of cinema lenses */
+export interface LensSet {
+  id: string;
+  name: string;
+  focalLengths: number[];
+  /** Diameter of the image the lenses project, in millimetres */
+  imageCircle: number;
+  /** Horizontal squeeze of anamorphic lenses */
+  squeeze?: number;
+}
+
+export type LocationSetting = 'INT' | 'EXT' | 'INT/EXT';
+
+/** A location or set shared by every shot that plays there */
+export interface LocationProfile {
+  id: string;
+  name: string;
+  setting: LocationSetting;
+  /** As written in the scene heading, e.g. `Night`; empty when the heading doesn't say */
+  timeOfDay: string;
+  architecture: string;
+  styleNotes: string;
+  /** Reference colors, hex or named */
+  palette: string[];
+  /** Default look for shots at this location */
+  lighting?: LightingData;
+  color?: ColorGradingData;
+  source: 'script' | 'manual';
+}
+
+export interface PromptLengthLimit {
+  max: number;
+  unit: 'characters' | 'tokens';
+}
+
+/**
+ * How prompts are written for one image model. Templates use `{placeholders}`; parameters
+ * whose placeholder has no value for the shot are left out.
+ */
+export interface ModelAdapterProfile {
+  id: string;
+  name: string;
+  description: string;
+  website?: string;
+  /** Before the prompt, e.g. `/imagine prompt:` */
+  prefix: string;
+  /** After the prompt, e.g. `, high quality, 8k resolution` */
+  suffix: string;
+  /** How avoided terms are written, with `{terms}`, e.g. ` --no {terms}`; empty when the model takes none */
+  negativeTemplate: string;
+  /** Avoided terms added to every prompt */
+  negativeTerms: string[];
+  /** How an emphasised term is written, with `{term}` and `{weight}`, e.g. `({term}:{weight})`; empty for plain terms */
+  weightTemplate: string;
+  /** Parameters built from the shot: `{aspectRatio}`, `{seed}`, `{stylize}`, `{styleReference}` */
+  parameters: string[];
+  /** Lines after the negative prompt, filled the same way, e.g. Stable Diffusion's `Seed: {seed}` */
+  settingsLines?: string[];
+  /** Default `{stylize}` value */
+  stylize?: number;
+  promptLimit?: PromptLengthLimit;
+  /** Shipped with the app; removing it restores the shipped version */
+  builtIn?: boolean;
 }
 
 export interface VisualPreset {
@@ -131,8 +300,42 @@ export type Stage = 'landing' | 'builder' | 'final' | 'storyboard';
 
 export type CameraEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
 
+export type ScriptElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'transition'
+  | 'centered'
+  | 'lyrics';
+
+/** 1-based, inclusive line numbers in the source script */
+export interface ScriptLineRange {
+  start: number;
+  end: number;
+}
+
+/** A Final Draft revision set, e.g. "Blue Rev." marked with `*` */
+export interface ScriptRevision {
+  id: string;
+  name?: string;
+  mark?: string;
+  color?: string;
+}
+
 export interface StoryboardShot {
     screenplayLine: string;
+    sceneNumber?: number;
+    /** The script's own scene number, e.g. `12A` */
+    sceneLabel?: string;
+    sceneHeading?: string;
+    /** Where screenplayLine comes from, for scripts parsed into structured elements */
+    scriptElement?: ScriptElementType;
+    scriptLines?: ScriptLineRange;
+    scriptRevision?: ScriptRevision;
+    /** Page of the source document, for scripts that kept their page breaks */
+    scriptPage?: number;
     shotDetails: {
       shotType: string;
       cameraAngle: string;
@@ -150,9 +353,29 @@ export interface TimelineItem {
   type: TimelineItemType;
 }
 
+/**
+ * Where a shot's seed comes from: its own, the previous shot in the same scene, or the seed
+ * locked to a character
+ */
+export type SeedRule = 'own' | 'scene' | 'character';
+
+/** Generation parameters a shot passes to the models that take them */
+export interface ShotContinuity {
+  seed?: number;
+  seedRule?: SeedRule;
+  /** The character whose locked seed the shot uses */
+  seedCharacterId?: string;
+  /** Style reference codes or image URLs */
+  styleReferences?: string[];
+  characterReference?: string;
+}
+
 export interface ShotItem extends TimelineItem {
   type: 'shot';
   data: ShotPrompt;
+  /** Location registry entry the shot plays at */
+  locationId?: string;
+  continuity?: ShotContinuity;
 }
 
 export interface BrollItem extends TimelineItem {
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseFinalDraft } from '../finalDraft';
+
+const FDX = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+    <Paragraph Type="Scene Heading" Number="4A">
+      <Text>INT. EDITING ROOM - NIGHT</Text>
+    </Paragraph>
+    <Paragraph Type="Action">
+      <Text>Mara threads a reel </Text>
+      <Text RevisionID="2">of film &amp; waits.</Text>
+    </Paragraph>
+    <Paragraph Type="Character">
+      <Text>MARA (V.O.)</Text>
+    </Paragraph>
+    <Paragraph Type="Dialogue">
+      <Text>I keep cutting it.</Text>
+    </Paragraph>
+    <Paragraph>
+      <DualDialogue>
+        <Paragraph Type="Character"><Text>JONAH</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Mara?</Text></Paragraph>
+        <Paragraph Type="Character"><Text>MARA</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Not now.</Text></Paragraph>
+      </DualDialogue>
+    </Paragraph>
+    <Paragraph Type="Cast List">
+      <Text>MARA, JONAH</Text>
+    </Paragraph>
+    <Paragraph Type="Scene Heading" Number="5">
+      <Text>EXT. ROOFTOP - DAWN</Text>
+    </Paragraph>
+    <Paragraph Type="Shot">
+      <Text>ANGLE ON THE SUN</Text>
+    </Paragraph>
+    <Paragraph Type="Transition">
+      <Text>CUT TO:</Text>
+    </Paragraph>
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center"><Text>The Cutting Room</Text></Paragraph>
+    </Content>
+  </TitlePage>
+  <Revisions ActiveSet="1" Location="7" RevisionMode="Yes" RevisionsShown="Active" ShowAllMarks="No" ShowAllSets="No">
+    <Revision Color="#000000000000" FullRevision="No" ID="1" Mark="*" Name="White Revision" PageColor="#FFFFFFFFFFFF" Style=""/>
+    <Revision Color="#00000000FFFF" FullRevision="No" ID="2" Mark="*" Name="Blue Revision" PageColor="#9999CCCCFFFF" Style=""/>
+  </Revisions>
+</FinalDraft>`;
+
+describe('parseFinalDraft', () => {
+  it('keeps the title and the scene numbers from the file', () => {
+    const doc = parseFinalDraft(FDX);
+
+    expect(doc.titlePage).toEqual({ title: 'The Cutting Room' });
+    expect(doc.scenes.map(scene => [scene.number, scene.label, scene.heading])).toEqual([
+      [1, '4A', 'INT. EDITING ROOM - NIGHT'],
+      [2, '5', 'EXT. ROOFTOP - DAWN']
+    ]);
+  });
+
+  it('types paragraphs by position and attaches revision marks', () => {
+    const [first, second] = parseFinalDraft(FDX).scenes;
+
+    expect(first.elements.map(element => [element.type, element.lines.start, element.character])).toEqual([
+      ['scene_heading', 1, undefined],
+      ['action', 2, undefined],
+      ['character', 3, 'MARA'],
+      ['dialogue', 4, 'MARA'],
+      ['character', 5, 'JONAH'],
+      ['dialogue', 6, 'JONAH'],
+      ['character', 7, 'MARA'],
+      ['dialogue', 8, 'MARA']
+    ]);
+    expect(first.elements[1]).toMatchObject({
+      text: 'Mara threads a reel of film & waits.',
+      revision: { id: '2', name: 'Blue Revision', mark: '*' }
+    });
+    expect(first.elements[2].revision).toBeUndefined();
+    expect(first.elements[6].dual).toBe(true);
+    expect(second.elements.map(element => element.type)).toEqual(['scene_heading', 'action', 'transition']);
+  });
+
+  it('rejects files that are not Final Draft documents', () => {
+    expect(() => parseFinalDraft('<html><body>Script</body></html>')).toThrow(/Final Draft/);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseFountain, looksLikeFountain, serializeFountain } from '../fountain';
+import { renderScreenplayScene, findScriptElement } from '../screenplay';
+
+const SCREENPLAY = `Title: The Cutting Room
+Author: J. Doe
+
+FADE IN:
+
+INT. EDITING ROOM - NIGHT #1#
+
+Rain streaks the window.
+MARA threads a reel of film.
+
+MARA
+(quietly)
+I keep cutting it
+until it stops hurting. [[rewrite this]]
+
+JONAH (O.S.)
+Mara?
+
+CUT TO:
+
+.ROOFTOP - DAWN #2A#
+
+/* boneyard
+INT. DELETED SCENE
+*/
+>THE END<`;
+
+describe('parseFountain', () => {
+  it('reads the title page, scene headings and explicit scene numbers', () => {
+    const doc = parseFountain(SCREENPLAY);
+
+    expect(doc.titlePage).toEqual({ title: 'The Cutting Room', author: 'J. Doe' });
+    expect(doc.scenes.map(scene => [scene.number, scene.label, scene.heading])).toEqual([
+      [1, '1', 'INT. EDITING ROOM - NIGHT'],
+      [2, '2A', 'ROOFTOP - DAWN']
+    ]);
+  });
+
+  it('types each element and keeps its source lines', () => {
+    const [first, second] = parseFountain(SCREENPLAY).scenes;
+
+    expect(first.elements.map(element => [element.type, element.lines.start, element.lines.end])).toEqual([
+      ['action', 4, 4],
+      ['scene_heading', 6, 6],
+      ['action', 8, 9],
+      ['character', 11, 11],
+      ['parenthetical', 12, 12],
+      ['dialogue', 13, 14],
+      ['character', 16, 16],
+      ['dialogue', 17, 17],
+      ['transition', 19, 19]
+    ]);
+    expect(first.elements[5]).toMatchObject({ character: 'MARA', text: 'I keep cutting it\nuntil it stops hurting.' });
+    expect(first.elements[6]).toMatchObject({ text: 'JONAH (O.S.)', character: 'JONAH' });
+    expect(second.elements.map(element => element.type)).toEqual(['scene_heading', 'centered']);
+  });
+
+  it('renders tagged elements and maps screenplay lines back to them', () => {
+    const [scene] = parseFountain(SCREENPLAY).scenes;
+
+    expect(renderScreenplayScene(scene).split('\n')).toContain('[DIALOGUE L13-14] MARA: I keep cutting it until it stops hurting.');
+    expect(findScriptElement('MARA: I keep cutting it until it stops hurting.', scene.elements)).toBe(5);
+    expect(findScriptElement('[ACTION L8-9] Rain streaks the window.', scene.elements)).toBe(2);
+    expect(findScriptElement('Something that never happens', scene.elements)).toBe(-1);
+  });
+
+  it('writes a parsed screenplay back out with the same structure', () => {
+    const doc = parseFountain(SCREENPLAY);
+    const reparsed = parseFountain(serializeFountain(doc));
+
+    expect(reparsed.titlePage).toEqual(doc.titlePage);
+    expect(reparsed.scenes.map(scene => scene.label)).toEqual(['1', '2A']);
+    expect(reparsed.scenes.map(scene => scene.elements.map(element => [element.type, element.text])))
+      .toEqual(doc.scenes.map(scene => scene.elements.map(element => [element.type, element.text])));
+  });
+
+  it('recognises pasted screenplays', () => {
+    expect(looksLikeFountain(SCREENPLAY)).toBe(true);
+    expect(looksLikeFountain('INT. KITCHEN - DAY\n\nMARA\nHello.')).toBe(true);
+    expect(looksLikeFountain('A short story about a film editor.')).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { layoutPdfLines, formatPdfText, looksLikeScreenplayLayout, pdfScreenplayToFountain, PdfText } from '../pdfText';
+import { parseFountain } from '../fountain';
+
+// Courier 12: 7.2pt per character, 12pt lines, action margin at 1.5"
+const MARGIN = 108;
+const run = (text: string, indentInches: number, row: number) => ({
+  text,
+  x: MARGIN + indentInches * 72,
+  y: 720 - row * 12,
+  width: text.length * 7.2,
+  height: 12
+});
+const page = (number: number, rows: [string, number][]) => ({
+  number,
+  lines: layoutPdfLines(rows.map(([text, indent], row) => run(text, indent, row)).filter(item => item.text))
+});
+
+const SCREENPLAY: PdfText = {
+  pages: [
+    page(1, [['THE CUTTING ROOM', 2.4], ['', 0], ['written by', 2.6], ['J. Doe', 2.7]]),
+    page(2, [
+      ['2.', 5.5],
+      ['12 INT. EDITING ROOM - NIGHT 12', -0.6],
+      ['', 0],
+      ['Rain streaks the window. Mara', 0],
+      ['threads a reel of film.', 0],
+      ['', 0],
+      ['MARA', 2.2],
+      ['(quietly)', 1.6],
+      ['I keep cutting it until it', 1],
+      ['stops hurting.', 1],
+      ['', 0],
+      ['CUT TO:', 4.6]
+    ]),
+    page(3, [
+      ['3.', 5.5],
+      ['EXT. ROOFTOP - DAWN', 0],
+      ['', 0],
+      ['JONAH', 2.2],
+      ['Mara?', 1]
+    ])
+  ]
+};
+
+describe('pdfText', () => {
+  it('joins runs into lines and keeps indentation written as spaces', () => {
+    const lines = layoutPdfLines([
+      { text: 'Rain', x: 108, y: 700, width: 28.8, height: 12 },
+      { text: 'streaks.', x: 144, y: 700.5, width: 57.6, height: 12 },
+      { text: '          MARA', x: 108, y: 676, width: 100.8, height: 12 }
+    ]);
+
+    expect(lines.map(line => line.text)).toEqual(['Rain streaks.', 'MARA']);
+    expect(lines[1].x).toBeCloseTo(180);
+  });
+
+  it('marks pages in extracted text', () => {
+    expect(formatPdfText(SCREENPLAY).split('\n').filter(line => line.startsWith('[Page'))).toEqual(['[Page 1]', '[Page 2]', '[Page 3]']);
+  });
+
+  it('detects screenplay layout from indentation but not prose', () => {
+    expect(looksLikeScreenplayLayout(SCREENPLAY)).toBe(true);
+    expect(looksLikeScreenplayLayout({
+      pages: [page(1, [['Chapter One', 0], ['MARA', 0], ['walked in and sat down.', 0], ['EXT. is how the old scripts began.', 0]])]
+    })).toBe(false);
+  });
+
+  it('rebuilds the screenplay as Fountain with scene numbers and pages', () => {
+    const doc = parseFountain(pdfScreenplayToFountain(SCREENPLAY));
+
+    expect(doc.titlePage).toEqual({ title: 'THE CUTTING ROOM' });
+    expect(doc.scenes.map(scene => [scene.label, scene.heading])).toEqual([
+      ['12', 'INT. EDITING ROOM - NIGHT'],
+      [undefined, 'EXT. ROOFTOP - DAWN']
+    ]);
+    expect(doc.scenes[0].elements.map(element => [element.type, element.page])).toEqual([
+      ['scene_heading', 2],
+      ['action', 2],
+      ['character', 2],
+      ['parenthetical', 2],
+      ['dialogue', 2],
+      ['transition', 2]
+    ]);
+    expect(doc.scenes[0].elements[4].text).toBe('I keep cutting it until it\nstops hurting.');
+    expect(doc.scenes[1].elements.map(element => [element.type, element.text, element.page])).toEqual([
+      ['scene_heading', 'EXT. ROOFTOP - DAWN', 3],
+      ['character', 'JONAH', 3],
+      ['dialogue', 'Mara?', 3]
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { describeShotSpec, fillDown, getValueForShot, hasShotOverrides, interpolateShots, resolveShotValues, setShotValue } from '../shotMatrix';
+
+describe('shotMatrix', () => {
+  it('cycles per-shot values and keeps blank cells in place', () => {
+    expect(resolveShotValues('35mm', 3)).toEqual(['35mm', '35mm', '35mm']);
+    expect(resolveShotValues(['wide', 'close up'], 3)).toEqual(['wide', 'close up', 'wide']);
+    expect(getValueForShot(['24mm', '', '85mm'], 1)).toBe('');
+    expect(getValueForShot(['24mm', '', '85mm'], 2)).toBe('85mm');
+  });
+
+  it('overrides one shot and collapses back once the shots agree again', () => {
+    const overridden = setShotValue('35mm', 3, 1, '85mm');
+    expect(overridden).toEqual(['35mm', '85mm', '35mm']);
+    expect(hasShotOverrides(overridden, 3)).toBe(true);
+    expect(setShotValue(overridden, 3, 1, '35mm')).toBe('35mm');
+    expect(fillDown(['day', 'night', 'dusk', 'dawn'], 4, 1)).toEqual(['day', 'night', 'night', 'night']);
+    expect(fillDown(['day', 'night', 'dusk', 'dawn'], 4, 0, 1)).toEqual(['day', 'day', 'dusk', 'dawn']);
+  });
+
+  it('interpolates the numbers across a range of shots', () => {
+    expect(interpolateShots(['24mm', '', '', '', '85mm'], 5, 0, 4)).toEqual(['24mm', '39mm', '55mm', '70mm', '85mm']);
+    expect(interpolateShots(['f/1.4 shallow', '', 'f/2.8 shallow'], 3, 0, 2)).toEqual(['f/1.4 shallow', 'f/2.1 shallow', 'f/2.8 shallow']);
+    expect(interpolateShots(['24mm', '', 'telephoto'], 3, 0, 2)).toBeNull();
+    expect(interpolateShots(['24mm', '', '85mm anamorphic'], 3, 0, 2)).toBeNull();
+  });
+
+  it('describes the per-shot answers as prompt clauses', () => {
+    const promptData = { cameraType: 'Arri Alexa 65', focalLength: ['24mm', '85mm'], lightingStyle: 'low-key', filmStock: '' };
+    expect(describeShotSpec(promptData, 0)).toBe('Camera: Arri Alexa 65, 24mm. Lighting: low-key.');
+    expect(describeShotSpec(promptData, 1)).toBe('Camera: Arri Alexa 65, 85mm. Lighting: low-key.');
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { JSONArrayStreamParser, parseCompleteArrayItems } from '../streamingJson';
+
+describe('JSONArrayStreamParser', () => {
+  it('emits each object as soon as it closes, across arbitrary chunk boundaries', () => {
+    const text = '```json\n[{"line":"She says \\"wait\\" {softly}","tags":["a","b"]},{"line":"Cut to black."}]\n```';
+    const parser = new JSONArrayStreamParser();
+    const emitted: any[][] = [];
+
+    for (let i = 0; i < text.length; i += 7) {
+      emitted.push(parser.push(text.slice(i, i + 7)));
+    }
+
+    expect(emitted.flat()).toEqual([
+      { line: 'She says "wait" {softly}', tags: ['a', 'b'] },
+      { line: 'Cut to black.' }
+    ]);
+    expect(emitted.filter(batch => batch.length > 0)).toHaveLength(2);
+  });
+
+  it('recovers complete items from a truncated array', () => {
+    expect(parseCompleteArrayItems('[{"id":1},{"id":2},{"id":3,"desc":"cut o')).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(parseCompleteArrayItems('not json at all')).toEqual([]);
+  });
+});
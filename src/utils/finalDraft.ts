@@ -0,0 +1,166 @@
+/**
+ * Final Draft (.fdx) import
+ * Reads the paragraphs of a Final Draft XML file into the structured screenplay model,
+ * keeping scene numbers and revision marks. Element positions are paragraph numbers.
+ */
+
+import { ScriptElementType, ScriptRevision } from '../types';
+import { ImportedScreenplay, ScreenplayDocument, ScreenplayElement, ScreenplayScene } from './screenplay';
+import { serializeFountain } from './fountain';
+
+const PARAGRAPH_TYPES: Record<string, ScriptElementType | null> = {
+  'scene heading': 'scene_heading',
+  action: 'action',
+  general: 'action',
+  shot: 'action',
+  character: 'character',
+  parenthetical: 'parenthetical',
+  dialogue: 'dialogue',
+  transition: 'transition',
+  lyrics: 'lyrics',
+  'cast list': null,
+  'new act': null,
+  'end of act': null
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const readAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeEntities(match[2]);
+  }
+  return attributes;
+};
+
+interface FDXParagraph {
+  attributes: Record<string, string>;
+  text: string;
+  /** Revision ids found on the paragraph or any of its text runs */
+  revisionIds: string[];
+}
+
+const readParagraphs = (xml: string): FDXParagraph[] => {
+  const paragraphs: FDXParagraph[] = [];
+  for (const match of xml.matchAll(/<Paragraph\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Paragraph>)/g)) {
+    const attributes = readAttributes(match[1]);
+    const body = match[2] || '';
+    const runs = Array.from(body.matchAll(/<Text\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Text>)/g));
+    const revisionIds = [attributes.RevisionID, ...runs.map(run => readAttributes(run[1]).RevisionID)]
+      .filter((id): id is string => !!id && id !== '0');
+    paragraphs.push({
+      attributes,
+      text: decodeEntities(runs.map(run => (run[2] || '').replace(/<[^>]+>/g, '')).join('')).trim(),
+      revisionIds: Array.from(new Set(revisionIds))
+    });
+  }
+  return paragraphs;
+};
+
+/**
+ * Parse Final Draft XML. Throws if the text isn't a Final Draft document.
+ */
+export const parseFinalDraft = (xml: string): ScreenplayDocument => {
+  if (!/<FinalDraft\b/.test(xml)) {
+    throw new Error('Not a Final Draft (.fdx) file.');
+  }
+
+  const revisions = new Map<string, ScriptRevision>();
+  for (const match of xml.matchAll(/<Revision\b([^>]*?)\/?>/g)) {
+    const attributes = readAttributes(match[1]);
+    if (!attributes.ID) continue;
+    revisions.set(attributes.ID, {
+      id: attributes.ID,
+      name: attributes.Name || undefined,
+      mark: attributes.Mark || undefined,
+      color: attributes.Color || undefined
+    });
+  }
+
+  const titlePage: Record<string, string> = {};
+  const titleXml = xml.match(/<TitlePage\b[\s\S]*?<\/TitlePage>/)?.[0] || '';
+  const title = readParagraphs(titleXml).find(paragraph => paragraph.text)?.text;
+  if (title) titlePage.title = title;
+
+  // Dual dialogue nests its paragraphs inside an outer one; lift them out so the paragraph scan stays flat
+  const content = (xml.match(/<Content\b[^>]*>([\s\S]*?)<\/Content>/)?.[1] || '')
+    .replace(/<Paragraph\b[^>]*>\s*<DualDialogue>([\s\S]*?)<\/DualDialogue>\s*<\/Paragraph>/g, (_match, inner: string) =>
+      inner.replace(/<Paragraph\b/g, '<Paragraph DualDialogue="Yes"')
+    );
+
+  const scenes: ScreenplayScene[] = [];
+  const pending: ScreenplayElement[] = [];
+  let character: string | undefined;
+  let dualSpeakers = 0;
+
+  readParagraphs(content).forEach((paragraph, index) => {
+    const kind = (paragraph.attributes.Type || 'action').toLowerCase();
+    const type = kind in PARAGRAPH_TYPES ? PARAGRAPH_TYPES[kind] : 'action';
+    if (!type || !paragraph.text) return;
+
+    const position = index + 1;
+    const revisionId = paragraph.revisionIds[paragraph.revisionIds.length - 1];
+    const element: ScreenplayElement = {
+      type,
+      text: paragraph.text,
+      lines: { start: position, end: position },
+      revision: revisionId ? revisions.get(revisionId) || { id: revisionId } : undefined
+    };
+
+    if (type === 'scene_heading') {
+      scenes.push({
+        number: scenes.length + 1,
+        label: paragraph.attributes.Number || undefined,
+        heading: paragraph.text,
+        lines: { start: position, end: position },
+        elements: scenes.length === 0 ? [...pending, element] : [element]
+      });
+      pending.length = 0;
+      return;
+    }
+
+    const isDual = paragraph.attributes.DualDialogue === 'Yes';
+    if (type === 'character') {
+      character = paragraph.text.replace(/\s*\([^)]*\)/g, '').trim();
+      dualSpeakers = isDual ? dualSpeakers + 1 : 0;
+      element.character = character;
+      if (dualSpeakers > 1) element.dual = true;
+    } else if (type === 'dialogue' || type === 'parenthetical') {
+      element.character = character;
+    }
+
+    const scene = scenes[scenes.length - 1];
+    if (scene) {
+      scene.elements.push(element);
+      scene.lines.end = position;
+    } else {
+      pending.push(element);
+    }
+  });
+
+  if (scenes.length === 0 && pending.length > 0) {
+    scenes.push({ number: 1, heading: '', lines: { start: pending[0].lines.start, end: pending[pending.length - 1].lines.end }, elements: [...pending] });
+  }
+  scenes.forEach(scene => {
+    scene.lines.start = scene.elements[0].lines.start;
+  });
+
+  return { titlePage, scenes };
+};
+
+/**
+ * Parse a .fdx file for the storyboard, with a Fountain rendering for the script editor
+ */
+export const importFinalDraft = (fileName: string, xml: string): ImportedScreenplay => {
+  const document = parseFinalDraft(xml);
+  return { fileName, document, text: serializeFountain(document) };
+};
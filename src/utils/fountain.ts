@@ -0,0 +1,247 @@
+/**
+ * Fountain screenplay parsing (https://fountain.io)
+ * Turns plain-text screenplays into scenes of typed elements with their source line ranges
+ */
+
+import { ScreenplayDocument, ScreenplayElement, ScreenplayScene } from './screenplay';
+
+export const SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|EXT\.?\/INT|I\/E)[.\s]/i;
+const SCENE_NUMBER = /\s*#([\w.-]+)#\s*$/;
+const TITLE_KEY = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+// A title page has to open with one of the standard keys, so `FADE IN:` stays in the script
+const TITLE_PAGE_START = /^(?:title|credit|author|authors|source|draft date|date|contact|copyright|notes|revision)\s*:/i;
+const CHARACTER_EXTENSION = /\s*\([^)]*\)/g;
+
+// Blank out boneyard /* */ and [[notes]] but keep their newlines so line numbers stay put
+const stripComments = (source: string): string =>
+  source
+    .replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ''))
+    .replace(/\[\[[\s\S]*?\]\]/g, match => match.replace(/[^\n]/g, ''));
+
+const stripEmphasis = (text: string): string =>
+  text.replace(/(\*{1,3}|_)(?=\S)(.+?)(?<=\S)\1/g, '$2').replace(/\\([*_])/g, '$1');
+
+const isCharacterCue = (line: string): boolean => {
+  const name = line.replace(/\^\s*$/, '').replace(CHARACTER_EXTENSION, '').trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[.!?:]$/.test(name);
+};
+
+/**
+ * Heuristic for pasted text: a title page, forced elements, or screenplay-style
+ * headings followed by character cues
+ */
+export const looksLikeFountain = (source: string): boolean => {
+  const lines = source.split(/\r?\n/);
+  if (TITLE_PAGE_START.test(lines[0] || '')) return true;
+  const headings = lines.filter((line, index) => SCENE_HEADING.test(line.trim()) && !(lines[index - 1] || '').trim()).length;
+  const cues = lines.filter((line, index) =>
+    isCharacterCue(line.trim()) && !(lines[index - 1] || '').trim() && !!(lines[index + 1] || '').trim()
+    && !SCENE_HEADING.test(line.trim())
+  ).length;
+  return headings > 0 && cues > 0;
+};
+
+/**
+ * Parse a Fountain screenplay. Elements before the first scene heading belong to scene 1,
+ * and a script without headings is a single scene with an empty heading.
+ */
+export const parseFountain = (source: string): ScreenplayDocument => {
+  const lines = stripComments(source.replace(/\r\n?/g, '\n')).split('\n');
+  const titlePage: Record<string, string> = {};
+  let index = 0;
+
+  // Title page: `Key: value` pairs up to the first blank line
+  if (TITLE_PAGE_START.test(lines[0] || '')) {
+    let key = '';
+    for (; index < lines.length && lines[index].trim(); index++) {
+      const match = lines[index].match(TITLE_KEY);
+      if (match && !/^\s/.test(lines[index])) {
+        key = match[1].trim().toLowerCase();
+        titlePage[key] = match[2].trim();
+      } else if (key) {
+        titlePage[key] = [titlePage[key], lines[index].trim()].filter(Boolean).join('\n');
+      }
+    }
+  }
+
+  const scenes: ScreenplayScene[] = [];
+  const pending: ScreenplayElement[] = [];
+  let scene: ScreenplayScene | null = null;
+  // Page breaks (`===`) only number the elements when the script uses them
+  const paged = lines.some(line => /^={3,}$/.test(line.trim()));
+  let page = 1;
+
+  const push = (element: ScreenplayElement) => {
+    const target = scene ? scene.elements : pending;
+    target.push({ ...element, text: stripEmphasis(element.text), page: paged ? page : undefined });
+  };
+
+  const isBlank = (at: number) => at < 0 || at >= lines.length || !lines[at].trim();
+
+  while (index < lines.length) {
+    const line = lines[index].trim();
+    const lineNumber = index + 1;
+    const afterBlank = isBlank(index - 1);
+
+    if (/^={3,}$/.test(line)) {
+      page++;
+      index++;
+      continue;
+    }
+
+    if (!line || /^#/.test(line) || /^=(?!=)/.test(line)) {
+      // Blank lines, sections and synopses carry no storyboard content
+      index++;
+      continue;
+    }
+
+    if (/^\.(?!\.)/.test(line) || (afterBlank && SCENE_HEADING.test(line))) {
+      const numbered = line.replace(/^\./, '').match(SCENE_NUMBER);
+      const heading = line.replace(/^\./, '').replace(SCENE_NUMBER, '').trim();
+      scene = {
+        number: scenes.length + 1,
+        label: numbered?.[1],
+        heading,
+        lines: { start: lineNumber, end: lineNumber },
+        elements: scenes.length === 0 ? [...pending] : []
+      };
+      pending.length = 0;
+      scenes.push(scene);
+      push({ type: 'scene_heading', text: heading, lines: { start: lineNumber, end: lineNumber } });
+      index++;
+      continue;
+    }
+
+    if (/^>.*<$/.test(line)) {
+      push({ type: 'centered', text: line.slice(1, -1).trim(), lines: { start: lineNumber, end: lineNumber } });
+      index++;
+      continue;
+    }
+
+    if (/^>/.test(line) || (afterBlank && isBlank(index + 1) && line === line.toUpperCase() && /TO:$/.test(line))) {
+      push({ type: 'transition', text: line.replace(/^>\s*/, ''), lines: { start: lineNumber, end: lineNumber } });
+      index++;
+      continue;
+    }
+
+    if (/^~/.test(line)) {
+      push({ type: 'lyrics', text: line.slice(1).trim(), lines: { start: lineNumber, end: lineNumber } });
+      index++;
+      continue;
+    }
+
+    if (/^@/.test(line) || (afterBlank && !isBlank(index + 1) && !/^!/.test(line) && isCharacterCue(line))) {
+      const dual = /\^\s*$/.test(line);
+      const cue = line.replace(/^@/, '').replace(/\^\s*$/, '').trim();
+      const character = cue.replace(CHARACTER_EXTENSION, '').trim();
+      push({ type: 'character', text: cue, lines: { start: lineNumber, end: lineNumber }, character, dual: dual || undefined });
+      index++;
+
+      // Dialogue block: parentheticals and speech until the next blank line
+      let speech: ScreenplayElement | null = null;
+      for (; index < lines.length && lines[index].trim(); index++) {
+        const text = lines[index].trim();
+        if (/^\(.*\)$/.test(text)) {
+          if (speech) push(speech);
+          speech = null;
+          push({ type: 'parenthetical', text, lines: { start: index + 1, end: index + 1 }, character });
+        } else if (speech) {
+          speech.text += `\n${text}`;
+          speech.lines.end = index + 1;
+        } else {
+          speech = { type: 'dialogue', text, lines: { start: index + 1, end: index + 1 }, character };
+        }
+      }
+      if (speech) push(speech);
+      continue;
+    }
+
+    // Action paragraph: everything up to the next blank line
+    const start = lineNumber;
+    const paragraph: string[] = [];
+    for (; index < lines.length && lines[index].trim(); index++) {
+      paragraph.push(lines[index].trim().replace(/^!/, ''));
+    }
+    push({ type: 'action', text: paragraph.join('\n'), lines: { start, end: index } });
+  }
+
+  if (scenes.length === 0 && pending.length > 0) {
+    scenes.push({ number: 1, heading: '', lines: { start: 0, end: 0 }, elements: [...pending] });
+  }
+  scenes.forEach(item => {
+    item.lines = {
+      start: item.elements[0]?.lines.start ?? item.lines.start,
+      end: item.elements[item.elements.length - 1]?.lines.end ?? item.lines.end
+    };
+  });
+
+  return { titlePage, scenes };
+};
+
+/**
+ * Write a parsed screenplay back out as Fountain, keeping explicit scene numbers and page breaks.
+ * Revision marks have no Fountain equivalent and are dropped.
+ */
+export const serializeFountain = (document: ScreenplayDocument): string => {
+  const titlePage = Object.entries(document.titlePage)
+    .map(([key, value]) => `${key.replace(/\b\w/g, char => char.toUpperCase())}: ${value.replace(/\n/g, '\n    ')}`)
+    .join('\n');
+
+  const blocks: string[] = [];
+  let page: number | undefined;
+  document.scenes.forEach(scene => {
+    let dialogue: string[] | null = null;
+    const flush = () => {
+      if (dialogue) blocks.push(dialogue.join('\n'));
+      dialogue = null;
+    };
+
+    scene.elements.forEach(element => {
+      if (element.page && page && element.page !== page) {
+        flush();
+        blocks.push('===');
+      }
+      page = element.page ?? page;
+      switch (element.type) {
+        case 'scene_heading': {
+          flush();
+          const heading = SCENE_HEADING.test(element.text) ? element.text : `.${element.text}`;
+          blocks.push(scene.label ? `${heading} #${scene.label}#` : heading);
+          break;
+        }
+        case 'character': {
+          flush();
+          const cue = isCharacterCue(element.text) ? element.text : `@${element.text}`;
+          dialogue = [element.dual ? `${cue} ^` : cue];
+          break;
+        }
+        case 'parenthetical':
+        case 'dialogue':
+          if (dialogue) {
+            dialogue.push(element.text);
+          } else {
+            blocks.push(element.text);
+          }
+          break;
+        case 'transition':
+          flush();
+          blocks.push(`> ${element.text}`);
+          break;
+        case 'centered':
+          flush();
+          blocks.push(`>${element.text}<`);
+          break;
+        case 'lyrics':
+          flush();
+          blocks.push(element.text.split('\n').map(line => `~${line}`).join('\n'));
+          break;
+        default:
+          flush();
+          blocks.push(element.type === 'action' && isCharacterCue(element.text.split('\n')[0]) ? `!${element.text}` : element.text);
+      }
+    });
+    flush();
+  });
+
+  return [titlePage, ...blocks].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,243 @@
+/**
+ * PDF text extraction
+ * Reads positioned text out of PDFs in the browser with pdf.js, keeping page numbers,
+ * and recognises screenplay layouts by their indentation so they can be storyboarded as Fountain
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { SCENE_HEADING } from './fountain';
+
+export interface PdfTextItem {
+  text: string;
+  /** Baseline origin in PDF points, measured from the bottom-left corner of the page */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+}
+
+export interface PdfPage {
+  /** Physical page number, starting at 1 */
+  number: number;
+  lines: PdfLine[];
+}
+
+export interface PdfText {
+  pages: PdfPage[];
+}
+
+type LayoutColumn = 'margin' | 'dialogue' | 'parenthetical' | 'cue' | 'right';
+
+const POINTS_PER_INCH = 72;
+const PAGE_FURNITURE = [
+  /^\d+[A-Z]?\.?$/, // page numbers
+  /^\(?MORE\)?$/i,
+  /^(?:\d+[A-Z]?\s+)?\(?CONTINUED\)?:?(?:\s*\(\d+\))?(?:\s+\d+[A-Z]?)?$/i
+];
+const NUMBERED_HEADING = /^(\d+[A-Z]?)\s+(.+?)(?:\s+\1)?$/;
+const TRANSITION = /(?:TO:|^FADE (?:OUT|TO BLACK)\.?)$/;
+
+const isUpperCase = (text: string): boolean => /[A-Z]/.test(text) && text === text.toUpperCase();
+
+/**
+ * Group a page's text runs into lines, top to bottom, joining the runs of a line left to right
+ */
+export const layoutPdfLines = (items: PdfTextItem[]): PdfLine[] => {
+  const rows: { y: number; height: number; items: PdfTextItem[] }[] = [];
+  items
+    .filter(item => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+    .forEach(item => {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(row.y - item.y) <= Math.max(2, Math.min(row.height, item.height) / 2)) {
+        row.items.push(item);
+      } else {
+        rows.push({ y: item.y, height: item.height, items: [item] });
+      }
+    });
+
+  return rows.map(row => {
+    const runs = row.items.sort((a, b) => a.x - b.x);
+    let text = '';
+    let end = runs[0].x;
+    runs.forEach(run => {
+      // A visible gap between runs is a word break the PDF didn't encode as a space
+      if (text && run.x - end > run.height * 0.2 && !/\s$/.test(text) && !/^\s/.test(run.text)) text += ' ';
+      text += run.text;
+      end = run.x + run.width;
+    });
+    // Some writers indent with spaces inside a run that starts at the margin
+    const first = runs[0];
+    const leadingSpaces = first.text.length - first.text.trimStart().length;
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: first.x + leadingSpaces * (first.width / first.text.length),
+      y: row.y
+    };
+  });
+};
+
+/**
+ * Extract the text of every page of a PDF. pdf.js is loaded on first use.
+ * Scanned PDFs without a text layer come back with empty pages.
+ */
+export const extractPdfText = async (data: ArrayBuffer): Promise<PdfText> => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const document = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  try {
+    const pages: PdfPage[] = [];
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter((item): item is TextItem => 'str' in item)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3])
+        }));
+      pages.push({ number, lines: layoutPdfLines(items) });
+      page.cleanup();
+    }
+    return { pages };
+  } finally {
+    await document.destroy();
+  }
+};
+
+/**
+ * Plain text with a `[Page N]` marker before each page that has text
+ */
+export const formatPdfText = (pdf: PdfText): string =>
+  pdf.pages
+    .filter(page => page.lines.length > 0)
+    .map(page => `[Page ${page.number}]\n${page.lines.map(line => line.text).join('\n')}`)
+    .join('\n\n');
+
+// The left edge most lines start from, ignoring stray runs such as scene numbers in the gutter
+const findLeftMargin = (lines: PdfLine[]): number => {
+  const counts = new Map<number, number>();
+  lines.forEach(line => {
+    const bucket = Math.round(line.x / 4) * 4;
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  });
+  const threshold = Math.max(2, lines.length * 0.05);
+  const common = Array.from(counts.entries()).filter(([, count]) => count >= threshold).map(([x]) => x);
+  return common.length > 0 ? Math.min(...common) : Math.min(...lines.map(line => line.x));
+};
+
+// Standard screenplay indents from the action margin: dialogue 1", parentheticals 1.5", cues 2.2"
+const columnOf = (line: PdfLine, margin: number): LayoutColumn => {
+  const indent = (line.x - margin) / POINTS_PER_INCH;
+  if (indent < 0.5) return 'margin';
+  if (indent < 1.3) return 'dialogue';
+  if (indent < 1.9) return 'parenthetical';
+  if (indent < 3.2) return 'cue';
+  return 'right';
+};
+
+interface LaidOutLine extends PdfLine {
+  page: number;
+  column: LayoutColumn;
+}
+
+const layOut = (pdf: PdfText): LaidOutLine[] => {
+  const lines = pdf.pages.flatMap(page => page.lines);
+  if (lines.length === 0) return [];
+  const margin = findLeftMargin(lines);
+  return pdf.pages.flatMap(page =>
+    page.lines
+      .filter(line => !PAGE_FURNITURE.some(pattern => pattern.test(line.text)))
+      .map(line => ({ ...line, page: page.number, column: columnOf(line, margin) }))
+  );
+};
+
+const readSceneHeading = (text: string): { heading: string; label?: string } | null => {
+  if (SCENE_HEADING.test(text)) return { heading: text };
+  const numbered = text.match(NUMBERED_HEADING);
+  return numbered && SCENE_HEADING.test(numbered[2]) ? { heading: numbered[2], label: numbered[1] } : null;
+};
+
+const isCue = (line: LaidOutLine, next: LaidOutLine | undefined): boolean =>
+  line.column === 'cue' && isUpperCase(line.text) && !!next && next.page === line.page
+  && (next.column === 'dialogue' || next.column === 'parenthetical');
+
+/**
+ * True when the PDF is laid out like a screenplay: scene headings at the margin and
+ * character cues indented over dialogue
+ */
+export const looksLikeScreenplayLayout = (pdf: PdfText): boolean => {
+  const lines = layOut(pdf);
+  const headings = lines.filter(line => line.column === 'margin' && readSceneHeading(line.text)).length;
+  const cues = lines.filter((line, index) => isCue(line, lines[index + 1])).length;
+  return cues >= 2 && (headings > 0 || cues >= 5);
+};
+
+/**
+ * Rebuild a screenplay PDF as Fountain from its indentation. Pages become `===` breaks so
+ * parsed elements keep their page, and a first page without scenes becomes the title page.
+ */
+export const pdfScreenplayToFountain = (pdf: PdfText): string => {
+  const lines = layOut(pdf);
+  const gaps = lines
+    .slice(1)
+    .map((line, index) => (line.page === lines[index].page ? lines[index].y - line.y : 0))
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  const lineSpacing = gaps[Math.floor(gaps.length / 2)] || 12;
+
+  const firstPage = pdf.pages[0]?.number;
+  const titleLines = lines.filter(line => line.page === firstPage);
+  const hasTitlePage = pdf.pages.length > 1 && titleLines.length > 0
+    && !titleLines.some((line, index) => readSceneHeading(line.text) || isCue(line, titleLines[index + 1]));
+
+  const output: string[] = hasTitlePage ? [`Title: ${titleLines[0].text}`] : [];
+  let page = firstPage;
+  let previous: LaidOutLine | null = null;
+  let block: 'action' | 'dialogue' | 'other' | null = null;
+
+  lines.forEach((line, index) => {
+    if (hasTitlePage && line.page === firstPage) return;
+    // Emit a break for every page passed, including blank ones, so page numbers stay physical
+    for (; page < line.page; page++) output.push('', '===');
+    if (previous && previous.page !== line.page) block = null;
+
+    const paragraphBreak = !previous || previous.page !== line.page || previous.y - line.y > lineSpacing * 1.5;
+    previous = line;
+    const heading = line.column === 'margin' ? readSceneHeading(line.text) : null;
+
+    if (heading) {
+      output.push('', heading.label ? `${heading.heading} #${heading.label}#` : heading.heading);
+      block = 'other';
+    } else if (isCue(line, lines[index + 1])) {
+      output.push('', line.text);
+      block = 'dialogue';
+    } else if (block === 'dialogue' && !paragraphBreak && (line.column === 'dialogue' || line.column === 'parenthetical')) {
+      output.push(line.text);
+    } else if (line.column !== 'margin' && TRANSITION.test(line.text)) {
+      output.push('', `> ${line.text}`);
+      block = 'other';
+    } else if (block === 'action' && !paragraphBreak) {
+      output.push(line.text);
+    } else {
+      // Force all-caps action so Fountain doesn't read it as a character cue
+      output.push('', isUpperCase(line.text) && !TRANSITION.test(line.text) ? `!${line.text}` : line.text);
+      block = 'action';
+    }
+  });
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
@@ -0,0 +1,106 @@
+/**
+ * Structured screenplay model shared by the script importers (Fountain, Final Draft),
+ * and the tagged rendering the storyboard prompt uses to point shots back into the script
+ */
+
+import { ScriptElementType, ScriptLineRange, ScriptRevision } from '../types';
+
+export interface ScreenplayElement {
+  type: ScriptElementType;
+  text: string;
+  /** Source lines for Fountain, paragraph positions for Final Draft */
+  lines: ScriptLineRange;
+  /** Speaking character, for dialogue and parentheticals */
+  character?: string;
+  /** Second speaker of a dual-dialogue pair */
+  dual?: boolean;
+  /** Revision set that last changed the element */
+  revision?: ScriptRevision;
+  /** Page the element starts on, when the source kept its page breaks */
+  page?: number;
+}
+
+export interface ScreenplayScene {
+  /** Position in the script, starting at 1 */
+  number: number;
+  /** The script's own scene number (e.g. `12A`), if it has one */
+  label?: string;
+  heading: string;
+  lines: ScriptLineRange;
+  elements: ScreenplayElement[];
+}
+
+export interface ScreenplayDocument {
+  titlePage: Record<string, string>;
+  scenes: ScreenplayScene[];
+}
+
+/**
+ * A screenplay imported from a file, with the editable Fountain text shown in the script box.
+ * The document is only used while `text` is left as imported.
+ */
+export interface ImportedScreenplay {
+  fileName: string;
+  document: ScreenplayDocument;
+  text: string;
+}
+
+const ELEMENT_TAG = /^\s*\[([A-Z_]+) L(\d+)(?:-(\d+))?\]\s*/;
+const SPEAKER_PREFIX = /^[A-Z][A-Z0-9 .'-]*:\s+/;
+
+const RENDERED_TYPES: ScriptElementType[] = ['scene_heading', 'action', 'dialogue', 'parenthetical', 'transition', 'centered', 'lyrics'];
+
+/**
+ * Tells the model how to quote tagged elements back in `screenplayLine`
+ */
+export const STRUCTURED_SCRIPT_NOTE =
+  'The script is split into elements tagged [TYPE Lstart-end]. Set each shot\'s screenplayLine to the text of the element it shows, without the tag.';
+
+const formatLines = (lines: ScriptLineRange): string =>
+  lines.end > lines.start ? `L${lines.start}-${lines.end}` : `L${lines.start}`;
+
+/**
+ * One tagged line per element, e.g. `[DIALOGUE L18] MARA: I keep cutting it.`
+ * Character cues are folded into the dialogue and parentheticals they introduce.
+ */
+export const renderScreenplayScene = (scene: ScreenplayScene): string =>
+  scene.elements
+    .filter(element => RENDERED_TYPES.includes(element.type))
+    .map(element => {
+      const speaker = element.character ? `${element.character}: ` : '';
+      return `[${element.type.toUpperCase()} ${formatLines(element.lines)}] ${speaker}${element.text.replace(/\n/g, ' ')}`;
+    })
+    .join('\n');
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Remove an element tag the model echoed back into a screenplay line
+ */
+export const stripElementTag = (line: string): string => line.replace(ELEMENT_TAG, '');
+
+/**
+ * Find the element a shot's screenplay line quotes, searching forward from `fromIndex`
+ * so shots stay in script order. Uses the echoed tag if there is one, then the text.
+ * Returns -1 when nothing matches.
+ */
+export const findScriptElement = (screenplayLine: string, elements: ScreenplayElement[], fromIndex: number = 0): number => {
+  const tag = (screenplayLine || '').match(ELEMENT_TAG);
+  if (tag) {
+    const line = Number(tag[2]);
+    const tagged = elements.findIndex(element => element.lines.start <= line && line <= element.lines.end);
+    if (tagged !== -1) return tagged;
+  }
+
+  const text = normalize(stripElementTag(screenplayLine || '').replace(SPEAKER_PREFIX, ''));
+  if (!text) return -1;
+  const key = text.slice(0, 40);
+  const candidates = elements
+    .map((element, index) => ({ index, text: normalize(element.text), type: element.type }))
+    .filter(candidate => candidate.type !== 'character' && candidate.text);
+
+  const match = (from: number) => candidates.find(candidate =>
+    candidate.index >= from && (candidate.text.includes(key) || (candidate.text.length >= 12 && text.includes(candidate.text)))
+  );
+  return (match(fromIndex) || match(0))?.index ?? -1;
+};
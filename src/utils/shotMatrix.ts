@@ -0,0 +1,140 @@
+/**
+ * Per-shot values for the builder's answers. A `PromptData` field holding a single string
+ * applies to every shot; an array holds one value per shot and cycles when there are fewer
+ * values than shots, so a multi-select answer alternates across the sequence.
+ */
+
+import { PromptData } from '../types';
+
+type FieldValue = string | string[] | undefined;
+
+export type ShotMatrixField = keyof Omit<PromptData, 'useScript' | 'scriptText'>;
+
+/** Columns of the shot matrix, in the order a prompt reads them */
+export const SHOT_MATRIX_FIELDS: { field: ShotMatrixField; label: string }[] = [
+  { field: 'shotTypes', label: 'Shot type' },
+  { field: 'framing', label: 'Framing' },
+  { field: 'cameraType', label: 'Camera' },
+  { field: 'focalLength', label: 'Lens' },
+  { field: 'depthOfField', label: 'Depth of field' },
+  { field: 'visualCameraMovement', label: 'Movement' },
+  { field: 'mainCharacterBlocking', label: 'Main blocking' },
+  { field: 'secondaryCharacterBlocking', label: 'Secondary blocking' },
+  { field: 'antagonistBlocking', label: 'Antagonist blocking' },
+  { field: 'lightingStyle', label: 'Lighting' },
+  { field: 'lightingDetails', label: 'Lighting details' },
+  { field: 'atmosphere', label: 'Atmosphere' },
+  { field: 'filmStock', label: 'Film stock' },
+  { field: 'filmEmulation', label: 'Film emulation' },
+  { field: 'colorGrading', label: 'Grade' },
+  { field: 'colorPalette', label: 'Palette' },
+  { field: 'emotion', label: 'Emotion' },
+  { field: 'storyBeat', label: 'Story beat' }
+];
+
+// Prompt clauses built from the per-shot values, each listing its fields in order
+const SHOT_SPEC: { label: string; fields: ShotMatrixField[] }[] = [
+  { label: 'Camera', fields: ['cameraType', 'focalLength', 'depthOfField', 'framing', 'visualCameraMovement'] },
+  { label: 'Blocking', fields: ['mainCharacterBlocking', 'secondaryCharacterBlocking', 'antagonistBlocking'] },
+  { label: 'Lighting', fields: ['lightingStyle', 'lightingDetails', 'atmosphere'] },
+  { label: 'Film', fields: ['filmStock', 'filmEmulation'] },
+  { label: 'Color', fields: ['colorGrading', 'colorPalette'] },
+  { label: 'Mood', fields: ['emotion', 'storyBeat'] }
+];
+
+const NUMBER = /-?\d+(?:\.\d+)?/g;
+
+/**
+ * How many shots the builder answers describe
+ */
+export const shotCountOf = (promptData: Pick<PromptData, 'numberOfShots'>): number => {
+  const value = Array.isArray(promptData.numberOfShots) ? promptData.numberOfShots[0] : promptData.numberOfShots;
+  return parseInt(value || '', 10) || 3;
+};
+
+/**
+ * The value a field takes for one shot. Blank cells stay blank rather than shifting the
+ * values after them onto the wrong shots.
+ */
+export const getValueForShot = (value: FieldValue, shotIndex: number): string => {
+  if (!value) return '';
+  if (!Array.isArray(value)) return value;
+  if (value.length === 0) return '';
+  return value[shotIndex % value.length] || '';
+};
+
+/**
+ * A field's value for each of `shots` shots
+ */
+export const resolveShotValues = (value: FieldValue, shots: number): string[] =>
+  Array.from({ length: shots }, (_, index) => getValueForShot(value, index));
+
+// A single string when every shot agrees, so untouched columns keep their simple form
+const collapse = (values: string[]): string | string[] =>
+  values.every(value => value === values[0]) ? values[0] || '' : values;
+
+/**
+ * Whether a field differs between shots
+ */
+export const hasShotOverrides = (value: FieldValue, shots: number): boolean =>
+  Array.isArray(collapse(resolveShotValues(value, shots)));
+
+/**
+ * Override a field for one shot; the other shots keep the value they had
+ */
+export const setShotValue = (value: FieldValue, shots: number, shotIndex: number, cell: string): string | string[] => {
+  const values = resolveShotValues(value, shots);
+  values[shotIndex] = cell;
+  return collapse(values);
+};
+
+/**
+ * Copy the value of shot `from` down to every shot up to and including `to` (the last shot by default)
+ */
+export const fillDown = (value: FieldValue, shots: number, from: number, to: number = shots - 1): string | string[] => {
+  const values = resolveShotValues(value, shots);
+  for (let index = from + 1; index <= Math.min(to, shots - 1); index++) values[index] = values[from];
+  return collapse(values);
+};
+
+/**
+ * Step the numbers in a field evenly from shot `from` to shot `to`, e.g. `24mm` to `85mm`
+ * across five shots gives `24mm, 39mm, 55mm, 70mm, 85mm`. Both ends must read the same
+ * apart from their numbers; otherwise there is nothing to interpolate and null comes back.
+ */
+export const interpolateShots = (value: FieldValue, shots: number, from: number, to: number): string | string[] | null => {
+  const values = resolveShotValues(value, shots);
+  const [start, end] = [values[from], values[to]];
+  if (start === undefined || end === undefined || to <= from) return null;
+
+  const startNumbers = start.match(NUMBER) || [];
+  const endNumbers = end.match(NUMBER) || [];
+  if (startNumbers.length === 0 || startNumbers.length !== endNumbers.length) return null;
+  if (start.replace(NUMBER, '#') !== end.replace(NUMBER, '#')) return null;
+
+  const decimals = (text: string): number => text.split('.')[1]?.length || 0;
+  for (let index = from + 1; index < to; index++) {
+    const step = (index - from) / (to - from);
+    let position = 0;
+    values[index] = start.replace(NUMBER, () => {
+      const [a, b] = [startNumbers[position], endNumbers[position]];
+      position++;
+      const interpolated = parseFloat(a) + (parseFloat(b) - parseFloat(a)) * step;
+      return interpolated.toFixed(Math.max(decimals(a), decimals(b)));
+    });
+  }
+  return collapse(values);
+};
+
+/**
+ * The camera, blocking, lighting, film, color and mood answers for one shot, as prompt
+ * clauses: `Camera: Arri Alexa 65, 35mm cinematic. Lighting: chiaroscuro contrast.`
+ */
+export const describeShotSpec = (promptData: Partial<PromptData>, shotIndex: number): string =>
+  SHOT_SPEC
+    .map(({ label, fields }) => {
+      const values = fields.map(field => getValueForShot(promptData[field] as FieldValue, shotIndex).trim()).filter(Boolean);
+      return values.length > 0 ? `${label}: ${values.join(', ')}.` : '';
+    })
+    .filter(Boolean)
+    .join(' ');
@@ -0,0 +1,79 @@
+/**
+ * Incremental JSON helpers for streamed AI responses
+ */
+
+/**
+ * Pulls complete objects out of a JSON array as its text streams in, so items can be
+ * rendered before the closing bracket arrives. Tolerates markdown fences and leading prose.
+ */
+export class JSONArrayStreamParser<T = any> {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private itemStart = -1;
+  private items: T[] = [];
+
+  /**
+   * Append a chunk and return the items completed by it
+   */
+  push(chunk: string): T[] {
+    this.buffer += chunk;
+    const completed: T[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        // Only strings inside the array count; quotes in leading prose are ignored
+        this.inString = this.depth > 0;
+      } else if (char === '[' || char === '{') {
+        if (char === '{' && this.depth === 1) {
+          this.itemStart = this.position;
+        }
+        this.depth++;
+      } else if ((char === ']' || char === '}') && this.depth > 0) {
+        this.depth--;
+        if (char === '}' && this.depth === 1 && this.itemStart !== -1) {
+          try {
+            completed.push(JSON.parse(this.buffer.slice(this.itemStart, this.position + 1)));
+          } catch (error) {
+            // Malformed item; skip it and keep streaming
+          }
+          this.itemStart = -1;
+        }
+      }
+    }
+
+    this.items.push(...completed);
+    return completed;
+  }
+
+  /**
+   * All items parsed so far
+   */
+  getItems(): T[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * Recover every complete object from a possibly truncated JSON array
+ */
+export const parseCompleteArrayItems = <T = any,>(text: string): T[] => {
+  const parser = new JSONArrayStreamParser<T>();
+  parser.push(text);
+  return parser.getItems();
+};